@@ -0,0 +1,76 @@
+import { cn } from "@/lib/utils";
+import type { BacktestResult } from "./types";
+
+const percent = (value: number | null | undefined, digits = 2) =>
+  value === null || value === undefined ? "—" : `${(value * 100).toFixed(digits)}%`;
+const ratio = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : value.toFixed(2);
+const currency = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 }).format(value);
+
+// Higher is better unless marked otherwise; used to highlight the best run
+interface MetricRow {
+  label: string;
+  value: (result: BacktestResult) => number | null | undefined;
+  format: (value: number | null | undefined) => string;
+  lowerIsBetter?: boolean;
+}
+
+const METRICS: MetricRow[] = [
+  { label: "Total return", value: (r) => r.totalReturn, format: (v) => percent(v) },
+  { label: "Sharpe ratio", value: (r) => r.sharpeRatio, format: ratio },
+  { label: "Sortino ratio", value: (r) => r.sortinoRatio, format: ratio },
+  { label: "Calmar ratio", value: (r) => r.calmarRatio, format: ratio },
+  { label: "Max drawdown", value: (r) => r.maxDrawdown, format: (v) => percent(v), lowerIsBetter: true },
+  { label: "Volatility", value: (r) => r.volatility, format: (v) => percent(v), lowerIsBetter: true },
+  { label: "Trades", value: (r) => r.totalTrades, format: (v) => String(v ?? 0) },
+  { label: "Win rate", value: (r) => r.winRate, format: (v) => percent(v, 1) },
+  { label: "Profit factor", value: (r) => r.profitFactor, format: ratio },
+  { label: "Expectancy", value: (r) => r.expectancy, format: (v) => percent(v) },
+  { label: "Avg P&L per trade", value: (r) => r.averageReturn, format: (v) => currency(v ?? 0) },
+  { label: "Avg holding (bars)", value: (r) => r.averageHoldingPeriod, format: (v) => (v ?? 0).toFixed(1) },
+  { label: "Exposure time", value: (r) => r.exposureTime, format: (v) => percent(v, 1) },
+  { label: "Alpha", value: (r) => r.benchmark?.alpha, format: (v) => percent(v) },
+  { label: "Beta", value: (r) => r.benchmark?.beta, format: ratio },
+  { label: "Information ratio", value: (r) => r.benchmark?.informationRatio, format: ratio },
+  { label: "Tracking error", value: (r) => r.benchmark?.trackingError, format: (v) => percent(v), lowerIsBetter: true },
+  { label: "Up capture", value: (r) => r.benchmark?.upCapture, format: ratio },
+  { label: "Down capture", value: (r) => r.benchmark?.downCapture, format: ratio, lowerIsBetter: true },
+];
+
+export default function MetricsTable({ runs }: { runs: { label: string; result: BacktestResult }[] }) {
+  const benchmark = runs.find((run) => run.result.benchmark)?.result.benchmark?.symbol;
+
+  return (
+    <table className="w-full text-sm" data-testid="backtest-metrics-table">
+      <thead>
+        <tr className="text-muted-foreground text-left">
+          <th className="py-1 font-medium">Metric{benchmark ? ` (vs ${benchmark})` : ""}</th>
+          {runs.map((run, i) => (
+            <th key={i} className="py-1 font-medium">{run.label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {METRICS.map((metric) => {
+          const values = runs.map((run) => metric.value(run.result));
+          const comparable = values.filter((v): v is number => v !== null && v !== undefined);
+          const best =
+            runs.length > 1 && comparable.length > 1
+              ? (metric.lowerIsBetter ? Math.min : Math.max)(...comparable)
+              : null;
+          return (
+            <tr key={metric.label} className="border-t">
+              <td className="py-1">{metric.label}</td>
+              {values.map((value, i) => (
+                <td key={i} className={cn("py-1", value === best && "font-semibold text-success")}>
+                  {metric.format(value)}
+                </td>
+              ))}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
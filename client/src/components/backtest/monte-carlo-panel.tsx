@@ -0,0 +1,110 @@
+type PercentileBand = "p5" | "p25" | "p50" | "p75" | "p95";
+
+interface MonteCarloDistribution {
+  mean: number;
+  min: number;
+  max: number;
+  percentiles: Record<PercentileBand, number>;
+  histogram: { from: number; to: number; count: number }[];
+}
+
+export interface MonteCarloResult {
+  method: "shuffle" | "bootstrap";
+  simulations: number;
+  trades: number;
+  initialCapital: number;
+  observed: { finalEquity: number; maxDrawdown: number; longestLosingStreak: number };
+  finalEquity: MonteCarloDistribution;
+  maxDrawdown: MonteCarloDistribution;
+  longestLosingStreak: MonteCarloDistribution;
+  probabilityOfLoss: number;
+  tailDrawdown: number;
+}
+
+const BANDS: PercentileBand[] = ["p5", "p25", "p50", "p75", "p95"];
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value);
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatCount = (value: number) => value.toFixed(1);
+
+function Histogram({ distribution, format }: { distribution: MonteCarloDistribution; format: (value: number) => string }) {
+  const peak = Math.max(...distribution.histogram.map((bin) => bin.count));
+  return (
+    <div>
+      <div className="flex items-end gap-px h-16">
+        {distribution.histogram.map((bin, i) => (
+          <div
+            key={i}
+            className="flex-1 bg-primary/60 rounded-t"
+            style={{ height: `${(bin.count / peak) * 100}%` }}
+            title={`${format(bin.from)} – ${format(bin.to)}: ${bin.count}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+        <span>{format(distribution.min)}</span>
+        <span>{format(distribution.max)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function MonteCarloPanel({ result }: { result: MonteCarloResult }) {
+  const rows = [
+    { label: "Final equity", distribution: result.finalEquity, observed: result.observed.finalEquity, format: formatCurrency },
+    { label: "Max drawdown", distribution: result.maxDrawdown, observed: result.observed.maxDrawdown, format: formatPercent },
+    { label: "Longest losing streak", distribution: result.longestLosingStreak, observed: result.observed.longestLosingStreak, format: formatCount },
+  ];
+
+  return (
+    <div className="space-y-4" data-testid="monte-carlo-panel">
+      <div className="flex flex-wrap gap-6 text-sm">
+        <div>
+          <p className="text-muted-foreground">Paths</p>
+          <p className="font-semibold">{result.simulations} × {result.trades} trades ({result.method})</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Probability of loss</p>
+          <p className="font-semibold">{formatPercent(result.probabilityOfLoss)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">5th-percentile drawdown</p>
+          <p className="font-semibold text-destructive">{formatPercent(result.tailDrawdown)}</p>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-muted-foreground text-left">
+            <th className="py-1 font-medium">Metric</th>
+            <th className="py-1 font-medium">Backtest</th>
+            {BANDS.map((band) => (
+              <th key={band} className="py-1 font-medium">{band.toUpperCase()}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="border-t">
+              <td className="py-1">{row.label}</td>
+              <td className="py-1 font-medium">{row.format(row.observed)}</td>
+              {BANDS.map((band) => (
+                <td key={band} className="py-1">{row.format(row.distribution.percentiles[band])}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {rows.map((row) => (
+          <div key={row.label}>
+            <p className="text-sm text-muted-foreground mb-1">{row.label}</p>
+            <Histogram distribution={row.distribution} format={row.format} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
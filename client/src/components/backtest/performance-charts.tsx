@@ -0,0 +1,66 @@
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { BacktestResult } from "./types";
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString();
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+
+// Equity and drawdown from the peak so far, one point per bar
+export function toPerformanceSeries(equityCurve: BacktestResult["equityCurve"]) {
+  let peak = 0;
+  return equityCurve.map((point) => {
+    peak = Math.max(peak, point.equity);
+    return {
+      time: formatDate(point.timestamp),
+      equity: point.equity,
+      drawdown: peak > 0 ? -((peak - point.equity) / peak) * 100 : 0,
+    };
+  });
+}
+
+export default function PerformanceCharts({ result }: { result: BacktestResult }) {
+  const series = toPerformanceSeries(result.equityCurve);
+
+  return (
+    <div className="space-y-4" data-testid="backtest-performance-charts">
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={series} syncId="backtest">
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="time" minTickGap={40} />
+            <YAxis domain={["auto", "auto"]} tickFormatter={formatCurrency} width={80} />
+            <Tooltip formatter={(value: number) => [formatCurrency(value), "Equity"]} />
+            <Line type="monotone" dataKey="equity" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={series} syncId="backtest">
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="time" minTickGap={40} />
+            <YAxis tickFormatter={(value: number) => `${value.toFixed(0)}%`} width={80} />
+            <Tooltip formatter={(value: number) => [`${value.toFixed(2)}%`, "Drawdown"]} />
+            <Area
+              type="monotone"
+              dataKey="drawdown"
+              stroke="hsl(var(--destructive))"
+              fill="hsl(var(--destructive))"
+              fillOpacity={0.2}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
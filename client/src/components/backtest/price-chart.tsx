@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { BacktestResult } from "./types";
+
+interface StoredBar {
+  timestamp: string;
+  close: number;
+}
+
+// Closes from the bar store with each trade's entry and exit marked on its bar
+export default function PriceChart({ result }: { result: BacktestResult }) {
+  const dataset = result.dataset;
+  const params = new URLSearchParams({ start: dataset?.start ?? "", end: dataset?.end ?? "" });
+  const { data, isLoading, error } = useQuery<{ bars: StoredBar[] }>({
+    queryKey: ["/api/bars", `${dataset?.symbol}?${params}`],
+    enabled: Boolean(dataset?.start && dataset?.end),
+  });
+
+  if (!dataset?.start) {
+    return <p className="text-sm text-muted-foreground">No bars in this run</p>;
+  }
+  if (isLoading) {
+    return <div className="h-72 bg-muted rounded animate-pulse" />;
+  }
+  if (error || !data) {
+    return <p className="text-sm text-destructive">Could not load price bars</p>;
+  }
+
+  const entries = new Map<number, number>();
+  const exits = new Map<number, number>();
+  for (const trade of result.trades) {
+    entries.set(new Date(trade.entryTime).getTime(), trade.entryPrice);
+    exits.set(new Date(trade.exitTime).getTime(), trade.exitPrice);
+  }
+  const series = data.bars.map((bar) => {
+    const time = new Date(bar.timestamp).getTime();
+    return {
+      time: new Date(bar.timestamp).toLocaleDateString(),
+      close: bar.close,
+      entry: entries.get(time) ?? null,
+      exit: exits.get(time) ?? null,
+    };
+  });
+
+  return (
+    <div className="h-72" data-testid="backtest-price-chart">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={series}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="time" minTickGap={40} />
+          <YAxis domain={["auto", "auto"]} tickFormatter={(value: number) => `$${value.toFixed(0)}`} width={60} />
+          <Tooltip formatter={(value: number, name: string) => [`$${value.toFixed(2)}`, name]} />
+          <Line type="monotone" dataKey="close" name="Close" stroke="hsl(var(--primary))" dot={false} />
+          <Scatter dataKey="entry" name="Entry" fill="hsl(var(--success))" shape="triangle" />
+          <Scatter dataKey="exit" name="Exit" fill="hsl(var(--destructive))" shape="diamond" />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+// Response of POST /api/strategies/validate-rules
+export interface RuleValidation {
+  valid: boolean;
+  errors: { ruleType: "entry" | "exit"; message: string; position: number }[];
+  unknownIndicators: string[];
+  unsupportedOperators: string[];
+  indicators: string[];
+  warmupBars: number;
+}
+
+const VALIDATION_DELAY_MS = 400;
+
+// Validate both rules on the server once typing pauses
+export function useRuleValidation(entryRules: string, exitRules: string) {
+  const [validation, setValidation] = useState<RuleValidation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!entryRules.trim() || !exitRules.trim()) {
+      setValidation(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiRequest("POST", "/api/strategies/validate-rules", { entryRules, exitRules });
+        const result = (await response.json()) as RuleValidation;
+        if (!cancelled) {
+          setValidation(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    }, VALIDATION_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [entryRules, exitRules]);
+
+  return { validation, error };
+}
+
+interface RuleEditorProps {
+  label: string;
+  ruleType: "entry" | "exit";
+  value: string;
+  onChange: (value: string) => void;
+  validation: RuleValidation | null;
+}
+
+export default function RuleEditor({ label, ruleType, value, onChange, validation }: RuleEditorProps) {
+  const issues = validation?.errors.filter((issue) => issue.ruleType === ruleType) ?? [];
+  const status = !validation ? null : issues.length > 0 ? "invalid" : "valid";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm text-muted-foreground">{label}</label>
+        {status && (
+          <span className={cn("text-xs", status === "valid" ? "text-success" : "text-destructive")}>
+            {status === "valid" ? "Valid" : `${issues.length} problem${issues.length === 1 ? "" : "s"}`}
+          </span>
+        )}
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={2}
+        spellCheck={false}
+        className={cn("w-full p-2 border rounded font-mono text-sm", status === "invalid" && "border-destructive")}
+        data-testid={`input-${ruleType}-rule`}
+      />
+      {issues.map((issue, i) => (
+        <div key={i} className="mt-1 text-xs text-destructive">
+          {/* Caret under the character the parser stopped at */}
+          <pre className="font-mono whitespace-pre overflow-x-auto">
+            {value}
+            {"\n"}
+            {" ".repeat(Math.max(0, Math.min(issue.position, value.length)))}^
+          </pre>
+          <p>{issue.message}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ruleSourceToString } from "@shared/backtest";
+import MetricsTable from "./metrics-table";
+import type { SavedBacktestRun } from "./types";
+
+const COLORS = ["hsl(var(--primary))", "#f59e0b", "#10b981", "#8b5cf6"];
+
+// Cumulative return per run, merged on timestamp so runs over different periods still line up
+function toComparisonSeries(runs: SavedBacktestRun[]) {
+  const byTime = new Map<number, Record<string, number | string>>();
+  runs.forEach((run) => {
+    const initial = run.result.equityCurve[0]?.equity ?? 0;
+    for (const point of run.result.equityCurve) {
+      const time = new Date(point.timestamp).getTime();
+      const row = byTime.get(time) ?? { time: new Date(point.timestamp).toLocaleDateString() };
+      row[run.id] = initial > 0 ? ((point.equity - initial) / initial) * 100 : 0;
+      byTime.set(time, row);
+    }
+  });
+  return Array.from(byTime.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, row]) => row);
+}
+
+export default function RunComparison({ runs }: { runs: SavedBacktestRun[] }) {
+  return (
+    <div className="space-y-4" data-testid="backtest-comparison">
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={toComparisonSeries(runs)}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="time" minTickGap={40} />
+            <YAxis tickFormatter={(value: number) => `${value.toFixed(0)}%`} width={60} />
+            <Tooltip formatter={(value: number) => `${value.toFixed(2)}%`} />
+            <Legend />
+            {runs.map((run, i) => (
+              <Line
+                key={run.id}
+                type="monotone"
+                dataKey={run.id}
+                name={run.name}
+                stroke={COLORS[i % COLORS.length]}
+                dot={false}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <MetricsTable runs={runs.map((run) => ({ label: run.name, result: run.result }))} />
+
+      <table className="w-full text-xs text-muted-foreground">
+        <tbody>
+          {runs.map((run) => (
+            <tr key={run.id} className="border-t">
+              <td className="py-1 pr-2 font-medium text-foreground">{run.name}</td>
+              <td className="py-1 font-mono">{ruleSourceToString(run.request.entryRules)}</td>
+              <td className="py-1 font-mono">{ruleSourceToString(run.request.exitRules)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { cn } from "@/lib/utils";
+import type { BacktestTrade, ExitReason } from "./types";
+
+const EXIT_LABELS: Record<ExitReason, string> = {
+  rule: "Exit rule",
+  stop_loss: "Stop loss",
+  take_profit: "Take profit",
+  trailing_stop: "Trailing stop",
+  end_of_data: "End of data",
+};
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString();
+
+export default function TradeLog({ trades }: { trades: BacktestTrade[] }) {
+  if (trades.length === 0) {
+    return <p className="text-sm text-muted-foreground">No trades were made</p>;
+  }
+
+  return (
+    <div className="max-h-96 overflow-y-auto" data-testid="backtest-trade-log">
+      <table className="w-full text-sm">
+        <thead className="sticky top-0 bg-card">
+          <tr className="text-muted-foreground text-left">
+            <th className="py-1 font-medium">Entry</th>
+            <th className="py-1 font-medium">Exit</th>
+            <th className="py-1 font-medium text-right">Qty</th>
+            <th className="py-1 font-medium text-right">Entry price</th>
+            <th className="py-1 font-medium text-right">Exit price</th>
+            <th className="py-1 font-medium text-right">P&L</th>
+            <th className="py-1 font-medium text-right">Return</th>
+            <th className="py-1 font-medium text-right">Bars</th>
+            <th className="py-1 font-medium">Closed by</th>
+          </tr>
+        </thead>
+        <tbody>
+          {trades.map((trade, i) => (
+            <tr key={i} className="border-t" title={`Entry: ${trade.entryRule}\nExit: ${trade.exitRule || "—"}`}>
+              <td className="py-1">{formatDate(trade.entryTime)}</td>
+              <td className="py-1">{formatDate(trade.exitTime)}</td>
+              <td className="py-1 text-right">{trade.quantity}</td>
+              <td className="py-1 text-right font-mono">{trade.entryPrice.toFixed(2)}</td>
+              <td className="py-1 text-right font-mono">{trade.exitPrice.toFixed(2)}</td>
+              <td className={cn("py-1 text-right font-mono", trade.pnl >= 0 ? "text-success" : "text-destructive")}>
+                {trade.pnl.toFixed(2)}
+              </td>
+              <td className="py-1 text-right">{trade.returnPercent.toFixed(2)}%</td>
+              <td className="py-1 text-right">{trade.barsHeld}</td>
+              <td className="py-1">{EXIT_LABELS[trade.exitReason]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
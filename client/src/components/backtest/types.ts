@@ -0,0 +1,73 @@
+import type { BacktestRequestInput } from "@shared/backtest";
+import type { MonteCarloResult } from "./monte-carlo-panel";
+
+// Mirrors the /api/backtest/run response (server/services/backtest.ts)
+
+export type ExitReason = "rule" | "stop_loss" | "take_profit" | "trailing_stop" | "end_of_data";
+
+export interface BacktestTrade {
+  strategyId: string;
+  symbol: string;
+  quantity: number;
+  entryTime: string;
+  entryPrice: number;
+  exitTime: string;
+  exitPrice: number;
+  commission: number;
+  pnl: number;
+  returnPercent: number;
+  barsHeld: number;
+  entryRule: string;
+  exitRule: string;
+  exitReason: ExitReason;
+}
+
+export interface BenchmarkMetrics {
+  symbol: string;
+  periods: number;
+  benchmarkReturn: number;
+  alpha: number | null;
+  beta: number | null;
+  trackingError: number;
+  informationRatio: number | null;
+  upCapture: number | null;
+  downCapture: number | null;
+}
+
+export interface BacktestResult {
+  // Id in backtest_runs; missing on runs saved before runs were persisted
+  runId?: string;
+  totalReturn: number;
+  sharpeRatio: number;
+  maxDrawdown: number;
+  winRate: number;
+  totalTrades: number;
+  profitableTrades: number;
+  averageReturn: number;
+  volatility: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  profitFactor: number | null;
+  expectancy: number;
+  averageHoldingPeriod: number;
+  exposureTime: number;
+  benchmark: BenchmarkMetrics | null;
+  barsProcessed: number;
+  trades: BacktestTrade[];
+  equityCurve: { timestamp: string; equity: number }[];
+  ruleErrors: { ruleType: "entry" | "exit"; message: string; position: number }[];
+  executionCosts: { commission: number; slippage: number; spread: number; fills: number };
+  dataset?: { symbol: string; start: string | null; end: string | null; bars: number; hash: string };
+  monteCarlo?: MonteCarloResult;
+}
+
+// The body sent to POST /api/backtest/run
+export type BacktestRequest = BacktestRequestInput;
+
+export interface SavedBacktestRun {
+  id: string;
+  name: string;
+  createdAt: string;
+  request: BacktestRequest;
+  result: BacktestResult;
+}
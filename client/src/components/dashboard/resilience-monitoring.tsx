@@ -57,7 +57,7 @@ interface DeadLetterItem {
 
 interface AlertEvent {
   serviceName: string;
-  alertType: 'high_error_rate' | 'slow_response' | 'consecutive_failures' | 'service_down';
+  alertType: 'high_error_rate' | 'slow_response' | 'consecutive_failures' | 'service_down' | 'reconciliation_drift';
   severity: 'warning' | 'critical';
   message: string;
   timestamp: string;
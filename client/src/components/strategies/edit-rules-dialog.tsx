@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import RuleEditor, { useRuleValidation } from "@/components/backtest/rule-editor";
+import { TIMEFRAMES, type Timeframe } from "@shared/backtest";
+import type { StrategySummary } from "@shared/strategies";
+
+interface EditRulesDialogProps {
+  strategy: StrategySummary | null;
+  onClose: () => void;
+  onSaved: (backtestError?: string) => void;
+}
+
+// Saving creates and pins a new strategy version (POST /api/strategies/:id/versions)
+export default function EditRulesDialog({ strategy, onClose, onSaved }: EditRulesDialogProps) {
+  const [entryRules, setEntryRules] = useState("");
+  const [exitRules, setExitRules] = useState("");
+  const [timeframe, setTimeframe] = useState<Timeframe>("1Day");
+  const [reason, setReason] = useState("");
+  const [runBacktest, setRunBacktest] = useState(true);
+  const { validation, error: validationError } = useRuleValidation(entryRules, exitRules);
+
+  useEffect(() => {
+    if (strategy) {
+      setEntryRules(strategy.entryRules);
+      setExitRules(strategy.exitRules);
+      setTimeframe(strategy.timeframe as Timeframe);
+      setReason("");
+    }
+  }, [strategy]);
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/strategies/${strategy!.id}/versions`, {
+        entryRules,
+        exitRules,
+        timeframe,
+        reason,
+        runBacktest,
+      });
+      return (await response.json()) as { backtestError?: string };
+    },
+    onSuccess: (result) => onSaved(result.backtestError),
+  });
+
+  const unchanged =
+    strategy !== null &&
+    entryRules === strategy.entryRules &&
+    exitRules === strategy.exitRules &&
+    timeframe === strategy.timeframe;
+  const rulesInvalid = validation ? !validation.valid : false;
+
+  return (
+    <Dialog open={strategy !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit rules: {strategy?.name}</DialogTitle>
+          <DialogDescription>
+            Saving adds a new version and points live execution at it. Earlier versions stay available for rollback.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <RuleEditor label="Entry Rule" ruleType="entry" value={entryRules} onChange={setEntryRules} validation={validation} />
+          <RuleEditor label="Exit Rule" ruleType="exit" value={exitRules} onChange={setExitRules} validation={validation} />
+          {validationError && <p className="text-xs text-destructive">Rule check failed: {validationError}</p>}
+          <div>
+            <label className="text-sm text-muted-foreground">Timeframe</label>
+            <select value={timeframe} onChange={(e) => setTimeframe(e.target.value as Timeframe)} className="w-full p-2 border rounded">
+              {TIMEFRAMES.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground">Reason</label>
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why are the rules changing?"
+              className="w-full p-2 border rounded"
+              data-testid="input-version-reason"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={runBacktest} onChange={(e) => setRunBacktest(e.target.checked)} />
+            Backtest the new version
+          </label>
+          {save.error && <p className="text-destructive text-sm">{save.error.message}</p>}
+        </div>
+        <DialogFooter>
+          <button onClick={onClose} className="px-4 py-2 rounded border">Cancel</button>
+          <button
+            onClick={() => save.mutate()}
+            disabled={save.isPending || unchanged || rulesInvalid || !reason.trim()}
+            className="px-4 py-2 rounded bg-primary text-primary-foreground disabled:opacity-50"
+            data-testid="button-save-version"
+          >
+            {save.isPending ? "Saving..." : "Save version"}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
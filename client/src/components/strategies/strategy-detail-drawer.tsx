@@ -0,0 +1,183 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import type { StrategyDetail } from "@shared/strategies";
+
+interface StrategyDetailDrawerProps {
+  strategyId: string | null;
+  onClose: () => void;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(2)}%`;
+}
+
+function formatTime(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function JsonBlock({ value }: { value: unknown }) {
+  return (
+    <pre className="text-xs bg-muted rounded p-2 overflow-x-auto max-h-64">
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  );
+}
+
+export default function StrategyDetailDrawer({ strategyId, onClose }: StrategyDetailDrawerProps) {
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useQuery<StrategyDetail>({
+    queryKey: ["/api/strategies", strategyId],
+    enabled: strategyId !== null,
+  });
+
+  const rollback = useMutation({
+    mutationFn: async (version: number) => {
+      await apiRequest("POST", `/api/strategies/${strategyId}/versions/${version}/rollback`, {});
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/strategies"] }),
+  });
+
+  return (
+    <Sheet open={strategyId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{data?.strategy.name ?? "Strategy"}</SheetTitle>
+          <SheetDescription>
+            {data
+              ? `${data.strategy.symbol} · ${data.strategy.timeframe} · ${data.liveVersion ? `live version ${data.liveVersion.version}` : "no live version"}`
+              : "Loading strategy details"}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading && <p className="text-sm text-muted-foreground mt-6">Loading...</p>}
+        {error && <p className="text-sm text-destructive mt-6">{error.message}</p>}
+
+        {data && (
+          <div className="space-y-6 mt-6 text-sm">
+            <section>
+              <h3 className="font-semibold mb-2">Rules</h3>
+              <p className="text-muted-foreground">Entry</p>
+              <p className="font-mono mb-2">{data.strategy.entryRules}</p>
+              <p className="text-muted-foreground">Exit</p>
+              <p className="font-mono">{data.strategy.exitRules}</p>
+            </section>
+
+            <section>
+              <h3 className="font-semibold mb-2">AI Metadata</h3>
+              {data.strategy.aiMetadata ? (
+                <JsonBlock value={data.strategy.aiMetadata} />
+              ) : (
+                <p className="text-muted-foreground">Not generated by the AI pipeline</p>
+              )}
+            </section>
+
+            <section>
+              <h3 className="font-semibold mb-2">AI Decision Chain</h3>
+              {data.decisions.length === 0 ? (
+                <p className="text-muted-foreground">No AI decisions recorded for this strategy</p>
+              ) : (
+                <ol className="space-y-2" data-testid="ai-decision-chain">
+                  {data.decisions.map((decision) => (
+                    <li key={decision.id} className="border rounded p-2">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{decision.stage}</span>
+                        <Badge variant={decision.status === "success" ? "secondary" : "destructive"}>
+                          {decision.status}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatTime(decision.createdAt)}
+                        {decision.confidence !== null && ` · confidence ${decision.confidence}`}
+                        {decision.processingTime !== null && ` · ${decision.processingTime} ms`}
+                      </p>
+                      {decision.errorMessage && <p className="text-xs text-destructive">{decision.errorMessage}</p>}
+                      <details className="mt-1">
+                        <summary className="cursor-pointer text-xs text-muted-foreground">Input and output</summary>
+                        <JsonBlock value={{ input: decision.input, output: decision.output }} />
+                      </details>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+
+            <section>
+              <h3 className="font-semibold mb-2">Versions</h3>
+              <ul className="space-y-2">
+                {data.versions.map((version) => {
+                  const live = version.id === data.liveVersion?.id;
+                  const changes = (version.diff as { field: string }[]) ?? [];
+                  return (
+                    <li key={version.id} className="border rounded p-2">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">
+                          v{version.version} · {version.authorType === "ai" ? `AI prompt ${version.author}` : version.author}
+                        </span>
+                        {live ? (
+                          <Badge>Live</Badge>
+                        ) : (
+                          <button
+                            onClick={() => rollback.mutate(version.version)}
+                            disabled={rollback.isPending}
+                            className="text-xs text-primary hover:underline disabled:opacity-50"
+                          >
+                            Roll back to this
+                          </button>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatTime(version.createdAt)}
+                        {changes.length > 0 && ` · changed ${changes.map((change) => change.field).join(", ")}`}
+                      </p>
+                      {version.reason && <p className="text-xs">{version.reason}</p>}
+                    </li>
+                  );
+                })}
+              </ul>
+              {rollback.error && <p className="text-xs text-destructive mt-1">{rollback.error.message}</p>}
+            </section>
+
+            <section>
+              <h3 className="font-semibold mb-2">Backtest Runs</h3>
+              {data.backtestRuns.length === 0 ? (
+                <p className="text-muted-foreground">No backtests yet</p>
+              ) : (
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-muted-foreground text-left">
+                      <th className="py-1 font-medium">Run</th>
+                      <th className="py-1 font-medium">Source</th>
+                      <th className="py-1 font-medium text-right">Return</th>
+                      <th className="py-1 font-medium text-right">Sharpe</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.backtestRuns.map((run) => {
+                      const metrics = run.metrics as { totalReturn?: number; sharpeRatio?: number };
+                      return (
+                        <tr key={run.id} className="border-t">
+                          <td className="py-1">{formatTime(run.createdAt)}</td>
+                          <td className="py-1">{run.source}</td>
+                          <td className="py-1 text-right">{formatPercent(metrics.totalReturn ?? null)}</td>
+                          <td className="py-1 text-right">{metrics.sharpeRatio?.toFixed(2) ?? "—"}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,62 @@
+import { useCallback, useState } from "react";
+import type { BacktestRequest, BacktestResult, SavedBacktestRun } from "@/components/backtest/types";
+
+const STORAGE_KEY = "smart-alpaca.backtest-runs";
+// Each run keeps its equity curve and trades, so cap what localStorage holds
+const MAX_SAVED_RUNS = 20;
+
+function load(): SavedBacktestRun[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as SavedBacktestRun[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function persist(runs: SavedBacktestRun[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(runs));
+  } catch {
+    // Quota exceeded: keep the runs for this session only
+  }
+}
+
+export function useSavedBacktests() {
+  const [runs, setRuns] = useState<SavedBacktestRun[]>(load);
+
+  const update = useCallback((next: (runs: SavedBacktestRun[]) => SavedBacktestRun[]) => {
+    setRuns((previous) => {
+      const updated = next(previous);
+      persist(updated);
+      return updated;
+    });
+  }, []);
+
+  const saveRun = useCallback(
+    (request: BacktestRequest, result: BacktestResult): SavedBacktestRun => {
+      const run: SavedBacktestRun = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: `${request.symbol} ${new Date().toLocaleString()}`,
+        createdAt: new Date().toISOString(),
+        request,
+        result,
+      };
+      update((previous) => [run, ...previous].slice(0, MAX_SAVED_RUNS));
+      return run;
+    },
+    [update]
+  );
+
+  const renameRun = useCallback(
+    (id: string, name: string) => update((previous) => previous.map((run) => (run.id === id ? { ...run, name } : run))),
+    [update]
+  );
+
+  const deleteRun = useCallback(
+    (id: string) => update((previous) => previous.filter((run) => run.id !== id)),
+    [update]
+  );
+
+  return { runs, saveRun, renameRun, deleteRun };
+}
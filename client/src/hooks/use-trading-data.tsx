@@ -90,7 +90,8 @@ export function useTradingData() {
     isLoading: positionsLoading,
   } = useQuery<PositionData[]>({
     queryKey: ["/api/positions/open"],
-    refetchInterval: 30000,
+    // Streamed prices and order updates keep positions current while connected
+    refetchInterval: wsConnected ? 120000 : 30000,
   });
 
   const {
@@ -187,6 +188,27 @@ export function useTradingData() {
           queryClient.invalidateQueries({ queryKey: ["/api/positions/open"] });
           queryClient.invalidateQueries({ queryKey: ["/api/audit-logs"] });
           break;
+        case "price_update":
+          queryClient.setQueryData<PositionData[]>(["/api/positions/open"], (current) =>
+            current?.map((position) => {
+              if (position.symbol !== data.symbol) return position;
+              const unrealizedPnL = (data.price - position.entryPrice) * position.quantity;
+              const costBasis = Math.abs(position.entryPrice * position.quantity);
+              return {
+                ...position,
+                currentPrice: data.price,
+                marketValue: data.price * position.quantity,
+                unrealizedPnL,
+                // Same unit as the positions endpoint, which passes on the broker's ratio
+                unrealizedPnLPercent: costBasis !== 0 ? unrealizedPnL / costBasis : 0,
+              };
+            })
+          );
+          break;
+        case "order_update":
+          queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/positions/open"] });
+          break;
         case "system_event":
           if (data.event.startsWith("AI_PIPELINE")) {
             const match = data.event.match(/AI_PIPELINE_(\w+)_(\w+)/);
@@ -1,36 +1,301 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useSavedBacktests } from "@/hooks/use-saved-backtests";
+import MonteCarloPanel from "@/components/backtest/monte-carlo-panel";
+import RuleEditor, { useRuleValidation } from "@/components/backtest/rule-editor";
+import PerformanceCharts from "@/components/backtest/performance-charts";
+import PriceChart from "@/components/backtest/price-chart";
+import MetricsTable from "@/components/backtest/metrics-table";
+import TradeLog from "@/components/backtest/trade-log";
+import RunComparison from "@/components/backtest/run-comparison";
+import type { BacktestRequest, BacktestResult, SavedBacktestRun } from "@/components/backtest/types";
+import { TIMEFRAMES, type PositionSizing, type Timeframe } from "@shared/backtest";
+
+interface StrategyOption {
+    id: string;
+    name: string;
+    symbol: string;
+    entryRules: string;
+    exitRules: string;
+    timeframe: Timeframe;
+    status: string;
+    riskParameters?: { maxPositionSize?: number; stopLoss?: number; takeProfit?: number; trailingStop?: number } | null;
+}
+
+const MAX_COMPARED_RUNS = 4;
+
+// sizingValue is a share count for fixed_quantity and a percent of equity otherwise
+function toSizing(method: PositionSizing["method"], value: number): PositionSizing {
+    if (method === "fixed_quantity") return { method, quantity: Math.max(1, Math.round(value)) };
+    if (method === "percent_of_equity") return { method, percent: value / 100 };
+    return { method };
+}
+
 export default function Backtest() {
+    const [strategyId, setStrategyId] = useState("");
+    const [symbol, setSymbol] = useState("AAPL");
+    const [entryRule, setEntryRule] = useState("RSI(14) < 30");
+    const [exitRule, setExitRule] = useState("RSI(14) > 70");
+    const [startDate, setStartDate] = useState("");
+    const [endDate, setEndDate] = useState("");
+    const [initialCapital, setInitialCapital] = useState(100000);
+    const [timeframe, setTimeframe] = useState<Timeframe>("1Day");
+    const [sizingMethod, setSizingMethod] = useState<PositionSizing["method"]>("fixed_quantity");
+    const [sizingValue, setSizingValue] = useState(100);
+    const [benchmark, setBenchmark] = useState("SPY");
+    const [runMonteCarlo, setRunMonteCarlo] = useState(false);
+    const [simulations, setSimulations] = useState(1000);
+    const [method, setMethod] = useState<"shuffle" | "bootstrap">("shuffle");
+    const [activeRunId, setActiveRunId] = useState<string | null>(null);
+    const [comparedIds, setComparedIds] = useState<string[]>([]);
+
+    const { runs, saveRun, deleteRun } = useSavedBacktests();
+    const { validation, error: validationError } = useRuleValidation(entryRule, exitRule);
+    const { data: strategies } = useQuery<StrategyOption[]>({ queryKey: ["/api/strategies"] });
+    const selectedStrategy = strategies?.find((strategy) => strategy.id === strategyId);
+
+    const selectStrategy = (id: string) => {
+        setStrategyId(id);
+        const strategy = strategies?.find((s) => s.id === id);
+        if (strategy) {
+            setSymbol(strategy.symbol);
+            setEntryRule(strategy.entryRules);
+            setExitRule(strategy.exitRules);
+            setTimeframe(strategy.timeframe);
+        }
+    };
+
+    const runBacktest = useMutation({
+        mutationFn: async (): Promise<SavedBacktestRun> => {
+            const request: BacktestRequest = {
+                symbol,
+                strategyId: strategyId || undefined,
+                entryRules: entryRule,
+                exitRules: exitRule,
+                startDate: startDate ? new Date(startDate).toISOString() : undefined,
+                endDate: endDate ? new Date(endDate).toISOString() : undefined,
+                timeframe,
+                initialCapital,
+                sizing: toSizing(sizingMethod, sizingValue),
+                riskParameters: selectedStrategy?.riskParameters ?? undefined,
+                benchmark: benchmark || undefined,
+                monteCarlo: runMonteCarlo ? { simulations, method } : undefined
+            };
+            const response = await apiRequest("POST", "/api/backtest/run", request);
+            const result = (await response.json()) as BacktestResult;
+            return saveRun(request, result);
+        },
+        onSuccess: (run) => setActiveRunId(run.id)
+    });
+
+    const activeRun = runs.find((run) => run.id === activeRunId);
+    const comparedRuns = runs.filter((run) => comparedIds.includes(run.id));
+    const rulesInvalid = validation ? !validation.valid : false;
+
+    const toggleCompared = (id: string) => {
+        setComparedIds((previous) =>
+            previous.includes(id)
+                ? previous.filter((runId) => runId !== id)
+                : [...previous, id].slice(-MAX_COMPARED_RUNS)
+        );
+    };
+
     return (
         <div className="space-y-6">
             <h1 className="text-3xl font-bold">Backtesting</h1>
 
-            <div className="bg-card p-6 rounded-lg border">
-                <h2 className="text-xl font-semibold mb-4">Strategy Backtesting</h2>
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="bg-card p-6 rounded-lg border space-y-3">
+                    <h2 className="text-xl font-semibold">Backtest Parameters</h2>
                     <div>
-                        <h3 className="font-semibold mb-3">Backtest Parameters</h3>
-                        <div className="space-y-3">
+                        <label className="text-sm text-muted-foreground">Strategy</label>
+                        <select value={strategyId} onChange={(e) => selectStrategy(e.target.value)} className="w-full p-2 border rounded" data-testid="select-strategy">
+                            <option value="">Custom rules</option>
+                            {strategies?.map((strategy) => (
+                                <option key={strategy.id} value={strategy.id}>
+                                    {strategy.name} ({strategy.symbol}, {strategy.status})
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="text-sm text-muted-foreground">Symbol</label>
+                        <input value={symbol} onChange={(e) => setSymbol(e.target.value.toUpperCase())} className="w-full p-2 border rounded" data-testid="input-symbol" />
+                    </div>
+                    <RuleEditor label="Entry Rule" ruleType="entry" value={entryRule} onChange={setEntryRule} validation={validation} />
+                    <RuleEditor label="Exit Rule" ruleType="exit" value={exitRule} onChange={setExitRule} validation={validation} />
+                    {validation && validation.valid && (
+                        <p className="text-xs text-muted-foreground">
+                            Indicators: {validation.indicators.join(", ") || "none"} · warm-up {validation.warmupBars} bars
+                        </p>
+                    )}
+                    {validationError && <p className="text-xs text-destructive">Rule check failed: {validationError}</p>}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="text-sm text-muted-foreground">Start Date</label>
+                            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="w-full p-2 border rounded" />
+                        </div>
+                        <div>
+                            <label className="text-sm text-muted-foreground">End Date</label>
+                            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="w-full p-2 border rounded" />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-sm text-muted-foreground">Initial Capital</label>
+                        <input type="number" value={initialCapital} onChange={(e) => setInitialCapital(Number(e.target.value))} className="w-full p-2 border rounded" />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="text-sm text-muted-foreground">Timeframe</label>
+                            <select value={timeframe} onChange={(e) => setTimeframe(e.target.value as Timeframe)} className="w-full p-2 border rounded" data-testid="select-timeframe">
+                                {TIMEFRAMES.map((option) => (
+                                    <option key={option} value={option}>{option}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-sm text-muted-foreground">Benchmark</label>
+                            <input value={benchmark} onChange={(e) => setBenchmark(e.target.value.toUpperCase())} className="w-full p-2 border rounded" data-testid="input-benchmark" />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="text-sm text-muted-foreground">Position Sizing</label>
+                            <select value={sizingMethod} onChange={(e) => setSizingMethod(e.target.value as PositionSizing["method"])} className="w-full p-2 border rounded" data-testid="select-sizing">
+                                <option value="fixed_quantity">Fixed shares</option>
+                                <option value="percent_of_equity">Percent of equity</option>
+                                <option value="risk_parameters">Strategy max position</option>
+                            </select>
+                        </div>
+                        {(sizingMethod === "fixed_quantity" || sizingMethod === "percent_of_equity") && (
                             <div>
-                                <label className="text-sm text-muted-foreground">Start Date</label>
-                                <input type="date" className="w-full p-2 border rounded" />
+                                <label className="text-sm text-muted-foreground">
+                                    {sizingMethod === "fixed_quantity" ? "Shares" : "Percent"}
+                                </label>
+                                <input type="number" min={1} max={sizingMethod === "percent_of_equity" ? 100 : undefined} value={sizingValue} onChange={(e) => setSizingValue(Number(e.target.value))} className="w-full p-2 border rounded" />
                             </div>
+                        )}
+                    </div>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={runMonteCarlo} onChange={(e) => setRunMonteCarlo(e.target.checked)} />
+                        Monte Carlo robustness check
+                    </label>
+                    {runMonteCarlo && (
+                        <div className="grid grid-cols-2 gap-3">
                             <div>
-                                <label className="text-sm text-muted-foreground">End Date</label>
-                                <input type="date" className="w-full p-2 border rounded" />
+                                <label className="text-sm text-muted-foreground">Paths</label>
+                                <input type="number" min={1} max={10000} value={simulations} onChange={(e) => setSimulations(Number(e.target.value))} className="w-full p-2 border rounded" />
                             </div>
                             <div>
-                                <label className="text-sm text-muted-foreground">Initial Capital</label>
-                                <input type="number" value="100000" className="w-full p-2 border rounded" />
+                                <label className="text-sm text-muted-foreground">Resampling</label>
+                                <select value={method} onChange={(e) => setMethod(e.target.value as "shuffle" | "bootstrap")} className="w-full p-2 border rounded">
+                                    <option value="shuffle">Shuffle trade order</option>
+                                    <option value="bootstrap">Bootstrap trades</option>
+                                </select>
                             </div>
                         </div>
-                    </div>
-                    <div>
-                        <h3 className="font-semibold mb-3">Results</h3>
-                        <div className="h-48 bg-muted rounded flex items-center justify-center">
-                            <p className="text-muted-foreground">Run backtest to see results</p>
+                    )}
+                    <button
+                        onClick={() => runBacktest.mutate()}
+                        disabled={runBacktest.isPending || rulesInvalid || !symbol}
+                        className="w-full p-2 rounded bg-primary text-primary-foreground disabled:opacity-50"
+                        data-testid="button-run-backtest"
+                    >
+                        {runBacktest.isPending ? "Running..." : "Run Backtest"}
+                    </button>
+                    {runBacktest.error && <p className="text-destructive text-sm">{runBacktest.error.message}</p>}
+                </div>
+
+                <div className="bg-card p-6 rounded-lg border lg:col-span-2">
+                    <h2 className="text-xl font-semibold mb-4">Saved Runs</h2>
+                    {runs.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Runs are saved here automatically</p>
+                    ) : (
+                        <div className="max-h-96 overflow-y-auto">
+                            <table className="w-full text-sm" data-testid="saved-backtests">
+                                <thead>
+                                    <tr className="text-muted-foreground text-left">
+                                        <th className="py-1 font-medium">Compare</th>
+                                        <th className="py-1 font-medium">Run</th>
+                                        <th className="py-1 font-medium text-right">Return</th>
+                                        <th className="py-1 font-medium text-right">Sharpe</th>
+                                        <th className="py-1 font-medium text-right">Trades</th>
+                                        <th className="py-1" />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {runs.map((run) => (
+                                        <tr key={run.id} className={`border-t ${run.id === activeRunId ? "bg-muted" : ""}`}>
+                                            <td className="py-1">
+                                                <input type="checkbox" checked={comparedIds.includes(run.id)} onChange={() => toggleCompared(run.id)} />
+                                            </td>
+                                            <td className="py-1">
+                                                <button className="text-left hover:underline" onClick={() => setActiveRunId(run.id)}>{run.name}</button>
+                                            </td>
+                                            <td className="py-1 text-right">{(run.result.totalReturn * 100).toFixed(2)}%</td>
+                                            <td className="py-1 text-right">{run.result.sharpeRatio.toFixed(2)}</td>
+                                            <td className="py-1 text-right">{run.result.totalTrades}</td>
+                                            <td className="py-1 text-right">
+                                                <button className="text-xs text-destructive" onClick={() => deleteRun(run.id)}>Delete</button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
                         </div>
-                    </div>
+                    )}
                 </div>
             </div>
+
+            {comparedRuns.length > 1 && (
+                <div className="bg-card p-6 rounded-lg border">
+                    <h2 className="text-xl font-semibold mb-4">Comparison</h2>
+                    <RunComparison runs={comparedRuns} />
+                </div>
+            )}
+
+            {activeRun ? (
+                <>
+                    {activeRun.result.ruleErrors.length > 0 && (
+                        <div className="bg-card p-4 rounded-lg border border-destructive text-sm text-destructive">
+                            {activeRun.result.ruleErrors.map((error, i) => (
+                                <p key={i}>{error.ruleType} rule: {error.message}</p>
+                            ))}
+                        </div>
+                    )}
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        <div className="bg-card p-6 rounded-lg border lg:col-span-2 space-y-6">
+                            <div>
+                                <h2 className="text-xl font-semibold mb-4">Equity and Drawdown</h2>
+                                <PerformanceCharts result={activeRun.result} />
+                            </div>
+                            <div>
+                                <h2 className="text-xl font-semibold mb-4">Price and Trades</h2>
+                                <PriceChart result={activeRun.result} />
+                            </div>
+                        </div>
+                        <div className="bg-card p-6 rounded-lg border">
+                            <h2 className="text-xl font-semibold mb-4">Metrics</h2>
+                            <MetricsTable runs={[{ label: activeRun.request.symbol, result: activeRun.result }]} />
+                        </div>
+                    </div>
+                    <div className="bg-card p-6 rounded-lg border">
+                        <h2 className="text-xl font-semibold mb-4">Trade Log</h2>
+                        <TradeLog trades={activeRun.result.trades} />
+                    </div>
+                    {activeRun.result.monteCarlo && (
+                        <div className="bg-card p-6 rounded-lg border">
+                            <h2 className="text-xl font-semibold mb-4">Monte Carlo Robustness</h2>
+                            <MonteCarloPanel result={activeRun.result.monteCarlo} />
+                        </div>
+                    )}
+                </>
+            ) : (
+                <div className="h-48 bg-muted rounded flex items-center justify-center">
+                    <p className="text-muted-foreground">Run a backtest or pick a saved run to see results</p>
+                </div>
+            )}
         </div>
     );
-}
\ No newline at end of file
+}
@@ -1,28 +1,211 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import EditRulesDialog from "@/components/strategies/edit-rules-dialog";
+import StrategyDetailDrawer from "@/components/strategies/strategy-detail-drawer";
+import type { BacktestRequest, BacktestResult } from "@/components/backtest/types";
+import {
+    STRATEGY_STATUSES,
+    canApplyStrategyAction,
+    type StrategyAction,
+    type StrategySummary,
+} from "@shared/strategies";
+
+const STATUS_STYLES: Record<string, string> = {
+    staged: "bg-blue-500/15 text-blue-600",
+    active: "bg-green-500/15 text-green-600",
+    paused: "bg-yellow-500/15 text-yellow-600",
+    retired: "bg-muted text-muted-foreground",
+    failed: "bg-red-500/15 text-red-600",
+};
+
+const ACTION_LABELS: Record<StrategyAction, string> = {
+    activate: "Activate",
+    pause: "Pause",
+    retire: "Retire",
+};
+
+function formatCurrency(amount: number): string {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+}
+
+function formatPercent(value: number | null | undefined): string {
+    return value === null || value === undefined ? "—" : `${(value * 100).toFixed(2)}%`;
+}
+
 export default function Strategies() {
+    const queryClient = useQueryClient();
+    const [statusFilter, setStatusFilter] = useState("");
+    const [detailId, setDetailId] = useState<string | null>(null);
+    const [editing, setEditing] = useState<StrategySummary | null>(null);
+
+    const { data: strategies, isLoading, error } = useQuery<StrategySummary[]>({
+        queryKey: ["/api/strategies", "summary"],
+    });
+    const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/strategies"] });
+    const onError = (err: Error) => toast({ title: "Action failed", description: err.message, variant: "destructive" });
+
+    const changeStatus = useMutation({
+        mutationFn: async ({ id, action }: { id: string; action: StrategyAction }) => {
+            await apiRequest("POST", `/api/strategies/${id}/status`, { action });
+        },
+        onSuccess: refresh,
+        onError,
+    });
+
+    const clone = useMutation({
+        mutationFn: async (strategy: StrategySummary) => {
+            await apiRequest("POST", `/api/strategies/${strategy.id}/clone`, {});
+        },
+        onSuccess: () => {
+            toast({ title: "Strategy cloned", description: "The copy was saved as a draft" });
+            refresh();
+        },
+        onError,
+    });
+
+    // Runs the live rules over the default window; the run is linked to the live version
+    const rebacktest = useMutation({
+        mutationFn: async (strategy: StrategySummary) => {
+            const request: BacktestRequest = {
+                strategyId: strategy.id,
+                symbol: strategy.symbol,
+                entryRules: strategy.entryRules,
+                exitRules: strategy.exitRules,
+                timeframe: strategy.timeframe as BacktestRequest["timeframe"],
+                riskParameters: (strategy.riskParameters as BacktestRequest["riskParameters"]) ?? undefined,
+            };
+            const response = await apiRequest("POST", "/api/backtest/run", request);
+            return (await response.json()) as BacktestResult;
+        },
+        onSuccess: (result) => {
+            toast({
+                title: "Backtest complete",
+                description: `Return ${formatPercent(result.totalReturn)} over ${result.totalTrades} trades`,
+            });
+            refresh();
+        },
+        onError,
+    });
+
+    const visible = (strategies ?? []).filter((strategy) => !statusFilter || strategy.status === statusFilter);
+    const busy = changeStatus.isPending || clone.isPending || rebacktest.isPending;
+
     return (
         <div className="space-y-6">
-            <h1 className="text-3xl font-bold">Trading Strategies</h1>
+            <div className="flex justify-between items-center">
+                <h1 className="text-3xl font-bold">Trading Strategies</h1>
+                <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className="p-2 border rounded" data-testid="select-status-filter">
+                    <option value="">All statuses</option>
+                    {STRATEGY_STATUSES.map((status) => (
+                        <option key={status} value={status}>{status}</option>
+                    ))}
+                </select>
+            </div>
 
             <div className="bg-card p-6 rounded-lg border">
-                <h2 className="text-xl font-semibold mb-4">Available Strategies</h2>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                    <div className="p-4 border rounded-lg">
-                        <h3 className="font-semibold">Mean Reversion</h3>
-                        <p className="text-sm text-muted-foreground">Buy low, sell high strategy</p>
-                        <p className="text-sm mt-2">Status: <span className="text-red-500">Inactive</span></p>
-                    </div>
-                    <div className="p-4 border rounded-lg">
-                        <h3 className="font-semibold">Momentum</h3>
-                        <p className="text-sm text-muted-foreground">Follow trending stocks</p>
-                        <p className="text-sm mt-2">Status: <span className="text-red-500">Inactive</span></p>
+                {isLoading ? (
+                    <p className="text-sm text-muted-foreground">Loading strategies...</p>
+                ) : error ? (
+                    <p className="text-sm text-destructive">{error.message}</p>
+                ) : visible.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                        <p>No strategies</p>
+                        <p className="text-sm">Strategies staged by the AI pipeline and their clones appear here</p>
                     </div>
-                    <div className="p-4 border rounded-lg">
-                        <h3 className="font-semibold">AI Generated</h3>
-                        <p className="text-sm text-muted-foreground">Machine learning strategy</p>
-                        <p className="text-sm mt-2">Status: <span className="text-red-500">Inactive</span></p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm" data-testid="strategies-table">
+                            <thead>
+                                <tr className="text-muted-foreground text-left">
+                                    <th className="py-2 font-medium">Strategy</th>
+                                    <th className="py-2 font-medium">Status</th>
+                                    <th className="py-2 font-medium text-right">Confidence</th>
+                                    <th className="py-2 font-medium text-right">Backtest Return</th>
+                                    <th className="py-2 font-medium text-right">Sharpe</th>
+                                    <th className="py-2 font-medium text-right">Live P&L</th>
+                                    <th className="py-2 font-medium text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visible.map((strategy) => (
+                                    <tr key={strategy.id} className="border-t align-top">
+                                        <td className="py-2">
+                                            <button className="text-left font-medium hover:underline" onClick={() => setDetailId(strategy.id)}>
+                                                {strategy.name}
+                                            </button>
+                                            <p className="text-xs text-muted-foreground">
+                                                {strategy.symbol} · {strategy.timeframe}
+                                            </p>
+                                        </td>
+                                        <td className="py-2">
+                                            <Badge variant="outline" className={STATUS_STYLES[strategy.status ?? ""] ?? ""}>
+                                                {strategy.status}
+                                            </Badge>
+                                        </td>
+                                        <td className="py-2 text-right">
+                                            {strategy.confidence ? `${(parseFloat(strategy.confidence) * 100).toFixed(0)}%` : "—"}
+                                        </td>
+                                        <td className="py-2 text-right">{formatPercent(strategy.backtest?.totalReturn)}</td>
+                                        <td className="py-2 text-right">{strategy.backtest?.sharpeRatio?.toFixed(2) ?? "—"}</td>
+                                        <td className={`py-2 text-right ${strategy.pnl.total >= 0 ? "text-green-500" : "text-red-500"}`}>
+                                            {formatCurrency(strategy.pnl.total)}
+                                            {strategy.pnl.openPositions > 0 && (
+                                                <p className="text-xs text-muted-foreground">
+                                                    {strategy.pnl.openPositions} open · {formatCurrency(strategy.pnl.unrealized)} unrealized
+                                                </p>
+                                            )}
+                                        </td>
+                                        <td className="py-2">
+                                            <div className="flex flex-wrap justify-end gap-2 text-xs">
+                                                {(Object.keys(ACTION_LABELS) as StrategyAction[])
+                                                    .filter((action) => canApplyStrategyAction(strategy.status, action))
+                                                    .map((action) => (
+                                                        <button
+                                                            key={action}
+                                                            onClick={() => changeStatus.mutate({ id: strategy.id, action })}
+                                                            disabled={busy}
+                                                            className={`px-2 py-1 rounded border disabled:opacity-50 ${action === "retire" ? "text-destructive" : ""}`}
+                                                            data-testid={`button-${action}-${strategy.id}`}
+                                                        >
+                                                            {ACTION_LABELS[action]}
+                                                        </button>
+                                                    ))}
+                                                <button onClick={() => setEditing(strategy)} disabled={busy || strategy.status === "retired"} className="px-2 py-1 rounded border disabled:opacity-50">
+                                                    Edit rules
+                                                </button>
+                                                <button onClick={() => rebacktest.mutate(strategy)} disabled={busy} className="px-2 py-1 rounded border disabled:opacity-50">
+                                                    Re-backtest
+                                                </button>
+                                                <button onClick={() => clone.mutate(strategy)} disabled={busy} className="px-2 py-1 rounded border disabled:opacity-50">
+                                                    Clone
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
                     </div>
-                </div>
+                )}
             </div>
+
+            <StrategyDetailDrawer strategyId={detailId} onClose={() => setDetailId(null)} />
+            <EditRulesDialog
+                strategy={editing}
+                onClose={() => setEditing(null)}
+                onSaved={(backtestError) => {
+                    setEditing(null);
+                    toast(
+                        backtestError
+                            ? { title: "Version saved, backtest failed", description: backtestError, variant: "destructive" }
+                            : { title: "Version saved", description: "Live execution now runs the new rules" }
+                    );
+                    refresh();
+                }}
+            />
         </div>
     );
-}
\ No newline at end of file
+}
@@ -22,6 +22,15 @@ export default {
         }
       },
     ],
+    // uuid only ships ES modules; compile them for the CommonJS test runtime
+    "node_modules/uuid/.+\\.js$": [
+      "ts-jest",
+      {
+        tsconfig: {
+          allowJs: true
+        }
+      },
+    ],
   },
   testMatch: [
     "<rootDir>/tests/**/*.test.ts",
@@ -0,0 +1,27 @@
+import "dotenv/config";
+import { readFile } from "fs/promises";
+import { barStore } from "../server/services/bar-store.ts";
+
+// Usage: npm run bars:import -- <SYMBOL> <TIMEFRAME> <file.csv>
+async function importBars() {
+  const [symbol, timeframe, file] = process.argv.slice(2);
+  if (!symbol || !timeframe || !file) {
+    console.error("Usage: npm run bars:import -- <SYMBOL> <TIMEFRAME> <file.csv>");
+    process.exit(1);
+  }
+
+  try {
+    const csv = await readFile(file, "utf8");
+    const dataset = await barStore.importCsv(symbol.toUpperCase(), timeframe, csv);
+    console.log(
+      `Imported ${dataset.bars} ${timeframe} bars for ${dataset.symbol} ` +
+        `(${dataset.start?.toISOString()} to ${dataset.end?.toISOString()}), hash ${dataset.hash}`
+    );
+    process.exit(0);
+  } catch (error) {
+    console.error("Error importing bars:", error);
+    process.exit(1);
+  }
+}
+
+importBars();
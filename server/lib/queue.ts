@@ -22,6 +22,8 @@ export const QUEUE_NAMES = {
   VALIDATION: "validation",
   STAGING: "staging",
   EXECUTION: "execution",
+  OPTIMIZATION: "optimization",
+  RECONCILIATION: "reconciliation",
 } as const;
 
 // Job data interfaces
@@ -43,6 +45,8 @@ export interface StrategyGenerationJobData {
 export interface ValidationJobData {
   correlationId: string;
   strategies: any[];
+  // Name of a validation profile; defaults to VALIDATION_PROFILE or "standard"
+  validationProfile?: string;
 }
 
 export interface StagingJobData {
@@ -55,6 +59,19 @@ export interface ExecutionJobData {
   stagedStrategies: any[];
 }
 
+export interface OptimizationJobData {
+  correlationId: string;
+  // optimization_jobs row that receives the runs
+  optimizationJobId: string;
+  request: any;
+  startDate: string;
+  endDate: string;
+}
+
+export interface ReconciliationJobData {
+  correlationId: string;
+}
+
 // Main trading queue
 export const tradingQueue = new Queue("smart-alpaca-trading", {
   connection: redisConnection,
@@ -172,6 +189,26 @@ export class QueueManager {
     });
   }
 
+  // Sweeps are off the trading pipeline's critical path, so they run last
+  static async addOptimizationJob(data: OptimizationJobData): Promise<Job> {
+    return await tradingQueue.add(QUEUE_NAMES.OPTIMIZATION, data, {
+      priority: 20,
+      delay: 0,
+      // A failed sweep is recorded on its row; retrying would repeat every run
+      attempts: 1,
+    });
+  }
+
+  // Runs reconciliation in the worker, which owns the schedule and the broker it reconciles against
+  static async addReconciliationJob(data: ReconciliationJobData): Promise<Job> {
+    return await tradingQueue.add(QUEUE_NAMES.RECONCILIATION, data, {
+      priority: 1,
+      delay: 0,
+      // The run is recorded whether or not it succeeds; a retry is just the next run
+      attempts: 1,
+    });
+  }
+
   static async getJobStatus(jobId: string): Promise<any> {
     const job = await tradingQueue.getJob(jobId);
     if (!job) return null;
@@ -2,12 +2,13 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { tradingService } from "./services/trading";
-import { alpacaService, AlpacaService } from "./services/alpaca";
+import { AlpacaService } from "./services/alpaca";
+import { broker } from "./services/broker";
 import { GeminiService } from "./services/gemini";
 import { QueueManager, redisClient, BotStateManager } from "./lib/queue";
 import { initializeWebSocketManager } from "./services/websocket";
 import { portfolioService } from "./services/portfolio";
-import { insertUserSchema } from "@shared/schema";
+import { insertUserSchema, type Strategy } from "@shared/schema";
 import { z } from "zod";
 import {
   loginHandler,
@@ -20,15 +21,55 @@ import { authRateLimit, tradingRateLimit } from "./middleware/security";
 import {
   executeTradeSchema,
   backtestSchema,
+  monteCarloSchema,
+  portfolioBacktestSchema,
+  optimizationSchema,
+  validateRulesSchema,
   apiSettingsSchema,
   portfolioQuerySchema,
+  barImportSchema,
+  barQuerySchema,
+  riskMetricsQuerySchema,
+  riskMetricsRefreshSchema,
+  backtestRunQuerySchema,
+  backtestRunCompareQuerySchema,
+  strategyQuerySchema,
+  strategyStatusSchema,
+  createStrategyVersionSchema,
+  updateStrategyVersionSchema,
+  rollbackStrategyVersionSchema,
+  forkStrategyVersionSchema,
+  strategyVersionDiffQuerySchema,
   positionQuerySchema,
+  orderQuerySchema,
+  reconciliationQuerySchema,
   validateSchema,
   validateQuery
 } from "./schemas/validation";
+import { OPEN_ORDER_STATUSES, ORDER_STATUSES } from "./services/order-types";
 import monitoringRoutes from "./routes/monitoring";
 import promptsRoutes from "./routes/prompts";
-import { createDefaultHealthChecks } from "./services/health-monitor";
+import { apiHealthMonitor, createDefaultHealthChecks, type AlertEvent } from "./services/health-monitor";
+import { validateRules } from "./services/rule-validator";
+import { generateCombinations, SweepConfigurationError } from "./services/optimization";
+import { runMonteCarlo } from "./services/monte-carlo";
+import { compareBacktestRuns, strategyLineage } from "./services/backtest-runs";
+import {
+  strategyVersions,
+  StrategyVersionError,
+  type StrategyVersionAuthor
+} from "./services/strategy-versions";
+import {
+  nextStrategyStatus,
+  summarizeStrategies,
+  StrategyTransitionError
+} from "./services/strategy-lifecycle";
+import { ruleSourceToString } from "@shared/backtest";
+import { barStore, BarImportError } from "./services/bar-store";
+import type { RiskParameters } from "./services/backtest";
+import { MARKET_STREAM_CHANNEL, type RelayedStreamEvent } from "./services/market-stream";
+import { lastPrices } from "./services/price-cache";
+import { reconciliationConfig } from "./services/reconciliation";
 
 // Redis Pub/Sub channel for system events
 const SYSTEM_EVENTS_CHANNEL = "system-events";
@@ -40,12 +81,12 @@ function initializeRedisSubscriber(wsManager: any) {
   // Create a separate Redis client for subscribing
   const subscriber = redisClient.duplicate();
 
-  subscriber.subscribe(SYSTEM_EVENTS_CHANNEL, (err) => {
+  subscriber.subscribe(SYSTEM_EVENTS_CHANNEL, MARKET_STREAM_CHANNEL, (err) => {
     if (err) {
       console.error("Failed to subscribe to Redis channel:", err);
       return;
     }
-    console.log(`Subscribed to Redis channel: ${SYSTEM_EVENTS_CHANNEL}`);
+    console.log(`Subscribed to Redis channels: ${SYSTEM_EVENTS_CHANNEL}, ${MARKET_STREAM_CHANNEL}`);
   });
 
   subscriber.on("message", (channel, message) => {
@@ -57,12 +98,28 @@ function initializeRedisSubscriber(wsManager: any) {
           eventData.correlationId
         );
 
+        // The worker reconciles, but alerts are served from this process's health monitor
+        if (eventData.event_type === "RECONCILIATION_DRIFT") {
+          const alert: AlertEvent = eventData.data;
+          apiHealthMonitor.raiseAlert({ ...alert, timestamp: new Date(alert.timestamp) });
+        }
+
         // Forward to WebSocket clients
         wsManager?.broadcastSystemEvent({
           event: eventData.event_type,
           data: eventData.data,
           correlationId: eventData.correlationId,
         });
+      } else if (channel === MARKET_STREAM_CHANNEL) {
+        // Streamed by the worker; frequent, so pushed without audit logging
+        const event: RelayedStreamEvent = JSON.parse(message);
+        if (event.type === "price") {
+          const update = { ...event.data, timestamp: new Date(event.data.timestamp) };
+          lastPrices.record(update);
+          wsManager?.broadcastPriceUpdate(update);
+        } else if (event.type === "order") {
+          wsManager?.broadcastOrderUpdate(event.data);
+        }
       }
     } catch (error) {
       console.error("Error processing Redis message:", error);
@@ -253,7 +310,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/portfolio/history", validateQuery(portfolioQuerySchema), async (req, res) => {
     try {
       const { period } = req.validatedQuery;
-      const account = await alpacaService.getAccount();
+      const account = await broker.getAccount();
 
       // Calculate date range based on period
       const endDate = new Date();
@@ -278,8 +335,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           startDate.setDate(startDate.getDate() - 1);
       }
 
-      // Get historical equity data from Alpaca
-      const equityHistory = await alpacaService.getHistoricalBars(
+      // Get historical equity data from the broker
+      const equityHistory = await broker.getHistoricalBars(
         "SPY", // Use a proxy for overall portfolio performance
         startDate,
         endDate,
@@ -315,7 +372,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { status, symbol, limit, offset } = req.validatedQuery;
 
-      let positions = await alpacaService.getPositions();
+      let positions = await broker.getPositions();
 
       // Filter by symbol if provided
       if (symbol) {
@@ -352,6 +409,244 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Strategies with their latest backtest and live P&L, for the strategy manager
+  app.get("/api/strategies/summary", validateQuery(strategyQuerySchema), async (req, res) => {
+    try {
+      const strategies = await storage.getStrategies(req.validatedQuery.status);
+      const ids = strategies.map((strategy) => strategy.id);
+      const [latestRuns, positions] = await Promise.all([
+        storage.getLatestBacktestRuns(ids),
+        storage.getPositionsByStrategyIds(ids)
+      ]);
+      res.json(summarizeStrategies(strategies, latestRuns, positions));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // One strategy with its versions, backtest runs and the AI decisions behind it
+  app.get("/api/strategies/:id", async (req, res) => {
+    try {
+      const strategy = await storage.getStrategy(req.params.id);
+      if (!strategy) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+      const [liveVersion, versions, decisions, backtestRuns, positions] = await Promise.all([
+        strategyVersions.pinnedVersion(strategy),
+        storage.getStrategyVersions(strategy.id),
+        strategy.correlationId ? storage.getAiDecisions(strategy.correlationId) : Promise.resolve([]),
+        storage.getBacktestRuns({ strategyId: strategy.id }),
+        storage.getPositionsByStrategyIds([strategy.id])
+      ]);
+      const [summary] = summarizeStrategies([strategy], backtestRuns.slice(0, 1), positions);
+      res.json({
+        strategy: summary,
+        liveVersion,
+        versions,
+        decisions: [...decisions].reverse(),
+        backtestRuns
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Activate, pause or retire a strategy
+  app.post("/api/strategies/:id/status", authenticateDemo, validateSchema(strategyStatusSchema), async (req, res) => {
+    try {
+      const strategy = await storage.getStrategy(req.params.id);
+      if (!strategy) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+      const { action } = req.validatedBody;
+      const positions = await storage.getPositionsByStrategyIds([strategy.id]);
+      const status = nextStrategyStatus(strategy, action, positions.some((position) => position.isOpen));
+      if (action === "activate") {
+        // Execution needs an explicit version to run
+        await strategyVersions.liveVersion(strategy);
+      }
+      const updated = await storage.updateStrategy(strategy.id, { status });
+
+      await storage.createAuditLog({
+        eventType: "STRATEGY_STATUS_CHANGED",
+        eventData: { strategyId: strategy.id, action, from: strategy.status, to: status, user: req.user?.username },
+        source: "api_server",
+        level: "info",
+        correlationId: strategy.correlationId
+      });
+
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof StrategyTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Check rule strings without saving or running them
+  app.post("/api/strategies/validate-rules", validateSchema(validateRulesSchema), async (req, res) => {
+    try {
+      const { entryRules, exitRules } = req.validatedBody;
+      res.json(validateRules(entryRules, exitRules));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Strategy versions. Every edit adds a version; live execution runs the
+  // pinned one (strategies.versionId)
+  const userAuthor = (req: any): StrategyVersionAuthor => ({
+    type: "user",
+    name: req.user?.username ?? "unknown"
+  });
+  const versionParam = (req: any): number => {
+    const version = Number(req.params.version);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new StrategyVersionError("Version must be a positive integer");
+    }
+    return version;
+  };
+  const sendVersionError = (res: any, error: any) => {
+    if (error instanceof StrategyVersionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message });
+  };
+
+  app.get("/api/strategies/:id/versions", async (req, res) => {
+    try {
+      res.json(await strategyVersions.listVersions(req.params.id));
+    } catch (error: any) {
+      sendVersionError(res, error);
+    }
+  });
+
+  app.post("/api/strategies/:id/versions", authenticateDemo, validateSchema(createStrategyVersionSchema), async (req, res) => {
+    try {
+      const { reason, baseVersion, backtestRunId, runBacktest, pin, entryRules, exitRules, ...fields } = req.validatedBody;
+      const created = await strategyVersions.createVersion(
+        req.params.id,
+        {
+          ...fields,
+          entryRules: entryRules !== undefined ? ruleSourceToString(entryRules) : undefined,
+          exitRules: exitRules !== undefined ? ruleSourceToString(exitRules) : undefined
+        },
+        { author: userAuthor(req), reason, baseVersion, backtestRunId, pin }
+      );
+
+      if (!runBacktest) {
+        return res.status(201).json(created);
+      }
+
+      // The version is kept even when its backtest fails; the error is reported
+      const { strategy, version } = created;
+      try {
+        const result = await tradingService.backtestStrategy(
+          backtestSchema.parse({
+            symbol: strategy.symbol,
+            entryRules: version.entryRules,
+            exitRules: version.exitRules,
+            timeframe: version.timeframe,
+            riskParameters: version.riskParameters ?? undefined
+          }),
+          { ...strategyLineage(strategy), strategyVersionId: version.id }
+        );
+        const linked = await strategyVersions.updateVersion(strategy.id, version.version, {
+          backtestRunId: result.runId
+        });
+        res.status(201).json({ strategy, version: linked });
+      } catch (error: any) {
+        res.status(201).json({ strategy, version, backtestError: error.message });
+      }
+    } catch (error: any) {
+      sendVersionError(res, error);
+    }
+  });
+
+  app.get("/api/strategies/:id/versions/:version", async (req, res) => {
+    try {
+      res.json(await strategyVersions.getVersion(req.params.id, versionParam(req)));
+    } catch (error: any) {
+      sendVersionError(res, error);
+    }
+  });
+
+  app.patch("/api/strategies/:id/versions/:version", authenticateDemo, validateSchema(updateStrategyVersionSchema), async (req, res) => {
+    try {
+      res.json(await strategyVersions.updateVersion(req.params.id, versionParam(req), req.validatedBody));
+    } catch (error: any) {
+      sendVersionError(res, error);
+    }
+  });
+
+  app.delete("/api/strategies/:id/versions/:version", authenticateDemo, async (req, res) => {
+    try {
+      await strategyVersions.deleteVersion(req.params.id, versionParam(req));
+      res.status(204).end();
+    } catch (error: any) {
+      sendVersionError(res, error);
+    }
+  });
+
+  app.get("/api/strategies/:id/versions/:version/diff", validateQuery(strategyVersionDiffQuerySchema), async (req, res) => {
+    try {
+      res.json(await strategyVersions.diffVersions(req.params.id, versionParam(req), req.validatedQuery.against));
+    } catch (error: any) {
+      sendVersionError(res, error);
+    }
+  });
+
+  app.post("/api/strategies/:id/versions/:version/pin", authenticateDemo, async (req, res) => {
+    try {
+      res.json(await strategyVersions.pinVersion(req.params.id, versionParam(req)));
+    } catch (error: any) {
+      sendVersionError(res, error);
+    }
+  });
+
+  app.post("/api/strategies/:id/versions/:version/rollback", authenticateDemo, validateSchema(rollbackStrategyVersionSchema), async (req, res) => {
+    try {
+      res.status(201).json(await strategyVersions.rollback(
+        req.params.id,
+        versionParam(req),
+        userAuthor(req),
+        req.validatedBody.reason
+      ));
+    } catch (error: any) {
+      sendVersionError(res, error);
+    }
+  });
+
+  // Clone the live version into a new draft strategy
+  app.post("/api/strategies/:id/clone", authenticateDemo, validateSchema(forkStrategyVersionSchema), async (req, res) => {
+    try {
+      const strategy = await storage.getStrategy(req.params.id);
+      if (!strategy) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+      const live = await strategyVersions.liveVersion(strategy);
+      res.status(201).json(await strategyVersions.fork(strategy.id, live.version, {
+        ...req.validatedBody,
+        author: userAuthor(req)
+      }));
+    } catch (error: any) {
+      sendVersionError(res, error);
+    }
+  });
+
+  // Copy a version, typically of an AI strategy, into a new draft strategy
+  app.post("/api/strategies/:id/versions/:version/fork", authenticateDemo, validateSchema(forkStrategyVersionSchema), async (req, res) => {
+    try {
+      res.status(201).json(await strategyVersions.fork(req.params.id, versionParam(req), {
+        ...req.validatedBody,
+        author: userAuthor(req)
+      }));
+    } catch (error: any) {
+      sendVersionError(res, error);
+    }
+  });
+
   // AI decisions endpoint
   app.get("/api/ai-decisions/:correlationId", async (req, res) => {
     try {
@@ -390,16 +685,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Backtest endpoint
-  app.post("/api/backtest/run", validateSchema(backtestSchema), async (req, res) => {
+  app.post("/api/backtest/run", authenticateDemo, validateSchema(backtestSchema), async (req, res) => {
+    try {
+      let lineage = {};
+      if (req.validatedBody.strategyId) {
+        const strategy = await storage.getStrategy(req.validatedBody.strategyId);
+        if (!strategy) {
+          return res.status(404).json({ error: "Strategy not found" });
+        }
+        lineage = strategyLineage(strategy, {
+          entryRules: ruleSourceToString(req.validatedBody.entryRules),
+          exitRules: ruleSourceToString(req.validatedBody.exitRules),
+          timeframe: req.validatedBody.timeframe
+        });
+      }
+
+      const result = await tradingService.backtestStrategy(req.validatedBody, lineage);
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Persisted backtest runs, newest first, without equity curves and trades
+  app.get("/api/backtest/runs", validateQuery(backtestRunQuerySchema), async (req, res) => {
     try {
-      const { symbol, entryRules, exitRules, startDate, endDate } = req.validatedBody;
+      res.json(await storage.getBacktestRuns(req.validatedQuery));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Side-by-side metrics against the first run, with what changed between runs
+  app.get("/api/backtest/runs/compare", validateQuery(backtestRunCompareQuerySchema), async (req, res) => {
+    try {
+      const { ids } = req.validatedQuery;
+      const found = await storage.getBacktestRunsByIds(ids);
+      const missing = ids.filter((id: string) => !found.some((run) => run.id === id));
+      if (missing.length > 0) {
+        return res.status(404).json({ error: `Backtest runs not found: ${missing.join(", ")}` });
+      }
+      // Keep the requested order so the first id stays the baseline
+      const runs = ids.map((id: string) => found.find((run) => run.id === id)!);
+      res.json(compareBacktestRuns(runs));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/backtest/runs/:id", async (req, res) => {
+    try {
+      const run = await storage.getBacktestRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Backtest run not found" });
+      }
+      res.json(run);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Monte Carlo analysis of trades from an earlier backtest
+  app.post("/api/backtest/monte-carlo", validateSchema(monteCarloSchema), async (req, res) => {
+    try {
+      const { trades, initialCapital, ...options } = req.validatedBody;
+      res.json(runMonteCarlo(trades, initialCapital, options));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Portfolio backtest: replays several strategies against one shared cash balance
+  app.post("/api/backtest/portfolio", authenticateDemo, validateSchema(portfolioBacktestSchema), async (req, res) => {
+    try {
+      const { strategyIds, statuses, startDate, endDate, initialCapital, sizing, fillModel, benchmark } = req.validatedBody;
+
+      let strategies: Strategy[];
+      if (strategyIds) {
+        const found = await Promise.all(strategyIds.map((id: string) => storage.getStrategy(id)));
+        const missing = strategyIds.filter((_: string, i: number) => !found[i]);
+        if (missing.length > 0) {
+          return res.status(404).json({ error: `Strategies not found: ${missing.join(", ")}` });
+        }
+        strategies = found as Strategy[];
+      } else {
+        const byStatus = await Promise.all(statuses.map((status: string) => storage.getStrategies(status)));
+        strategies = byStatus.flat();
+      }
+
+      if (strategies.length === 0) {
+        return res.status(400).json({ error: "No strategies to backtest" });
+      }
+
+      // Strategies share one cash balance and clock, so they must share a bar size
+      const timeframes = Array.from(new Set(strategies.map((strategy) => strategy.timeframe)));
+      if (timeframes.length > 1) {
+        return res.status(400).json({ error: `Strategies use different timeframes: ${timeframes.join(", ")}` });
+      }
 
-      const result = await tradingService.backtestStrategy(
-        symbol,
-        entryRules,
-        exitRules,
+      const result = await tradingService.backtestPortfolio(
+        strategies.map((strategy) => ({
+          id: strategy.id,
+          name: strategy.name,
+          symbol: strategy.symbol,
+          entryRules: strategy.entryRules,
+          exitRules: strategy.exitRules,
+          riskParameters: strategy.riskParameters as RiskParameters | null,
+        })),
         new Date(startDate || Date.now() - 30 * 24 * 60 * 60 * 1000),
-        new Date(endDate || Date.now())
+        new Date(endDate || Date.now()),
+        { initialCapital, sizing, fillModel, benchmark, timeframe: timeframes[0] }
       );
 
       res.json(result);
@@ -408,17 +804,203 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Latest stored metrics per symbol and source (backtest or live)
+  app.get("/api/risk-metrics", validateQuery(riskMetricsQuerySchema), async (req, res) => {
+    try {
+      const metrics = await storage.getRiskMetrics(req.validatedQuery.source);
+      res.json(metrics);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Recompute live account metrics from Alpaca's equity history
+  app.post("/api/risk-metrics/refresh", authenticateDemo, validateSchema(riskMetricsRefreshSchema), async (req, res) => {
+    try {
+      const summary = await tradingService.refreshLiveRiskMetrics(req.validatedBody);
+      res.json(summary);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Historical bar store: cached bars with the dataset hash backtests record
+  app.get("/api/bars/:symbol", validateQuery(barQuerySchema), async (req, res) => {
+    try {
+      const { timeframe, start, end } = req.validatedQuery;
+      const result = await barStore.getBars(
+        req.params.symbol.toUpperCase(),
+        new Date(start),
+        new Date(end || Date.now()),
+        timeframe
+      );
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/bars/import", authenticateDemo, validateSchema(barImportSchema), async (req, res) => {
+    try {
+      const { symbol, timeframe, csv } = req.validatedBody;
+      const dataset = await barStore.importCsv(symbol, timeframe, csv);
+      res.status(201).json(dataset);
+    } catch (error: any) {
+      if (error instanceof BarImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Parameter sweeps run on the trading queue; poll the job for results
+  app.post("/api/optimization", authenticateDemo, validateSchema(optimizationSchema), async (req, res) => {
+    try {
+      const { strategyId, startDate, endDate, ...request } = req.validatedBody;
+
+      if (strategyId && !(await storage.getStrategy(strategyId))) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+
+      // Reject bad templates and oversized grids before queueing anything
+      let combinations: number;
+      try {
+        combinations = generateCombinations(request).length;
+      } catch (error) {
+        if (error instanceof SweepConfigurationError) {
+          return res.status(400).json({ error: error.message });
+        }
+        throw error;
+      }
+
+      const correlationId = `opt_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+      const start = startDate || new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString();
+      const end = endDate || new Date().toISOString();
+
+      const optimizationJob = await storage.createOptimizationJob({
+        strategyId: strategyId ?? null,
+        symbol: request.symbol,
+        entryTemplate: request.entryTemplate,
+        exitTemplate: request.exitTemplate,
+        request: { ...request, startDate: start, endDate: end },
+        status: "queued",
+        correlationId,
+      });
+
+      await QueueManager.addOptimizationJob({
+        correlationId,
+        optimizationJobId: optimizationJob.id,
+        request,
+        startDate: start,
+        endDate: end,
+      });
+
+      res.status(202).json({ ...optimizationJob, combinations });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/optimization", async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const jobs = await storage.getOptimizationJobs(limit);
+      res.json(jobs);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/optimization/:id", async (req, res) => {
+    try {
+      const optimizationJob = await storage.getOptimizationJob(req.params.id);
+      if (!optimizationJob) {
+        return res.status(404).json({ error: "Optimization job not found" });
+      }
+      // Runs come back ranked, best first
+      const runs = await storage.getOptimizationRuns(optimizationJob.id);
+      res.json({ ...optimizationJob, runs });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Trading endpoint
   app.post("/api/trade/execute", authenticateDemo, tradingRateLimit, validateSchema(executeTradeSchema), async (req, res) => {
     try {
-      const orderRequest = req.validatedBody;
-      const result = await tradingService.executeOrder(orderRequest);
+      const order = req.validatedBody as z.infer<typeof executeTradeSchema>;
+      const result = await tradingService.executeOrder({
+        symbol: order.symbol,
+        quantity: order.qty,
+        side: order.side,
+        type: order.type,
+        price: order.limit_price,
+        stopPrice: order.stop_price,
+        trailPrice: order.trail_price,
+        trailPercent: order.trail_percent,
+        timeInForce: order.time_in_force,
+        orderClass: order.order_class,
+        takeProfit: order.take_profit && { limitPrice: order.take_profit.limit_price },
+        stopLoss: order.stop_loss && {
+          stopPrice: order.stop_loss.stop_price,
+          limitPrice: order.stop_loss.limit_price
+        }
+      });
       res.json(result);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
+  // Orders as tracked from submission through their fills, newest first
+  app.get("/api/orders", validateQuery(orderQuerySchema), async (req, res) => {
+    try {
+      const { status, symbol, strategyId, limit } = req.validatedQuery;
+      const statuses =
+        status === "all" ? undefined :
+        status === "open" ? OPEN_ORDER_STATUSES :
+        status === "closed" ? ORDER_STATUSES.filter((s) => !OPEN_ORDER_STATUSES.includes(s)) :
+        [status];
+      res.json(await storage.getOrders({ statuses, symbol, strategyId, limit }));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/orders/:id", async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      const legs = await storage.getOrders({ parentOrderId: order.id });
+      res.json({ ...order, legs });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Reconciliation runs between the broker and the positions table, newest first
+  app.get("/api/reconciliation", validateQuery(reconciliationQuerySchema), async (req, res) => {
+    try {
+      const runs = await storage.getReconciliationRuns(req.validatedQuery.limit);
+      res.json({ latest: runs[0] ?? null, runs, config: reconciliationConfig() });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Reconciliation runs in the worker; the run shows up under GET /api/reconciliation
+  app.post("/api/reconciliation/run", authenticateDemo, async (req, res) => {
+    try {
+      const correlationId = `reconcile_manual_${Date.now()}`;
+      const job = await QueueManager.addReconciliationJob({ correlationId });
+      res.status(202).json({ jobId: job.id, correlationId });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // User management (basic)
   app.post("/api/users", async (req, res) => {
     try {
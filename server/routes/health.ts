@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { storage } from "../storage";
-import { alpacaService } from "../services/alpaca";
+import { broker } from "../services/broker";
 import { metricsCollector } from "../services/metrics";
 import { performanceLogger } from "../services/logger";
 
@@ -92,7 +92,7 @@ async function checkRedis(): Promise<ComponentHealth> {
 async function checkTradingSystem(): Promise<ComponentHealth> {
   const startTime = Date.now();
   try {
-    await alpacaService.getAccount();
+    await broker.getAccount();
     return {
       status: "up",
       latency: Date.now() - startTime,
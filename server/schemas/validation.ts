@@ -1,5 +1,23 @@
 import { z } from "zod";
 import { Request, Response, NextFunction } from "express";
+import {
+  backtestRequestSchema,
+  fillModelSchema,
+  monteCarloOptionsSchema,
+  positionSizingSchema,
+  riskParametersSchema,
+  ruleSourceSchema,
+  symbolSchema,
+  timeframeSchema
+} from "@shared/backtest";
+import { STRATEGY_STATUSES, strategyActionSchema } from "@shared/strategies";
+import {
+  ORDER_CLASSES,
+  ORDER_STATUSES,
+  ORDER_TYPES,
+  TIME_IN_FORCE,
+  orderRequestProblem
+} from "../services/order-types";
 
 // Extend Express Request interface
 declare global {
@@ -16,47 +34,83 @@ export const executeTradeSchema = z.object({
   symbol: z.string().min(1).max(10).regex(/^[A-Z]+$/, "Symbol must be uppercase letters only"),
   side: z.enum(["buy", "sell"]),
   qty: z.number().positive("Quantity must be positive"),
-  type: z.enum(["market", "limit", "stop", "stop_limit"]),
-  time_in_force: z.enum(["day", "gtc", "ioc", "fok"]).optional().default("day"),
+  type: z.enum(ORDER_TYPES),
+  time_in_force: z.enum(TIME_IN_FORCE).optional().default("day"),
   limit_price: z.number().positive().optional(),
   stop_price: z.number().positive().optional(),
   trail_price: z.number().positive().optional(),
   trail_percent: z.number().min(0).max(100).optional(),
-}).refine((data) => {
-  // Validate limit orders have limit_price
-  if (data.type === "limit" && !data.limit_price) {
-    return false;
-  }
-  // Validate stop orders have stop_price
-  if ((data.type === "stop" || data.type === "stop_limit") && !data.stop_price) {
-    return false;
+  order_class: z.enum(ORDER_CLASSES).optional().default("simple"),
+  take_profit: z.object({ limit_price: z.number().positive() }).optional(),
+  stop_loss: z.object({
+    stop_price: z.number().positive(),
+    limit_price: z.number().positive().optional(),
+  }).optional(),
+}).superRefine((data, ctx) => {
+  // Price fields per order type and legs per order class
+  const problem = orderRequestProblem(data);
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
   }
-  // Validate stop_limit orders have both stop_price and limit_price
-  if (data.type === "stop_limit" && (!data.stop_price || !data.limit_price)) {
-    return false;
+});
+
+// Backtest endpoint validation schema: the contract shared with the client
+export const backtestSchema = backtestRequestSchema;
+
+export const monteCarloSchema = monteCarloOptionsSchema.extend({
+  trades: z.array(z.object({ pnl: z.number() })).max(10000),
+  initialCapital: z.number().positive().optional().default(100000)
+});
+
+// Portfolio backtest validation schema
+export const portfolioBacktestSchema = z.object({
+  strategyIds: z.array(z.string().min(1)).min(1).max(20).optional(),
+  statuses: z.array(z.enum(STRATEGY_STATUSES)).min(1).optional().default(["staged", "active"]),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  initialCapital: z.number().positive().optional().default(100000),
+  sizing: positionSizingSchema.optional().default({ method: "equal_weight" }),
+  fillModel: fillModelSchema.optional(),
+  benchmark: z.string().min(1).max(10).regex(/^[A-Z]+$/, "Symbol must be uppercase letters only").optional()
+}).refine((data) => {
+  if (data.startDate && data.endDate) {
+    return new Date(data.startDate) < new Date(data.endDate);
   }
   return true;
 }, {
-  message: "Order type requires appropriate price parameters"
+  message: "Start date must be before end date"
 });
 
-// Backtest endpoint validation schema
-export const backtestSchema = z.object({
+// Parameter sweep validation schema
+const parameterRangeSchema = z.union([
+  z.object({ min: z.number(), max: z.number(), step: z.number().positive() })
+    .refine((range) => range.min <= range.max, { message: "min must not exceed max" }),
+  z.object({ values: z.array(z.number()).min(1).max(100) })
+]);
+
+export const optimizationSchema = z.object({
+  strategyId: z.string().min(1).optional(),
   symbol: z.string().min(1).max(10).regex(/^[A-Z]+$/, "Symbol must be uppercase letters only"),
-  entryRules: z.object({
-    indicators: z.array(z.string()).min(1, "At least one entry indicator required"),
-    conditions: z.array(z.string()).min(1, "At least one entry condition required")
-  }),
-  exitRules: z.object({
-    indicators: z.array(z.string()).min(1, "At least one exit indicator required"),
-    conditions: z.array(z.string()).min(1, "At least one exit condition required")
+  entryTemplate: z.string().min(1).max(500),
+  exitTemplate: z.string().min(1).max(500),
+  parameters: z.record(
+    z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Parameter names must be identifiers"),
+    parameterRangeSchema
+  ).refine((parameters) => Object.keys(parameters).length > 0, {
+    message: "At least one parameter range required"
   }),
+  method: z.enum(["grid", "random"]).optional().default("grid"),
+  samples: z.number().int().positive().max(500).optional(),
+  seed: z.number().int().optional(),
+  objective: z.enum(["sharpeRatio", "totalReturn", "winRate"]).optional().default("sharpeRatio"),
+  heatmap: z.object({ x: z.string(), y: z.string().optional() }).optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
+  timeframe: timeframeSchema.optional().default("1Day"),
   initialCapital: z.number().positive().optional().default(100000),
-  maxPositionSize: z.number().min(0).max(1).optional().default(0.1)
+  riskParameters: riskParametersSchema.optional(),
+  fillModel: fillModelSchema.optional()
 }).refine((data) => {
-  // Validate date range if both provided
   if (data.startDate && data.endDate) {
     return new Date(data.startDate) < new Date(data.endDate);
   }
@@ -65,6 +119,58 @@ export const backtestSchema = z.object({
   message: "Start date must be before end date"
 });
 
+// Strategy rule validation schema
+export const validateRulesSchema = z.object({
+  entryRules: z.string().max(2000),
+  exitRules: z.string().max(2000)
+});
+
+// Strategy list and lifecycle schemas
+export const strategyQuerySchema = z.object({
+  status: z.enum(STRATEGY_STATUSES).optional()
+});
+
+export const strategyStatusSchema = strategyActionSchema;
+
+// Strategy version schemas; omitted fields keep the base version's values
+export const createStrategyVersionSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  entryRules: ruleSourceSchema.optional(),
+  exitRules: ruleSourceSchema.optional(),
+  timeframe: timeframeSchema.optional(),
+  riskParameters: riskParametersSchema.nullable().optional(),
+  reason: z.string().min(1, "Reason is required").max(1000),
+  baseVersion: z.number().int().positive().optional(),
+  backtestRunId: z.string().min(1).optional(),
+  // Backtest the new version over the default window and link the run
+  runBacktest: z.boolean().optional().default(false),
+  pin: z.boolean().optional().default(true)
+}).refine((data) => !(data.backtestRunId && data.runBacktest), {
+  message: "Pass either backtestRunId or runBacktest, not both"
+});
+
+export const updateStrategyVersionSchema = z.object({
+  reason: z.string().min(1).max(1000).optional(),
+  backtestRunId: z.string().min(1).nullable().optional()
+}).refine((data) => data.reason !== undefined || data.backtestRunId !== undefined, {
+  message: "Nothing to update"
+});
+
+export const rollbackStrategyVersionSchema = z.object({
+  reason: z.string().min(1).max(1000).optional()
+});
+
+export const forkStrategyVersionSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  symbol: symbolSchema.optional(),
+  reason: z.string().min(1).max(1000).optional()
+});
+
+export const strategyVersionDiffQuerySchema = z.object({
+  // Defaults to the nearest earlier version
+  against: z.coerce.number().int().positive().optional()
+});
+
 // API settings validation schema
 export const apiSettingsSchema = z.object({
   alpacaApiKey: z.string().optional().default(""),
@@ -92,6 +198,57 @@ export const portfolioQuerySchema = z.object({
   includeMetrics: z.boolean().optional().default(true)
 });
 
+// Historical bar store schemas
+export const barImportSchema = z.object({
+  symbol: z.string().min(1).max(10).regex(/^[A-Z]+$/, "Symbol must be uppercase letters only"),
+  timeframe: timeframeSchema.optional().default("1Day"),
+  // CSV with a header row: timestamp,open,high,low,close,volume
+  csv: z.string().min(1).max(10_000_000)
+});
+
+export const barQuerySchema = z.object({
+  timeframe: timeframeSchema.optional().default("1Day"),
+  start: z.string().datetime(),
+  end: z.string().datetime().optional()
+});
+
+// Backtest run history schemas
+export const backtestRunQuerySchema = z.object({
+  strategyId: z.string().optional(),
+  correlationId: z.string().optional(),
+  symbol: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(50)
+});
+
+export const orderQuerySchema = z.object({
+  // open and closed group the lifecycle statuses; any single status also works
+  status: z.enum(["open", "closed", "all", ...ORDER_STATUSES]).optional().default("all"),
+  symbol: z.string().optional(),
+  strategyId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(100)
+});
+
+export const reconciliationQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional().default(20)
+});
+
+export const backtestRunCompareQuerySchema = z.object({
+  // Comma-separated run ids; the first is the baseline
+  ids: z.string()
+    .transform((ids) => ids.split(",").map((id) => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).min(2, "Compare needs at least two runs").max(10))
+});
+
+// Risk metrics validation schemas
+export const riskMetricsQuerySchema = z.object({
+  source: z.enum(["backtest", "live"]).optional()
+});
+
+export const riskMetricsRefreshSchema = z.object({
+  days: z.number().int().min(5).max(1825).optional().default(365),
+  benchmark: z.string().min(1).max(10).regex(/^[A-Z]+$/, "Symbol must be uppercase letters only").optional()
+});
+
 // Position query validation schema
 export const positionQuerySchema = z.object({
   status: z.enum(["open", "closed", "all"]).optional().default("open"),
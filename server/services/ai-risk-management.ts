@@ -1,6 +1,7 @@
 import { GeminiService, RiskAnalysis } from "./gemini";
 import { RiskControlService } from "./risk-control";
-import { AlpacaService } from "./alpaca";
+import { broker, type Broker } from "./broker";
+import { tradingService } from "./trading";
 import { logger, LogContext } from "./logger";
 import { metrics } from "./metrics";
 import { db } from "../db";
@@ -31,14 +32,14 @@ export interface AIRiskStatus {
 export class AIRiskManagementService {
     private geminiService: GeminiService;
     private riskControlService: RiskControlService;
-    private alpacaService: AlpacaService;
+    private broker: Broker;
     private analysisInterval: NodeJS.Timeout | null = null;
     private isRunning = false;
 
     constructor() {
         this.geminiService = new GeminiService();
         this.riskControlService = new RiskControlService();
-        this.alpacaService = new AlpacaService();
+        this.broker = broker;
     }
 
     /**
@@ -245,12 +246,14 @@ export class AIRiskManagementService {
             if (position.quantity > 0) {
                 const shareToSell = Math.floor(position.quantity * reductionFactor);
                 if (shareToSell > 0) {
-                    await this.alpacaService.placeOrder({
+                    // Through the trading service, so the order is tracked and its fills booked
+                    await tradingService.executeOrder({
                         symbol: position.symbol,
-                        qty: shareToSell,
+                        quantity: shareToSell,
                         side: "sell",
                         type: "market",
-                        time_in_force: "day",
+                        timeInForce: "day",
+                        aiReasoning: recommendation.reasoning,
                     });
 
                     logger.log({
@@ -279,12 +282,13 @@ export class AIRiskManagementService {
         const currentPositions = await this.getCurrentPositions();
         for (const position of currentPositions) {
             if (position.quantity > 0) {
-                await this.alpacaService.placeOrder({
+                await tradingService.executeOrder({
                     symbol: position.symbol,
-                    qty: position.quantity,
+                    quantity: position.quantity,
                     side: "sell",
                     type: "market",
-                    time_in_force: "day",
+                    timeInForce: "day",
+                    aiReasoning: recommendation.reasoning,
                 });
             }
         }
@@ -353,7 +357,7 @@ export class AIRiskManagementService {
     // Helper methods
     private async gatherPortfolioData(): Promise<any> {
         const positions = await this.getCurrentPositions();
-        const account = await this.alpacaService.getAccount();
+        const account = await this.broker.getAccount();
 
         return {
             positions,
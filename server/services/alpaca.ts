@@ -1,6 +1,16 @@
 import AlpacaClient from "@alpacahq/alpaca-trade-api";
 import { circuitBreakerManager, defaultConfigs } from './circuit-breaker';
 import { retryService, defaultRetryConfigs } from './retry';
+import type {
+  Broker,
+  BrokerClock,
+  BrokerOrderRequest,
+  BrokerOrderStatus,
+} from './broker';
+import type { BrokerKind } from './broker-config';
+import type { OrderClass, OrderType } from './order-types';
+import type { MarketBar } from './evaluator';
+import { lastPrices } from './price-cache';
 
 export interface AlpacaMarketData {
   symbol: string;
@@ -30,12 +40,45 @@ export interface AlpacaOrder {
   symbol: string;
   qty: number;
   side: "buy" | "sell";
-  type: "market" | "limit";
+  type: OrderType;
   time_in_force: string;
   status: string;
+  order_class?: OrderClass;
+  limit_price?: number;
+  stop_price?: number;
+  trail_price?: number;
+  trail_percent?: number;
   filled_at?: string;
   filled_qty?: number;
   filled_avg_price?: number;
+  // Take-profit and stop-loss children of bracket, oto and oco orders
+  legs?: AlpacaOrder[];
+}
+
+function optionalNumber(value: string | null | undefined): number | undefined {
+  return value ? parseFloat(value) : undefined;
+}
+
+// Alpaca's REST and streaming payloads carry numbers as strings
+export function toAlpacaOrder(order: any): AlpacaOrder {
+  return {
+    id: order.id,
+    symbol: order.symbol,
+    qty: parseFloat(order.qty),
+    side: order.side,
+    type: order.type ?? order.order_type,
+    time_in_force: order.time_in_force,
+    status: order.status,
+    order_class: order.order_class || undefined,
+    limit_price: optionalNumber(order.limit_price),
+    stop_price: optionalNumber(order.stop_price),
+    trail_price: optionalNumber(order.trail_price),
+    trail_percent: optionalNumber(order.trail_percent),
+    filled_at: order.filled_at,
+    filled_qty: optionalNumber(order.filled_qty),
+    filled_avg_price: optionalNumber(order.filled_avg_price),
+    legs: order.legs?.map(toAlpacaOrder),
+  };
 }
 
 export interface AlpacaAccount {
@@ -48,6 +91,12 @@ export interface AlpacaAccount {
   daytrade_count: number;
 }
 
+export interface AlpacaPortfolioHistoryPoint {
+  timestamp: Date;
+  equity: number;
+  profit_loss: number;
+}
+
 export interface AlpacaBar {
   t: string; // Timestamp
   o: number; // Open price
@@ -61,27 +110,52 @@ export interface AlpacaBar {
 // Type alias for historical bar compatibility
 export type HistoricalBar = AlpacaBar;
 
-export class AlpacaService {
-  private client: AlpacaClient;
+// The client types every order query field as required; Alpaca treats them all as optional
+type AlpacaOrdersQuery = NonNullable<Parameters<AlpacaClient["getOrders"]>[0]>;
 
-  constructor(config?: { keyId: string; secretKey: string; baseUrl?: string }) {
-    const keyId = config?.keyId || process.env.ALPACA_API_KEY;
-    const secretKey = config?.secretKey || process.env.ALPACA_SECRET_KEY;
-    const baseUrl =
-      config?.baseUrl ||
-      process.env.ALPACA_BASE_URL ||
-      "https://paper-api.alpaca.markets";
+interface GetOrdersQuery extends Partial<AlpacaOrdersQuery> {
+  status?: BrokerOrderStatus;
+  // Return bracket and oco children under their parent
+  nested?: boolean;
+}
 
-    if (!keyId || !secretKey) {
-      throw new Error("Alpaca API credentials not configured.");
-    }
+export interface AlpacaConfig {
+  keyId: string;
+  secretKey: string;
+  baseUrl?: string;
+}
 
-    this.client = new AlpacaClient({
-      keyId,
-      secretKey,
-      paper: baseUrl.includes("paper"),
-      baseUrl,
-    });
+export class AlpacaService implements Broker {
+  readonly name: BrokerKind = "alpaca";
+  private readonly config?: AlpacaConfig;
+  private _client: AlpacaClient | null = null;
+
+  constructor(config?: AlpacaConfig) {
+    this.config = config;
+  }
+
+  // Created on first use, so importing the service never requires credentials
+  private get client(): AlpacaClient {
+    if (!this._client) {
+      const keyId = this.config?.keyId || process.env.ALPACA_API_KEY;
+      const secretKey = this.config?.secretKey || process.env.ALPACA_SECRET_KEY;
+      const baseUrl =
+        this.config?.baseUrl ||
+        process.env.ALPACA_BASE_URL ||
+        "https://paper-api.alpaca.markets";
+
+      if (!keyId || !secretKey) {
+        throw new Error("Alpaca API credentials not configured.");
+      }
+
+      this._client = new AlpacaClient({
+        keyId,
+        secretKey,
+        paper: baseUrl.includes("paper"),
+        baseUrl,
+      });
+    }
+    return this._client;
   }
 
   /**
@@ -182,7 +256,7 @@ export class AlpacaService {
     start: Date,
     end: Date,
     timeframe: string = "1Day"
-  ): Promise<any[]> {
+  ): Promise<MarketBar[]> {
     try {
       const bars = await this.client.getBarsV2(symbol, {
         start: start.toISOString(),
@@ -191,7 +265,7 @@ export class AlpacaService {
         adjustment: "raw",
       });
 
-      const result = [];
+      const result: MarketBar[] = [];
       for await (const bar of bars) {
         result.push({
           timestamp: new Date(bar.Timestamp),
@@ -213,41 +287,26 @@ export class AlpacaService {
     }
   }
 
-  async placeOrder(orderRequest: {
-    symbol: string;
-    qty: number;
-    side: "buy" | "sell";
-    type: "market" | "limit";
-    time_in_force?: string;
-    limit_price?: number;
-  }): Promise<AlpacaOrder> {
+  async placeOrder(orderRequest: BrokerOrderRequest): Promise<AlpacaOrder> {
     return this.executeWithCircuitBreaker(async () => {
       try {
+        // Every price field and leg is passed through; unset ones are left out
         const order = await this.client.createOrder({
           symbol: orderRequest.symbol,
           qty: orderRequest.qty,
           side: orderRequest.side,
           type: orderRequest.type,
           time_in_force: orderRequest.time_in_force || "gtc",
-          ...(orderRequest.limit_price && {
-            limit_price: orderRequest.limit_price,
-          }),
+          limit_price: orderRequest.limit_price,
+          stop_price: orderRequest.stop_price,
+          trail_price: orderRequest.trail_price,
+          trail_percent: orderRequest.trail_percent,
+          order_class: orderRequest.order_class === "simple" ? undefined : orderRequest.order_class,
+          take_profit: orderRequest.take_profit,
+          stop_loss: orderRequest.stop_loss,
         });
 
-        return {
-          id: order.id,
-          symbol: order.symbol,
-          qty: parseFloat(order.qty),
-          side: order.side,
-          type: order.type,
-          time_in_force: order.time_in_force,
-          status: order.status,
-          filled_at: order.filled_at,
-          filled_qty: order.filled_qty ? parseFloat(order.filled_qty) : undefined,
-          filled_avg_price: order.filled_avg_price
-            ? parseFloat(order.filled_avg_price)
-            : undefined,
-        };
+        return toAlpacaOrder(order);
       } catch (error) {
         throw new Error(
           `Failed to place order: ${
@@ -282,6 +341,38 @@ export class AlpacaService {
     });
   }
 
+  // Daily account equity; days before the account was funded are dropped
+  async getPortfolioHistory(
+    start: Date,
+    end: Date
+  ): Promise<AlpacaPortfolioHistoryPoint[]> {
+    return this.executeWithCircuitBreaker(async () => {
+      try {
+        const history = await this.client.getPortfolioHistory({
+          date_start: start.toISOString().slice(0, 10),
+          date_end: end.toISOString().slice(0, 10),
+          period: undefined,
+          timeframe: "1D",
+          extended_hours: undefined,
+        });
+
+        return (history.timestamp || [])
+          .map((seconds: number, i: number) => ({
+            timestamp: new Date(seconds * 1000),
+            equity: Number(history.equity[i]),
+            profit_loss: Number(history.profit_loss?.[i] ?? 0),
+          }))
+          .filter((point: AlpacaPortfolioHistoryPoint) => point.equity > 0);
+      } catch (error) {
+        throw new Error(
+          `Failed to get portfolio history: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    });
+  }
+
   async getPositions(): Promise<AlpacaPosition[]> {
     return this.executeWithCircuitBreaker(async () => {
       try {
@@ -335,15 +426,7 @@ export class AlpacaService {
     try {
       const order = await this.client.closePosition(symbol);
 
-      return {
-        id: order.id,
-        symbol: order.symbol,
-        qty: parseFloat(order.qty),
-        side: order.side,
-        type: order.type,
-        time_in_force: order.time_in_force,
-        status: order.status,
-      };
+      return toAlpacaOrder(order);
     } catch (error) {
       throw new Error(
         `Failed to close position for ${symbol}: ${
@@ -353,31 +436,51 @@ export class AlpacaService {
     }
   }
 
-  async getOrders(status?: string): Promise<AlpacaOrder[]> {
-    try {
-      const orders = await this.client.getOrders();
-
-      return orders.map((order: any) => ({
-        id: order.id,
-        symbol: order.symbol,
-        qty: parseFloat(order.qty),
-        side: order.side,
-        type: order.type,
-        time_in_force: order.time_in_force,
-        status: order.status,
-        filled_at: order.filled_at,
-        filled_qty: order.filled_qty ? parseFloat(order.filled_qty) : undefined,
-        filled_avg_price: order.filled_avg_price
-          ? parseFloat(order.filled_avg_price)
-          : undefined,
-      }));
-    } catch (error: any) {
-      throw new Error(
-        `Failed to get orders: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
-    }
+  async getOrders(status?: BrokerOrderStatus): Promise<AlpacaOrder[]> {
+    return this.executeWithCircuitBreaker(async () => {
+      try {
+        const query: GetOrdersQuery = { status, nested: true };
+        const orders = await this.client.getOrders(query as AlpacaOrdersQuery);
+
+        return orders.map(toAlpacaOrder);
+      } catch (error) {
+        throw new Error(
+          `Failed to get orders: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }, 'getOrders');
+  }
+
+  async getOrder(orderId: string): Promise<AlpacaOrder> {
+    return this.executeWithCircuitBreaker(async () => {
+      try {
+        const order = await this.client.getOrder(orderId);
+
+        return toAlpacaOrder(order);
+      } catch (error) {
+        throw new Error(
+          `Failed to get order ${orderId}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }, 'getOrder');
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    return this.executeWithCircuitBreaker(async () => {
+      try {
+        await this.client.cancelOrder(orderId);
+      } catch (error) {
+        throw new Error(
+          `Failed to cancel order ${orderId}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }, 'cancelOrder');
   }
 
   async getTradableAssets(): Promise<string[]> {
@@ -403,6 +506,12 @@ export class AlpacaService {
   }
 
   async getCurrentPrice(symbol: string): Promise<number> {
+    // A recent streamed price saves the bar request
+    const streamed = lastPrices.get(symbol);
+    if (streamed !== undefined) {
+      return streamed;
+    }
+
     try {
       // Get the latest bar for current price (last hour)
       const end = new Date();
@@ -410,7 +519,7 @@ export class AlpacaService {
       
       const bars = await this.getHistoricalBars(symbol, start, end, "1Min");
       if (bars.length > 0) {
-        return bars[bars.length - 1].c; // Return close price of latest bar
+        return bars[bars.length - 1].close; // Return close price of latest bar
       }
       throw new Error(`No price data available for ${symbol}`);
     } catch (error) {
@@ -421,11 +530,25 @@ export class AlpacaService {
       );
     }
   }
-}
 
-// Export the getCurrentPrice function for strategy usage
-export async function getCurrentPrice(symbol: string): Promise<number> {
-  return alpacaService.getCurrentPrice(symbol);
-}
+  async getClock(): Promise<BrokerClock> {
+    return this.executeWithCircuitBreaker(async () => {
+      try {
+        const clock = await this.client.getClock();
 
-export const alpacaService = new AlpacaService();
+        return {
+          timestamp: new Date(clock.timestamp),
+          is_open: clock.is_open,
+          next_open: new Date(clock.next_open),
+          next_close: new Date(clock.next_close),
+        };
+      } catch (error) {
+        throw new Error(
+          `Failed to get market clock: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }, 'getClock');
+  }
+}
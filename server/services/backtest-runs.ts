@@ -0,0 +1,185 @@
+import type { BacktestRun, InsertBacktestRun, Strategy } from "@shared/schema";
+import { BACKTEST_ENGINE_VERSION, type BacktestResult } from "./backtest";
+import type { DatasetInfo } from "./bar-store";
+
+export type BacktestRunSource = "api" | "ai_validation";
+
+// Where a run came from: the strategy and version it tested and the AI
+// pipeline run and prompt version that produced that strategy
+export interface BacktestRunLineage {
+  strategyId?: string | null;
+  strategyVersionId?: string | null;
+  correlationId?: string | null;
+  promptVersion?: string | null;
+}
+
+export interface BacktestRunInput {
+  source: BacktestRunSource;
+  symbol: string;
+  timeframe: string;
+  entryRules: string;
+  exitRules: string;
+  // Everything else the run was configured with (capital, sizing, fills, dates)
+  request: Record<string, unknown>;
+  result: BacktestResult;
+  dataset?: DatasetInfo | null;
+  lineage?: BacktestRunLineage;
+}
+
+// Scalar metrics lined up by the compare endpoint
+export const COMPARED_METRICS = [
+  "totalReturn",
+  "sharpeRatio",
+  "sortinoRatio",
+  "calmarRatio",
+  "maxDrawdown",
+  "volatility",
+  "winRate",
+  "totalTrades",
+  "profitFactor",
+  "expectancy",
+  "averageHoldingPeriod",
+  "exposureTime",
+] as const;
+
+export type ComparedMetric = (typeof COMPARED_METRICS)[number];
+
+export interface BacktestRunChanges {
+  rules: boolean;
+  dataset: boolean;
+  engine: boolean;
+  prompt: boolean;
+}
+
+export interface ComparedBacktestRun {
+  id: string;
+  createdAt: Date | null;
+  source: string;
+  strategyId: string | null;
+  correlationId: string | null;
+  promptVersion: string | null;
+  engineVersion: string;
+  datasetHash: string | null;
+  symbol: string;
+  timeframe: string;
+  entryRules: string;
+  exitRules: string;
+  metrics: Record<ComparedMetric, number | null>;
+  // Metric minus the baseline's; null when either side is missing
+  deltas: Record<ComparedMetric, number | null>;
+  // What differs from the baseline run
+  changes: BacktestRunChanges;
+  equityCurve: unknown;
+}
+
+export interface BacktestRunComparison {
+  baselineId: string;
+  runs: ComparedBacktestRun[];
+}
+
+/**
+ * Lineage of a run of a stored strategy. When the run's rules are given and
+ * differ from the strategy's live version, the run is not attributed to that
+ * version.
+ */
+export function strategyLineage(
+  strategy: Strategy,
+  rules?: { entryRules: string; exitRules: string; timeframe: string }
+): BacktestRunLineage {
+  const metadata = strategy.aiMetadata as { promptVersion?: string } | null;
+  const matchesLive =
+    !rules ||
+    (rules.entryRules === strategy.entryRules &&
+      rules.exitRules === strategy.exitRules &&
+      rules.timeframe === strategy.timeframe);
+  return {
+    strategyId: strategy.id,
+    strategyVersionId: matchesLive ? strategy.versionId ?? null : null,
+    correlationId: strategy.correlationId,
+    promptVersion: metadata?.promptVersion ?? null,
+  };
+}
+
+export function toBacktestRunRow(input: BacktestRunInput): InsertBacktestRun {
+  const { trades, equityCurve, ...metrics } = input.result;
+  // Extras callers attach to the result (dataset, Monte Carlo) are not metrics
+  delete (metrics as Record<string, unknown>).dataset;
+  delete (metrics as Record<string, unknown>).monteCarlo;
+  return {
+    strategyId: input.lineage?.strategyId ?? null,
+    strategyVersionId: input.lineage?.strategyVersionId ?? null,
+    correlationId: input.lineage?.correlationId ?? null,
+    promptVersion: input.lineage?.promptVersion ?? null,
+    source: input.source,
+    symbol: input.symbol,
+    timeframe: input.timeframe,
+    entryRules: input.entryRules,
+    exitRules: input.exitRules,
+    request: input.request,
+    datasetHash: input.dataset?.hash ?? null,
+    dataset: input.dataset ?? null,
+    engineVersion: BACKTEST_ENGINE_VERSION,
+    metrics,
+    equityCurve,
+    trades,
+  };
+}
+
+function metricsOf(run: BacktestRun): Record<ComparedMetric, number | null> {
+  const stored = (run.metrics ?? {}) as Record<string, unknown>;
+  const metrics = {} as Record<ComparedMetric, number | null>;
+  for (const metric of COMPARED_METRICS) {
+    const value = stored[metric];
+    metrics[metric] = typeof value === "number" && Number.isFinite(value) ? value : null;
+  }
+  return metrics;
+}
+
+/**
+ * Line runs up against the first one (the baseline), with metric deltas and
+ * flags for what changed between them: the rules, the bars, the engine or
+ * the prompt that generated the strategy.
+ */
+export function compareBacktestRuns(runs: BacktestRun[]): BacktestRunComparison {
+  if (runs.length === 0) {
+    throw new Error("At least one backtest run is required");
+  }
+  const [baseline] = runs;
+  const baselineMetrics = metricsOf(baseline);
+
+  return {
+    baselineId: baseline.id,
+    runs: runs.map((run) => {
+      const metrics = metricsOf(run);
+      const deltas = {} as Record<ComparedMetric, number | null>;
+      for (const metric of COMPARED_METRICS) {
+        const value = metrics[metric];
+        const base = baselineMetrics[metric];
+        deltas[metric] = value !== null && base !== null ? value - base : null;
+      }
+      return {
+        id: run.id,
+        createdAt: run.createdAt,
+        source: run.source,
+        strategyId: run.strategyId,
+        correlationId: run.correlationId,
+        promptVersion: run.promptVersion,
+        engineVersion: run.engineVersion,
+        datasetHash: run.datasetHash,
+        symbol: run.symbol,
+        timeframe: run.timeframe,
+        entryRules: run.entryRules,
+        exitRules: run.exitRules,
+        metrics,
+        deltas,
+        changes: {
+          rules: run.entryRules !== baseline.entryRules || run.exitRules !== baseline.exitRules,
+          dataset: run.datasetHash !== baseline.datasetHash,
+          engine: run.engineVersion !== baseline.engineVersion,
+          prompt: run.promptVersion !== baseline.promptVersion,
+        },
+        equityCurve: run.equityCurve,
+      };
+    }),
+  };
+}
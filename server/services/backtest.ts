@@ -0,0 +1,991 @@
+import type { PositionSizing } from "@shared/backtest";
+import { StrategyEvaluator, type MarketBar, type RuleError } from "./evaluator";
+import {
+  commissionFor,
+  priceFill,
+  resolveFillModel,
+  volumeCapacity,
+  type FillModel,
+  type OrderSide,
+} from "./fill-model";
+import {
+  calculateBenchmarkMetrics,
+  calculateReturnMetrics,
+  calculateTradeStatistics,
+  maxDrawdownOf,
+  periodReturns,
+  TRADING_DAYS_PER_YEAR,
+  type BenchmarkMetrics,
+} from "./performance-metrics";
+
+export type ExitReason =
+  | "rule"
+  | "stop_loss"
+  | "take_profit"
+  | "trailing_stop"
+  | "end_of_data";
+
+// Stored on strategies.riskParameters. Every field is a percentage
+// (5 = 5%), like the API risk settings.
+export interface RiskParameters {
+  // Of equity, used by "risk_parameters" sizing and live entries
+  maxPositionSize?: number;
+  // Below the average entry price
+  stopLoss?: number;
+  // Above the average entry price
+  takeProfit?: number;
+  // Below the highest high since entry
+  trailingStop?: number;
+}
+
+export interface BacktestTrade {
+  // Owning strategy; single-symbol backtests use the symbol
+  strategyId: string;
+  symbol: string;
+  quantity: number;
+  entryTime: Date;
+  entryPrice: number;
+  exitTime: Date;
+  exitPrice: number;
+  // Entry and exit commissions, already deducted from pnl
+  commission: number;
+  pnl: number;
+  returnPercent: number;
+  barsHeld: number;
+  entryRule: string;
+  exitRule: string;
+  exitReason: ExitReason;
+}
+
+export interface EquityPoint {
+  timestamp: Date;
+  equity: number;
+}
+
+export interface ExposurePoint {
+  timestamp: Date;
+  // Market value of open positions
+  grossExposure: number;
+  // Gross exposure as a fraction of equity
+  exposure: number;
+  cash: number;
+  openPositions: number;
+}
+
+export interface ExitBreakdown {
+  trades: number;
+  pnl: number;
+  winRate: number;
+}
+
+export interface ExecutionCosts {
+  commission: number;
+  slippage: number;
+  spread: number;
+  // (slippage + spread) / traded notional, comparable with the live
+  // slippage tracked by metricsCollector
+  averageSlippage: number;
+  fills: number;
+  // Fills cut short by the volume limit
+  partialFills: number;
+}
+
+export interface BacktestResult {
+  totalReturn: number;
+  sharpeRatio: number;
+  maxDrawdown: number;
+  winRate: number;
+  totalTrades: number;
+  profitableTrades: number;
+  averageReturn: number;
+  volatility: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  // Gross profit / gross loss; null without losing trades
+  profitFactor: number | null;
+  // Average trade return as a fraction of entry value
+  expectancy: number;
+  // Average bars per trade
+  averageHoldingPeriod: number;
+  // Fraction of bars with at least one open position
+  exposureTime: number;
+  // Relative statistics; null when no benchmark bars were given
+  benchmark: BenchmarkMetrics | null;
+  barsProcessed: number;
+  trades: BacktestTrade[];
+  // Trades grouped by how they were closed
+  exitBreakdown: Record<ExitReason, ExitBreakdown>;
+  equityCurve: EquityPoint[];
+  // Rule parse errors; a backtest with errors never trades on the broken rule
+  ruleErrors: RuleError[];
+  // Fill assumptions the result was produced under
+  fillModel: FillModel;
+  executionCosts: ExecutionCosts;
+}
+
+export interface BacktestOptions {
+  symbol: string;
+  entryRules: string;
+  exitRules: string;
+  initialCapital?: number;
+  // Shares per entry; ignored when sizing is given
+  quantity?: number;
+  sizing?: PositionSizing;
+  riskParameters?: RiskParameters | null;
+  fillModel?: Partial<FillModel>;
+  // Bars before this time only warm up the indicators; no trading or equity
+  warmupUntil?: Date;
+  benchmark?: BenchmarkBars;
+  // Annualizes per-bar returns; 252 for daily bars
+  periodsPerYear?: number;
+}
+
+export interface BenchmarkBars {
+  symbol: string;
+  bars: MarketBar[];
+}
+
+export type { PositionSizing };
+
+export interface PortfolioBacktestStrategy {
+  id: string;
+  name?: string;
+  symbol: string;
+  entryRules: string;
+  exitRules: string;
+  riskParameters?: RiskParameters | null;
+}
+
+export interface PortfolioBacktestOptions {
+  initialCapital?: number;
+  sizing?: PositionSizing;
+  fillModel?: Partial<FillModel>;
+  warmupUntil?: Date;
+  benchmark?: BenchmarkBars;
+  periodsPerYear?: number;
+}
+
+export interface StrategyContribution {
+  strategyId: string;
+  name?: string;
+  symbol: string;
+  totalTrades: number;
+  winRate: number;
+  pnl: number;
+  // P&L as a fraction of the portfolio's starting capital; contributions
+  // add up to the portfolio's total return
+  contribution: number;
+  ruleErrors: RuleError[];
+}
+
+export interface StrategyCorrelation {
+  strategyIds: string[];
+  // Pearson correlation of per-bar strategy P&L; null when a strategy never moved
+  matrix: (number | null)[][];
+}
+
+export interface PortfolioBacktestResult extends BacktestResult {
+  sizing: PositionSizing;
+  exposureCurve: ExposurePoint[];
+  strategies: StrategyContribution[];
+  correlation: StrategyCorrelation;
+}
+
+interface Position {
+  // Position owner; two strategies on the same symbol hold separate positions
+  key: string;
+  symbol: string;
+  // Shares currently held
+  quantity: number;
+  // Totals over every fill, so partial entries and exits average out
+  enteredQuantity: number;
+  entryValue: number;
+  entryCommission: number;
+  exitValue: number;
+  exitCommission: number;
+  entryDate: Date;
+  entryBarIndex: number;
+  entryRule: string;
+  // Highest high seen while holding, for trailing stops
+  highWater: number;
+}
+
+const EXIT_REASONS: ExitReason[] = [
+  "rule",
+  "stop_loss",
+  "take_profit",
+  "trailing_stop",
+  "end_of_data",
+];
+
+// Recorded with each persisted run; bump when the same inputs would produce
+// different results (fills, sizing, metric definitions)
+export const BACKTEST_ENGINE_VERSION = "1.0.0";
+
+export const DEFAULT_INITIAL_CAPITAL = 100000;
+const DEFAULT_QUANTITY = 100;
+const DEFAULT_MAX_POSITION_SIZE = 10;
+// Keep enough bars for long-period indicators such as SMA(200)
+const BACKTEST_HISTORY_SIZE = 500;
+
+export class PortfolioSimulation {
+  private initialCash: number;
+  private cash: number;
+  private fillModel: FillModel;
+  private positions: Position[] = [];
+  private closedTrades: BacktestTrade[] = [];
+  private equityCurve: EquityPoint[] = [];
+  private costs = {
+    commission: 0,
+    slippage: 0,
+    spread: 0,
+    referenceNotional: 0,
+    fills: 0,
+  };
+
+  constructor(initialCash: number, fillModel: FillModel = resolveFillModel()) {
+    this.initialCash = initialCash;
+    this.cash = initialCash;
+    this.fillModel = fillModel;
+  }
+
+  // Most shares a buy at `referencePrice` can pay for, costs included
+  affordableQuantity(referencePrice: number, bar: MarketBar): number {
+    const { price } = priceFill(this.fillModel, "buy", referencePrice, bar);
+    const perShare = commissionFor(this.fillModel, 1, price) + price;
+    return perShare > 0 ? Math.floor(this.cash / perShare) : 0;
+  }
+
+  /**
+   * Buy into a position, adding to it if the owner already holds one.
+   * `referencePrice` is the bar price the fill model prices against.
+   */
+  enterPosition(
+    key: string,
+    symbol: string,
+    quantity: number,
+    bar: MarketBar,
+    referencePrice: number,
+    barIndex: number,
+    entryRule: string
+  ): boolean {
+    const fill = this.fillCosts("buy", quantity, referencePrice, bar);
+    const cost = quantity * fill.price + fill.commission;
+    if (quantity <= 0 || this.cash < cost) {
+      return false;
+    }
+
+    this.cash -= cost;
+    this.recordFill(quantity, referencePrice, fill);
+
+    const existing = this.getPosition(key);
+    if (existing) {
+      existing.quantity += quantity;
+      existing.enteredQuantity += quantity;
+      existing.entryValue += quantity * fill.price;
+      existing.entryCommission += fill.commission;
+      return true;
+    }
+
+    this.positions.push({
+      key,
+      symbol,
+      quantity,
+      enteredQuantity: quantity,
+      entryValue: quantity * fill.price,
+      entryCommission: fill.commission,
+      exitValue: 0,
+      exitCommission: 0,
+      entryDate: new Date(bar.timestamp),
+      entryBarIndex: barIndex,
+      entryRule,
+      highWater: referencePrice,
+    });
+    return true;
+  }
+
+  /**
+   * Sell `quantity` shares of a position (all of it when null). Returns the
+   * completed trade once nothing is left, otherwise null.
+   */
+  exitPosition(
+    key: string,
+    quantity: number | null,
+    bar: MarketBar,
+    referencePrice: number,
+    barIndex: number,
+    exitRule: string,
+    exitReason: ExitReason
+  ): BacktestTrade | null {
+    const positionIndex = this.positions.findIndex((p) => p.key === key);
+    if (positionIndex < 0) {
+      return null;
+    }
+
+    const position = this.positions[positionIndex];
+    const sold = Math.min(quantity ?? position.quantity, position.quantity);
+    const fill = this.fillCosts("sell", sold, referencePrice, bar);
+
+    this.cash += sold * fill.price - fill.commission;
+    this.recordFill(sold, referencePrice, fill);
+    position.quantity -= sold;
+    position.exitValue += sold * fill.price;
+    position.exitCommission += fill.commission;
+
+    if (position.quantity > 0) {
+      return null;
+    }
+
+    const cost = position.entryValue + position.entryCommission;
+    const pnl = position.exitValue - position.exitCommission - cost;
+
+    const trade: BacktestTrade = {
+      strategyId: key,
+      symbol: position.symbol,
+      quantity: position.enteredQuantity,
+      entryTime: position.entryDate,
+      entryPrice: position.entryValue / position.enteredQuantity,
+      exitTime: new Date(bar.timestamp),
+      exitPrice: position.exitValue / position.enteredQuantity,
+      commission: position.entryCommission + position.exitCommission,
+      pnl,
+      returnPercent: cost > 0 ? (pnl / cost) * 100 : 0,
+      barsHeld: barIndex - position.entryBarIndex,
+      entryRule: position.entryRule,
+      exitRule,
+      exitReason,
+    };
+
+    this.closedTrades.push(trade);
+    this.positions.splice(positionIndex, 1);
+    return trade;
+  }
+
+  // Raise the trailing-stop high-water mark after a bar the position was held through
+  updateHighWater(key: string, high: number) {
+    const position = this.getPosition(key);
+    if (position && high > position.highWater) {
+      position.highWater = high;
+    }
+  }
+
+  private fillCosts(
+    side: OrderSide,
+    quantity: number,
+    referencePrice: number,
+    bar: MarketBar
+  ) {
+    const fill = priceFill(this.fillModel, side, referencePrice, bar);
+    return {
+      ...fill,
+      commission: commissionFor(this.fillModel, quantity, fill.price),
+    };
+  }
+
+  private recordFill(
+    quantity: number,
+    referencePrice: number,
+    fill: { slippage: number; spread: number; commission: number }
+  ) {
+    this.costs.commission += fill.commission;
+    this.costs.slippage += quantity * fill.slippage;
+    this.costs.spread += quantity * fill.spread;
+    this.costs.referenceNotional += quantity * referencePrice;
+    this.costs.fills++;
+  }
+
+  hasPosition(key: string): boolean {
+    return this.positions.some((p) => p.key === key);
+  }
+
+  getPosition(key: string): Position | undefined {
+    return this.positions.find((p) => p.key === key);
+  }
+
+  getPositions(): Position[] {
+    return this.positions;
+  }
+
+  getClosedTrades(): BacktestTrade[] {
+    return this.closedTrades;
+  }
+
+  getCash(): number {
+    return this.cash;
+  }
+
+  getPositionsValue(currentPrices: { [symbol: string]: number } = {}): number {
+    let totalValue = 0;
+    for (const position of this.positions) {
+      const currentPrice =
+        currentPrices[position.symbol] ??
+        position.entryValue / position.enteredQuantity;
+      totalValue += position.quantity * currentPrice;
+    }
+    return totalValue;
+  }
+
+  // Realized plus unrealized P&L of one open position, net of commissions
+  getOpenPnl(key: string, currentPrices: { [symbol: string]: number } = {}): number {
+    const position = this.getPosition(key);
+    if (!position) return 0;
+    const currentPrice =
+      currentPrices[position.symbol] ??
+      position.entryValue / position.enteredQuantity;
+    return (
+      position.quantity * currentPrice +
+      position.exitValue -
+      position.exitCommission -
+      position.entryValue -
+      position.entryCommission
+    );
+  }
+
+  getPortfolioValue(currentPrices: { [symbol: string]: number } = {}): number {
+    return this.cash + this.getPositionsValue(currentPrices);
+  }
+
+  recordPortfolioValue(
+    date: Date,
+    currentPrices: { [symbol: string]: number } = {}
+  ) {
+    this.equityCurve.push({
+      timestamp: date,
+      equity: this.getPortfolioValue(currentPrices),
+    });
+  }
+
+  calculatePerformanceMetrics(
+    barsProcessed: number,
+    ruleErrors: RuleError[] = [],
+    partialFills = 0,
+    barsInMarket = 0,
+    periodsPerYear = TRADING_DAYS_PER_YEAR
+  ): BacktestResult {
+    const lastPoint = this.equityCurve[this.equityCurve.length - 1];
+    const finalValue = lastPoint ? lastPoint.equity : this.getPortfolioValue();
+    const totalReturn = (finalValue - this.initialCash) / this.initialCash;
+
+    const returns = periodReturns(this.equityCurve);
+    const maxDrawdown = maxDrawdownOf(this.equityCurve, this.initialCash);
+
+    // Win rate
+    const totalTrades = this.closedTrades.length;
+    const profitableTrades = this.closedTrades.filter((t) => t.pnl > 0).length;
+    const winRate = totalTrades > 0 ? profitableTrades / totalTrades : 0;
+
+    // Average P&L per trade
+    const totalPnL = this.closedTrades.reduce((sum, t) => sum + t.pnl, 0);
+    const averageReturn = totalTrades > 0 ? totalPnL / totalTrades : 0;
+
+    const exitBreakdown = Object.fromEntries(
+      EXIT_REASONS.map((reason) => {
+        const trades = this.closedTrades.filter((t) => t.exitReason === reason);
+        const wins = trades.filter((t) => t.pnl > 0).length;
+        return [
+          reason,
+          {
+            trades: trades.length,
+            pnl: trades.reduce((sum, t) => sum + t.pnl, 0),
+            winRate: trades.length > 0 ? wins / trades.length : 0,
+          },
+        ];
+      })
+    ) as Record<ExitReason, ExitBreakdown>;
+
+    return {
+      totalReturn,
+      maxDrawdown,
+      winRate,
+      totalTrades,
+      profitableTrades,
+      averageReturn,
+      ...calculateReturnMetrics(returns, totalReturn, maxDrawdown, periodsPerYear),
+      ...calculateTradeStatistics(this.closedTrades),
+      exposureTime: barsProcessed > 0 ? barsInMarket / barsProcessed : 0,
+      benchmark: null,
+      barsProcessed,
+      trades: [...this.closedTrades],
+      exitBreakdown,
+      equityCurve: [...this.equityCurve],
+      ruleErrors,
+      fillModel: this.fillModel,
+      executionCosts: {
+        commission: this.costs.commission,
+        slippage: this.costs.slippage,
+        spread: this.costs.spread,
+        averageSlippage:
+          this.costs.referenceNotional > 0
+            ? (this.costs.slippage + this.costs.spread) /
+              this.costs.referenceNotional
+            : 0,
+        fills: this.costs.fills,
+        partialFills,
+      },
+    };
+  }
+}
+
+function pearsonCorrelation(a: number[], b: number[]): number | null {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return null;
+
+  const meanA = a.reduce((sum, v) => sum + v, 0) / n;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / n;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += Math.pow(a[i] - meanA, 2);
+    varianceB += Math.pow(b[i] - meanB, 2);
+  }
+
+  if (varianceA === 0 || varianceB === 0) return null;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+function targetQuantity(
+  sizing: PositionSizing,
+  strategy: PortfolioBacktestStrategy,
+  equity: number,
+  price: number,
+  strategyCount: number
+): number {
+  switch (sizing.method) {
+    case "fixed_quantity":
+      return sizing.quantity;
+    case "percent_of_equity":
+      return Math.floor((equity * sizing.percent) / price);
+    case "equal_weight":
+      return Math.floor(equity / strategyCount / price);
+    case "risk_parameters":
+      return riskParameterQuantity(strategy.riskParameters, equity, price);
+  }
+}
+
+/**
+ * Shares worth maxPositionSize percent of equity (10% when unset), no more
+ * than the buying power pays for. Backtests and live entries size the same way.
+ */
+export function riskParameterQuantity(
+  riskParameters: RiskParameters | null | undefined,
+  equity: number,
+  price: number,
+  buyingPower = Infinity
+): number {
+  const percent = riskParameters?.maxPositionSize ?? DEFAULT_MAX_POSITION_SIZE;
+  return Math.floor(Math.min((equity * percent) / 100, buyingPower) / price);
+}
+
+/**
+ * Check a held position against its stop-loss, take-profit and trailing
+ * stop using the bar's range. Price gaps through a level fill at the open.
+ * When the stop and the target are both inside the range, the bar's path is
+ * unknown, so the stop is assumed to hit first. The trailing stop uses the
+ * high-water mark from earlier bars, since this bar's high may come after
+ * its low.
+ */
+export function checkRiskExit(
+  position: { entryPrice: number; highWater: number },
+  bar: MarketBar,
+  risk: RiskParameters | null | undefined
+): { reason: ExitReason; price: number } | null {
+  if (!risk) return null;
+
+  const stops: { reason: ExitReason; level: number }[] = [];
+  if (risk.stopLoss) {
+    stops.push({
+      reason: "stop_loss",
+      level: position.entryPrice * (1 - risk.stopLoss / 100),
+    });
+  }
+  if (risk.trailingStop) {
+    stops.push({
+      reason: "trailing_stop",
+      level: position.highWater * (1 - risk.trailingStop / 100),
+    });
+  }
+  // The highest stop is the one that triggers first
+  const stop = stops.sort((a, b) => b.level - a.level)[0];
+
+  if (stop && bar.low <= stop.level) {
+    return { reason: stop.reason, price: Math.min(bar.open, stop.level) };
+  }
+
+  if (risk.takeProfit) {
+    const target = position.entryPrice * (1 + risk.takeProfit / 100);
+    if (bar.high >= target) {
+      return { reason: "take_profit", price: Math.max(bar.open, target) };
+    }
+  }
+
+  return null;
+}
+
+interface PendingOrder {
+  side: OrderSide;
+  quantity: number;
+  rule: string;
+}
+
+/**
+ * Replay several strategies against one cash balance. Bars from every
+ * symbol are merged in time order. Signals become orders that the fill
+ * model executes on the signal bar's close or the next bar's open; on each
+ * fill, sells go before buys so freed cash can be reused, and strategies
+ * are handled in the order given. Orders cut short by the volume limit carry
+ * over to later bars. The same inputs always produce the same result.
+ */
+export function runPortfolioBacktest(
+  barsBySymbol: Record<string, MarketBar[]>,
+  strategies: PortfolioBacktestStrategy[],
+  options: PortfolioBacktestOptions = {}
+): PortfolioBacktestResult {
+  const sizing: PositionSizing = options.sizing ?? { method: "equal_weight" };
+  const fillModel = resolveFillModel(options.fillModel);
+  const initialCapital = options.initialCapital ?? DEFAULT_INITIAL_CAPITAL;
+  const portfolio = new PortfolioSimulation(initialCapital, fillModel);
+
+  // Index bars by timestamp so every symbol can be looked up per step
+  const barsByTime = new Map<number, Map<string, MarketBar>>();
+  for (const [symbol, bars] of Object.entries(barsBySymbol)) {
+    for (const bar of bars) {
+      const time = new Date(bar.timestamp).getTime();
+      if (!barsByTime.has(time)) barsByTime.set(time, new Map());
+      barsByTime.get(time)!.set(symbol, { ...bar, timestamp: new Date(time) });
+    }
+  }
+  const allTimestamps = Array.from(barsByTime.keys()).sort((a, b) => a - b);
+  const warmupUntil = options.warmupUntil?.getTime() ?? -Infinity;
+  const warmupTimestamps = allTimestamps.filter((time) => time < warmupUntil);
+  const timestamps = allTimestamps.filter((time) => time >= warmupUntil);
+
+  const evaluators = strategies.map(
+    () => new StrategyEvaluator({ maxHistorySize: BACKTEST_HISTORY_SIZE })
+  );
+  for (const time of warmupTimestamps) {
+    const barsNow = barsByTime.get(time)!;
+    strategies.forEach((strategy, i) => {
+      const bar = barsNow.get(strategy.symbol);
+      if (bar) evaluators[i].addBar(bar);
+    });
+  }
+  const ruleErrors: (RuleError[] | null)[] = strategies.map(() => null);
+  const orders = new Map<string, PendingOrder>();
+  const lastBars = new Map<string, MarketBar>();
+  const lastPrices: { [symbol: string]: number } = {};
+  const exposureCurve: ExposurePoint[] = [];
+  // Per-step P&L of each strategy, realized plus change in unrealized
+  const pnlSeries: number[][] = strategies.map(() => []);
+  const previousPnl: number[] = strategies.map(() => 0);
+  let partialFills = 0;
+
+  const strategyPnl = (strategy: PortfolioBacktestStrategy): number => {
+    const realized = portfolio
+      .getClosedTrades()
+      .filter((t) => t.strategyId === strategy.id)
+      .reduce((sum, t) => sum + t.pnl, 0);
+    return realized + portfolio.getOpenPnl(strategy.id, lastPrices);
+  };
+
+  const executeOrders = (
+    barsNow: Map<string, MarketBar>,
+    index: number,
+    field: "open" | "close"
+  ) => {
+    // Shares filled per symbol on this bar, for the volume limit
+    const filled = new Map<string, number>();
+
+    for (const side of ["sell", "buy"] as const) {
+      for (const strategy of strategies) {
+        const order = orders.get(strategy.id);
+        const bar = barsNow.get(strategy.symbol);
+        if (!order || order.side !== side || !bar) continue;
+
+        const referencePrice = bar[field];
+        if (side === "buy") {
+          // Whatever cash can't cover is dropped rather than carried
+          order.quantity = Math.min(
+            order.quantity,
+            portfolio.affordableQuantity(referencePrice, bar)
+          );
+        }
+        const alreadyFilled = filled.get(strategy.symbol) ?? 0;
+        const quantity = Math.min(
+          order.quantity,
+          volumeCapacity(fillModel, bar, alreadyFilled)
+        );
+
+        if (quantity > 0) {
+          if (side === "buy") {
+            portfolio.enterPosition(
+              strategy.id,
+              strategy.symbol,
+              quantity,
+              bar,
+              referencePrice,
+              index,
+              order.rule
+            );
+          } else {
+            portfolio.exitPosition(
+              strategy.id,
+              quantity,
+              bar,
+              referencePrice,
+              index,
+              order.rule,
+              "rule"
+            );
+          }
+          filled.set(strategy.symbol, alreadyFilled + quantity);
+          order.quantity -= quantity;
+          if (order.quantity > 0) partialFills++;
+        }
+
+        if (order.quantity <= 0) orders.delete(strategy.id);
+      }
+    }
+  };
+
+  timestamps.forEach((time, index) => {
+    const timestamp = new Date(time);
+    const barsNow = barsByTime.get(time)!;
+
+    // Orders signalled on the previous bar fill at this bar's open
+    if (fillModel.fillAt === "next_open") {
+      executeOrders(barsNow, index, "open");
+    }
+
+    barsNow.forEach((bar, symbol) => {
+      lastBars.set(symbol, bar);
+      lastPrices[symbol] = bar.close;
+    });
+
+    // Stops and targets trigger inside the bar, before the close-based rules.
+    // They close the whole position and cancel any order still working.
+    strategies.forEach((strategy) => {
+      const bar = barsNow.get(strategy.symbol);
+      const position = portfolio.getPosition(strategy.id);
+      if (!bar || !position) return;
+
+      const riskExit = checkRiskExit(
+        {
+          entryPrice: position.entryValue / position.enteredQuantity,
+          highWater: position.highWater,
+        },
+        bar,
+        strategy.riskParameters
+      );
+      if (riskExit) {
+        orders.delete(strategy.id);
+        portfolio.exitPosition(
+          strategy.id,
+          null,
+          bar,
+          riskExit.price,
+          index,
+          "",
+          riskExit.reason
+        );
+      } else {
+        portfolio.updateHighWater(strategy.id, bar.high);
+      }
+    });
+
+    strategies.forEach((strategy, i) => {
+      const bar = barsNow.get(strategy.symbol);
+      if (!bar) return;
+
+      const evaluation = evaluators[i].evaluateRules(
+        strategy.entryRules,
+        strategy.exitRules,
+        bar
+      );
+      // Parse errors do not depend on the data, so the first bar reports them all
+      if (ruleErrors[i] === null) {
+        ruleErrors[i] = evaluation.errors;
+      }
+
+      const pending = orders.get(strategy.id);
+      const position = portfolio.getPosition(strategy.id);
+
+      if (evaluation.shouldExit && (position || pending?.side === "buy")) {
+        // An exit cancels whatever is left of the entry order
+        if (pending?.side === "buy") orders.delete(strategy.id);
+        if (position && pending?.side !== "sell") {
+          orders.set(strategy.id, {
+            side: "sell",
+            quantity: position.quantity,
+            rule: evaluation.triggers.exit.join(" AND "),
+          });
+        }
+        return;
+      }
+
+      if (evaluation.shouldEnter && !position && !pending) {
+        const quantity = targetQuantity(
+          sizing,
+          strategy,
+          portfolio.getPortfolioValue(lastPrices),
+          bar.close,
+          strategies.length
+        );
+        if (quantity > 0) {
+          orders.set(strategy.id, {
+            side: "buy",
+            quantity,
+            rule: evaluation.triggers.entry.join(" AND "),
+          });
+        }
+      }
+    });
+
+    if (fillModel.fillAt === "close") {
+      executeOrders(barsNow, index, "close");
+    }
+
+    portfolio.recordPortfolioValue(timestamp, lastPrices);
+
+    const equity = portfolio.getPortfolioValue(lastPrices);
+    const grossExposure = portfolio.getPositionsValue(lastPrices);
+    exposureCurve.push({
+      timestamp,
+      grossExposure,
+      exposure: equity > 0 ? grossExposure / equity : 0,
+      cash: portfolio.getCash(),
+      openPositions: portfolio.getPositions().length,
+    });
+
+    strategies.forEach((strategy, i) => {
+      const pnl = strategyPnl(strategy);
+      pnlSeries[i].push(pnl - previousPnl[i]);
+      previousPnl[i] = pnl;
+    });
+  });
+
+  // Close anything still open at its last close so every trade is accounted
+  // for; orders that never filled are dropped
+  const lastIndex = timestamps.length - 1;
+  for (const position of [...portfolio.getPositions()]) {
+    const bar = lastBars.get(position.symbol)!;
+    portfolio.exitPosition(
+      position.key,
+      null,
+      bar,
+      bar.close,
+      lastIndex,
+      "",
+      "end_of_data"
+    );
+  }
+
+  const errorsByStrategy = ruleErrors.map((errors) => errors ?? []);
+  const result = portfolio.calculatePerformanceMetrics(
+    timestamps.length,
+    errorsByStrategy.flat(),
+    partialFills,
+    exposureCurve.filter((point) => point.openPositions > 0).length,
+    options.periodsPerYear
+  );
+  if (options.benchmark) {
+    result.benchmark = calculateBenchmarkMetrics(
+      result.equityCurve,
+      options.benchmark.bars,
+      options.benchmark.symbol,
+      options.periodsPerYear
+    );
+  }
+
+  const contributions = strategies.map((strategy, i): StrategyContribution => {
+    const trades = result.trades.filter((t) => t.strategyId === strategy.id);
+    const pnl = trades.reduce((sum, t) => sum + t.pnl, 0);
+    const wins = trades.filter((t) => t.pnl > 0).length;
+    return {
+      strategyId: strategy.id,
+      name: strategy.name,
+      symbol: strategy.symbol,
+      totalTrades: trades.length,
+      winRate: trades.length > 0 ? wins / trades.length : 0,
+      pnl,
+      contribution: pnl / initialCapital,
+      ruleErrors: errorsByStrategy[i],
+    };
+  });
+
+  return {
+    ...result,
+    sizing,
+    exposureCurve,
+    strategies: contributions,
+    correlation: {
+      strategyIds: strategies.map((s) => s.id),
+      matrix: pnlSeries.map((a, i) =>
+        pnlSeries.map((b, j) => (i === j ? 1 : pearsonCorrelation(a, b)))
+      ),
+    },
+  };
+}
+
+/**
+ * Replay historical bars for one symbol through a fresh StrategyEvaluator
+ * and simulate entries/exits on the rule signals. Signals are evaluated on
+ * each bar's close and filled according to the fill model (by default at
+ * that close with no costs), so the same bars and rules always produce the
+ * same result.
+ */
+export function runBacktest(
+  bars: MarketBar[],
+  options: BacktestOptions
+): BacktestResult {
+  const { symbol, entryRules, exitRules } = options;
+  const result = runPortfolioBacktest(
+    { [symbol]: bars },
+    [
+      {
+        id: symbol,
+        symbol,
+        entryRules,
+        exitRules,
+        riskParameters: options.riskParameters,
+      },
+    ],
+    {
+      initialCapital: options.initialCapital,
+      sizing: options.sizing ?? {
+        method: "fixed_quantity",
+        quantity: options.quantity ?? DEFAULT_QUANTITY,
+      },
+      fillModel: options.fillModel,
+      warmupUntil: options.warmupUntil,
+      benchmark: options.benchmark,
+      periodsPerYear: options.periodsPerYear,
+    }
+  );
+
+  return {
+    totalReturn: result.totalReturn,
+    sharpeRatio: result.sharpeRatio,
+    maxDrawdown: result.maxDrawdown,
+    winRate: result.winRate,
+    totalTrades: result.totalTrades,
+    profitableTrades: result.profitableTrades,
+    averageReturn: result.averageReturn,
+    volatility: result.volatility,
+    sortinoRatio: result.sortinoRatio,
+    calmarRatio: result.calmarRatio,
+    profitFactor: result.profitFactor,
+    expectancy: result.expectancy,
+    averageHoldingPeriod: result.averageHoldingPeriod,
+    exposureTime: result.exposureTime,
+    benchmark: result.benchmark,
+    barsProcessed: result.barsProcessed,
+    trades: result.trades,
+    exitBreakdown: result.exitBreakdown,
+    equityCurve: result.equityCurve,
+    ruleErrors: result.ruleErrors,
+    fillModel: result.fillModel,
+    executionCosts: result.executionCosts,
+  };
+}
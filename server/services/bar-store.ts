@@ -0,0 +1,290 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import type {
+  InsertMarketBar,
+  InsertMarketBarRange,
+  MarketBarRange,
+  MarketBarRow,
+} from "@shared/schema";
+import { brokerConfig } from "./broker-config";
+import type { MarketBar } from "./evaluator";
+import { TIMEFRAME_MS } from "./timeframe";
+
+export interface BarRange {
+  start: Date;
+  end: Date;
+}
+
+// Identifies the exact bars a backtest ran on, so a result can be reproduced
+export interface DatasetInfo {
+  symbol: string;
+  timeframe: string;
+  start: Date | null;
+  end: Date | null;
+  bars: number;
+  // SHA-256 over the bars' timestamps and OHLCV values
+  hash: string;
+  sources: string[];
+}
+
+export interface BarRepository {
+  getMarketBars(
+    symbol: string,
+    timeframe: string,
+    start: Date,
+    end: Date
+  ): Promise<MarketBarRow[]>;
+  upsertMarketBars(bars: InsertMarketBar[]): Promise<number>;
+  getMarketBarRanges(symbol: string, timeframe: string): Promise<MarketBarRange[]>;
+  createMarketBarRange(range: InsertMarketBarRange): Promise<MarketBarRange>;
+}
+
+export type BarFetcher = (
+  symbol: string,
+  start: Date,
+  end: Date,
+  timeframe: string
+) => Promise<MarketBar[]>;
+
+export class BarImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BarImportError";
+  }
+}
+
+export function mergeRanges(ranges: BarRange[]): BarRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: BarRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start.getTime() <= last.end.getTime()) {
+      if (range.end.getTime() > last.end.getTime()) last.end = range.end;
+    } else {
+      merged.push({ start: range.start, end: range.end });
+    }
+  }
+  return merged;
+}
+
+// Parts of [start, end] not covered by any of the ranges
+export function missingRanges(covered: BarRange[], start: Date, end: Date): BarRange[] {
+  const missing: BarRange[] = [];
+  let cursor = start.getTime();
+  for (const range of mergeRanges(covered)) {
+    if (range.end.getTime() < cursor) continue;
+    if (range.start.getTime() > end.getTime()) break;
+    if (range.start.getTime() > cursor) {
+      missing.push({ start: new Date(cursor), end: range.start });
+    }
+    cursor = Math.max(cursor, range.end.getTime());
+  }
+  if (cursor < end.getTime()) {
+    missing.push({ start: new Date(cursor), end });
+  }
+  return missing;
+}
+
+export function datasetHash(bars: MarketBar[]): string {
+  const hash = createHash("sha256");
+  for (const bar of bars) {
+    hash.update(
+      `${new Date(bar.timestamp).toISOString()},${bar.open},${bar.high},${bar.low},${bar.close},${bar.volume}\n`
+    );
+  }
+  return hash.digest("hex");
+}
+
+export function describeDataset(
+  symbol: string,
+  timeframe: string,
+  bars: MarketBar[],
+  sources: string[]
+): DatasetInfo {
+  return {
+    symbol,
+    timeframe,
+    start: bars.length > 0 ? new Date(bars[0].timestamp) : null,
+    end: bars.length > 0 ? new Date(bars[bars.length - 1].timestamp) : null,
+    bars: bars.length,
+    hash: datasetHash(bars),
+    sources,
+  };
+}
+
+const CSV_COLUMNS: Record<keyof MarketBar, string[]> = {
+  timestamp: ["timestamp", "time", "date", "datetime", "t"],
+  open: ["open", "o"],
+  high: ["high", "h"],
+  low: ["low", "l"],
+  close: ["close", "c"],
+  volume: ["volume", "v"],
+};
+
+/**
+ * Parse bars from CSV with a header row. Column names are case-insensitive
+ * and may be the full names or Alpaca's one-letter keys (t, o, h, l, c, v).
+ * Timestamps are anything `new Date()` accepts; bars come back sorted.
+ */
+export function parseBarCsv(csv: string): MarketBar[] {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length === 0) {
+    throw new BarImportError("CSV is empty");
+  }
+
+  const header = lines[0].split(",").map((name) => name.trim().toLowerCase());
+  const columns = {} as Record<keyof MarketBar, number>;
+  for (const [field, names] of Object.entries(CSV_COLUMNS)) {
+    const index = header.findIndex((name) => names.includes(name));
+    if (index === -1) {
+      throw new BarImportError(`CSV header has no '${field}' column`);
+    }
+    columns[field as keyof MarketBar] = index;
+  }
+
+  const bars = lines.slice(1).map((line, i) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const timestamp = new Date(cells[columns.timestamp]);
+    if (isNaN(timestamp.getTime())) {
+      throw new BarImportError(`Line ${i + 2}: invalid timestamp '${cells[columns.timestamp]}'`);
+    }
+    const value = (field: Exclude<keyof MarketBar, "timestamp">) => {
+      const parsed = Number(cells[columns[field]]);
+      if (cells[columns[field]] === undefined || cells[columns[field]] === "" || !isFinite(parsed)) {
+        throw new BarImportError(`Line ${i + 2}: invalid ${field} '${cells[columns[field]] ?? ""}'`);
+      }
+      return parsed;
+    };
+    return {
+      timestamp,
+      open: value("open"),
+      high: value("high"),
+      low: value("low"),
+      close: value("close"),
+      volume: value("volume"),
+    };
+  });
+
+  return bars.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+function toRow(symbol: string, timeframe: string, bar: MarketBar, source: string): InsertMarketBar {
+  return {
+    symbol,
+    timeframe,
+    timestamp: new Date(bar.timestamp),
+    open: String(bar.open),
+    high: String(bar.high),
+    low: String(bar.low),
+    close: String(bar.close),
+    volume: Math.round(bar.volume),
+    source,
+  };
+}
+
+function fromRow(row: MarketBarRow): MarketBar {
+  return {
+    timestamp: row.timestamp,
+    open: parseFloat(row.open),
+    high: parseFloat(row.high),
+    low: parseFloat(row.low),
+    close: parseFloat(row.close),
+    volume: row.volume,
+  };
+}
+
+/**
+ * Persistent historical bar cache. Requests are served from the database
+ * and only the ranges that were never loaded are fetched. Without a fetcher
+ * (offline mode) whatever is stored is returned as is. Fetched bars are
+ * tagged with `source`, and only ranges loaded from that source or from CSV
+ * count as covered, so simulated bars never stand in for real ones.
+ */
+export class BarStore {
+  constructor(
+    private repository: BarRepository,
+    private fetchBars: BarFetcher | null,
+    private source: string = "alpaca"
+  ) {}
+
+  async getBars(
+    symbol: string,
+    start: Date,
+    end: Date,
+    timeframe: string = "1Day"
+  ): Promise<{ bars: MarketBar[]; dataset: DatasetInfo }> {
+    if (this.fetchBars) {
+      const covered = (await this.repository.getMarketBarRanges(symbol, timeframe)).filter(
+        (range) => range.source === this.source || range.source === "csv"
+      );
+      const gaps = missingRanges(covered, start, end);
+
+      for (const gap of gaps) {
+        const fetched = await this.fetchBars(symbol, gap.start, gap.end, timeframe);
+        await this.repository.upsertMarketBars(
+          fetched.map((bar) => toRow(symbol, timeframe, bar, this.source))
+        );
+
+        // The newest bar may still be forming, so leave it uncovered and refetch it next time
+        const settled = new Date(
+          Math.min(gap.end.getTime(), Date.now() - (TIMEFRAME_MS[timeframe] ?? TIMEFRAME_MS["1Day"]))
+        );
+        if (settled.getTime() > gap.start.getTime()) {
+          await this.repository.createMarketBarRange({
+            symbol,
+            timeframe,
+            start: gap.start,
+            end: settled,
+            source: this.source,
+          });
+        }
+      }
+    }
+
+    const rows = await this.repository.getMarketBars(symbol, timeframe, start, end);
+    const bars = rows.map(fromRow);
+    const sources = Array.from(new Set(rows.map((row) => row.source))).sort();
+    return { bars, dataset: describeDataset(symbol, timeframe, bars, sources) };
+  }
+
+  async importCsv(symbol: string, timeframe: string, csv: string): Promise<DatasetInfo> {
+    if (!TIMEFRAME_MS[timeframe]) {
+      throw new BarImportError(
+        `Unknown timeframe '${timeframe}'. Available: ${Object.keys(TIMEFRAME_MS).join(", ")}`
+      );
+    }
+    const bars = parseBarCsv(csv);
+    if (bars.length === 0) {
+      throw new BarImportError("CSV has no bars");
+    }
+
+    await this.repository.upsertMarketBars(
+      bars.map((bar) => toRow(symbol, timeframe, bar, "csv"))
+    );
+    await this.repository.createMarketBarRange({
+      symbol,
+      timeframe,
+      start: bars[0].timestamp,
+      end: bars[bars.length - 1].timestamp,
+      source: "csv",
+    });
+
+    return describeDataset(symbol, timeframe, bars, ["csv"]);
+  }
+}
+
+// The broker is loaded on first fetch so offline runs and CSV imports never construct it
+const fetchFromBroker: BarFetcher = async (symbol, start, end, timeframe) => {
+  const { broker } = await import("./broker");
+  return broker.getHistoricalBars(symbol, start, end, timeframe);
+};
+
+const { kind: brokerKind, simulated } = brokerConfig();
+// A simulated broker replaying market_bars reads this store, so it must never fetch from it
+const replaying = brokerKind === "simulated" && simulated.bars === "bar_store";
+
+export const barStore = new BarStore(
+  storage,
+  process.env.BAR_STORE_OFFLINE === "true" || replaying ? null : fetchFromBroker,
+  brokerKind
+);
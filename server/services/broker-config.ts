@@ -0,0 +1,69 @@
+// Broker selection lives apart from broker.ts so modules can read it
+// without constructing a broker
+
+export const DEFAULT_SIMULATED_SYMBOLS = ["AAPL", "MSFT", "GOOGL", "AMZN", "NVDA", "META", "TSLA", "SPY", "QQQ"];
+
+export type BrokerKind = "alpaca" | "simulated";
+
+export interface SimulatedBrokerConfig {
+  // "generated" synthesizes bars from the seed; "bar_store" replays bars stored in market_bars
+  bars: "generated" | "bar_store";
+  seed: number;
+  initialCash: number;
+  // Bars orders fill against
+  timeframe: string;
+  symbols: string[];
+}
+
+export interface BrokerConfig {
+  kind: BrokerKind;
+  simulated: SimulatedBrokerConfig;
+}
+
+function numberSetting(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function hasAlpacaCredentials(env: Record<string, string | undefined> = process.env): boolean {
+  return Boolean(env.ALPACA_API_KEY && env.ALPACA_SECRET_KEY);
+}
+
+/**
+ * Reads the broker settings. BROKER picks the implementation and defaults
+ * to Alpaca; the simulated broker is only ever used when asked for, so a
+ * deployment missing its keys cannot trade on simulated fills unnoticed.
+ * In production missing Alpaca credentials are an error.
+ */
+export function brokerConfig(env: Record<string, string | undefined> = process.env): BrokerConfig {
+  const configured = env.BROKER || "alpaca";
+  if (configured !== "alpaca" && configured !== "simulated") {
+    throw new Error(`Unknown BROKER "${configured}": expected "alpaca" or "simulated"`);
+  }
+  const kind: BrokerKind = configured;
+  if (kind === "alpaca" && env.NODE_ENV === "production" && !hasAlpacaCredentials(env)) {
+    throw new Error("Alpaca credentials not configured: set ALPACA_API_KEY and ALPACA_SECRET_KEY, or BROKER=simulated");
+  }
+
+  const bars = env.BROKER_SIM_BARS || "generated";
+  if (bars !== "generated" && bars !== "bar_store") {
+    throw new Error(`Unknown BROKER_SIM_BARS "${bars}": expected "generated" or "bar_store"`);
+  }
+
+  return {
+    kind,
+    simulated: {
+      bars,
+      seed: numberSetting(env.BROKER_SIM_SEED, 42, "BROKER_SIM_SEED"),
+      initialCash: numberSetting(env.BROKER_SIM_CASH, 100_000, "BROKER_SIM_CASH"),
+      timeframe: env.BROKER_SIM_TIMEFRAME || "1Min",
+      symbols: env.BROKER_SIM_SYMBOLS
+        ? env.BROKER_SIM_SYMBOLS.split(",").map((symbol) => symbol.trim().toUpperCase()).filter(Boolean)
+        : DEFAULT_SIMULATED_SYMBOLS,
+    },
+  };
+}
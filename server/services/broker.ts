@@ -0,0 +1,103 @@
+import type {
+  AlpacaAccount,
+  AlpacaBar,
+  AlpacaMarketData,
+  AlpacaOrder,
+  AlpacaPortfolioHistoryPoint,
+  AlpacaPosition,
+} from "./alpaca";
+import { AlpacaService } from "./alpaca";
+import type { BarFetcher } from "./bar-store";
+import { brokerConfig, hasAlpacaCredentials, type BrokerConfig, type BrokerKind } from "./broker-config";
+import type { MarketBar } from "./evaluator";
+import { logger } from "./logger";
+import type { OrderPrices, TimeInForce } from "./order-types";
+import { SimulatedBroker, generatedBars } from "./simulated-broker";
+import { RedisStateStore } from "./simulated-broker-state";
+
+export type BrokerAccount = AlpacaAccount;
+export type BrokerPosition = AlpacaPosition;
+export type BrokerOrder = AlpacaOrder;
+export type BrokerMarketData = AlpacaMarketData;
+export type BrokerPortfolioHistoryPoint = AlpacaPortfolioHistoryPoint;
+
+export interface BrokerOrderRequest extends OrderPrices {
+  symbol: string;
+  qty: number;
+  time_in_force?: TimeInForce;
+}
+
+// Order status filter, as accepted by Alpaca's order listing
+export type BrokerOrderStatus = "open" | "closed" | "all";
+
+export interface BrokerClock {
+  timestamp: Date;
+  is_open: boolean;
+  next_open: Date;
+  next_close: Date;
+}
+
+/**
+ * Everything the app needs from a brokerage: account, positions, orders,
+ * bars, assets and the market clock. Services depend on this rather than on
+ * Alpaca so the simulated broker can stand in for development, CI and
+ * backtests.
+ */
+export interface Broker {
+  readonly name: BrokerKind;
+
+  getAccount(): Promise<BrokerAccount>;
+  getPortfolioHistory(start: Date, end: Date): Promise<BrokerPortfolioHistoryPoint[]>;
+
+  getPositions(): Promise<BrokerPosition[]>;
+  getPosition(symbol: string): Promise<BrokerPosition | null>;
+  closePosition(symbol: string): Promise<BrokerOrder>;
+
+  placeOrder(orderRequest: BrokerOrderRequest): Promise<BrokerOrder>;
+  getOrders(status?: BrokerOrderStatus): Promise<BrokerOrder[]>;
+  // One order by id, with its legs
+  getOrder(orderId: string): Promise<BrokerOrder>;
+  cancelOrder(orderId: string): Promise<void>;
+
+  // Newest `limit` bars in Alpaca's compact shape, oldest first
+  getBars(symbol: string, timeframe: string, limit: number): Promise<AlpacaBar[]>;
+  getHistoricalBars(symbol: string, start: Date, end: Date, timeframe?: string): Promise<MarketBar[]>;
+  getMarketData(symbols: string[]): Promise<BrokerMarketData[]>;
+  getCurrentPrice(symbol: string): Promise<number>;
+
+  getTradableAssets(): Promise<string[]>;
+  getClock(): Promise<BrokerClock>;
+}
+
+// Replays bars from market_bars without ever fetching, so the store and the broker cannot loop
+const replayFromBarStore: BarFetcher = async (symbol, start, end, timeframe) => {
+  const [{ BarStore }, { storage }] = await Promise.all([import("./bar-store"), import("../storage")]);
+  const { bars } = await new BarStore(storage, null).getBars(symbol, start, end, timeframe);
+  return bars;
+};
+
+// The server and the worker both place and poll orders, so they share the account through Redis
+const sharedSimulatedState = new RedisStateStore(async () => (await import("../lib/queue")).redisClient);
+
+export function createBroker(config: BrokerConfig = brokerConfig()): Broker {
+  if (config.kind === "alpaca") {
+    return new AlpacaService();
+  }
+  const settings = config.simulated;
+  return new SimulatedBroker({
+    bars: settings.bars === "bar_store" ? replayFromBarStore : generatedBars(settings.seed),
+    initialCash: settings.initialCash,
+    timeframe: settings.timeframe,
+    symbols: settings.symbols,
+    store: sharedSimulatedState,
+  });
+}
+
+const config = brokerConfig();
+if (config.kind === "alpaca" && !hasAlpacaCredentials()) {
+  logger.warn("Alpaca credentials not configured: broker calls will fail until they are, or set BROKER=simulated", {
+    operation: "broker.select",
+  });
+}
+
+export const broker: Broker = createBroker(config);
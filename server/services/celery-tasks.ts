@@ -1,8 +1,13 @@
 import { storage } from '../storage';
 import { tradingService } from './trading';
-import { alpacaService } from './alpaca';
+import { bracketFromRiskParameters } from './order-types';
+import type { RiskParameters } from './backtest';
+import { broker } from './broker';
 import { analyzeMarket, selectAssets, generateTradingStrategy } from './gemini';
 import { wsManager } from './websocket';
+import { validateRules } from './rule-validator';
+import { strategyVersions, aiAuthor, executionTarget } from './strategy-versions';
+import { getValidationProfile, DEFAULT_VALIDATION_PROFILE } from './walk-forward';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface TaskResult {
@@ -281,22 +286,25 @@ export class TaskManager {
   async validateStrategyTask(correlationId: string, strategies: any[]): Promise<TaskResult> {
     try {
       const validatedStrategies = [];
+      const validationProfile = getValidationProfile(process.env.VALIDATION_PROFILE || DEFAULT_VALIDATION_PROFILE);
       
       for (const strategy of strategies) {
-        // Run backtest
-        const backtestResult = await tradingService.backtestStrategy(
-          strategy.symbol,
-          strategy.entryRules,
-          strategy.exitRules,
-          new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
-          new Date()
-        );
+        // Walk-forward backtest, warmed up for the rules' indicators
+        const { warmupBars } = validateRules(strategy.entryRules, strategy.exitRules);
+        const validation = await tradingService.validateStrategy(strategy, validationProfile, { warmupBars });
         
-        // Validate performance
-        if (backtestResult.totalReturn > 0.02 && backtestResult.winRate > 0.6) { // > 2% return and > 60% win rate
+        if (validation.accepted) {
           validatedStrategies.push({
             ...strategy,
-            backtestResult,
+            backtestResult: validation.fullPeriod,
+            walkForward: {
+              accepted: validation.accepted,
+              failures: validation.failures,
+              windows: validation.windows,
+              stability: validation.stability,
+              monteCarlo: validation.monteCarlo,
+              dataset: validation.dataset
+            },
             validated: true
           });
         }
@@ -305,8 +313,8 @@ export class TaskManager {
       await storage.createAiDecision({
         correlationId,
         stage: 'validation',
-        input: { strategies },
-        output: { validatedStrategies },
+        input: { strategies, validationProfile: validationProfile.name },
+        output: { validationProfile, validatedStrategies },
         status: 'success'
       });
 
@@ -340,7 +348,7 @@ export class TaskManager {
       
       for (const strategy of validatedStrategies) {
         // Store strategy in database
-        const dbStrategy = await storage.createStrategy({
+        const created = await storage.createStrategy({
           name: strategy.name,
           symbol: strategy.symbol,
           entryRules: strategy.entryRules,
@@ -352,6 +360,11 @@ export class TaskManager {
           correlationId,
           aiMetadata: strategy
         });
+        const { strategy: dbStrategy } = await strategyVersions.createInitialVersion(
+          created,
+          aiAuthor(created),
+          'Generated by the AI pipeline'
+        );
         
         stagedStrategies.push(dbStrategy);
       }
@@ -403,43 +416,34 @@ export class TaskManager {
       const stagedStrategies = await storage.getStrategies('staged');
 
       for (const strategy of stagedStrategies) {
-        const marketData = await tradingService.getMarketData([strategy.symbol]);
-        const evaluation = await tradingService.evaluateStrategy(
-          strategy.symbol,
-          strategy.entryRules,
-          strategy.exitRules,
-          marketData[0]
-        );
+        const version = await strategyVersions.liveVersion(strategy);
+        const evaluation = await tradingService.evaluateOnBarClose(executionTarget(strategy, version));
+        if (!evaluation) continue;
 
         if (evaluation.shouldEnter && evaluation.confidence > 0.7) {
-          // Execute trade
+          // Execute trade; the version's stop-loss and take-profit ride along as a bracket
+          const referencePrice = await broker.getCurrentPrice(strategy.symbol);
           const orderRequest = {
             symbol: strategy.symbol,
             quantity: 100, // This should come from risk parameters
             side: 'buy' as const,
             type: 'market' as const,
             correlationId: strategy.correlationId || undefined,
+            strategyId: strategy.id,
             strategyName: strategy.name,
-            aiReasoning: `AI confidence: ${evaluation.confidence}`
+            aiReasoning: `AI confidence: ${evaluation.confidence} (strategy version ${version.version})`,
+            ...bracketFromRiskParameters('buy', referencePrice, version.riskParameters as RiskParameters | null)
           };
 
-          // Execute order (note: current executeOrder returns boolean, not order details)
-          const orderResult = await tradingService.executeOrder(orderRequest);
-          
-          // For now, use fallback price since executeOrder returns boolean
-          const executedPrice = await alpacaService.getCurrentPrice(strategy.symbol);
+          // Positions and the trade broadcast follow from the fills the order lifecycle books
+          const order = await tradingService.executeOrder(orderRequest);
+          if (order.status === 'rejected') {
+            console.warn(`Order for ${strategy.symbol} was rejected by the broker`);
+            continue;
+          }
 
           // Update strategy status
           await storage.updateStrategy(strategy.id, { status: 'active' });
-
-          wsManager?.broadcastTradeExecution({
-            strategy: strategy.name,
-            symbol: strategy.symbol,
-            side: 'buy',
-            quantity: 100,
-            price: executedPrice,
-            correlationId: strategy.correlationId || undefined
-          });
         }
       }
     } catch (error) {
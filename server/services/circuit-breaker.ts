@@ -192,7 +192,7 @@ export class CircuitBreaker extends EventEmitter {
       if (this.state === CircuitBreakerState.CLOSED && this.failureCount === 0) {
         this.successCount = Math.min(this.successCount, this.config.successThreshold * 2);
       }
-    }, this.config.monitoringPeriodMs);
+    }, this.config.monitoringPeriodMs).unref();
   }
 }
 
@@ -286,6 +286,15 @@ export const defaultConfigs: Record<string, CircuitBreakerConfig> = {
     resetTimeoutMs: 60000, // 1 minute
     monitoringPeriodMs: 300000 // 5 minutes
   },
+  // Connection attempts of the trade update and market data streams
+  alpacaStream: {
+    name: 'alpacaStream',
+    failureThreshold: 5,
+    successThreshold: 1,
+    timeoutMs: 15000, // 15 seconds to connect and authenticate
+    resetTimeoutMs: 60000, // 1 minute
+    monitoringPeriodMs: 300000 // 5 minutes
+  },
   gemini: {
     name: 'gemini',
     failureThreshold: 3,
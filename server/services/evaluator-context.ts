@@ -0,0 +1,340 @@
+import { broker } from "./broker";
+import {
+  StrategyEvaluator,
+  type MarketBar,
+  type StrategyEvaluation,
+} from "./evaluator";
+import { validateRules } from "./rule-validator";
+import {
+  DEFAULT_TIMEFRAME,
+  bucketEnd,
+  bucketStart,
+  lastClosedBucketStart,
+  lookbackStart,
+  mergeBar,
+  sourceTimeframe,
+  timeframeMs,
+} from "./timeframe";
+
+export interface EvaluatedStrategy {
+  id: string;
+  symbol: string;
+  entryRules: string;
+  exitRules: string;
+  timeframe?: string;
+  // Strategy version the rules come from; a different version gets a fresh context
+  versionId?: string;
+}
+
+export interface EvaluatorContext {
+  strategyId: string;
+  symbol: string;
+  timeframe: string;
+  versionId: string | null;
+  evaluator: StrategyEvaluator;
+  seededBars: number;
+  createdAt: Date;
+  // Start of the newest closed bar in the evaluator's history
+  lastClosedBarStart: number | null;
+  // Aggregate of the source bars seen so far for the bucket still open
+  formingBar: MarketBar | null;
+  // Newest closed bucket already requested, so quiet periods (nights,
+  // weekends) are polled once per bucket
+  lastPolledBucket: number | null;
+}
+
+export { DEFAULT_TIMEFRAME };
+
+// Seed at least this many bars even when the rules need less warm-up
+const MIN_SEED_BARS = 100;
+
+/**
+ * Keeps one StrategyEvaluator per strategy and symbol so every context has
+ * its own bar history and timeframe. Contexts are seeded from historical
+ * bars on first use so indicators are valid on the first evaluation. Bars of
+ * a finer timeframe are aggregated into the strategy's timeframe, and rules
+ * are evaluated once per closed bar. A context is re-seeded when the
+ * strategy's timeframe or version changes, since the new rules may need a
+ * longer warm-up.
+ */
+export class EvaluatorContextManager {
+  private contexts = new Map<string, EvaluatorContext>();
+  private seeding = new Map<string, Promise<EvaluatorContext>>();
+
+  private key(strategyId: string, symbol: string): string {
+    return `${strategyId}:${symbol}`;
+  }
+
+  private matches(context: EvaluatorContext, strategy: EvaluatedStrategy): boolean {
+    return (
+      context.timeframe === (strategy.timeframe || DEFAULT_TIMEFRAME) &&
+      context.versionId === (strategy.versionId ?? null)
+    );
+  }
+
+  async getContext(strategy: EvaluatedStrategy): Promise<EvaluatorContext> {
+    const timeframe = strategy.timeframe || DEFAULT_TIMEFRAME;
+    const key = this.key(strategy.id, strategy.symbol);
+
+    const existing = this.contexts.get(key);
+    if (existing && this.matches(existing, strategy)) {
+      return existing;
+    }
+
+    // Concurrent evaluations of the same strategy version share one seeding request
+    const seedingKey = `${key}:${timeframe}:${strategy.versionId ?? ""}`;
+    let pending = this.seeding.get(seedingKey);
+    if (!pending) {
+      pending = this.createContext(strategy, timeframe).finally(() => {
+        this.seeding.delete(seedingKey);
+      });
+      this.seeding.set(seedingKey, pending);
+    }
+
+    const context = await pending;
+    this.contexts.set(key, context);
+    return context;
+  }
+
+  /**
+   * Merge the latest bar into the strategy's history and evaluate its rules.
+   * A bar in the same timeframe bucket as the last one replaces it instead of
+   * being appended, so repeated snapshots don't distort the indicators.
+   */
+  async evaluate(
+    strategy: EvaluatedStrategy,
+    bar: MarketBar
+  ): Promise<StrategyEvaluation> {
+    const context = await this.getContext(strategy);
+    const { evaluator, timeframe } = context;
+
+    const lastBar = evaluator.getLastBar();
+    if (
+      lastBar &&
+      bucketStart(lastBar.timestamp, timeframe) ===
+        bucketStart(bar.timestamp, timeframe)
+    ) {
+      evaluator.replaceLastBar({ ...bar, timestamp: lastBar.timestamp });
+    } else {
+      evaluator.addBar(bar);
+    }
+
+    return evaluator.evaluate(strategy.entryRules, strategy.exitRules);
+  }
+
+  /**
+   * Aggregate bars of the strategy's timeframe or finer into its buckets.
+   * Buckets that have closed by `now` join the history, and the rules are
+   * evaluated on the newest one. Returns null when no bar closed.
+   */
+  async ingestBars(
+    strategy: EvaluatedStrategy,
+    bars: MarketBar[],
+    now: Date = new Date()
+  ): Promise<StrategyEvaluation | null> {
+    const context = await this.getContext(strategy);
+    const { timeframe } = context;
+    const ordered = [...bars].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    let closed = 0;
+    const closeFormingBar = () => {
+      if (!context.formingBar) return;
+      context.evaluator.addBar(context.formingBar);
+      context.lastClosedBarStart = bucketStart(context.formingBar.timestamp, timeframe);
+      context.formingBar = null;
+      closed++;
+    };
+
+    for (const bar of ordered) {
+      const bucket = bucketStart(bar.timestamp, timeframe);
+      // Already part of a closed bar
+      if (context.lastClosedBarStart !== null && bucket <= context.lastClosedBarStart) {
+        continue;
+      }
+      const forming = context.formingBar;
+      if (forming && bucketStart(forming.timestamp, timeframe) === bucket) {
+        context.formingBar = mergeBar(forming, bar);
+        continue;
+      }
+      closeFormingBar();
+      context.formingBar = { ...bar, timestamp: new Date(bucket) };
+    }
+    if (
+      context.formingBar &&
+      bucketEnd(context.formingBar.timestamp, timeframe) <= now.getTime()
+    ) {
+      closeFormingBar();
+    }
+
+    if (closed === 0) return null;
+    return context.evaluator.evaluate(strategy.entryRules, strategy.exitRules);
+  }
+
+  /**
+   * Fetch the source bars since the last closed bar and evaluate once a new
+   * bar of the strategy's timeframe has closed; null while it is forming.
+   */
+  async evaluateOnBarClose(
+    strategy: EvaluatedStrategy,
+    now: Date = new Date()
+  ): Promise<StrategyEvaluation | null> {
+    const context = await this.getContext(strategy);
+    const { timeframe } = context;
+    const latestClosed = lastClosedBucketStart(now, timeframe);
+    const seen = Math.max(
+      context.lastClosedBarStart ?? -Infinity,
+      context.lastPolledBucket ?? -Infinity
+    );
+    if (latestClosed <= seen) {
+      return null;
+    }
+    context.lastPolledBucket = latestClosed;
+
+    const from =
+      context.lastClosedBarStart !== null
+        ? new Date(context.lastClosedBarStart + timeframeMs(timeframe))
+        : new Date(latestClosed);
+    const to = new Date(latestClosed + timeframeMs(timeframe));
+    const bars = await broker.getHistoricalBars(
+      strategy.symbol,
+      from,
+      to,
+      sourceTimeframe(timeframe)
+    );
+    // The fetched bars cover any bar the stream had started building
+    if (
+      context.formingBar &&
+      bucketStart(context.formingBar.timestamp, timeframe) <= latestClosed
+    ) {
+      context.formingBar = null;
+    }
+    return this.ingestBars(
+      strategy,
+      bars.map((bar) => ({ ...bar, timestamp: new Date(bar.timestamp) })),
+      now
+    );
+  }
+
+  /**
+   * Feed a streamed 1Min bar to a strategy's context. The stream only builds
+   * the bar right after the last closed one, from its first minute, so a
+   * bar is never closed with minutes missing; anything else is left to
+   * evaluateOnBarClose. Returns the evaluation when the bar closes a bucket.
+   */
+  async ingestStreamedBar(
+    strategy: EvaluatedStrategy,
+    bar: MarketBar,
+    now: Date = new Date()
+  ): Promise<StrategyEvaluation | null> {
+    const context = this.contexts.get(this.key(strategy.id, strategy.symbol));
+    if (
+      !context ||
+      !this.matches(context, strategy) ||
+      context.lastClosedBarStart === null ||
+      sourceTimeframe(context.timeframe) !== "1Min"
+    ) {
+      return null;
+    }
+    const bucket = bucketStart(bar.timestamp, context.timeframe);
+    const forming = context.formingBar;
+    const extendsForming =
+      forming !== null && bucketStart(forming.timestamp, context.timeframe) === bucket;
+    const startsNext =
+      forming === null &&
+      bucket === context.lastClosedBarStart + timeframeMs(context.timeframe) &&
+      bar.timestamp.getTime() === bucket;
+    if (!extendsForming && !startsNext) {
+      return null;
+    }
+    return this.ingestBars(strategy, [bar], now);
+  }
+
+  /**
+   * Drop bars the stream was building, e.g. after it reconnected and may
+   * have missed minutes. evaluateOnBarClose rebuilds them from the broker.
+   */
+  discardFormingBars() {
+    for (const context of Array.from(this.contexts.values())) {
+      context.formingBar = null;
+    }
+  }
+
+  evictStrategy(strategyId: string): number {
+    let evicted = 0;
+    for (const [key, context] of Array.from(this.contexts.entries())) {
+      if (context.strategyId === strategyId) {
+        this.contexts.delete(key);
+        evicted++;
+      }
+    }
+    return evicted;
+  }
+
+  /**
+   * Drop contexts for strategies that are no longer staged or active.
+   */
+  retainStrategies(strategyIds: Iterable<string>): number {
+    const keep = new Set(strategyIds);
+    let evicted = 0;
+    for (const [key, context] of Array.from(this.contexts.entries())) {
+      if (!keep.has(context.strategyId)) {
+        this.contexts.delete(key);
+        evicted++;
+      }
+    }
+    return evicted;
+  }
+
+  getContextCount(): number {
+    return this.contexts.size;
+  }
+
+  clear() {
+    this.contexts.clear();
+  }
+
+  private async createContext(
+    strategy: EvaluatedStrategy,
+    timeframe: string
+  ): Promise<EvaluatorContext> {
+    const { warmupBars } = validateRules(strategy.entryRules, strategy.exitRules);
+    const seedBars = Math.max(MIN_SEED_BARS, warmupBars);
+    const evaluator = new StrategyEvaluator({ maxHistorySize: seedBars * 2 });
+
+    const end = new Date();
+    const bars = await broker.getHistoricalBars(
+      strategy.symbol,
+      lookbackStart(end, timeframe, seedBars),
+      end,
+      timeframe
+    );
+
+    // The bar still forming at `end` is left out; source bars rebuild it
+    const orderedBars = [...bars]
+      .filter((bar) => bucketEnd(bar.timestamp, timeframe) <= end.getTime())
+      .sort(
+        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+    for (const bar of orderedBars.slice(-seedBars)) {
+      evaluator.addBar({ ...bar, timestamp: new Date(bar.timestamp) });
+    }
+    const lastBar = evaluator.getLastBar();
+
+    return {
+      strategyId: strategy.id,
+      symbol: strategy.symbol,
+      timeframe,
+      versionId: strategy.versionId ?? null,
+      evaluator,
+      seededBars: evaluator.getHistorySize(),
+      createdAt: new Date(),
+      lastClosedBarStart: lastBar ? bucketStart(lastBar.timestamp, timeframe) : null,
+      formingBar: null,
+      lastPolledBucket: null,
+    };
+  }
+}
+
+export const evaluatorContexts = new EvaluatorContextManager();
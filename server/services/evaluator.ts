@@ -1,4 +1,23 @@
-import { RSI, SMA, EMA, MACD, BollingerBands } from 'technicalindicators';
+import {
+  parseRule,
+  isCondition,
+  evaluateConstant,
+  resolveArguments,
+  RuleParseError,
+  type CallArgument,
+  type Condition,
+  type NumericExpression,
+  type Identifier,
+  type CallExpression,
+  type ComparisonOperator
+} from './rule-parser';
+import {
+  INDICATORS,
+  LOOKBACK_FUNCTIONS,
+  resolveIndicatorParams,
+  formatIndicator,
+  type IndicatorDefinition
+} from './indicators';
 
 export interface MarketBar {
   timestamp: Date;
@@ -18,29 +37,85 @@ export interface StrategyEvaluation {
     exit: boolean;
     strength: number;
   };
+  // Rule clauses that were satisfied when the signal fired
+  triggers: {
+    entry: string[];
+    exit: string[];
+  };
+  // Parse errors (with character positions) for rules that could not be evaluated
+  errors: RuleError[];
+}
+
+export interface RuleError {
+  ruleType: 'entry' | 'exit';
+  message: string;
+  position: number;
+}
+
+export interface StrategyEvaluatorOptions {
+  maxHistorySize?: number;
+}
+
+interface ConditionResult {
+  // null while an indicator is still warming up: unknown, neither true nor false
+  signal: boolean | null;
+  strength: number;
+}
+
+interface RuleStringResult {
+  signal: boolean;
+  strength: number;
+  matched: string[];
 }
 
 export class StrategyEvaluator {
   private priceHistory: MarketBar[] = [];
-  private maxHistorySize = 100; // Keep last 100 bars for indicators
+  private maxHistorySize: number;
+  private parsedRules = new Map<string, Condition | RuleParseError>();
+  private seriesCache = new Map<string, (number | null)[]>();
+
+  constructor(options: StrategyEvaluatorOptions = {}) {
+    this.maxHistorySize = options.maxHistorySize ?? 100; // Keep last 100 bars for indicators by default
+  }
 
   addBar(bar: MarketBar) {
+    this.seriesCache.clear();
     this.priceHistory.push(bar);
     if (this.priceHistory.length > this.maxHistorySize) {
       this.priceHistory.shift(); // Remove oldest bar
     }
   }
 
+  // Replace the most recent bar, e.g. when a still-forming bar receives a newer snapshot
+  replaceLastBar(bar: MarketBar) {
+    if (this.priceHistory.length === 0) {
+      this.addBar(bar);
+      return;
+    }
+    this.seriesCache.clear();
+    this.priceHistory[this.priceHistory.length - 1] = bar;
+  }
+
+  getLastBar(): MarketBar | undefined {
+    return this.priceHistory[this.priceHistory.length - 1];
+  }
+
   evaluateRules(entryRules: string, exitRules: string, currentBar: MarketBar): StrategyEvaluation {
+    // Add current bar to history
+    this.addBar(currentBar);
+    return this.evaluate(entryRules, exitRules);
+  }
+
+  // Evaluate the rules against the bars already in history
+  evaluate(entryRules: string, exitRules: string): StrategyEvaluation {
     try {
-      // Add current bar to history
-      this.addBar(currentBar);
+      const errors: RuleError[] = [];
 
       // Parse and evaluate entry rules
-      const entryResult = this.evaluateRuleString(entryRules, 'entry');
+      const entryResult = this.evaluateRuleString(entryRules, 'entry', errors);
 
       // Parse and evaluate exit rules
-      const exitResult = this.evaluateRuleString(exitRules, 'exit');
+      const exitResult = this.evaluateRuleString(exitRules, 'exit', errors);
 
       // Calculate confidence based on signal strength
       const confidence = Math.min(1.0, (entryResult.strength + exitResult.strength) / 2);
@@ -53,7 +128,12 @@ export class StrategyEvaluator {
           entry: entryResult.signal,
           exit: exitResult.signal,
           strength: confidence
-        }
+        },
+        triggers: {
+          entry: entryResult.signal ? entryResult.matched : [],
+          exit: exitResult.signal ? exitResult.matched : []
+        },
+        errors
       };
     } catch (error: any) {
       console.error('Error evaluating strategy rules:', error);
@@ -65,279 +145,292 @@ export class StrategyEvaluator {
           entry: false,
           exit: false,
           strength: 0
-        }
+        },
+        triggers: {
+          entry: [],
+          exit: []
+        },
+        errors: []
       };
     }
   }
 
-  private evaluateRuleString(ruleString: string, ruleType: 'entry' | 'exit'): { signal: boolean; strength: number } {
+  private evaluateRuleString(ruleString: string, ruleType: 'entry' | 'exit', errors: RuleError[]): RuleStringResult {
+    if (!ruleString || ruleString.trim() === '') {
+      return { signal: false, strength: 0, matched: [] };
+    }
+
     try {
-      // Parse the rule string (simplified implementation)
-      // In a real implementation, this would be a proper expression parser
+      const rule = this.getParsedRule(ruleString);
 
-      const rules = ruleString.split(' AND ').map(r => r.trim());
+      // Top-level AND clauses are reported individually so callers can see
+      // which part of the rule fired
+      const clauses = rule.kind === 'logical' && rule.operator === 'AND' ? rule.operands : [rule];
 
       let signalStrength = 0;
       let conditionsMet = 0;
+      const matched: string[] = [];
 
-      for (const rule of rules) {
-        const result = this.evaluateSingleRule(rule);
-        if (result.signal) {
+      for (const clause of clauses) {
+        const result = this.evaluateCondition(clause, ruleString);
+        // An unknown clause never fires the rule
+        if (result.signal === true) {
           conditionsMet++;
           signalStrength += result.strength;
+          matched.push(ruleString.slice(clause.start, clause.end).trim());
         }
       }
 
-      const allConditionsMet = conditionsMet === rules.length;
-      const averageStrength = rules.length > 0 ? signalStrength / rules.length : 0;
-
       return {
-        signal: allConditionsMet,
-        strength: averageStrength
+        signal: conditionsMet === clauses.length,
+        strength: signalStrength / clauses.length,
+        matched
       };
     } catch (error) {
-      console.error(`Error evaluating ${ruleType} rule "${ruleString}":`, error);
-      return { signal: false, strength: 0 };
+      if (error instanceof RuleParseError) {
+        errors.push({ ruleType, message: error.message, position: error.position });
+      } else {
+        console.error(`Error evaluating ${ruleType} rule "${ruleString}":`, error);
+      }
+      return { signal: false, strength: 0, matched: [] };
     }
   }
 
-  private evaluateSingleRule(rule: string): { signal: boolean; strength: number } {
-    try {
-      // Parse rule strings like "RSI(14) < 30", "SMA(20) > SMA(50)", "PRICE > SMA(20)"
-
-      // RSI rule: RSI(period) <|>|= value
-      const rsiMatch = rule.match(/RSI\((\d+)\)\s*([<>=]+)\s*(\d+(?:\.\d+)?)/);
-      if (rsiMatch) {
-        const period = parseInt(rsiMatch[1]);
-        const operator = rsiMatch[2];
-        const threshold = parseFloat(rsiMatch[3]);
-
-        const rsiValue = this.calculateRSI(period);
-        if (rsiValue !== null) {
-          const signal = this.compareValues(rsiValue, operator, threshold);
-          // Strength based on how far RSI is from the threshold (normalized)
-          const distance = Math.abs(rsiValue - threshold) / 50; // RSI ranges 0-100
-          const strength = Math.min(1.0, distance);
-
-          return { signal, strength };
-        }
+  private getParsedRule(ruleString: string): Condition {
+    let parsed = this.parsedRules.get(ruleString);
+    if (!parsed) {
+      try {
+        parsed = parseRule(ruleString);
+      } catch (error) {
+        if (!(error instanceof RuleParseError)) throw error;
+        parsed = error;
       }
+      this.parsedRules.set(ruleString, parsed);
+    }
 
-      // SMA rule: SMA(period1) >|<|= SMA(period2) or SMA(period) >|<|= value
-      const smaMatch = rule.match(/SMA\((\d+)\)\s*([<>=]+)\s*(?:SMA\((\d+)\)|(\d+(?:\.\d+)?))/);
-      if (smaMatch) {
-        const period1 = parseInt(smaMatch[1]);
-        const operator = smaMatch[2];
-        const period2 = smaMatch[3] ? parseInt(smaMatch[3]) : null;
-        const value = smaMatch[4] ? parseFloat(smaMatch[4]) : null;
-
-        const sma1 = this.calculateSMA(period1);
-        let compareValue: number | null = null;
-
-        if (period2) {
-          compareValue = this.calculateSMA(period2);
-        } else if (value !== null) {
-          compareValue = value;
-        }
-
-        if (sma1 !== null && compareValue !== null) {
-          const signal = this.compareValues(sma1, operator, compareValue);
-          // Strength based on percentage difference
-          const ratio = Math.abs(sma1 - compareValue) / Math.max(sma1, compareValue);
-          const strength = Math.min(1.0, ratio);
+    if (parsed instanceof RuleParseError) {
+      throw parsed;
+    }
+    return parsed;
+  }
 
-          return { signal, strength };
+  private evaluateCondition(node: Condition, source: string, offset = 0): ConditionResult {
+    switch (node.kind) {
+      case 'comparison': {
+        const left = this.evaluateNumeric(node.left, source, offset);
+        const right = this.evaluateNumeric(node.right, source, offset);
+        // Not enough history to compute one side yet
+        if (left === null || right === null) {
+          return { signal: null, strength: 0 };
         }
-      }
 
-      // EMA rule: EMA(period1) >|<|= EMA(period2) or EMA(period) >|<|= value
-      const emaMatch = rule.match(/EMA\((\d+)\)\s*([<>=]+)\s*(?:EMA\((\d+)\)|(\d+(?:\.\d+)?))/);
-      if (emaMatch) {
-        const period1 = parseInt(emaMatch[1]);
-        const operator = emaMatch[2];
-        const period2 = emaMatch[3] ? parseInt(emaMatch[3]) : null;
-        const value = emaMatch[4] ? parseFloat(emaMatch[4]) : null;
-
-        const ema1 = this.calculateEMA(period1);
-        let compareValue: number | null = null;
-
-        if (period2) {
-          compareValue = this.calculateEMA(period2);
-        } else if (value !== null) {
-          compareValue = value;
+        let signal: boolean | null;
+        if (node.operator === 'CROSSES_ABOVE' || node.operator === 'CROSSES_BELOW') {
+          // A cross needs the relationship on the previous bar as well
+          const previousLeft = this.evaluateNumeric(node.left, source, offset + 1);
+          const previousRight = this.evaluateNumeric(node.right, source, offset + 1);
+          if (previousLeft === null || previousRight === null) {
+            signal = null;
+          } else if (node.operator === 'CROSSES_ABOVE') {
+            signal = left > right && previousLeft <= previousRight;
+          } else {
+            signal = left < right && previousLeft >= previousRight;
+          }
+        } else {
+          signal = this.compareValues(left, node.operator, right);
         }
 
-        if (ema1 !== null && compareValue !== null) {
-          const signal = this.compareValues(ema1, operator, compareValue);
-          const ratio = Math.abs(ema1 - compareValue) / Math.max(ema1, compareValue);
-          const strength = Math.min(1.0, ratio);
-
-          return { signal, strength };
-        }
+        // Strength based on the relative distance between the two sides
+        const scale = Math.max(Math.abs(left), Math.abs(right));
+        const strength = scale > 0 ? Math.min(1.0, Math.abs(left - right) / scale) : 0;
+        return { signal, strength };
       }
 
-      // MACD rule: MACD >|<|= value
-      const macdMatch = rule.match(/MACD\s*([<>=]+)\s*(\d+(?:\.\d+)?)/);
-      if (macdMatch) {
-        const operator = macdMatch[1];
-        const threshold = parseFloat(macdMatch[2]);
-
-        const macdValue = this.calculateMACD();
-        if (macdValue !== null) {
-          const signal = this.compareValues(macdValue, operator, threshold);
-          const distance = Math.abs(macdValue - threshold);
-          const strength = Math.min(1.0, distance / Math.abs(threshold || 1));
-
-          return { signal, strength };
+      case 'logical': {
+        // Every operand is evaluated so unknown indicators are always reported
+        const results = node.operands.map(operand => this.evaluateCondition(operand, source, offset));
+        const satisfied = results.filter(result => result.signal === true);
+        const unknown = results.some(result => result.signal === null);
+
+        // Three-valued: a known false decides AND and a known true decides OR,
+        // otherwise an unknown operand leaves the result unknown
+        if (node.operator === 'AND') {
+          const failed = results.some(result => result.signal === false);
+          return {
+            signal: failed ? false : unknown ? null : true,
+            strength: satisfied.reduce((sum, result) => sum + result.strength, 0) / results.length
+          };
         }
+        return {
+          signal: satisfied.length > 0 ? true : unknown ? null : false,
+          strength: satisfied.reduce((max, result) => Math.max(max, result.strength), 0)
+        };
       }
 
-      // Bollinger Bands rule: PRICE >|<|= BB_UPPER(period) or PRICE >|<|= BB_LOWER(period)
-      const bbMatch = rule.match(/PRICE\s*([<>=]+)\s*BB_(UPPER|LOWER)\((\d+)\)/);
-      if (bbMatch) {
-        const operator = bbMatch[1];
-        const bandType = bbMatch[2];
-        const period = parseInt(bbMatch[3]);
-
-        const currentPrice = this.priceHistory[this.priceHistory.length - 1]?.close || 0;
-        const bbValue = bandType === 'UPPER' ? this.calculateBBUpper(period) : this.calculateBBLower(period);
-
-        if (bbValue !== null) {
-          const signal = this.compareValues(currentPrice, operator, bbValue);
-          const ratio = Math.abs(currentPrice - bbValue) / bbValue;
-          const strength = Math.min(1.0, ratio);
-
-          return { signal, strength };
-        }
+      case 'not': {
+        const result = this.evaluateCondition(node.operand, source, offset);
+        return { signal: result.signal === null ? null : !result.signal, strength: result.strength };
       }
+    }
+  }
 
-      // Price-based rules: PRICE >|<|= SMA(period) or PRICE >|<|= value
-      const priceMatch = rule.match(/PRICE\s*([<>=]+)\s*(?:SMA\((\d+)\)|(\d+(?:\.\d+)?))/);
-      if (priceMatch) {
-        const operator = priceMatch[1];
-        const smaPeriod = priceMatch[2] ? parseInt(priceMatch[2]) : null;
-        const value = priceMatch[3] ? parseFloat(priceMatch[3]) : null;
-
-        const currentPrice = this.priceHistory[this.priceHistory.length - 1]?.close || 0;
-        let compareValue: number | null = null;
-
-        if (smaPeriod) {
-          compareValue = this.calculateSMA(smaPeriod);
-        } else if (value !== null) {
-          compareValue = value;
-        }
-
-        if (compareValue !== null) {
-          const signal = this.compareValues(currentPrice, operator, compareValue);
-          const ratio = Math.abs(currentPrice - compareValue) / Math.max(currentPrice, compareValue);
-          const strength = Math.min(1.0, ratio);
+  // Values are read `offset` bars back from the latest bar in history
+  private evaluateNumeric(node: NumericExpression, source: string, offset: number): number | null {
+    switch (node.kind) {
+      case 'number':
+        return node.value;
 
-          return { signal, strength };
-        }
+      case 'negate': {
+        const value = this.evaluateNumeric(node.operand, source, offset);
+        return value === null ? null : -value;
       }
 
-      // Volume-based rules: VOLUME >|<|= value
-      const volumeMatch = rule.match(/VOLUME\s*([<>=]+)\s*(\d+)/);
-      if (volumeMatch) {
-        const operator = volumeMatch[1];
-        const threshold = parseInt(volumeMatch[2]);
+      case 'offset':
+        return this.evaluateNumeric(node.operand, source, offset + node.bars);
 
-        const currentVolume = this.priceHistory[this.priceHistory.length - 1]?.volume || 0;
-        const signal = this.compareValues(currentVolume, operator, threshold);
-        const ratio = Math.abs(currentVolume - threshold) / Math.max(currentVolume, threshold);
-        const strength = Math.min(1.0, ratio);
+      case 'arithmetic': {
+        const left = this.evaluateNumeric(node.left, source, offset);
+        const right = this.evaluateNumeric(node.right, source, offset);
+        if (left === null || right === null) return null;
 
-        return { signal, strength };
+        switch (node.operator) {
+          case '+': return left + right;
+          case '-': return left - right;
+          case '*': return left * right;
+          case '/': return right === 0 ? null : left / right;
+        }
+        return null;
       }
 
-      // Default: no signal
-      return { signal: false, strength: 0 };
+      case 'identifier':
+        return this.evaluateIdentifier(node, source, offset);
 
-    } catch (error) {
-      console.error(`Error evaluating rule "${rule}":`, error);
-      return { signal: false, strength: 0 };
+      case 'call':
+        return this.evaluateCall(node, source, offset);
     }
   }
 
-  private calculateRSI(period: number): number | null {
-    if (this.priceHistory.length < period + 1) return null;
-
-    const closes = this.priceHistory.map(bar => bar.close);
-    const rsi = RSI.calculate({
-      period: period,
-      values: closes
-    });
+  private evaluateIdentifier(node: Identifier, source: string, offset: number): number | null {
+    const bar = this.priceHistory[this.priceHistory.length - 1 - offset];
+
+    switch (node.name) {
+      case 'PRICE':
+      case 'CLOSE':
+        return bar?.close ?? null;
+      case 'OPEN':
+        return bar?.open ?? null;
+      case 'HIGH':
+        return bar?.high ?? null;
+      case 'LOW':
+        return bar?.low ?? null;
+      case 'VOLUME':
+        return bar?.volume ?? null;
+    }
 
-    return rsi.length > 0 ? rsi[rsi.length - 1] : null;
+    // A bare indicator name uses its default parameters, e.g. MACD or RSI
+    const indicator = INDICATORS[node.name];
+    if (!indicator) {
+      throw new RuleParseError(`Unknown indicator '${node.name}'`, node.start, source);
+    }
+    return this.indicatorValue(indicator, null, source, offset);
   }
 
-  private calculateSMA(period: number): number | null {
-    if (this.priceHistory.length < period) return null;
-
-    const closes = this.priceHistory.map(bar => bar.close);
-    const sma = SMA.calculate({
-      period: period,
-      values: closes
-    });
+  private evaluateCall(node: CallExpression, source: string, offset: number): number | null {
+    if (LOOKBACK_FUNCTIONS[node.name]) {
+      return this.evaluateLookback(node, source, offset);
+    }
 
-    return sma.length > 0 ? sma[sma.length - 1] : null;
+    const indicator = INDICATORS[node.name];
+    if (!indicator) {
+      throw new RuleParseError(`Unknown indicator '${node.name}'`, node.start, source);
+    }
+    return this.indicatorValue(indicator, node, source, offset);
   }
 
-  private calculateEMA(period: number): number | null {
-    if (this.priceHistory.length < period) return null;
-
-    const closes = this.priceHistory.map(bar => bar.close);
-    const ema = EMA.calculate({
-      period: period,
-      values: closes
-    });
-
-    return ema.length > 0 ? ema[ema.length - 1] : null;
+  private indicatorValue(
+    indicator: IndicatorDefinition,
+    node: CallExpression | null,
+    source: string,
+    offset: number
+  ): number | null {
+    const params = resolveIndicatorParams(indicator, node, source);
+    const key = formatIndicator(indicator, params);
+    return this.valueAt(this.cachedSeries(key, bars => indicator.calculate(bars, params)), offset);
   }
 
-  private calculateMACD(): number | null {
-    if (this.priceHistory.length < 26) return null; // MACD needs at least 26 periods
+  private evaluateLookback(node: CallExpression, source: string, offset: number): number | null {
+    const args = resolveArguments(node, LOOKBACK_FUNCTIONS[node.name].params, source);
 
-    const closes = this.priceHistory.map(bar => bar.close);
-    const macd = MACD.calculate({
-      values: closes,
-      fastPeriod: 12,
-      slowPeriod: 26,
-      signalPeriod: 9,
-      SimpleMAOscillator: false,
-      SimpleMASignal: false
-    });
+    switch (node.name) {
+      case 'HIGHEST':
+      case 'LOWEST': {
+        const sourceArg = args.get('source');
+        if (!sourceArg || isCondition(sourceArg.value)) {
+          throw new RuleParseError(`${node.name} needs a numeric source such as HIGH`, sourceArg?.start ?? node.start, source);
+        }
+        const period = this.resolvePeriod(node, args.get('period'), source);
+        if (period === null) {
+          throw new RuleParseError(`${node.name} needs a period`, node.end - 1, source);
+        }
 
-    return macd.length > 0 ? (macd[macd.length - 1].histogram ?? null) : null;
-  }
+        const values: number[] = [];
+        for (let i = 0; i < period; i++) {
+          const value = this.evaluateNumeric(sourceArg.value, source, offset + i);
+          if (value === null) return null;
+          values.push(value);
+        }
+        return node.name === 'HIGHEST' ? Math.max(...values) : Math.min(...values);
+      }
 
-  private calculateBBUpper(period: number): number | null {
-    if (this.priceHistory.length < period) return null;
+      case 'BARS_SINCE':
+      case 'STREAK': {
+        const conditionArg = args.get('condition');
+        if (!conditionArg || !isCondition(conditionArg.value)) {
+          throw new RuleParseError(`${node.name} needs a condition such as CLOSE > CLOSE[1]`, conditionArg?.start ?? node.start, source);
+        }
+        const condition = conditionArg.value;
+
+        let bars = 0;
+        while (offset + bars < this.priceHistory.length) {
+          const signal = this.evaluateCondition(condition, source, offset + bars).signal === true;
+          if (node.name === 'BARS_SINCE' && signal) return bars;
+          if (node.name === 'STREAK' && !signal) return bars;
+          bars++;
+        }
+        // BARS_SINCE: the condition never held within the available history
+        return node.name === 'STREAK' ? bars : null;
+      }
+    }
+    return null;
+  }
 
-    const closes = this.priceHistory.map(bar => bar.close);
-    const bb = BollingerBands.calculate({
-      period: period,
-      values: closes,
-      stdDev: 2
-    });
+  private resolvePeriod(node: CallExpression, arg: CallArgument | undefined, source: string): number | null {
+    if (!arg) return null;
 
-    return bb.length > 0 ? bb[bb.length - 1].upper : null;
+    const period = evaluateConstant(arg.value);
+    if (period === null || !Number.isInteger(period) || period < 1) {
+      throw new RuleParseError(`${node.name} period must be a positive whole number`, arg.value.start, source);
+    }
+    return period;
   }
 
-  private calculateBBLower(period: number): number | null {
-    if (this.priceHistory.length < period) return null;
-
-    const closes = this.priceHistory.map(bar => bar.close);
-    const bb = BollingerBands.calculate({
-      period: period,
-      values: closes,
-      stdDev: 2
-    });
+  // Indicator series are aligned to the end of history; index back `offset` bars
+  private valueAt(series: (number | null)[], offset: number): number | null {
+    const index = series.length - 1 - offset;
+    return index >= 0 ? series[index] ?? null : null;
+  }
 
-    return bb.length > 0 ? bb[bb.length - 1].lower : null;
+  // Each indicator series is computed once per bar and reused across rules and lookbacks
+  private cachedSeries(key: string, compute: (bars: MarketBar[]) => (number | null)[]): (number | null)[] {
+    let series = this.seriesCache.get(key);
+    if (!series) {
+      series = compute(this.priceHistory);
+      this.seriesCache.set(key, series);
+    }
+    return series;
   }
 
-  private compareValues(value1: number, operator: string, value2: number): boolean {
+  private compareValues(value1: number, operator: ComparisonOperator, value2: number): boolean {
     switch (operator) {
       case '>': return value1 > value2;
       case '<': return value1 < value2;
@@ -345,6 +438,7 @@ export class StrategyEvaluator {
       case '<=': return value1 <= value2;
       case '=':
       case '==': return value1 === value2;
+      case '!=': return value1 !== value2;
       default: return false;
     }
   }
@@ -352,6 +446,7 @@ export class StrategyEvaluator {
   // Reset the evaluator state
   reset() {
     this.priceHistory = [];
+    this.seriesCache.clear();
   }
 
   // Get current history size
@@ -359,5 +454,3 @@ export class StrategyEvaluator {
     return this.priceHistory.length;
   }
 }
-
-export const strategyEvaluator = new StrategyEvaluator();
@@ -0,0 +1,91 @@
+import type { MarketBar } from "./evaluator";
+
+export type OrderSide = "buy" | "sell";
+
+export type SlippageModel =
+  // Fraction of the reference price, e.g. 0.0005 for 5 bps
+  | { type: "fixed"; percent: number }
+  // Fraction of the fill bar's high-low range, so slippage grows with volatility
+  | { type: "volatility"; rangeFraction: number };
+
+export interface FillModel {
+  commissionPerShare: number;
+  // Fraction of the fill's notional value
+  commissionPercent: number;
+  slippage: SlippageModel;
+  // Full quoted spread as a fraction of price; each fill pays half of it
+  spreadPercent: number;
+  // "close" fills on the signal bar's close; "next_open" on the following bar's open
+  fillAt: "close" | "next_open";
+  // Largest fraction of a bar's volume one symbol may fill; the rest carries to later bars
+  maxVolumePercent: number | null;
+}
+
+export interface FillPrice {
+  price: number;
+  // Per-share costs included in `price`
+  slippage: number;
+  spread: number;
+}
+
+export const DEFAULT_FILL_MODEL: FillModel = {
+  commissionPerShare: 0,
+  commissionPercent: 0,
+  slippage: { type: "fixed", percent: 0 },
+  spreadPercent: 0,
+  fillAt: "close",
+  maxVolumePercent: null,
+};
+
+export function resolveFillModel(overrides: Partial<FillModel> = {}): FillModel {
+  return { ...DEFAULT_FILL_MODEL, ...overrides };
+}
+
+/**
+ * Price a fill against the reference price (the bar's open or close).
+ * Buys pay half the spread plus slippage above it, sells receive the same
+ * amount below it.
+ */
+export function priceFill(
+  model: FillModel,
+  side: OrderSide,
+  referencePrice: number,
+  bar: MarketBar
+): FillPrice {
+  const slippage =
+    model.slippage.type === "fixed"
+      ? referencePrice * model.slippage.percent
+      : (bar.high - bar.low) * model.slippage.rangeFraction;
+  const spread = (referencePrice * model.spreadPercent) / 2;
+  const direction = side === "buy" ? 1 : -1;
+
+  return {
+    price: referencePrice + direction * (slippage + spread),
+    slippage,
+    spread,
+  };
+}
+
+export function commissionFor(
+  model: FillModel,
+  quantity: number,
+  price: number
+): number {
+  return (
+    quantity * model.commissionPerShare +
+    quantity * price * model.commissionPercent
+  );
+}
+
+// Shares that can still fill on this bar, given what has already filled on it
+export function volumeCapacity(
+  model: FillModel,
+  bar: MarketBar,
+  alreadyFilled: number
+): number {
+  if (model.maxVolumePercent === null) return Infinity;
+  return Math.max(
+    0,
+    Math.floor(bar.volume * model.maxVolumePercent) - alreadyFilled
+  );
+}
@@ -1,5 +1,7 @@
 import { GoogleGenAI } from "@google/genai";
 import { circuitBreakerManager, defaultConfigs } from './circuit-breaker';
+import { PRICE_FIELDS, describeRuleFunctions } from './indicators';
+import { TIMEFRAMES } from '@shared/backtest';
 
 export interface MarketAnalysis {
   trend: string;
@@ -19,15 +21,33 @@ export interface TradingStrategy {
   symbol: string;
   entryRules: string;
   exitRules: string;
+  // Bar size the rules are evaluated on: 1Min, 5Min, 15Min, 1Hour or 1Day
+  timeframe?: string;
   riskParameters: {
     maxPositionSize: number;
     stopLoss: number;
     takeProfit: number;
+    trailingStop?: number;
   };
   confidence: number;
   backtestExpectedReturn: number;
 }
 
+// Stored with generated strategies and their backtest runs; bump whenever the
+// strategy generation prompt changes so runs can be compared across versions
+export const STRATEGY_PROMPT_VERSION = "2";
+
+// Rule grammar accepted by the StrategyEvaluator, included in strategy prompts.
+// The function list comes from the indicator registry so prompts stay in sync.
+const RULE_SYNTAX_GUIDE = `Entry/exit rules are expressions such as "RSI(14) < 30 AND PRICE > SMA(50)".
+      - Values: ${PRICE_FIELDS.join(", ")} and these functions (parameters shown with defaults, all optional, positional or named):
+${describeRuleFunctions()}
+      - Comparisons: >, <, >=, <=, ==, !=
+      - Arithmetic: +, -, *, / (e.g. PRICE > SMA(20) * 1.02, PRICE < CLOSE[1] - ATR(14) * 2)
+      - Logic: AND, OR, NOT and parentheses
+      - Crossovers: SMA(20) CROSSES_ABOVE SMA(50), RSI(14) CROSSES_BELOW 30
+      - Past values: CLOSE[1] is the close 1 bar ago`;
+
 export interface RiskAnalysis {
   overallRiskLevel: "LOW" | "MEDIUM" | "HIGH" | "EXTREME";
   riskScore: number;
@@ -126,7 +146,9 @@ export class GeminiService {
       The strategy must include:
       - A descriptive name
       - Parseable entry/exit conditions using technical indicators (RSI, SMA, EMA, MACD, etc.)
-      - Risk parameters (stopLoss, takeProfit percentages)
+      ${RULE_SYNTAX_GUIDE}
+      - A timeframe for the rules' bars: one of ${TIMEFRAMES.join(", ")}
+      - Risk parameters as percentages (5 means 5%, never 0.05): maxPositionSize of portfolio equity per entry (1 to 100), stopLoss, takeProfit and optionally trailingStop of the entry price; backtests exit on them intrabar
       - Confidence score and expected return.
       Respond with JSON in the specified format with parseable conditions.
       Symbol: ${symbol}
@@ -146,6 +168,38 @@ export class GeminiService {
     }
   }
 
+  /**
+   * Ask the model to fix entry/exit rules that failed validation
+   */
+  async repairStrategyRules(
+    strategy: TradingStrategy,
+    validationErrors: string
+  ): Promise<Pick<TradingStrategy, "entryRules" | "exitRules">> {
+    return this.executeWithCircuitBreaker(async () => {
+      try {
+        const prompt = `You are a Trading Strategist. The entry/exit rules of this strategy could not be parsed.
+        Rewrite them so they keep the same trading intent but only use the supported syntax.
+        ${RULE_SYNTAX_GUIDE}
+        Respond with JSON in this format: {"entryRules": "...", "exitRules": "..."}
+        Strategy: ${JSON.stringify(strategy)}
+        Validation errors:
+        ${validationErrors}`;
+
+        const result = await this.genAI.models.generateContent({
+          model: "gemini-2.0-flash",
+          contents: prompt,
+        });
+        const text = result.text;
+        if (!text) {
+          throw new Error("No response text received");
+        }
+        return JSON.parse(text);
+      } catch (error) {
+        throw new Error(`Failed to repair strategy rules: ${error}`);
+      }
+    });
+  }
+
   async analyzeRisk(portfolioData: any, marketConditions: any): Promise<RiskAnalysis> {
     return this.executeWithCircuitBreaker(async () => {
       try {
@@ -251,6 +305,13 @@ export async function generateTradingStrategy(
   return geminiService.generateTradingStrategy(symbol, marketData);
 }
 
+export async function repairStrategyRules(
+  strategy: TradingStrategy,
+  validationErrors: string
+): Promise<Pick<TradingStrategy, "entryRules" | "exitRules">> {
+  return geminiService.repairStrategyRules(strategy, validationErrors);
+}
+
 export async function analyzeRisk(
   portfolioData: any,
   marketConditions: any
@@ -39,10 +39,11 @@ export interface PerformanceMetrics {
 
 export interface AlertEvent {
   serviceName: string;
-  alertType: 'high_error_rate' | 'slow_response' | 'consecutive_failures' | 'service_down';
+  alertType: 'high_error_rate' | 'slow_response' | 'consecutive_failures' | 'service_down' | 'reconciliation_drift';
   severity: 'warning' | 'critical';
   message: string;
-  metrics: PerformanceMetrics;
+  // Set for alerts raised by a service's own health checks
+  metrics?: PerformanceMetrics;
   timestamp: Date;
 }
 
@@ -376,6 +377,14 @@ export class APIHealthMonitor extends EventEmitter {
     this.emit('alert', alert);
   }
 
+  /**
+   * Record an alert detected outside the health checks, e.g. by position
+   * reconciliation
+   */
+  raiseAlert(alert: AlertEvent): void {
+    this.handleAlert(alert);
+  }
+
   /**
    * Get recent alerts
    */
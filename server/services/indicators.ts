@@ -0,0 +1,316 @@
+import {
+  RSI,
+  SMA,
+  EMA,
+  MACD,
+  BollingerBands,
+  ATR,
+  Stochastic,
+  ADX,
+  OBV,
+  CCI,
+  WilliamsR
+} from 'technicalindicators';
+import { evaluateConstant, RuleParseError, resolveArguments, type CallExpression } from './rule-parser';
+import type { MarketBar } from './evaluator';
+
+export interface IndicatorParam {
+  name: string;
+  defaultValue: number;
+  min: number;
+  integer: boolean;
+}
+
+export type IndicatorParams = Record<string, number>;
+
+export interface IndicatorDefinition {
+  name: string;
+  description: string;
+  params: IndicatorParam[];
+  // Bars of history needed before the indicator produces its first value
+  warmup: (params: IndicatorParams) => number;
+  // Series aligned to the end of `bars`; the last element is the latest value
+  calculate: (bars: MarketBar[], params: IndicatorParams) => (number | null)[];
+}
+
+export interface RuleFunctionDefinition {
+  name: string;
+  description: string;
+  params: string[];
+}
+
+const period = (defaultValue: number): IndicatorParam => ({ name: 'period', defaultValue, min: 1, integer: true });
+
+const closes = (bars: MarketBar[]) => bars.map(bar => bar.close);
+const highs = (bars: MarketBar[]) => bars.map(bar => bar.high);
+const lows = (bars: MarketBar[]) => bars.map(bar => bar.low);
+
+const MACD_PARAMS: IndicatorParam[] = [
+  { name: 'fast', defaultValue: 12, min: 1, integer: true },
+  { name: 'slow', defaultValue: 26, min: 1, integer: true },
+  { name: 'signal', defaultValue: 9, min: 1, integer: true }
+];
+
+const BB_PARAMS: IndicatorParam[] = [period(20), { name: 'stddev', defaultValue: 2, min: 0, integer: false }];
+
+const STOCH_PARAMS: IndicatorParam[] = [period(14), { name: 'signal', defaultValue: 3, min: 1, integer: true }];
+
+function macd(bars: MarketBar[], params: IndicatorParams) {
+  return MACD.calculate({
+    values: closes(bars),
+    fastPeriod: params.fast,
+    slowPeriod: params.slow,
+    signalPeriod: params.signal,
+    SimpleMAOscillator: false,
+    SimpleMASignal: false
+  });
+}
+
+function bollinger(bars: MarketBar[], params: IndicatorParams) {
+  return BollingerBands.calculate({ period: params.period, values: closes(bars), stdDev: params.stddev });
+}
+
+function stochastic(bars: MarketBar[], params: IndicatorParams) {
+  return Stochastic.calculate({
+    period: params.period,
+    signalPeriod: params.signal,
+    high: highs(bars),
+    low: lows(bars),
+    close: closes(bars)
+  });
+}
+
+function adx(bars: MarketBar[], params: IndicatorParams) {
+  return ADX.calculate({ period: params.period, high: highs(bars), low: lows(bars), close: closes(bars) });
+}
+
+// Rolling VWAP over the last `period` bars using the typical price, so the
+// value doesn't depend on how much history happens to be loaded
+function rollingVwap(bars: MarketBar[], params: IndicatorParams): (number | null)[] {
+  const values: (number | null)[] = [];
+  for (let end = params.period; end <= bars.length; end++) {
+    let priceVolume = 0;
+    let volume = 0;
+    for (const bar of bars.slice(end - params.period, end)) {
+      priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+      volume += bar.volume;
+    }
+    values.push(volume > 0 ? priceVolume / volume : null);
+  }
+  return values;
+}
+
+const definitions: IndicatorDefinition[] = [
+  {
+    name: 'RSI',
+    description: 'Relative Strength Index (0-100)',
+    params: [period(14)],
+    warmup: p => p.period + 1,
+    calculate: (bars, p) => RSI.calculate({ period: p.period, values: closes(bars) })
+  },
+  {
+    name: 'SMA',
+    description: 'Simple moving average of the close',
+    params: [period(20)],
+    warmup: p => p.period,
+    calculate: (bars, p) => SMA.calculate({ period: p.period, values: closes(bars) })
+  },
+  {
+    name: 'EMA',
+    description: 'Exponential moving average of the close',
+    params: [period(20)],
+    warmup: p => p.period,
+    calculate: (bars, p) => EMA.calculate({ period: p.period, values: closes(bars) })
+  },
+  {
+    name: 'MACD',
+    description: 'MACD histogram (MACD line minus signal line)',
+    params: MACD_PARAMS,
+    warmup: p => p.slow + p.signal - 1,
+    calculate: (bars, p) => macd(bars, p).map(point => point.histogram ?? null)
+  },
+  {
+    name: 'MACD_LINE',
+    description: 'MACD line (fast EMA minus slow EMA)',
+    params: MACD_PARAMS,
+    warmup: p => p.slow,
+    calculate: (bars, p) => macd(bars, p).map(point => point.MACD ?? null)
+  },
+  {
+    name: 'MACD_SIGNAL',
+    description: 'MACD signal line',
+    params: MACD_PARAMS,
+    warmup: p => p.slow + p.signal - 1,
+    calculate: (bars, p) => macd(bars, p).map(point => point.signal ?? null)
+  },
+  {
+    name: 'BB_UPPER',
+    description: 'Upper Bollinger band',
+    params: BB_PARAMS,
+    warmup: p => p.period,
+    calculate: (bars, p) => bollinger(bars, p).map(band => band.upper)
+  },
+  {
+    name: 'BB_MIDDLE',
+    description: 'Middle Bollinger band',
+    params: BB_PARAMS,
+    warmup: p => p.period,
+    calculate: (bars, p) => bollinger(bars, p).map(band => band.middle)
+  },
+  {
+    name: 'BB_LOWER',
+    description: 'Lower Bollinger band',
+    params: BB_PARAMS,
+    warmup: p => p.period,
+    calculate: (bars, p) => bollinger(bars, p).map(band => band.lower)
+  },
+  {
+    name: 'ATR',
+    description: 'Average True Range in price units',
+    params: [period(14)],
+    warmup: p => p.period + 1,
+    calculate: (bars, p) =>
+      ATR.calculate({ period: p.period, high: highs(bars), low: lows(bars), close: closes(bars) })
+  },
+  {
+    name: 'STOCH_K',
+    description: 'Stochastic oscillator %K (0-100)',
+    params: STOCH_PARAMS,
+    warmup: p => p.period,
+    calculate: (bars, p) => stochastic(bars, p).map(point => point.k ?? null)
+  },
+  {
+    name: 'STOCH_D',
+    description: 'Stochastic oscillator %D, the signal average of %K (0-100)',
+    params: STOCH_PARAMS,
+    warmup: p => p.period + p.signal - 1,
+    calculate: (bars, p) => stochastic(bars, p).map(point => point.d ?? null)
+  },
+  {
+    name: 'ADX',
+    description: 'Average Directional Index trend strength (0-100)',
+    params: [period(14)],
+    warmup: p => p.period * 2,
+    calculate: (bars, p) => adx(bars, p).map(point => point.adx)
+  },
+  {
+    name: 'PLUS_DI',
+    description: 'Positive directional indicator',
+    params: [period(14)],
+    warmup: p => p.period * 2,
+    calculate: (bars, p) => adx(bars, p).map(point => point.pdi)
+  },
+  {
+    name: 'MINUS_DI',
+    description: 'Negative directional indicator',
+    params: [period(14)],
+    warmup: p => p.period * 2,
+    calculate: (bars, p) => adx(bars, p).map(point => point.mdi)
+  },
+  {
+    name: 'VWAP',
+    description: 'Volume-weighted average typical price over the last `period` bars',
+    params: [period(20)],
+    warmup: p => p.period,
+    calculate: rollingVwap
+  },
+  {
+    name: 'OBV',
+    description: 'On-balance volume; compare it with its own past values, e.g. OBV > OBV[5]',
+    params: [],
+    warmup: () => 2,
+    calculate: bars => OBV.calculate({ close: closes(bars), volume: bars.map(bar => bar.volume) })
+  },
+  {
+    name: 'CCI',
+    description: 'Commodity Channel Index',
+    params: [period(20)],
+    warmup: p => p.period,
+    calculate: (bars, p) =>
+      CCI.calculate({ period: p.period, high: highs(bars), low: lows(bars), close: closes(bars) })
+  },
+  {
+    name: 'WILLIAMS_R',
+    description: 'Williams %R (-100 to 0)',
+    params: [period(14)],
+    warmup: p => p.period,
+    calculate: (bars, p) =>
+      WilliamsR.calculate({ period: p.period, high: highs(bars), low: lows(bars), close: closes(bars) })
+  }
+];
+
+export const INDICATORS: Record<string, IndicatorDefinition> = Object.fromEntries(
+  definitions.map(definition => [definition.name, definition])
+);
+
+// Values read straight from a bar
+export const PRICE_FIELDS = ['PRICE', 'CLOSE', 'OPEN', 'HIGH', 'LOW', 'VOLUME'];
+
+// Functions that look back over several bars
+export const LOOKBACK_FUNCTIONS: Record<string, RuleFunctionDefinition> = {
+  HIGHEST: { name: 'HIGHEST', description: 'Highest value of source over the last period bars', params: ['source', 'period'] },
+  LOWEST: { name: 'LOWEST', description: 'Lowest value of source over the last period bars', params: ['source', 'period'] },
+  BARS_SINCE: { name: 'BARS_SINCE', description: 'Bars since condition last held (0 = this bar)', params: ['condition'] },
+  STREAK: { name: 'STREAK', description: 'Consecutive bars, ending now, on which condition held', params: ['condition'] }
+};
+
+export function getIndicator(name: string): IndicatorDefinition | undefined {
+  return INDICATORS[name];
+}
+
+/**
+ * Resolve a call's arguments (or a bare identifier when `node` is null) to
+ * indicator parameters, filling in defaults. Throws RuleParseError for
+ * unknown, non-constant or out-of-range arguments.
+ */
+export function resolveIndicatorParams(
+  definition: IndicatorDefinition,
+  node: CallExpression | null,
+  source: string
+): IndicatorParams {
+  const args = node
+    ? resolveArguments(node, definition.params.map(param => param.name), source)
+    : new Map();
+  const params: IndicatorParams = {};
+
+  for (const param of definition.params) {
+    const arg = args.get(param.name);
+    if (!arg) {
+      params[param.name] = param.defaultValue;
+      continue;
+    }
+
+    const value = evaluateConstant(arg.value);
+    if (value === null || (param.integer && !Number.isInteger(value)) || value < param.min) {
+      const kind = param.integer ? 'whole number' : 'number';
+      throw new RuleParseError(
+        `${definition.name} ${param.name} must be a ${kind} of at least ${param.min}`,
+        arg.value.start,
+        source
+      );
+    }
+    params[param.name] = value;
+  }
+
+  return params;
+}
+
+// Short label such as "RSI(14)" or "MACD(12, 26, 9)"
+export function formatIndicator(definition: IndicatorDefinition, params: IndicatorParams): string {
+  if (definition.params.length === 0) return definition.name;
+  return `${definition.name}(${definition.params.map(param => params[param.name]).join(', ')})`;
+}
+
+/**
+ * One line per indicator and lookback function, for AI prompts.
+ */
+export function describeRuleFunctions(): string {
+  const indicatorLines = definitions.map(definition => {
+    const params = definition.params.map(param => `${param.name}=${param.defaultValue}`).join(', ');
+    return `${definition.name}(${params}): ${definition.description}`;
+  });
+  const lookbackLines = Object.values(LOOKBACK_FUNCTIONS).map(
+    fn => `${fn.name}(${fn.params.join(', ')}): ${fn.description}`
+  );
+  return [...indicatorLines, ...lookbackLines].join('\n');
+}
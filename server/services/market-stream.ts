@@ -0,0 +1,393 @@
+import WebSocket from "ws";
+import type { Order } from "@shared/schema";
+import { toAlpacaOrder, type AlpacaOrder } from "./alpaca";
+import {
+  CircuitBreaker,
+  circuitBreakerManager,
+  defaultConfigs,
+} from "./circuit-breaker";
+import type { MarketBar } from "./evaluator";
+import { LastPriceCache, lastPrices, type PriceUpdate } from "./price-cache";
+
+// Redis channel the worker relays streamed prices and order updates on, for
+// the server to push to dashboard clients
+export const MARKET_STREAM_CHANNEL = "market-stream";
+
+export type RelayedStreamEvent =
+  | { type: "price"; data: PriceUpdate }
+  | { type: "order"; data: Order };
+
+export type StreamName = "trade_updates" | "market_data";
+
+export interface MarketStreamConfig {
+  enabled: boolean;
+  key: string;
+  secret: string;
+  // Alpaca's trading stream, which carries trade_updates
+  tradeUpdatesUrl: string;
+  // Alpaca's market data stream, including the feed (iex or sip)
+  marketDataUrl: string;
+  reconnectBaseMs: number;
+  reconnectMaxMs: number;
+}
+
+export interface MarketStreamHandlers {
+  onTradeUpdate?(order: AlpacaOrder, event: string): unknown;
+  onBar?(symbol: string, bar: MarketBar): unknown;
+  onPrice?(update: PriceUpdate): unknown;
+  // Each time a stream (re)authenticates; updates sent while it was down are lost
+  onConnected?(stream: StreamName): unknown;
+}
+
+export interface StreamConnectionStatus {
+  connected: boolean;
+  reconnects: number;
+  lastMessageAt: Date | null;
+  lastError: string | null;
+}
+
+export interface MarketStreamStatus {
+  enabled: boolean;
+  symbols: string[];
+  tradeUpdates: StreamConnectionStatus;
+  marketData: StreamConnectionStatus;
+}
+
+/**
+ * Reads the stream settings. The stream runs against Alpaca only, so it is
+ * off for the simulated broker and can be turned off with MARKET_STREAM=off.
+ */
+export function marketStreamConfig(env: Record<string, string | undefined> = process.env): MarketStreamConfig {
+  const key = env.ALPACA_API_KEY || "";
+  const secret = env.ALPACA_SECRET_KEY || "";
+  const alpacaBroker = (env.BROKER || "alpaca") === "alpaca";
+  const baseUrl = env.ALPACA_BASE_URL || "https://paper-api.alpaca.markets";
+  const feed = env.ALPACA_DATA_FEED || "iex";
+
+  return {
+    enabled: alpacaBroker && Boolean(key && secret) && env.MARKET_STREAM !== "off",
+    key,
+    secret,
+    tradeUpdatesUrl: env.ALPACA_STREAM_URL || `${baseUrl.replace(/^http/, "ws").replace(/\/+$/, "")}/stream`,
+    marketDataUrl: env.ALPACA_DATA_STREAM_URL || `wss://stream.data.alpaca.markets/v2/${feed}`,
+    reconnectBaseMs: parseInt(env.MARKET_STREAM_RECONNECT_MS || "1000"),
+    reconnectMaxMs: parseInt(env.MARKET_STREAM_RECONNECT_MAX_MS || "60000"),
+  };
+}
+
+interface FrameContext {
+  send(message: object): void;
+  // The stream authenticated and is subscribed
+  ready(): void;
+  fail(error: Error): void;
+}
+
+interface StreamProtocol {
+  onOpen(context: FrameContext): void;
+  onFrame(frame: any, context: FrameContext): void;
+}
+
+/**
+ * One websocket to Alpaca that reconnects with exponential backoff. Every
+ * connection attempt, up to authentication, runs through the circuit
+ * breaker, so a stream that keeps failing stops hammering the endpoint.
+ */
+class StreamConnection {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private attempts = 0;
+  private stopped = true;
+  readonly status: StreamConnectionStatus = {
+    connected: false,
+    reconnects: 0,
+    lastMessageAt: null,
+    lastError: null,
+  };
+
+  constructor(
+    readonly name: StreamName,
+    private readonly url: string,
+    private readonly protocol: StreamProtocol,
+    private readonly breaker: CircuitBreaker,
+    private readonly backoff: { baseMs: number; maxMs: number },
+    private readonly onConnected: () => void
+  ) {}
+
+  start() {
+    if (!this.stopped) return;
+    this.stopped = false;
+    void this.connect();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.terminate();
+    this.socket = null;
+    this.status.connected = false;
+  }
+
+  send(message: object) {
+    if (this.status.connected && this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private async connect() {
+    if (this.stopped) return;
+    try {
+      await this.breaker.execute(() => this.open());
+      this.attempts = 0;
+      this.status.lastError = null;
+      this.onConnected();
+    } catch (error: any) {
+      this.status.lastError = error.message;
+      this.socket?.terminate();
+      this.socket = null;
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.stopped || this.reconnectTimer) return;
+    const delay = Math.min(this.backoff.maxMs, this.backoff.baseMs * 2 ** this.attempts);
+    this.attempts++;
+    this.status.reconnects++;
+    console.warn(`[MarketStream] ${this.name} disconnected (${this.status.lastError}), reconnecting in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.connect();
+    }, delay);
+  }
+
+  // Resolves once the stream has authenticated
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      this.socket = socket;
+      let authenticated = false;
+      let settled = false;
+
+      const context: FrameContext = {
+        send: (message) => socket.send(JSON.stringify(message)),
+        ready: () => {
+          if (settled) return;
+          settled = authenticated = true;
+          this.status.connected = true;
+          resolve();
+        },
+        fail: (error) => {
+          if (settled) {
+            socket.close();
+            return;
+          }
+          settled = true;
+          reject(error);
+        },
+      };
+
+      socket.on("open", () => this.protocol.onOpen(context));
+      socket.on("message", (data) => {
+        this.status.lastMessageAt = new Date();
+        let frame: unknown;
+        try {
+          frame = JSON.parse(data.toString());
+        } catch {
+          console.warn(`[MarketStream] ${this.name} sent a frame that is not JSON`);
+          return;
+        }
+        this.protocol.onFrame(frame, context);
+      });
+      socket.on("error", (error) => context.fail(error));
+      socket.on("close", (code) => {
+        if (this.socket === socket) this.socket = null;
+        if (!authenticated) {
+          context.fail(new Error(`${this.name} closed with code ${code} before authenticating`));
+          return;
+        }
+        this.status.connected = false;
+        this.status.lastError = `closed with code ${code}`;
+        this.scheduleReconnect();
+      });
+    });
+  }
+}
+
+// Mid of a two-sided quote, or whichever side is present
+function quotePrice(bid: number, ask: number): number | null {
+  if (bid > 0 && ask > 0) return (bid + ask) / 2;
+  if (ask > 0) return ask;
+  if (bid > 0) return bid;
+  return null;
+}
+
+/**
+ * Streams Alpaca trade updates and quotes and bars for the symbols held or
+ * watched. Streamed prices go to the last-price cache and every update to
+ * the handlers; the stream itself knows nothing about strategies or orders.
+ */
+export class MarketStream {
+  private symbols = new Set<string>();
+  // Handlers of each stream run one at a time, in the order updates arrive
+  private queues: Record<StreamName, Promise<unknown>> = {
+    trade_updates: Promise.resolve(),
+    market_data: Promise.resolve(),
+  };
+  private readonly tradeUpdates: StreamConnection;
+  private readonly marketData: StreamConnection;
+
+  constructor(
+    private readonly config: MarketStreamConfig,
+    private readonly handlers: MarketStreamHandlers = {},
+    options: { cache?: LastPriceCache; breaker?: CircuitBreaker } = {}
+  ) {
+    const cache = options.cache ?? lastPrices;
+    const breaker =
+      options.breaker ??
+      circuitBreakerManager.getCircuitBreaker("alpacaStream", defaultConfigs.alpacaStream);
+    const backoff = { baseMs: config.reconnectBaseMs, maxMs: config.reconnectMaxMs };
+    const auth = { action: "auth", key: config.key, secret: config.secret };
+
+    this.tradeUpdates = new StreamConnection(
+      "trade_updates",
+      config.tradeUpdatesUrl,
+      {
+        onOpen: (context) => context.send(auth),
+        onFrame: (frame, context) => {
+          switch (frame?.stream) {
+            case "authorization":
+              if (frame.data?.status !== "authorized") {
+                context.fail(new Error(`trade_updates authorization failed: ${frame.data?.status}`));
+                return;
+              }
+              context.send({ action: "listen", data: { streams: ["trade_updates"] } });
+              break;
+            case "listening":
+              if (frame.data?.streams?.includes("trade_updates")) context.ready();
+              break;
+            case "trade_updates":
+              this.dispatch("trade_updates", () => this.handlers.onTradeUpdate?.(toAlpacaOrder(frame.data.order), frame.data.event));
+              break;
+          }
+        },
+      },
+      breaker,
+      backoff,
+      () => this.dispatch("trade_updates", () => this.handlers.onConnected?.("trade_updates"))
+    );
+
+    this.marketData = new StreamConnection(
+      "market_data",
+      config.marketDataUrl,
+      {
+        // The data stream greets first and authenticates after
+        onOpen: () => {},
+        onFrame: (frame, context) => {
+          for (const message of Array.isArray(frame) ? frame : [frame]) {
+            switch (message?.T) {
+              case "success":
+                if (message.msg === "connected") context.send(auth);
+                if (message.msg === "authenticated") {
+                  context.ready();
+                  this.subscribe(Array.from(this.symbols));
+                }
+                break;
+              case "error":
+                context.fail(new Error(`market_data error ${message.code}: ${message.msg}`));
+                break;
+              case "q": {
+                const price = quotePrice(message.bp, message.ap);
+                if (price !== null) {
+                  this.recordPrice(cache, { symbol: message.S, price, timestamp: new Date(message.t), source: "quote" });
+                }
+                break;
+              }
+              case "b": {
+                const bar: MarketBar = {
+                  timestamp: new Date(message.t),
+                  open: message.o,
+                  high: message.h,
+                  low: message.l,
+                  close: message.c,
+                  volume: message.v,
+                };
+                // A minute bar is stamped with its start and arrives once it closes
+                const closedAt = new Date(bar.timestamp.getTime() + 60_000);
+                this.recordPrice(cache, { symbol: message.S, price: bar.close, timestamp: closedAt, source: "bar" });
+                this.dispatch("market_data", () => this.handlers.onBar?.(message.S, bar));
+                break;
+              }
+            }
+          }
+        },
+      },
+      breaker,
+      backoff,
+      () => this.dispatch("market_data", () => this.handlers.onConnected?.("market_data"))
+    );
+  }
+
+  start() {
+    if (!this.config.enabled) return;
+    console.log("[MarketStream] Starting trade update and market data streams");
+    this.tradeUpdates.start();
+    this.marketData.start();
+  }
+
+  stop() {
+    this.tradeUpdates.stop();
+    this.marketData.stop();
+  }
+
+  /**
+   * Replace the streamed symbols, subscribing and unsubscribing only the
+   * difference. Symbols set before the stream connects are subscribed on
+   * connect.
+   */
+  setSymbols(symbols: Iterable<string>) {
+    const next = new Set(Array.from(symbols, (symbol) => symbol.toUpperCase()));
+    const added = Array.from(next).filter((symbol) => !this.symbols.has(symbol));
+    const removed = Array.from(this.symbols).filter((symbol) => !next.has(symbol));
+    this.symbols = next;
+
+    this.subscribe(added);
+    if (removed.length > 0) {
+      this.marketData.send({ action: "unsubscribe", quotes: removed, bars: removed });
+    }
+  }
+
+  isConnected(stream: StreamName): boolean {
+    return (stream === "trade_updates" ? this.tradeUpdates : this.marketData).status.connected;
+  }
+
+  getStatus(): MarketStreamStatus {
+    return {
+      enabled: this.config.enabled,
+      symbols: Array.from(this.symbols).sort(),
+      tradeUpdates: { ...this.tradeUpdates.status },
+      marketData: { ...this.marketData.status },
+    };
+  }
+
+  private subscribe(symbols: string[]) {
+    if (symbols.length > 0) {
+      this.marketData.send({ action: "subscribe", quotes: symbols, bars: symbols });
+    }
+  }
+
+  private recordPrice(cache: LastPriceCache, update: PriceUpdate) {
+    if (cache.record(update)) {
+      this.dispatch("market_data", () => this.handlers.onPrice?.(update));
+    }
+  }
+
+  // A failing handler is logged and must not take the stream down
+  private dispatch(stream: StreamName, handler: () => unknown) {
+    this.queues[stream] = this.queues[stream]
+      .then(handler)
+      .catch((error) => console.error(`[MarketStream] ${stream} handler failed:`, error));
+  }
+}
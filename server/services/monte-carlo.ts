@@ -0,0 +1,182 @@
+import { seededRandom } from "./random";
+
+export type MonteCarloMethod =
+  // Reorder the same trades: final equity is fixed, path risk varies
+  | "shuffle"
+  // Draw trades with replacement: final equity varies too
+  | "bootstrap";
+
+export interface MonteCarloOptions {
+  simulations?: number;
+  method?: MonteCarloMethod;
+  seed?: number;
+}
+
+export type PercentileBand = "p5" | "p25" | "p50" | "p75" | "p95";
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface MonteCarloDistribution {
+  mean: number;
+  min: number;
+  max: number;
+  percentiles: Record<PercentileBand, number>;
+  histogram: HistogramBin[];
+}
+
+export interface PathMetrics {
+  finalEquity: number;
+  // Fraction of the running peak, measured on closed-trade equity
+  maxDrawdown: number;
+  longestLosingStreak: number;
+}
+
+export interface MonteCarloResult {
+  method: MonteCarloMethod;
+  simulations: number;
+  seed: number;
+  trades: number;
+  initialCapital: number;
+  // The backtest's own trade order
+  observed: PathMetrics;
+  finalEquity: MonteCarloDistribution;
+  maxDrawdown: MonteCarloDistribution;
+  longestLosingStreak: MonteCarloDistribution;
+  // Share of paths that end below the initial capital
+  probabilityOfLoss: number;
+  // Drawdown of the 5th-percentile path: only 5% of paths draw down further
+  tailDrawdown: number;
+}
+
+export const DEFAULT_MONTE_CARLO_SIMULATIONS = 1000;
+export const MAX_MONTE_CARLO_SIMULATIONS = 10000;
+const HISTOGRAM_BINS = 20;
+const PERCENTILE_BANDS: Record<PercentileBand, number> = {
+  p5: 5,
+  p25: 25,
+  p50: 50,
+  p75: 75,
+  p95: 95,
+};
+
+// Linear interpolation between the closest ranks of sorted values
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function histogram(sorted: number[]): HistogramBin[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) {
+    return [{ from: min, to: max, count: sorted.length }];
+  }
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))].count++;
+  }
+  return bins;
+}
+
+function distribution(values: number[]): MonteCarloDistribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentiles = {} as Record<PercentileBand, number>;
+  for (const [band, p] of Object.entries(PERCENTILE_BANDS)) {
+    percentiles[band as PercentileBand] = percentile(sorted, p);
+  }
+  return {
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    percentiles,
+    histogram: histogram(sorted),
+  };
+}
+
+export function pathMetrics(pnls: number[], initialCapital: number): PathMetrics {
+  let equity = initialCapital;
+  let peak = initialCapital;
+  let maxDrawdown = 0;
+  let streak = 0;
+  let longestLosingStreak = 0;
+
+  for (const pnl of pnls) {
+    equity += pnl;
+    peak = Math.max(peak, equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+    }
+    streak = pnl < 0 ? streak + 1 : 0;
+    longestLosingStreak = Math.max(longestLosingStreak, streak);
+  }
+
+  return { finalEquity: equity, maxDrawdown, longestLosingStreak };
+}
+
+/**
+ * Resample a backtest's closed trades into many alternative equity paths to
+ * see how much of its result depended on the order the trades came in.
+ */
+export function runMonteCarlo(
+  trades: { pnl: number }[],
+  initialCapital: number,
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const method = options.method ?? "shuffle";
+  const seed = options.seed ?? 1;
+  const simulations = Math.min(
+    options.simulations ?? DEFAULT_MONTE_CARLO_SIMULATIONS,
+    MAX_MONTE_CARLO_SIMULATIONS
+  );
+  if (simulations < 1) {
+    throw new Error("Monte Carlo analysis needs at least one simulation");
+  }
+
+  const pnls = trades.map((trade) => trade.pnl);
+  const random = seededRandom(seed);
+  const paths: PathMetrics[] = [];
+
+  for (let i = 0; i < simulations; i++) {
+    let sample: number[];
+    if (method === "bootstrap") {
+      sample = pnls.map(() => pnls[Math.floor(random() * pnls.length)]);
+    } else {
+      // Fisher-Yates shuffle
+      sample = [...pnls];
+      for (let j = sample.length - 1; j > 0; j--) {
+        const k = Math.floor(random() * (j + 1));
+        [sample[j], sample[k]] = [sample[k], sample[j]];
+      }
+    }
+    paths.push(pathMetrics(sample, initialCapital));
+  }
+
+  const maxDrawdown = distribution(paths.map((path) => path.maxDrawdown));
+
+  return {
+    method,
+    simulations,
+    seed,
+    trades: pnls.length,
+    initialCapital,
+    observed: pathMetrics(pnls, initialCapital),
+    finalEquity: distribution(paths.map((path) => path.finalEquity)),
+    maxDrawdown,
+    longestLosingStreak: distribution(paths.map((path) => path.longestLosingStreak)),
+    probabilityOfLoss:
+      paths.filter((path) => path.finalEquity < initialCapital).length / simulations,
+    tailDrawdown: maxDrawdown.percentiles.p95,
+  };
+}
@@ -0,0 +1,418 @@
+import { runBacktest, type EquityPoint, type RiskParameters } from "./backtest";
+import type { MarketBar } from "./evaluator";
+import type { FillModel } from "./fill-model";
+import { seededRandom } from "./random";
+import { formatRuleValidationErrors, validateRules } from "./rule-validator";
+import { DEFAULT_TIMEFRAME, periodsPerYear } from "./timeframe";
+
+export type ParameterRange =
+  | { min: number; max: number; step: number }
+  | { values: number[] };
+
+export type SweepObjective = "sharpeRatio" | "totalReturn" | "winRate";
+
+export interface SweepRequest {
+  symbol: string;
+  // Rules with {name} placeholders, e.g. "RSI({period}) < {oversold}"
+  entryTemplate: string;
+  exitTemplate: string;
+  parameters: Record<string, ParameterRange>;
+  method: "grid" | "random";
+  // Random search only
+  samples?: number;
+  seed?: number;
+  objective?: SweepObjective;
+  // Heatmap axes; defaults to the first two parameters
+  heatmap?: { x: string; y?: string };
+  // Bar size the sweep runs on, 1Day by default
+  timeframe?: string;
+  initialCapital?: number;
+  riskParameters?: RiskParameters | null;
+  fillModel?: Partial<FillModel>;
+}
+
+export interface SweepRunMetrics {
+  totalReturn: number;
+  sharpeRatio: number;
+  maxDrawdown: number;
+  winRate: number;
+  totalTrades: number;
+}
+
+export interface SweepRun {
+  params: Record<string, number>;
+  entryRules: string;
+  exitRules: string;
+  metrics: SweepRunMetrics | null;
+  // 1 = best; null for runs whose rules did not validate
+  rank: number | null;
+  error: string | null;
+}
+
+export interface StabilityHeatmap {
+  x: string;
+  y: string | null;
+  xValues: number[];
+  yValues: number[];
+  // cells[yIndex][xIndex]: mean objective over the other parameters
+  cells: (number | null)[][];
+}
+
+export interface MultipleTestingReport {
+  trials: number;
+  // Annualized
+  bestSharpe: number;
+  // Best annualized Sharpe expected from `trials` strategies with no edge
+  expectedMaxSharpe: number;
+  // Probability that the best run's true Sharpe is above zero after
+  // correcting for the number of trials (Bailey & Lopez de Prado)
+  deflatedSharpe: number;
+  warning: string | null;
+}
+
+export interface SweepResult {
+  objective: SweepObjective;
+  runs: SweepRun[];
+  heatmap: StabilityHeatmap | null;
+  multipleTesting: MultipleTestingReport | null;
+  barsProcessed: number;
+}
+
+export class SweepConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SweepConfigurationError";
+  }
+}
+
+export const MAX_SWEEP_RUNS = 500;
+// Deflated Sharpe below this is reported as likely luck
+const DEFLATED_SHARPE_CONFIDENCE = 0.95;
+const EULER_MASCHERONI = 0.5772156649;
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export function expandRange(range: ParameterRange): number[] {
+  if ("values" in range) {
+    return Array.from(new Set(range.values)).sort((a, b) => a - b);
+  }
+  if (range.step <= 0 || range.max < range.min) {
+    throw new SweepConfigurationError(
+      `Invalid range ${range.min}..${range.max} step ${range.step}`
+    );
+  }
+  const values: number[] = [];
+  // Round to the step's precision so 0.1 steps don't drift
+  const decimals = (String(range.step).split(".")[1] ?? "").length;
+  for (let value = range.min; value <= range.max + 1e-9; value += range.step) {
+    values.push(Number(value.toFixed(decimals)));
+  }
+  return values;
+}
+
+export function templatePlaceholders(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]);
+}
+
+export function renderTemplate(
+  template: string,
+  params: Record<string, number>
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    if (!(name in params)) {
+      throw new SweepConfigurationError(`No parameter range for placeholder {${name}}`);
+    }
+    return String(params[name]);
+  });
+}
+
+/**
+ * Parameter combinations to test: every grid point, or `samples` distinct
+ * random points from the same grid.
+ */
+export function generateCombinations(request: SweepRequest): Record<string, number>[] {
+  const names = Object.keys(request.parameters);
+  const used = new Set([
+    ...templatePlaceholders(request.entryTemplate),
+    ...templatePlaceholders(request.exitTemplate),
+  ]);
+  for (const name of Array.from(used)) {
+    if (!names.includes(name)) {
+      throw new SweepConfigurationError(`No parameter range for placeholder {${name}}`);
+    }
+  }
+  for (const name of names) {
+    if (!used.has(name)) {
+      throw new SweepConfigurationError(`Parameter '${name}' is not used in either template`);
+    }
+  }
+
+  const axes = names.map((name) => expandRange(request.parameters[name]));
+  const gridSize = axes.reduce((size, values) => size * values.length, 1);
+
+  const combination = (index: number) => {
+    const params: Record<string, number> = {};
+    let remainder = index;
+    for (let i = names.length - 1; i >= 0; i--) {
+      params[names[i]] = axes[i][remainder % axes[i].length];
+      remainder = Math.floor(remainder / axes[i].length);
+    }
+    return params;
+  };
+
+  if (request.method === "grid") {
+    if (gridSize > MAX_SWEEP_RUNS) {
+      throw new SweepConfigurationError(
+        `Grid has ${gridSize} combinations, the limit is ${MAX_SWEEP_RUNS}; narrow the ranges or use random search`
+      );
+    }
+    return Array.from({ length: gridSize }, (_, i) => combination(i));
+  }
+
+  const samples = Math.min(request.samples ?? 50, gridSize, MAX_SWEEP_RUNS);
+  const random = seededRandom(request.seed ?? 1);
+  const picked = new Set<number>();
+  while (picked.size < samples) {
+    picked.add(Math.floor(random() * gridSize));
+  }
+  return Array.from(picked, (index) => combination(index));
+}
+
+function periodReturns(equityCurve: EquityPoint[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1].equity;
+    returns.push((equityCurve[i].equity - previous) / previous);
+  }
+  return returns;
+}
+
+function moments(values: number[]) {
+  const n = values.length;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const variance = values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / n;
+  const std = Math.sqrt(variance);
+  const skew =
+    std > 0
+      ? values.reduce((sum, v) => sum + Math.pow((v - mean) / std, 3), 0) / n
+      : 0;
+  const kurtosis =
+    std > 0
+      ? values.reduce((sum, v) => sum + Math.pow((v - mean) / std, 4), 0) / n
+      : 3;
+  return { mean, variance, std, skew, kurtosis };
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf =
+    1 -
+    t *
+      (0.254829592 +
+        t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Inverse standard normal CDF (Acklam's rational approximation)
+export function inverseNormalCdf(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Deflated Sharpe ratio of the best of `sharpes.length` trials. Sharpe
+ * ratios are per bar; `bestReturns` are the best trial's per-bar returns.
+ */
+export function deflatedSharpe(
+  sharpes: number[],
+  bestReturns: number[],
+  barsPerYear: number = periodsPerYear(DEFAULT_TIMEFRAME)
+): MultipleTestingReport {
+  const trials = sharpes.length;
+  const annualize = Math.sqrt(barsPerYear);
+  const best = moments(bestReturns);
+  const bestSharpe = best.std > 0 ? best.mean / best.std : 0;
+
+  const trialVariance = trials > 1 ? moments(sharpes).variance : 0;
+  const expectedMaxSharpe =
+    trials > 1
+      ? Math.sqrt(trialVariance) *
+        ((1 - EULER_MASCHERONI) * inverseNormalCdf(1 - 1 / trials) +
+          EULER_MASCHERONI * inverseNormalCdf(1 - 1 / (trials * Math.E)))
+      : 0;
+
+  const observations = bestReturns.length;
+  const denominator = Math.sqrt(
+    Math.max(
+      1e-12,
+      1 - best.skew * bestSharpe + ((best.kurtosis - 1) / 4) * bestSharpe * bestSharpe
+    )
+  );
+  const probability =
+    observations > 1
+      ? normalCdf(((bestSharpe - expectedMaxSharpe) * Math.sqrt(observations - 1)) / denominator)
+      : 0;
+
+  return {
+    trials,
+    bestSharpe: bestSharpe * annualize,
+    expectedMaxSharpe: expectedMaxSharpe * annualize,
+    deflatedSharpe: probability,
+    warning:
+      probability < DEFLATED_SHARPE_CONFIDENCE
+        ? `After ${trials} trials the best Sharpe of ${(bestSharpe * annualize).toFixed(2)} is not significant ` +
+          `(deflated Sharpe ${probability.toFixed(2)} < ${DEFLATED_SHARPE_CONFIDENCE}); ` +
+          `chance alone would produce about ${(expectedMaxSharpe * annualize).toFixed(2)}`
+        : null,
+  };
+}
+
+export function buildHeatmap(
+  runs: SweepRun[],
+  objective: SweepObjective,
+  x: string,
+  y: string | null
+): StabilityHeatmap {
+  const valid = runs.filter((run) => run.metrics);
+  const axisValues = (name: string) =>
+    Array.from(new Set(valid.map((run) => run.params[name]))).sort((a, b) => a - b);
+  const xValues = axisValues(x);
+  const yValues = y ? axisValues(y) : [];
+
+  const cells = (y ? yValues : [null]).map((yValue) =>
+    xValues.map((xValue) => {
+      const matching = valid.filter(
+        (run) =>
+          run.params[x] === xValue && (yValue === null || run.params[y!] === yValue)
+      );
+      if (matching.length === 0) return null;
+      return matching.reduce((sum, run) => sum + run.metrics![objective], 0) / matching.length;
+    })
+  );
+
+  return { x, y, xValues, yValues, cells };
+}
+
+/**
+ * Backtest every parameter combination over the same bars. Runs are warmed
+ * up on the bars that the slowest combination needs, so every run trades
+ * the same period and their results are comparable.
+ */
+export function runParameterSweep(
+  bars: MarketBar[],
+  request: SweepRequest
+): SweepResult {
+  const objective = request.objective ?? "sharpeRatio";
+  const orderedBars = [...bars].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const candidates = generateCombinations(request).map((params) => {
+    const entryRules = renderTemplate(request.entryTemplate, params);
+    const exitRules = renderTemplate(request.exitTemplate, params);
+    return { params, entryRules, exitRules, validation: validateRules(entryRules, exitRules) };
+  });
+
+  const warmupBars = Math.max(
+    0,
+    ...candidates.filter((c) => c.validation.valid).map((c) => c.validation.warmupBars)
+  );
+  if (warmupBars >= orderedBars.length) {
+    throw new SweepConfigurationError(
+      `The rules need ${warmupBars} bars of warm-up but only ${orderedBars.length} bars are available`
+    );
+  }
+  const warmupUntil = new Date(orderedBars[warmupBars].timestamp);
+
+  const returnsByRun = new Map<SweepRun, number[]>();
+  const runs: SweepRun[] = candidates.map(({ params, entryRules, exitRules, validation }) => {
+    if (!validation.valid) {
+      return {
+        params,
+        entryRules,
+        exitRules,
+        metrics: null,
+        rank: null,
+        error: formatRuleValidationErrors(validation),
+      };
+    }
+
+    const result = runBacktest(orderedBars, {
+      symbol: request.symbol,
+      entryRules,
+      exitRules,
+      initialCapital: request.initialCapital,
+      riskParameters: request.riskParameters,
+      fillModel: request.fillModel,
+      warmupUntil,
+      periodsPerYear: periodsPerYear(request.timeframe ?? DEFAULT_TIMEFRAME),
+    });
+    const run: SweepRun = {
+      params,
+      entryRules,
+      exitRules,
+      metrics: {
+        totalReturn: result.totalReturn,
+        sharpeRatio: result.sharpeRatio,
+        maxDrawdown: result.maxDrawdown,
+        winRate: result.winRate,
+        totalTrades: result.totalTrades,
+      },
+      rank: null,
+      error: null,
+    };
+    returnsByRun.set(run, periodReturns(result.equityCurve));
+    return run;
+  });
+
+  const ranked = runs
+    .filter((run) => run.metrics)
+    .sort((a, b) => b.metrics![objective] - a.metrics![objective]);
+  ranked.forEach((run, i) => {
+    run.rank = i + 1;
+  });
+
+  const names = Object.keys(request.parameters);
+  const heatmapX = request.heatmap?.x ?? names[0];
+  const heatmapY = request.heatmap ? request.heatmap.y ?? null : names[1] ?? null;
+
+  let multipleTesting: MultipleTestingReport | null = null;
+  if (ranked.length > 0) {
+    const sharpes = ranked.map((run) => {
+      const stats = moments(returnsByRun.get(run)!);
+      return stats.std > 0 ? stats.mean / stats.std : 0;
+    });
+    multipleTesting = deflatedSharpe(
+      sharpes,
+      returnsByRun.get(ranked[0])!,
+      periodsPerYear(request.timeframe ?? DEFAULT_TIMEFRAME)
+    );
+  }
+
+  return {
+    objective,
+    runs: [...ranked, ...runs.filter((run) => !run.metrics)],
+    heatmap: ranked.length > 0 ? buildHeatmap(runs, objective, heatmapX, heatmapY) : null,
+    multipleTesting,
+    barsProcessed: orderedBars.length - warmupBars,
+  };
+}
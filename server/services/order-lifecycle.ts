@@ -0,0 +1,442 @@
+import type { AuditLog, InsertAuditLog, InsertOrder, Order, Position } from "@shared/schema";
+import { storage, type OrderFilter } from "../storage";
+import { broker, type Broker, type BrokerOrder } from "./broker";
+import { metricsCollector } from "./metrics";
+import { DuplicateFillError, OPEN_ORDER_STATUSES, type OrderStatus } from "./order-types";
+import { transactionService, type PositionUpdateData, type TradeExecutionData } from "./transaction";
+import { wsManager } from "./websocket";
+
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  new: ["partially_filled", "filled", "canceled", "rejected", "expired"],
+  partially_filled: ["partially_filled", "filled", "canceled", "expired"],
+  filled: [],
+  canceled: [],
+  rejected: [],
+  expired: [],
+};
+
+// Broker statuses that end an order; anything else unlisted is still working
+// (accepted, pending_new, held, done_for_day, pending_cancel and the like)
+const TERMINAL_BROKER_STATUSES: Record<string, OrderStatus> = {
+  filled: "filled",
+  canceled: "canceled",
+  replaced: "canceled",
+  expired: "expired",
+  rejected: "rejected",
+  suspended: "rejected",
+};
+
+export class OrderTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderTransitionError";
+  }
+}
+
+export function isOpenOrderStatus(status: string): boolean {
+  return (OPEN_ORDER_STATUSES as string[]).includes(status);
+}
+
+/**
+ * Our status for an order the broker reports. Working orders with some
+ * quantity filled are partially filled whatever the broker calls them, so
+ * a partial fill waiting on a cancel still books what filled.
+ */
+export function orderStatusFromBroker(order: Pick<BrokerOrder, "status" | "filled_qty">): OrderStatus {
+  const terminal = TERMINAL_BROKER_STATUSES[order.status];
+  if (terminal) return terminal;
+  return (order.filled_qty ?? 0) > 0 ? "partially_filled" : "new";
+}
+
+export function nextOrderStatus(current: string, next: OrderStatus): OrderStatus {
+  if (current === next) return next;
+  const allowed = ORDER_TRANSITIONS[current as OrderStatus];
+  if (!allowed?.includes(next)) {
+    throw new OrderTransitionError(`Cannot move a ${current} order to ${next}`);
+  }
+  return next;
+}
+
+export interface FillIncrement {
+  quantity: number;
+  price: number;
+}
+
+/**
+ * What filled since the last recorded update. The broker reports the
+ * cumulative quantity and average price, so the new shares traded at
+ * whatever moves the old average to the new one.
+ */
+export function fillIncrement(
+  recorded: Pick<Order, "filledQuantity" | "filledAvgPrice">,
+  reported: Pick<BrokerOrder, "filled_qty" | "filled_avg_price">
+): FillIncrement | null {
+  const filledQuantity = reported.filled_qty ?? 0;
+  const quantity = filledQuantity - recorded.filledQuantity;
+  if (quantity <= 0 || reported.filled_avg_price === undefined) return null;
+
+  const recordedCost = recorded.filledQuantity * parseFloat(recorded.filledAvgPrice ?? "0");
+  const price = (filledQuantity * reported.filled_avg_price - recordedCost) / quantity;
+  return { quantity, price: Math.round(price * 1e6) / 1e6 };
+}
+
+// What a sell fill sold beyond the open position; shorts are not tracked, so this is never booked
+export function unmatchedSellQuantity(
+  position: Pick<Position, "quantity"> | undefined,
+  side: "buy" | "sell",
+  fill: FillIncrement
+): number {
+  return side === "sell" ? Math.max(0, fill.quantity - (position?.quantity ?? 0)) : 0;
+}
+
+/**
+ * The position a fill leaves behind. Buys add to it at a blended average
+ * price; sells realize P&L against that average and close the position
+ * once nothing is left. Sells only ever sell what is held: with no
+ * position there is nothing to change (null), and nothing beyond the held
+ * quantity is booked, since no cost basis exists for it.
+ */
+export function positionAfterFill(
+  position: Pick<Position, "id" | "quantity" | "entryPrice" | "averageEntryPrice" | "realizedPnL"> | undefined,
+  side: "buy" | "sell",
+  fill: FillIncrement
+): Omit<PositionUpdateData, "symbol" | "portfolioId" | "strategyId" | "correlationId"> | null {
+  const heldQuantity = position?.quantity ?? 0;
+  const averagePrice = parseFloat(position?.averageEntryPrice || position?.entryPrice || "0");
+  const realizedPnL = parseFloat(position?.realizedPnL || "0");
+
+  if (side === "buy") {
+    const quantity = heldQuantity + fill.quantity;
+    const averageEntryPrice = (heldQuantity * averagePrice + fill.quantity * fill.price) / quantity;
+    return {
+      positionId: position?.id,
+      quantity,
+      entryPrice: position ? parseFloat(position.entryPrice) : fill.price,
+      averageEntryPrice,
+      marketValue: quantity * fill.price,
+      unrealizedPnL: quantity * (fill.price - averageEntryPrice),
+      realizedPnL,
+    };
+  }
+
+  if (!position || heldQuantity <= 0) return null;
+  const sold = Math.min(fill.quantity, heldQuantity);
+  const quantity = heldQuantity - sold;
+  return {
+    positionId: position.id,
+    quantity,
+    entryPrice: parseFloat(position.entryPrice),
+    averageEntryPrice: averagePrice,
+    marketValue: quantity * fill.price,
+    unrealizedPnL: quantity * (fill.price - averagePrice),
+    realizedPnL: realizedPnL + (fill.price - averagePrice) * sold,
+    ...(quantity === 0 && { exitPrice: fill.price }),
+  };
+}
+
+// Who an order was placed for, copied onto its legs
+export interface OrderContext {
+  portfolioId: string;
+  correlationId: string;
+  strategyId?: string;
+  // Price the order was expected to fill at; slippage is measured against it
+  expectedPrice?: number;
+}
+
+export interface OrderFill extends FillIncrement {
+  orderId: string;
+  brokerOrderId: string;
+  symbol: string;
+  side: "buy" | "sell";
+  strategyId: string | null;
+  correlationId: string | null;
+  executedAt: Date;
+}
+
+export interface OrderSyncSummary {
+  checked: number;
+  updated: number;
+  failed: number;
+}
+
+// The subset of storage order tracking needs, so it can run against memory in tests
+export interface OrderRepository {
+  getOrders(filter?: OrderFilter): Promise<Order[]>;
+  getOrder(id: string): Promise<Order | undefined>;
+  getOrderByBrokerId(broker: string, brokerOrderId: string): Promise<Order | undefined>;
+  createOrder(order: InsertOrder): Promise<Order>;
+  updateOrder(id: string, updates: Partial<Order>): Promise<Order>;
+  createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
+}
+
+/**
+ * Books a fill and the order's new fill state in one transaction, with the
+ * position `positionFor` derives from the open one of the symbol as read in
+ * that transaction. Throws DuplicateFillError when the order's fill state
+ * moved on since it was read.
+ */
+export interface FillRecorder {
+  recordOrderFill(
+    order: Pick<Order, "id" | "filledQuantity">,
+    orderUpdates: Partial<Order>,
+    tradeData: TradeExecutionData,
+    positionFor: (open: Position | undefined) => PositionUpdateData | null
+  ): Promise<unknown>;
+}
+
+function decimalOrNull(value: number | undefined): string | null {
+  return value === undefined ? null : value.toString();
+}
+
+/**
+ * Follows orders from submission until they close. Every broker update,
+ * whether read by the poller or pushed by a stream, goes through the same
+ * state machine, and only increases in filled quantity write trade
+ * executions and positions, so partial fills are booked as they happen and
+ * nothing is booked for an order that never fills.
+ */
+export class OrderLifecycleService {
+  constructor(
+    private repository: OrderRepository,
+    private fills: FillRecorder,
+    private broker: Pick<Broker, "name" | "getOrder">,
+    private onFill: (fill: OrderFill) => void = () => {}
+  ) {}
+
+  /**
+   * Store a just-placed order and its legs, and book whatever the broker
+   * already filled when it answered.
+   */
+  async recordSubmission(brokerOrder: BrokerOrder, context: OrderContext): Promise<Order> {
+    const order = await this.track(brokerOrder, context, null);
+    await this.repository.createAuditLog({
+      eventType: "ORDER_SUBMITTED",
+      eventData: {
+        orderId: order.id,
+        brokerOrderId: brokerOrder.id,
+        broker: this.broker.name,
+        symbol: brokerOrder.symbol,
+        side: brokerOrder.side,
+        type: brokerOrder.type,
+        orderClass: order.orderClass,
+        quantity: brokerOrder.qty,
+        status: order.status,
+      },
+      source: "order_lifecycle",
+      level: "info",
+      correlationId: context.correlationId,
+    });
+    return order;
+  }
+
+  /**
+   * Apply an order update from the broker. Returns null for orders this
+   * app did not place.
+   */
+  async handleOrderUpdate(brokerOrder: BrokerOrder): Promise<Order | null> {
+    const order = await this.repository.getOrderByBrokerId(this.broker.name, brokerOrder.id);
+    if (!order) return null;
+    const context: OrderContext = {
+      portfolioId: order.portfolioId!,
+      correlationId: order.correlationId ?? order.id,
+      strategyId: order.strategyId ?? undefined,
+    };
+    return this.track(brokerOrder, context, order.parentOrderId);
+  }
+
+  // Ask the broker about every open order of the current broker
+  async pollOpenOrders(): Promise<OrderSyncSummary> {
+    const open = await this.repository.getOrders({ statuses: OPEN_ORDER_STATUSES, limit: 500 });
+    const summary: OrderSyncSummary = { checked: 0, updated: 0, failed: 0 };
+
+    for (const order of open.filter((candidate) => candidate.broker === this.broker.name)) {
+      summary.checked++;
+      try {
+        const updated = await this.handleOrderUpdate(await this.broker.getOrder(order.brokerOrderId));
+        if (updated && (updated.status !== order.status || updated.filledQuantity !== order.filledQuantity)) {
+          summary.updated++;
+        }
+      } catch (error) {
+        summary.failed++;
+        await this.repository.createAuditLog({
+          eventType: "ORDER_SYNC_FAILED",
+          eventData: {
+            orderId: order.id,
+            brokerOrderId: order.brokerOrderId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          source: "order_lifecycle",
+          level: "error",
+          correlationId: order.correlationId,
+        });
+      }
+    }
+    return summary;
+  }
+
+  // Bracket, oto and oco legs arrive nested under their parent and are tracked as orders of their own
+  private async track(brokerOrder: BrokerOrder, context: OrderContext, parentOrderId: string | null): Promise<Order> {
+    const existing = await this.repository.getOrderByBrokerId(this.broker.name, brokerOrder.id);
+    const order = existing ?? (await this.repository.createOrder(this.toOrderRow(brokerOrder, context, parentOrderId)));
+    const updated = await this.apply(order, brokerOrder);
+    for (const leg of brokerOrder.legs ?? []) {
+      await this.track(leg, { ...context, expectedPrice: undefined }, order.id);
+    }
+    return updated;
+  }
+
+  private toOrderRow(brokerOrder: BrokerOrder, context: OrderContext, parentOrderId: string | null): InsertOrder {
+    return {
+      brokerOrderId: brokerOrder.id,
+      broker: this.broker.name,
+      parentOrderId,
+      portfolioId: context.portfolioId,
+      strategyId: context.strategyId ?? null,
+      symbol: brokerOrder.symbol,
+      side: brokerOrder.side,
+      type: brokerOrder.type,
+      orderClass: brokerOrder.order_class ?? "simple",
+      timeInForce: brokerOrder.time_in_force,
+      quantity: brokerOrder.qty,
+      limitPrice: decimalOrNull(brokerOrder.limit_price),
+      stopPrice: decimalOrNull(brokerOrder.stop_price),
+      trailPrice: decimalOrNull(brokerOrder.trail_price),
+      trailPercent: decimalOrNull(brokerOrder.trail_percent),
+      expectedPrice: decimalOrNull(context.expectedPrice),
+      status: "new",
+      filledQuantity: 0,
+      correlationId: context.correlationId,
+    };
+  }
+
+  private async apply(order: Order, brokerOrder: BrokerOrder): Promise<Order> {
+    const status = nextOrderStatus(order.status, orderStatusFromBroker(brokerOrder));
+    // Trailing stops move their stop as the price moves
+    const stopMoved =
+      brokerOrder.stop_price !== undefined &&
+      (order.stopPrice === null || parseFloat(order.stopPrice) !== brokerOrder.stop_price);
+    const updates: Partial<Order> = {
+      status,
+      brokerStatus: brokerOrder.status,
+      ...(stopMoved && { stopPrice: decimalOrNull(brokerOrder.stop_price) }),
+      ...(!isOpenOrderStatus(status) && { closedAt: new Date() }),
+    };
+    const fill = fillIncrement(order, brokerOrder);
+
+    if (!fill) {
+      if (status === order.status && brokerOrder.status === order.brokerStatus && !stopMoved) {
+        return order;
+      }
+      const updated = await this.repository.updateOrder(order.id, updates);
+      if (status !== order.status) {
+        await this.logStatusChange(updated, order.status);
+      }
+      return updated;
+    }
+
+    updates.filledQuantity = brokerOrder.filled_qty;
+    updates.filledAvgPrice = decimalOrNull(brokerOrder.filled_avg_price);
+    const executedAt = brokerOrder.filled_at ? new Date(brokerOrder.filled_at) : new Date();
+    const portfolioId = order.portfolioId!;
+    const correlationId = order.correlationId ?? order.id;
+    const side = order.side as "buy" | "sell";
+
+    let unmatched = 0;
+    try {
+      await this.fills.recordOrderFill(
+        order,
+        updates,
+        {
+          symbol: order.symbol,
+          side,
+          quantity: fill.quantity,
+          price: fill.price,
+          portfolioId,
+          correlationId,
+          alpacaOrderId: order.brokerOrderId,
+          executedAt,
+          // One execution per fill increment, keyed by the cumulative quantity it reached
+          executionId: `${order.brokerOrderId}:${brokerOrder.filled_qty}`,
+        },
+        (open) => {
+          unmatched = unmatchedSellQuantity(open, side, fill);
+          const position = positionAfterFill(open, side, fill);
+          return position && {
+            ...position,
+            symbol: order.symbol,
+            portfolioId,
+            strategyId: order.strategyId ?? undefined,
+            correlationId,
+          };
+        }
+      );
+    } catch (error) {
+      if (!(error instanceof DuplicateFillError)) throw error;
+      // The stream and the poller saw the same fill; the other one booked it
+      return (await this.repository.getOrder(order.id)) ?? order;
+    }
+
+    if (unmatched > 0) {
+      await this.repository.createAuditLog({
+        eventType: "UNMATCHED_SELL_FILL",
+        eventData: {
+          orderId: order.id,
+          brokerOrderId: order.brokerOrderId,
+          symbol: order.symbol,
+          portfolioId,
+          filledQuantity: fill.quantity,
+          unmatchedQuantity: unmatched,
+          price: fill.price,
+        },
+        source: "order_lifecycle",
+        level: "error",
+        correlationId,
+      });
+    }
+
+    if (order.expectedPrice) {
+      const expectedPrice = parseFloat(order.expectedPrice);
+      metricsCollector.updateTradingMetrics({
+        slippage: Math.abs((fill.price - expectedPrice) / expectedPrice),
+      });
+    }
+    this.onFill({
+      ...fill,
+      orderId: order.id,
+      brokerOrderId: order.brokerOrderId,
+      symbol: order.symbol,
+      side,
+      strategyId: order.strategyId,
+      correlationId: order.correlationId,
+      executedAt,
+    });
+
+    const updated = { ...order, ...updates } as Order;
+    if (status !== order.status) {
+      await this.logStatusChange(updated, order.status);
+    }
+    return updated;
+  }
+
+  private async logStatusChange(order: Order, from: string): Promise<void> {
+    await this.repository.createAuditLog({
+      eventType: "ORDER_STATUS_CHANGED",
+      eventData: {
+        orderId: order.id,
+        brokerOrderId: order.brokerOrderId,
+        symbol: order.symbol,
+        from,
+        to: order.status,
+        brokerStatus: order.brokerStatus,
+        filledQuantity: order.filledQuantity,
+      },
+      source: "order_lifecycle",
+      level: order.status === "rejected" ? "warn" : "info",
+      correlationId: order.correlationId,
+    });
+  }
+}
+
+export const orderLifecycle = new OrderLifecycleService(storage, transactionService, broker, (fill) =>
+  wsManager?.broadcastTradeExecution(fill)
+);
@@ -0,0 +1,131 @@
+import type { RiskParameters } from "./backtest";
+import type { OrderRequest } from "./trading";
+
+// Order vocabulary shared by the API schema, the trading service and every broker.
+// Field names follow Alpaca's order API.
+
+export const ORDER_TYPES = ["market", "limit", "stop", "stop_limit", "trailing_stop"] as const;
+export type OrderType = (typeof ORDER_TYPES)[number];
+
+export const TIME_IN_FORCE = ["day", "gtc", "ioc", "fok"] as const;
+export type TimeInForce = (typeof TIME_IN_FORCE)[number];
+
+// bracket: entry plus take-profit and stop-loss exits; oto: entry plus one exit;
+// oco: a take-profit limit and a stop-loss where one filling cancels the other
+export const ORDER_CLASSES = ["simple", "bracket", "oco", "oto"] as const;
+export type OrderClass = (typeof ORDER_CLASSES)[number];
+
+// Lifecycle of a tracked order; the broker's finer-grained statuses fold into these
+export const ORDER_STATUSES = ["new", "partially_filled", "filled", "canceled", "rejected", "expired"] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// Statuses of orders that can still fill
+export const OPEN_ORDER_STATUSES: OrderStatus[] = ["new", "partially_filled"];
+
+// A fill some other update (the stream, another poll) booked first
+export class DuplicateFillError extends Error {
+  constructor(orderId: string) {
+    super(`Fill of order ${orderId} was already recorded`);
+    this.name = "DuplicateFillError";
+  }
+}
+
+export interface TakeProfitLeg {
+  limit_price: number;
+}
+
+export interface StopLossLeg {
+  stop_price: number;
+  // Makes the stop-loss a stop-limit
+  limit_price?: number;
+}
+
+export interface OrderPrices {
+  side: "buy" | "sell";
+  type: OrderType;
+  time_in_force?: string;
+  limit_price?: number;
+  stop_price?: number;
+  trail_price?: number;
+  trail_percent?: number;
+  order_class?: OrderClass;
+  take_profit?: TakeProfitLeg;
+  stop_loss?: StopLossLeg;
+}
+
+/**
+ * Why an order cannot be submitted, or null when it is complete. Covers the
+ * price fields each type needs and the legs each order class needs, so bad
+ * orders fail before reaching the broker.
+ */
+export function orderRequestProblem(order: OrderPrices): string | null {
+  if ((order.type === "limit" || order.type === "stop_limit") && !order.limit_price) {
+    return `${order.type} orders need a limit_price`;
+  }
+  if ((order.type === "stop" || order.type === "stop_limit") && !order.stop_price) {
+    return `${order.type} orders need a stop_price`;
+  }
+  if (order.type === "trailing_stop" && !order.trail_price === !order.trail_percent) {
+    return "trailing_stop orders need exactly one of trail_price and trail_percent";
+  }
+  if (order.type !== "trailing_stop" && (order.trail_price || order.trail_percent)) {
+    return "trail_price and trail_percent only apply to trailing_stop orders";
+  }
+
+  const orderClass = order.order_class ?? "simple";
+  const legs = Number(Boolean(order.take_profit)) + Number(Boolean(order.stop_loss));
+  switch (orderClass) {
+    case "simple":
+      if (legs > 0) return "take_profit and stop_loss need a bracket, oco or oto order_class";
+      return null;
+    case "oto":
+      if (legs !== 1) return "oto orders need exactly one of take_profit and stop_loss";
+      break;
+    case "bracket":
+    case "oco":
+      if (legs !== 2) return `${orderClass} orders need both take_profit and stop_loss`;
+      break;
+  }
+
+  if (orderClass === "oco" && order.type !== "limit") {
+    return "oco orders must be limit orders";
+  }
+  if (orderClass !== "oco" && order.type !== "market" && order.type !== "limit") {
+    return `${orderClass} entries must be market or limit orders`;
+  }
+  if (order.time_in_force && order.time_in_force !== "day" && order.time_in_force !== "gtc") {
+    return `${orderClass} orders must be day or gtc`;
+  }
+  if (order.take_profit && order.stop_loss) {
+    // Exits sit on the far side of the position: above and below it for a long
+    const exitSide = orderClass === "oco" ? order.side : order.side === "buy" ? "sell" : "buy";
+    const targetAbove = order.take_profit.limit_price > order.stop_loss.stop_price;
+    if (exitSide === "sell" ? !targetAbove : targetAbove) {
+      return "take_profit must be on the profitable side of stop_loss";
+    }
+  }
+  return null;
+}
+
+/**
+ * Exits a strategy's stored risk parameters (stopLoss and takeProfit, in
+ * percent) put around an entry at `referencePrice`: a bracket with both, an
+ * oto with one, nothing otherwise. Brackets cannot carry a trailing stop, so
+ * trailingStop is left out.
+ */
+export function bracketFromRiskParameters(
+  side: "buy" | "sell",
+  referencePrice: number,
+  riskParameters: RiskParameters | null | undefined
+): Pick<OrderRequest, "orderClass" | "takeProfit" | "stopLoss"> {
+  const direction = side === "buy" ? 1 : -1;
+  const level = (percent: number) => Math.round(referencePrice * (1 + (direction * percent) / 100) * 100) / 100;
+  const takeProfit = riskParameters?.takeProfit ? { limitPrice: level(riskParameters.takeProfit) } : undefined;
+  const stopLoss = riskParameters?.stopLoss ? { stopPrice: level(-riskParameters.stopLoss) } : undefined;
+  if (!takeProfit && !stopLoss) return {};
+  return {
+    orderClass: takeProfit && stopLoss ? "bracket" : "oto",
+    ...(takeProfit && { takeProfit }),
+    ...(stopLoss && { stopLoss }),
+  };
+}
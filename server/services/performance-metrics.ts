@@ -0,0 +1,277 @@
+import type { InsertRiskMetric } from "@shared/schema";
+import type { MarketBar } from "./evaluator";
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+export const DEFAULT_BENCHMARK_SYMBOL = process.env.BENCHMARK_SYMBOL || "SPY";
+
+export interface EquitySample {
+  timestamp: Date;
+  equity: number;
+}
+
+export interface ReturnMetrics {
+  sharpeRatio: number;
+  // Annualized standard deviation of period returns
+  volatility: number;
+  // Annualized mean return over downside deviation
+  sortinoRatio: number;
+  // Annualized return over max drawdown
+  calmarRatio: number;
+}
+
+export interface ClosedTrade {
+  pnl: number;
+  returnPercent: number;
+  barsHeld: number;
+}
+
+export interface TradeStatistics {
+  // Gross profit / gross loss; null when there were no losing trades
+  profitFactor: number | null;
+  // Average trade return as a fraction of its entry value
+  expectancy: number;
+  // Average bars a trade stayed open
+  averageHoldingPeriod: number;
+}
+
+// Strategy returns against the benchmark's close-to-close returns over the
+// same timestamps. Ratios are null when there is nothing to divide by.
+export interface BenchmarkMetrics {
+  symbol: string;
+  // Aligned return periods the statistics were computed over
+  periods: number;
+  benchmarkReturn: number;
+  // Annualized Jensen's alpha (risk-free rate of zero)
+  alpha: number | null;
+  beta: number | null;
+  // Annualized standard deviation of the active return
+  trackingError: number;
+  // Annualized active return over tracking error
+  informationRatio: number | null;
+  // Mean strategy return over mean benchmark return, on benchmark up bars
+  upCapture: number | null;
+  // Same on benchmark down bars; below 1 means the strategy fell less
+  downCapture: number | null;
+}
+
+// Deviations below this are rounding noise, e.g. a strategy that tracks its benchmark
+const EPSILON = 1e-12;
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+// Population standard deviation, matching the Sharpe ratio calculation
+function standardDeviation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map((v) => Math.pow(v - avg, 2))));
+}
+
+export function periodReturns(curve: EquitySample[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    const previous = curve[i - 1].equity;
+    returns.push(previous !== 0 ? (curve[i].equity - previous) / previous : 0);
+  }
+  return returns;
+}
+
+export function maxDrawdownOf(curve: EquitySample[], initialEquity?: number): number {
+  let maxDrawdown = 0;
+  let peak = initialEquity ?? curve[0]?.equity ?? 0;
+  for (const point of curve) {
+    if (point.equity > peak) peak = point.equity;
+    const drawdown = peak > 0 ? (peak - point.equity) / peak : 0;
+    if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+  }
+  return maxDrawdown;
+}
+
+export function calculateReturnMetrics(
+  returns: number[],
+  totalReturn: number,
+  maxDrawdown: number,
+  periodsPerYear: number = TRADING_DAYS_PER_YEAR
+): ReturnMetrics {
+  const deviation = standardDeviation(returns);
+  const sharpeRatio =
+    returns.length > 1 && deviation > 0
+      ? (mean(returns) / deviation) * Math.sqrt(periodsPerYear)
+      : 0;
+  const volatility = deviation * Math.sqrt(periodsPerYear);
+
+  const downsideDeviation = Math.sqrt(
+    mean(returns.map((r) => Math.pow(Math.min(r, 0), 2)))
+  );
+  const sortinoRatio =
+    returns.length > 1 && downsideDeviation > 0
+      ? (mean(returns) / downsideDeviation) * Math.sqrt(periodsPerYear)
+      : 0;
+
+  const annualizedReturn =
+    returns.length > 0 && totalReturn > -1
+      ? Math.pow(1 + totalReturn, periodsPerYear / returns.length) - 1
+      : totalReturn;
+  const calmarRatio = maxDrawdown > 0 ? annualizedReturn / maxDrawdown : 0;
+
+  return { sharpeRatio, volatility, sortinoRatio, calmarRatio };
+}
+
+export function calculateTradeStatistics(
+  trades: ClosedTrade[]
+): TradeStatistics {
+  const grossProfit = trades.filter((t) => t.pnl > 0).reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = -trades.filter((t) => t.pnl < 0).reduce((sum, t) => sum + t.pnl, 0);
+
+  return {
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    expectancy: mean(trades.map((t) => t.returnPercent / 100)),
+    averageHoldingPeriod: mean(trades.map((t) => t.barsHeld)),
+  };
+}
+
+/**
+ * Compare an equity curve with a benchmark's closes. Only timestamps present
+ * in both are used, so weekends, halts and missing benchmark bars drop out
+ * instead of skewing the returns. Returns null with fewer than two aligned
+ * return periods.
+ */
+export function calculateBenchmarkMetrics(
+  curve: EquitySample[],
+  benchmarkBars: MarketBar[],
+  symbol: string,
+  periodsPerYear: number = TRADING_DAYS_PER_YEAR
+): BenchmarkMetrics | null {
+  const closes = new Map<number, number>();
+  for (const bar of benchmarkBars) {
+    closes.set(new Date(bar.timestamp).getTime(), bar.close);
+  }
+  const aligned = curve
+    .map((point) => ({
+      equity: point.equity,
+      benchmark: closes.get(new Date(point.timestamp).getTime()),
+    }))
+    .filter((point): point is { equity: number; benchmark: number } =>
+      point.benchmark !== undefined
+    );
+  if (aligned.length < 3) return null;
+
+  const strategy: number[] = [];
+  const benchmark: number[] = [];
+  for (let i = 1; i < aligned.length; i++) {
+    strategy.push((aligned[i].equity - aligned[i - 1].equity) / aligned[i - 1].equity);
+    benchmark.push((aligned[i].benchmark - aligned[i - 1].benchmark) / aligned[i - 1].benchmark);
+  }
+
+  const meanStrategy = mean(strategy);
+  const meanBenchmark = mean(benchmark);
+  const covariance = mean(
+    strategy.map((r, i) => (r - meanStrategy) * (benchmark[i] - meanBenchmark))
+  );
+  const variance = mean(benchmark.map((r) => Math.pow(r - meanBenchmark, 2)));
+  const beta = variance > EPSILON ? covariance / variance : null;
+
+  const active = strategy.map((r, i) => r - benchmark[i]);
+  const activeDeviation = standardDeviation(active);
+  const trackingError = activeDeviation * Math.sqrt(periodsPerYear);
+
+  const capture = (include: (r: number) => boolean) => {
+    const periods = benchmark.map((r, i) => i).filter((i) => include(benchmark[i]));
+    const benchmarkMean = mean(periods.map((i) => benchmark[i]));
+    return periods.length > 0 && benchmarkMean !== 0
+      ? mean(periods.map((i) => strategy[i])) / benchmarkMean
+      : null;
+  };
+
+  return {
+    symbol,
+    periods: strategy.length,
+    benchmarkReturn:
+      aligned[aligned.length - 1].benchmark / aligned[0].benchmark - 1,
+    alpha: beta !== null ? (meanStrategy - beta * meanBenchmark) * periodsPerYear : null,
+    beta,
+    trackingError,
+    informationRatio:
+      activeDeviation > EPSILON
+        ? (mean(active) / activeDeviation) * Math.sqrt(periodsPerYear)
+        : null,
+    upCapture: capture((r) => r > 0),
+    downCapture: capture((r) => r < 0),
+  };
+}
+
+// Everything stored on a risk_metrics row; BacktestResult satisfies it
+export interface PerformanceSummary extends ReturnMetrics, TradeStatistics {
+  totalReturn: number;
+  maxDrawdown: number;
+  winRate: number;
+  averageReturn: number;
+  exposureTime: number;
+  benchmark: BenchmarkMetrics | null;
+}
+
+/**
+ * Performance of a live account from its daily equity history and the trades
+ * it closed. exposureTime is supplied by the caller since only it knows when
+ * positions were open.
+ */
+export function summarizePerformance(
+  curve: EquitySample[],
+  trades: ClosedTrade[],
+  exposureTime: number,
+  benchmark?: { symbol: string; bars: MarketBar[] }
+): PerformanceSummary {
+  const first = curve[0]?.equity ?? 0;
+  const last = curve[curve.length - 1]?.equity ?? 0;
+  const totalReturn = first > 0 ? (last - first) / first : 0;
+  const maxDrawdown = maxDrawdownOf(curve);
+  const wins = trades.filter((t) => t.pnl > 0).length;
+
+  return {
+    totalReturn,
+    maxDrawdown,
+    winRate: trades.length > 0 ? wins / trades.length : 0,
+    averageReturn: mean(trades.map((t) => t.pnl)),
+    exposureTime,
+    ...calculateReturnMetrics(periodReturns(curve), totalReturn, maxDrawdown),
+    ...calculateTradeStatistics(trades),
+    benchmark: benchmark
+      ? calculateBenchmarkMetrics(curve, benchmark.bars, benchmark.symbol)
+      : null,
+  };
+}
+
+const decimal = (value: number | null | undefined) =>
+  value === null || value === undefined || !isFinite(value) ? null : value.toString();
+
+export function toRiskMetricRow(
+  symbol: string,
+  source: "backtest" | "live",
+  summary: PerformanceSummary
+): InsertRiskMetric {
+  const { benchmark } = summary;
+  return {
+    symbol,
+    source,
+    sharpeRatio: decimal(summary.sharpeRatio),
+    maxDrawdown: decimal(summary.maxDrawdown),
+    volatility: decimal(summary.volatility),
+    winRate: decimal(summary.winRate),
+    profitFactor: decimal(summary.profitFactor),
+    averageReturn: decimal(summary.averageReturn),
+    totalReturn: decimal(summary.totalReturn),
+    sortinoRatio: decimal(summary.sortinoRatio),
+    calmarRatio: decimal(summary.calmarRatio),
+    expectancy: decimal(summary.expectancy),
+    averageHoldingPeriod: decimal(summary.averageHoldingPeriod),
+    exposureTime: decimal(summary.exposureTime),
+    benchmark: benchmark?.symbol ?? null,
+    alpha: decimal(benchmark?.alpha),
+    beta: decimal(benchmark?.beta),
+    informationRatio: decimal(benchmark?.informationRatio),
+    trackingError: decimal(benchmark?.trackingError),
+    upCapture: decimal(benchmark?.upCapture),
+    downCapture: decimal(benchmark?.downCapture),
+  };
+}
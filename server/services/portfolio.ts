@@ -1,5 +1,5 @@
 import { PortfolioStatus, Position } from "../../shared/interfaces";
-import { alpacaService } from "./alpaca";
+import { broker } from "./broker";
 import { storage } from "../storage";
 import { wsManager } from "./websocket";
 
@@ -12,9 +12,9 @@ export class PortfolioService {
 
   private async initializeLastClosePrices() {
     try {
-      const positions = await alpacaService.getPositions();
+      const positions = await broker.getPositions();
       for (const position of positions) {
-        const bars = await alpacaService.getBars(position.symbol, "1D", 2);
+        const bars = await broker.getBars(position.symbol, "1D", 2);
         if (bars.length > 1) {
           this.lastDayClose.set(position.symbol, bars[0].c);
         }
@@ -36,8 +36,8 @@ export class PortfolioService {
 
   public async getPortfolioStatus(): Promise<PortfolioStatus> {
     try {
-      const account = await alpacaService.getAccount();
-      const alpacaPositions = await alpacaService.getPositions();
+      const account = await broker.getAccount();
+      const alpacaPositions = await broker.getPositions();
 
       const positions: Position[] = await Promise.all(
         alpacaPositions.map(async (p) => {
@@ -127,9 +127,9 @@ export class PortfolioService {
   // Method to update last close prices at market close
   public async updateLastClosePrices() {
     try {
-      const positions = await alpacaService.getPositions();
+      const positions = await broker.getPositions();
       for (const position of positions) {
-        const bars = await alpacaService.getBars(position.symbol, "1D", 1);
+        const bars = await broker.getBars(position.symbol, "1D", 1);
         if (bars.length > 0) {
           this.lastDayClose.set(position.symbol, bars[0].c);
         }
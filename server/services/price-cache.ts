@@ -0,0 +1,46 @@
+// Prices older than this are not trusted as the current price
+export const LAST_PRICE_MAX_AGE_MS = 60_000;
+
+export interface PriceUpdate {
+  symbol: string;
+  price: number;
+  timestamp: Date;
+  source: "quote" | "bar";
+}
+
+/**
+ * Newest streamed price per symbol. Filled by the market data stream in the
+ * worker and by the stream relay in the server, so price lookups skip the
+ * REST round trip while the stream is live.
+ */
+export class LastPriceCache {
+  private prices = new Map<string, PriceUpdate>();
+
+  // Keeps the update unless a newer one is already cached; returns whether it was kept
+  record(update: PriceUpdate): boolean {
+    const current = this.prices.get(update.symbol);
+    if (current && current.timestamp.getTime() > update.timestamp.getTime()) {
+      return false;
+    }
+    this.prices.set(update.symbol, update);
+    return true;
+  }
+
+  get(symbol: string, maxAgeMs: number = LAST_PRICE_MAX_AGE_MS, now: Date = new Date()): number | undefined {
+    const update = this.prices.get(symbol);
+    if (!update || now.getTime() - update.timestamp.getTime() > maxAgeMs) {
+      return undefined;
+    }
+    return update.price;
+  }
+
+  snapshot(): PriceUpdate[] {
+    return Array.from(this.prices.values());
+  }
+
+  clear() {
+    this.prices.clear();
+  }
+}
+
+export const lastPrices = new LastPriceCache();
@@ -0,0 +1,374 @@
+import type {
+  AuditLog,
+  InsertAuditLog,
+  InsertPosition,
+  InsertReconciliationRun,
+  Order,
+  Portfolio,
+  Position,
+  ReconciliationRun,
+} from "@shared/schema";
+import type { OrderFilter } from "../storage";
+import type { Broker, BrokerPosition } from "./broker";
+import type { AlertEvent } from "./health-monitor";
+import { OPEN_ORDER_STATUSES } from "./order-types";
+
+// missing: the broker holds a position the positions table does not
+// orphan: the positions table holds a position the broker does not
+// qty_drift and price_drift: both hold it, with a different quantity or average entry price
+// cash_drift: the portfolio's cash balance differs from the broker account's cash
+export const RECONCILIATION_ISSUE_KINDS = ["missing", "orphan", "qty_drift", "price_drift", "cash_drift"] as const;
+export type ReconciliationIssueKind = (typeof RECONCILIATION_ISSUE_KINDS)[number];
+
+export interface ReconciliationIssue {
+  kind: ReconciliationIssueKind;
+  // null for cash
+  symbol: string | null;
+  // The broker's value and ours: quantities, average entry prices or cash, by kind
+  broker: number;
+  local: number;
+  // Local positions the issue concerns
+  positionIds: string[];
+  message: string;
+  healed: boolean;
+  // Why a healable issue was left alone
+  skipped?: string;
+}
+
+export interface ReconciliationConfig {
+  // 0 turns the schedule off
+  intervalMs: number;
+  // Portfolio that mirrors the broker account: its cash, and where missing positions are booked
+  portfolioId: string;
+  autoHeal: ReconciliationIssueKind[];
+  // Relative difference of average entry prices tolerated
+  priceTolerance: number;
+  // Absolute cash difference tolerated
+  cashTolerance: number;
+}
+
+export type ReconciliationTrigger = "schedule" | "manual";
+
+export interface ReconciliationRepository {
+  getAllOpenPositions(): Promise<Position[]>;
+  getOrders(filter?: OrderFilter): Promise<Order[]>;
+  getPortfolioById(portfolioId: string): Promise<Portfolio | undefined>;
+  updatePortfolio(id: string, updates: Partial<Portfolio>): Promise<Portfolio>;
+  createPosition(position: InsertPosition): Promise<Position>;
+  updatePosition(id: string, updates: Partial<Position>): Promise<Position>;
+  createReconciliationRun(run: InsertReconciliationRun): Promise<ReconciliationRun>;
+  createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
+}
+
+// Differences this small are rounding, not drift
+const QUANTITY_EPSILON = 1e-6;
+
+/**
+ * Reads the reconciliation settings. RECONCILIATION_AUTO_HEAL lists the
+ * issue kinds fixed from the broker's side; "none" only reports. Cash is
+ * not healed by default: the portfolio only mirrors the broker account
+ * once RECONCILIATION_PORTFOLIO_ID names the portfolio trading it.
+ */
+export function reconciliationConfig(env: Record<string, string | undefined> = process.env): ReconciliationConfig {
+  const autoHeal = (env.RECONCILIATION_AUTO_HEAL ?? "price_drift")
+    .split(",")
+    .map((kind) => kind.trim())
+    .filter((kind) => kind && kind !== "none");
+  for (const kind of autoHeal) {
+    if (!(RECONCILIATION_ISSUE_KINDS as readonly string[]).includes(kind)) {
+      throw new Error(`Unknown RECONCILIATION_AUTO_HEAL kind "${kind}": expected ${RECONCILIATION_ISSUE_KINDS.join(", ")} or none`);
+    }
+  }
+
+  return {
+    intervalMs: parseInt(env.RECONCILIATION_INTERVAL_MS || "300000"),
+    portfolioId: env.RECONCILIATION_PORTFOLIO_ID || "default-portfolio",
+    autoHeal: autoHeal as ReconciliationIssueKind[],
+    priceTolerance: parseFloat(env.RECONCILIATION_PRICE_TOLERANCE || "0.005"),
+    cashTolerance: parseFloat(env.RECONCILIATION_CASH_TOLERANCE || "1"),
+  };
+}
+
+function localEntryPrice(position: Position): number {
+  return parseFloat(position.averageEntryPrice ?? position.entryPrice);
+}
+
+/**
+ * Compare the broker's positions with our open ones, symbol by symbol.
+ * Several local rows of a symbol (one per strategy, say) are compared as
+ * their total quantity and quantity-weighted average entry price.
+ */
+export function diffPositions(
+  brokerPositions: Pick<BrokerPosition, "symbol" | "qty" | "avg_entry_price">[],
+  localPositions: Position[],
+  priceTolerance: number
+): ReconciliationIssue[] {
+  const bySymbol = new Map<string, Position[]>();
+  for (const position of localPositions) {
+    bySymbol.set(position.symbol, [...(bySymbol.get(position.symbol) ?? []), position]);
+  }
+
+  const issues: ReconciliationIssue[] = [];
+  const issue = (fields: Omit<ReconciliationIssue, "healed">) => issues.push({ ...fields, healed: false });
+
+  for (const held of brokerPositions) {
+    const rows = bySymbol.get(held.symbol) ?? [];
+    bySymbol.delete(held.symbol);
+    const positionIds = rows.map((row) => row.id);
+
+    if (rows.length === 0) {
+      issue({
+        kind: "missing",
+        symbol: held.symbol,
+        broker: held.qty,
+        local: 0,
+        positionIds,
+        message: `Broker holds ${held.qty} ${held.symbol} with no open local position`,
+      });
+      continue;
+    }
+
+    const quantity = rows.reduce((total, row) => total + row.quantity, 0);
+    if (Math.abs(quantity - held.qty) > QUANTITY_EPSILON) {
+      issue({
+        kind: "qty_drift",
+        symbol: held.symbol,
+        broker: held.qty,
+        local: quantity,
+        positionIds,
+        message: `Broker holds ${held.qty} ${held.symbol}, local positions hold ${quantity}`,
+      });
+      continue;
+    }
+
+    const averagePrice = rows.reduce((total, row) => total + row.quantity * localEntryPrice(row), 0) / quantity;
+    if (Math.abs(averagePrice - held.avg_entry_price) > held.avg_entry_price * priceTolerance) {
+      issue({
+        kind: "price_drift",
+        symbol: held.symbol,
+        broker: held.avg_entry_price,
+        local: Math.round(averagePrice * 10_000) / 10_000,
+        positionIds,
+        message: `${held.symbol} average entry is ${held.avg_entry_price} at the broker and ${averagePrice.toFixed(4)} locally`,
+      });
+    }
+  }
+
+  for (const [symbol, rows] of Array.from(bySymbol.entries())) {
+    const quantity = rows.reduce((total, row) => total + row.quantity, 0);
+    issue({
+      kind: "orphan",
+      symbol,
+      broker: 0,
+      local: quantity,
+      positionIds: rows.map((row) => row.id),
+      message: `Local positions hold ${quantity} ${symbol} the broker does not`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Diffs the broker's positions and cash against the positions table and the
+ * portfolio on a schedule, fixes the kinds of drift configured for auto-heal
+ * from the broker's side, and records every run with its issues. Issues left
+ * unhealed are logged and alerted on. It runs in the worker, next to the
+ * order poller, so it sees the broker account fills are booked from.
+ */
+export class ReconciliationService {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<ReconciliationRun> | null = null;
+  // Unhealed issues of the last alert, so persisting drift alerts once
+  private lastAlerted = "";
+
+  constructor(
+    private readonly repository: ReconciliationRepository,
+    private readonly broker: Pick<Broker, "name" | "getPositions" | "getAccount">,
+    private readonly config: ReconciliationConfig,
+    private readonly raiseAlert: (alert: AlertEvent) => void = () => {}
+  ) {}
+
+  start() {
+    if (this.timer || this.config.intervalMs <= 0) return;
+    this.timer = setInterval(() => {
+      this.run("schedule").catch((error) => console.error("Scheduled reconciliation failed:", error));
+    }, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // A run requested while one is in progress gets that run's result
+  run(trigger: ReconciliationTrigger): Promise<ReconciliationRun> {
+    if (!this.running) {
+      this.running = this.reconcile(trigger).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async reconcile(trigger: ReconciliationTrigger): Promise<ReconciliationRun> {
+    const startedAt = new Date();
+    const correlationId = `reconcile_${startedAt.getTime()}`;
+
+    let snapshot;
+    try {
+      const [brokerPositions, account, localPositions, openOrders, portfolio] = await Promise.all([
+        this.broker.getPositions(),
+        this.broker.getAccount(),
+        this.repository.getAllOpenPositions(),
+        this.repository.getOrders({ statuses: OPEN_ORDER_STATUSES, limit: 500 }),
+        this.repository.getPortfolioById(this.config.portfolioId),
+      ]);
+      snapshot = { brokerPositions, account, localPositions, openOrders, portfolio };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.repository.createAuditLog({
+        eventType: "RECONCILIATION_FAILED",
+        eventData: { trigger, error: message },
+        source: "reconciliation",
+        level: "error",
+        correlationId,
+      });
+      return this.repository.createReconciliationRun({
+        trigger,
+        status: "failed",
+        broker: this.broker.name,
+        issues: [],
+        error: message,
+        correlationId,
+        startedAt,
+      });
+    }
+
+    const { brokerPositions, account, localPositions, openOrders, portfolio } = snapshot;
+    const issues = diffPositions(brokerPositions, localPositions, this.config.priceTolerance);
+    const localCash = portfolio ? parseFloat(portfolio.cashBalance) : null;
+    if (localCash !== null && Math.abs(localCash - account.cash) > this.config.cashTolerance) {
+      issues.push({
+        kind: "cash_drift",
+        symbol: null,
+        broker: account.cash,
+        local: localCash,
+        positionIds: [],
+        message: `Broker cash is ${account.cash.toFixed(2)}, portfolio ${this.config.portfolioId} has ${localCash.toFixed(2)}`,
+        healed: false,
+      });
+    }
+
+    // Fills of open orders may still be on their way to the positions table
+    const pendingSymbols = new Set(openOrders.map((order) => order.symbol));
+    const brokerBySymbol = new Map(brokerPositions.map((held) => [held.symbol, held]));
+    const localById = new Map(localPositions.map((position) => [position.id, position]));
+    for (const found of issues) {
+      if (!this.config.autoHeal.includes(found.kind)) continue;
+      if (found.symbol && pendingSymbols.has(found.symbol)) {
+        found.skipped = `${found.symbol} has open orders`;
+        continue;
+      }
+      try {
+        found.skipped = await this.heal(found, {
+          held: found.symbol ? brokerBySymbol.get(found.symbol) : undefined,
+          rows: found.positionIds.map((id) => localById.get(id)!),
+          correlationId,
+        });
+        found.healed = !found.skipped;
+      } catch (error) {
+        found.skipped = `Heal failed: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    for (const found of issues) {
+      await this.repository.createAuditLog({
+        eventType: found.healed ? "RECONCILIATION_HEALED" : "RECONCILIATION_MISMATCH",
+        eventData: { ...found, trigger },
+        source: "reconciliation",
+        level: found.healed ? "info" : found.kind === "price_drift" || found.kind === "cash_drift" ? "warn" : "error",
+        correlationId,
+      });
+    }
+
+    const unhealed = issues.filter((found) => !found.healed);
+    this.alertOn(unhealed);
+    const healedCount = issues.length - unhealed.length;
+    return this.repository.createReconciliationRun({
+      trigger,
+      status: issues.length === 0 ? "clean" : unhealed.length === 0 ? "healed" : "drift",
+      broker: this.broker.name,
+      issueCount: issues.length,
+      healedCount,
+      issues,
+      brokerCash: account.cash.toFixed(2),
+      localCash: localCash === null ? null : localCash.toFixed(2),
+      correlationId,
+      startedAt,
+    });
+  }
+
+  // Make our side match the broker's. Returns why the issue was not healed, if it was not.
+  private async heal(
+    found: ReconciliationIssue,
+    context: { held?: Pick<BrokerPosition, "qty" | "avg_entry_price" | "current_price">; rows: Position[]; correlationId: string }
+  ): Promise<string | undefined> {
+    const { held, rows, correlationId } = context;
+    switch (found.kind) {
+      case "missing":
+        if (!Number.isInteger(held!.qty)) return "Fractional quantities cannot be booked";
+        await this.repository.createPosition({
+          portfolioId: this.config.portfolioId,
+          symbol: found.symbol!,
+          quantity: held!.qty,
+          entryPrice: held!.avg_entry_price.toString(),
+          averageEntryPrice: held!.avg_entry_price.toString(),
+          currentPrice: held!.current_price.toString(),
+          isOpen: true,
+          correlationId,
+        });
+        return undefined;
+      case "orphan":
+        for (const row of rows) {
+          await this.repository.updatePosition(row.id, {
+            isOpen: false,
+            exitDate: new Date(),
+            exitPrice: row.currentPrice ?? row.entryPrice,
+          });
+        }
+        return undefined;
+      case "qty_drift":
+      case "price_drift":
+        // Which of several rows is off cannot be told from the broker's total
+        if (rows.length > 1) return `${found.symbol} is split over ${rows.length} positions`;
+        if (!Number.isInteger(held!.qty)) return "Fractional quantities cannot be booked";
+        await this.repository.updatePosition(rows[0].id, {
+          quantity: held!.qty,
+          averageEntryPrice: held!.avg_entry_price.toString(),
+        });
+        return undefined;
+      case "cash_drift":
+        await this.repository.updatePortfolio(this.config.portfolioId, { cashBalance: found.broker.toFixed(2) });
+        return undefined;
+    }
+  }
+
+  private alertOn(unhealed: ReconciliationIssue[]) {
+    const key = unhealed.map((found) => `${found.kind}:${found.symbol}:${found.broker}:${found.local}`).sort().join("|");
+    if (key === this.lastAlerted) return;
+    this.lastAlerted = key;
+    if (unhealed.length === 0) return;
+
+    const positionIssue = unhealed.some((found) => found.kind !== "price_drift" && found.kind !== "cash_drift");
+    this.raiseAlert({
+      serviceName: "reconciliation",
+      alertType: "reconciliation_drift",
+      severity: positionIssue ? "critical" : "warning",
+      message: unhealed.map((found) => found.message).join("; "),
+      timestamp: new Date(),
+    });
+  }
+}
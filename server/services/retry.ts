@@ -131,6 +131,8 @@ export class DeadLetterQueue {
         }
       }
     }, this.config.retryIntervalMs);
+    // Housekeeping only; must not keep the process alive
+    this.retryScheduler.unref();
   }
 
   /**
@@ -1,5 +1,5 @@
 import { db } from "../db";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { riskMetrics, positions } from "../../shared/schema";
 import { RiskMetrics } from "../../shared/interfaces";
 import { logger } from "./logger";
@@ -31,7 +31,7 @@ export class RiskControlService {
       const existing = await db
         .select()
         .from(riskMetrics)
-        .where(eq(riskMetrics.symbol, symbol))
+        .where(and(eq(riskMetrics.symbol, symbol), eq(riskMetrics.source, "live")))
         .limit(1);
 
       if (existing.length > 0) {
@@ -41,7 +41,7 @@ export class RiskControlService {
             ...dbRiskData,
             updatedAt: new Date(),
           })
-          .where(eq(riskMetrics.symbol, symbol));
+          .where(and(eq(riskMetrics.symbol, symbol), eq(riskMetrics.source, "live")));
       } else {
         await db.insert(riskMetrics).values({
           symbol,
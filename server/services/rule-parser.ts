@@ -0,0 +1,532 @@
+// Tokenizer and recursive-descent parser for strategy rule strings such as
+// "RSI(14) < 30 AND (PRICE > SMA(20) * 1.02 OR NOT VOLUME < 1000)".
+//
+// Grammar (lowest to highest precedence):
+//   condition  := or
+//   or         := and ("OR" and)*
+//   and        := not ("AND" not)*
+//   not        := "NOT" not | comparison
+//   comparison := additive (compareOp additive)?
+//   compareOp  := ">" | "<" | ">=" | "<=" | "=" | "==" | "!=" | "CROSSES_ABOVE" | "CROSSES_BELOW"
+//   additive   := term (("+" | "-") term)*
+//   term       := unary (("*" | "/") unary)*
+//   unary      := "-" unary | postfix
+//   postfix    := primary ("[" NUMBER "]")*          value N bars ago, e.g. CLOSE[1]
+//   primary    := NUMBER | IDENT | IDENT "(" args? ")" | "(" condition ")"
+//   args       := arg ("," arg)*
+//   arg        := (IDENT "=")? condition
+
+export type ComparisonOperator =
+  | '>'
+  | '<'
+  | '>='
+  | '<='
+  | '='
+  | '=='
+  | '!='
+  | 'CROSSES_ABOVE'
+  | 'CROSSES_BELOW';
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+export type LogicalOperator = 'AND' | 'OR';
+
+interface NodeBase {
+  // Character offsets into the source rule string (end is exclusive)
+  start: number;
+  end: number;
+}
+
+export interface NumberLiteral extends NodeBase {
+  kind: 'number';
+  value: number;
+}
+
+export interface Identifier extends NodeBase {
+  kind: 'identifier';
+  name: string;
+}
+
+export interface CallArgument extends NodeBase {
+  name: string | null;
+  value: Expression;
+}
+
+export interface CallExpression extends NodeBase {
+  kind: 'call';
+  name: string;
+  args: CallArgument[];
+}
+
+export interface OffsetExpression extends NodeBase {
+  kind: 'offset';
+  operand: NumericExpression;
+  // How many bars back to read the operand
+  bars: number;
+}
+
+export interface NegateExpression extends NodeBase {
+  kind: 'negate';
+  operand: NumericExpression;
+}
+
+export interface ArithmeticExpression extends NodeBase {
+  kind: 'arithmetic';
+  operator: ArithmeticOperator;
+  left: NumericExpression;
+  right: NumericExpression;
+}
+
+export interface ComparisonExpression extends NodeBase {
+  kind: 'comparison';
+  operator: ComparisonOperator;
+  left: NumericExpression;
+  right: NumericExpression;
+}
+
+export interface LogicalExpression extends NodeBase {
+  kind: 'logical';
+  operator: LogicalOperator;
+  operands: Condition[];
+}
+
+export interface NotExpression extends NodeBase {
+  kind: 'not';
+  operand: Condition;
+}
+
+export type NumericExpression =
+  | NumberLiteral
+  | Identifier
+  | CallExpression
+  | OffsetExpression
+  | NegateExpression
+  | ArithmeticExpression;
+
+export type Condition = ComparisonExpression | LogicalExpression | NotExpression;
+
+export type Expression = NumericExpression | Condition;
+
+export class RuleParseError extends Error {
+  constructor(message: string, public readonly position: number, public readonly source: string) {
+    super(`${message} at position ${position}`);
+    this.name = 'RuleParseError';
+  }
+
+  toJSON() {
+    return { message: this.message, position: this.position };
+  }
+}
+
+type TokenType =
+  | 'number'
+  | 'identifier'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'lbracket'
+  | 'rbracket'
+  | 'comma'
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const CROSSING_OPERATORS = new Set(['CROSSES_ABOVE', 'CROSSES_BELOW']);
+const KEYWORDS = new Set(['AND', 'OR', 'NOT', ...Array.from(CROSSING_OPERATORS)]);
+const COMPARISON_OPERATORS = new Set(['>', '<', '>=', '<=', '=', '==', '!=']);
+const TWO_CHAR_OPERATORS = new Set(['>=', '<=', '==', '!=']);
+const SINGLE_CHAR_OPERATORS = new Set(['>', '<', '=', '+', '-', '*', '/']);
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+(\.\d*)?|\.\d+)/.exec(source.slice(i));
+      if (!match) {
+        throw new RuleParseError(`Unexpected character '${char}'`, i, source);
+      }
+      tokens.push({ type: 'number', value: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      // Identifiers and keywords are case-insensitive
+      tokens.push({ type: 'identifier', value: match[0].toUpperCase(), start: i, end: i + match[0].length });
+      i += match[0].length;
+      continue;
+    }
+
+    const pair = source.slice(i, i + 2);
+    if (TWO_CHAR_OPERATORS.has(pair)) {
+      tokens.push({ type: 'operator', value: pair, start: i, end: i + 2 });
+      i += 2;
+      continue;
+    }
+
+    if (SINGLE_CHAR_OPERATORS.has(char)) {
+      tokens.push({ type: 'operator', value: char, start: i, end: i + 1 });
+    } else if (char === '(') {
+      tokens.push({ type: 'lparen', value: char, start: i, end: i + 1 });
+    } else if (char === ')') {
+      tokens.push({ type: 'rparen', value: char, start: i, end: i + 1 });
+    } else if (char === '[') {
+      tokens.push({ type: 'lbracket', value: char, start: i, end: i + 1 });
+    } else if (char === ']') {
+      tokens.push({ type: 'rbracket', value: char, start: i, end: i + 1 });
+    } else if (char === ',') {
+      tokens.push({ type: 'comma', value: char, start: i, end: i + 1 });
+    } else {
+      throw new RuleParseError(`Unexpected character '${char}'`, i, source);
+    }
+    i++;
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+export function isCondition(node: Expression): node is Condition {
+  return node.kind === 'comparison' || node.kind === 'logical' || node.kind === 'not';
+}
+
+/**
+ * Fold arithmetic on literals so "SMA(10 * 2)" is treated like "SMA(20)".
+ * Returns null for anything that depends on market data.
+ */
+export function evaluateConstant(node: Expression): number | null {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'negate': {
+      const value = evaluateConstant(node.operand);
+      return value === null ? null : -value;
+    }
+    case 'arithmetic': {
+      const left = evaluateConstant(node.left);
+      const right = evaluateConstant(node.right);
+      if (left === null || right === null) return null;
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? null : left / right;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Match positional and named call arguments to parameter names, e.g.
+ * HIGHEST(HIGH, period=20) against ['source', 'period'].
+ */
+export function resolveArguments(
+  node: CallExpression,
+  params: string[],
+  source: string
+): Map<string, CallArgument> {
+  const resolved = new Map<string, CallArgument>();
+
+  node.args.forEach((arg, index) => {
+    let name = arg.name;
+    if (name === null) {
+      if (index >= params.length) {
+        throw new RuleParseError(`${node.name} takes at most ${params.length} argument(s)`, arg.start, source);
+      }
+      name = params[index];
+    } else if (!params.includes(name)) {
+      throw new RuleParseError(`Unknown parameter '${name}' for ${node.name}`, arg.start, source);
+    }
+
+    if (resolved.has(name)) {
+      throw new RuleParseError(`Parameter '${name}' given twice for ${node.name}`, arg.start, source);
+    }
+    resolved.set(name, arg);
+  });
+
+  return resolved;
+}
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Condition {
+    if (this.peek().type === 'eof') {
+      throw new RuleParseError('Rule is empty', 0, this.source);
+    }
+
+    const condition = this.expectCondition(this.parseOr());
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw this.unexpected(next);
+    }
+    return condition;
+  }
+
+  private parseOr(): Expression {
+    return this.parseLogical('OR', () => this.parseAnd());
+  }
+
+  private parseAnd(): Expression {
+    return this.parseLogical('AND', () => this.parseNot());
+  }
+
+  private parseLogical(operator: LogicalOperator, parseOperand: () => Expression): Expression {
+    const first = parseOperand();
+    if (!this.isKeyword(operator)) {
+      return first;
+    }
+
+    const operands = [this.expectCondition(first)];
+    while (this.isKeyword(operator)) {
+      this.advance();
+      operands.push(this.expectCondition(parseOperand()));
+    }
+
+    return {
+      kind: 'logical',
+      operator,
+      operands,
+      start: first.start,
+      end: operands[operands.length - 1].end
+    };
+  }
+
+  private parseNot(): Expression {
+    if (this.isKeyword('NOT')) {
+      const token = this.advance();
+      const operand = this.expectCondition(this.parseNot());
+      return { kind: 'not', operand, start: token.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (!this.isComparisonOperator(token)) {
+      return left;
+    }
+
+    this.advance();
+    const right = this.expectNumeric(this.parseAdditive());
+
+    const next = this.peek();
+    if (this.isComparisonOperator(next)) {
+      throw new RuleParseError('Comparisons cannot be chained; combine them with AND', next.start, this.source);
+    }
+
+    return {
+      kind: 'comparison',
+      operator: token.value as ComparisonOperator,
+      left: this.expectNumeric(left),
+      right,
+      start: left.start,
+      end: right.end
+    };
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseTerm();
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const operator = this.advance().value as ArithmeticOperator;
+      const right = this.expectNumeric(this.parseTerm());
+      left = {
+        kind: 'arithmetic',
+        operator,
+        left: this.expectNumeric(left),
+        right,
+        start: left.start,
+        end: right.end
+      };
+    }
+    return left;
+  }
+
+  private parseTerm(): Expression {
+    let left = this.parseUnary();
+    while (this.isOperator('*') || this.isOperator('/')) {
+      const operator = this.advance().value as ArithmeticOperator;
+      const right = this.expectNumeric(this.parseUnary());
+      left = {
+        kind: 'arithmetic',
+        operator,
+        left: this.expectNumeric(left),
+        right,
+        start: left.start,
+        end: right.end
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.isOperator('-')) {
+      const token = this.advance();
+      const operand = this.expectNumeric(this.parseUnary());
+      if (operand.kind === 'number') {
+        return { kind: 'number', value: -operand.value, start: token.start, end: operand.end };
+      }
+      return { kind: 'negate', operand, start: token.start, end: operand.end };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    let node = this.parsePrimary();
+    while (this.peek().type === 'lbracket') {
+      this.advance();
+      const operand = this.expectNumeric(node);
+      const count = this.expect('number', 'Expected a bar count');
+      const bars = parseFloat(count.value);
+      if (!Number.isInteger(bars)) {
+        throw new RuleParseError('Bar count must be a whole number', count.start, this.source);
+      }
+      const closing = this.expect('rbracket', "Expected ']'");
+      node = { kind: 'offset', operand, bars, start: operand.start, end: closing.end };
+    }
+    return node;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.advance();
+      return { kind: 'number', value: parseFloat(token.value), start: token.start, end: token.end };
+    }
+
+    if (token.type === 'identifier' && !KEYWORDS.has(token.value)) {
+      this.advance();
+      if (this.peek().type === 'lparen') {
+        return this.parseCall(token);
+      }
+      return { kind: 'identifier', name: token.value, start: token.start, end: token.end };
+    }
+
+    if (token.type === 'lparen') {
+      this.advance();
+      const inner = this.parseOr();
+      const closing = this.expect('rparen', "Expected ')'");
+      // Widen the span to include the parentheses so trigger text stays readable
+      return { ...inner, start: token.start, end: closing.end };
+    }
+
+    throw this.unexpected(token);
+  }
+
+  private parseCall(name: Token): CallExpression {
+    this.advance(); // '('
+    const args: CallArgument[] = [];
+
+    if (this.peek().type !== 'rparen') {
+      do {
+        if (args.length > 0) {
+          this.advance(); // ','
+        }
+        args.push(this.parseArgument());
+      } while (this.peek().type === 'comma');
+    }
+
+    const closing = this.expect('rparen', `Expected ',' or ')' in arguments to ${name.value}`);
+    return { kind: 'call', name: name.value, args, start: name.start, end: closing.end };
+  }
+
+  private parseArgument(): CallArgument {
+    const token = this.peek();
+    const following = this.tokens[this.index + 1];
+
+    if (token.type === 'identifier' && following?.type === 'operator' && following.value === '=') {
+      this.advance();
+      this.advance();
+      const value = this.parseOr();
+      return { name: token.value.toLowerCase(), value, start: token.start, end: value.end };
+    }
+
+    const value = this.parseOr();
+    return { name: null, value, start: value.start, end: value.end };
+  }
+
+  private expectCondition(node: Expression): Condition {
+    if (!isCondition(node)) {
+      throw new RuleParseError('Expected a comparison such as "RSI(14) < 30"', node.start, this.source);
+    }
+    return node;
+  }
+
+  private expectNumeric(node: Expression): NumericExpression {
+    if (isCondition(node)) {
+      throw new RuleParseError('Expected a numeric expression but found a condition', node.start, this.source);
+    }
+    return node;
+  }
+
+  private expect(type: TokenType, message: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw new RuleParseError(message, token.start, this.source);
+    }
+    return this.advance();
+  }
+
+  private unexpected(token: Token): RuleParseError {
+    if (token.type === 'eof') {
+      return new RuleParseError('Unexpected end of rule', token.start, this.source);
+    }
+    return new RuleParseError(`Unexpected '${this.source.slice(token.start, token.end)}'`, token.start, this.source);
+  }
+
+  private isComparisonOperator(token: Token): boolean {
+    return (
+      (token.type === 'operator' && COMPARISON_OPERATORS.has(token.value)) ||
+      (token.type === 'identifier' && CROSSING_OPERATORS.has(token.value))
+    );
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && token.value === keyword;
+  }
+
+  private isOperator(operator: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === operator;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+}
+
+/**
+ * Parse a rule string into a typed AST. Throws RuleParseError with the
+ * character position of the offending token when the rule is malformed.
+ */
+export function parseRule(source: string): Condition {
+  return new Parser(source).parse();
+}
@@ -0,0 +1,269 @@
+import {
+  parseRule,
+  isCondition,
+  evaluateConstant,
+  resolveArguments,
+  RuleParseError,
+  type Expression,
+  type CallExpression,
+  type CallArgument
+} from './rule-parser';
+import {
+  INDICATORS,
+  LOOKBACK_FUNCTIONS,
+  PRICE_FIELDS,
+  resolveIndicatorParams,
+  formatIndicator,
+  type IndicatorDefinition
+} from './indicators';
+
+export interface RuleValidationIssue {
+  ruleType: 'entry' | 'exit';
+  message: string;
+  position: number;
+}
+
+export interface RuleValidationResult {
+  valid: boolean;
+  errors: RuleValidationIssue[];
+  unknownIndicators: string[];
+  unsupportedOperators: string[];
+  // Indicators referenced by the rules, e.g. "RSI(14)"
+  indicators: string[];
+  // Bars of history required before every indicator in the rules has a value
+  warmupBars: number;
+}
+
+const SUPPORTED_OPERATORS = ['>=', '<=', '==', '!=', '>', '<', '=', '+', '-', '*', '/'];
+// Anything that is not part of a number, identifier, grouping, bar offset or argument list
+const OPERATOR_CHARACTERS = /[^\sA-Za-z0-9_.(),[\]]+/g;
+
+interface RuleCheck {
+  errors: RuleValidationIssue[];
+  unknownIndicators: Set<string>;
+  unsupportedOperators: Set<string>;
+  indicators: Set<string>;
+  warmupBars: number;
+}
+
+/**
+ * Statically check entry/exit rule strings before a strategy is staged:
+ * syntax, indicator names and arguments, operators and warm-up history.
+ */
+export function validateRules(entryRules: string, exitRules: string): RuleValidationResult {
+  const check: RuleCheck = {
+    errors: [],
+    unknownIndicators: new Set(),
+    unsupportedOperators: new Set(),
+    indicators: new Set(),
+    warmupBars: 0
+  };
+
+  validateRule(entryRules ?? '', 'entry', check);
+  validateRule(exitRules ?? '', 'exit', check);
+
+  return {
+    valid: check.errors.length === 0,
+    errors: check.errors,
+    unknownIndicators: Array.from(check.unknownIndicators),
+    unsupportedOperators: Array.from(check.unsupportedOperators),
+    indicators: Array.from(check.indicators),
+    warmupBars: check.warmupBars
+  };
+}
+
+/**
+ * Render validation errors as plain text, one per line, for logs and AI prompts.
+ */
+export function formatRuleValidationErrors(result: RuleValidationResult): string {
+  return result.errors
+    .map(error => `${error.ruleType} rule: ${error.message}`)
+    .join('\n');
+}
+
+function validateRule(source: string, ruleType: 'entry' | 'exit', check: RuleCheck) {
+  const addError = (message: string, position: number) => {
+    check.errors.push({ ruleType, message, position });
+  };
+
+  // Report every unsupported operator up front; the parser would stop at the first
+  let hasUnsupportedOperator = false;
+  for (const match of Array.from(source.matchAll(OPERATOR_CHARACTERS))) {
+    for (const operator of splitOperators(match[0], match.index ?? 0)) {
+      if (!SUPPORTED_OPERATORS.includes(operator.text)) {
+        hasUnsupportedOperator = true;
+        check.unsupportedOperators.add(operator.text);
+        addError(`Unsupported operator '${operator.text}' at position ${operator.position}`, operator.position);
+      }
+    }
+  }
+  if (hasUnsupportedOperator) {
+    return;
+  }
+
+  let rule;
+  try {
+    rule = parseRule(source);
+  } catch (error) {
+    if (error instanceof RuleParseError) {
+      addError(error.message, error.position);
+      return;
+    }
+    throw error;
+  }
+
+  try {
+    check.warmupBars = Math.max(check.warmupBars, warmupFor(rule, source, check, addError));
+  } catch (error) {
+    // Argument errors from resolveArguments carry their own position
+    if (error instanceof RuleParseError) {
+      addError(error.message, error.position);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Walk the AST collecting indicators and problems, returning how many bars of
+ * history the node needs before it can produce a value on the latest bar.
+ */
+function warmupFor(
+  node: Expression,
+  source: string,
+  check: RuleCheck,
+  addError: (message: string, position: number) => void
+): number {
+  const visit = (child: Expression) => warmupFor(child, source, check, addError);
+
+  switch (node.kind) {
+    case 'number':
+      return 0;
+    case 'logical':
+      return Math.max(...node.operands.map(visit));
+    case 'not':
+    case 'negate':
+      return visit(node.operand);
+    case 'offset':
+      return visit(node.operand) + node.bars;
+    case 'arithmetic':
+      return Math.max(visit(node.left), visit(node.right));
+    case 'comparison': {
+      const warmup = Math.max(visit(node.left), visit(node.right));
+      // Crossovers also compare against the previous bar
+      return node.operator === 'CROSSES_ABOVE' || node.operator === 'CROSSES_BELOW' ? warmup + 1 : warmup;
+    }
+    case 'identifier': {
+      if (PRICE_FIELDS.includes(node.name)) {
+        return 1;
+      }
+      // A bare indicator name uses its default parameters
+      const indicator = INDICATORS[node.name];
+      if (indicator) {
+        return indicatorWarmup(indicator, null, source, check);
+      }
+      check.unknownIndicators.add(node.name);
+      addError(`Unknown indicator '${node.name}' at position ${node.start}`, node.start);
+      return 0;
+    }
+    case 'call':
+      return warmupForCall(node, source, check, addError, visit);
+  }
+}
+
+function warmupForCall(
+  node: CallExpression,
+  source: string,
+  check: RuleCheck,
+  addError: (message: string, position: number) => void,
+  visit: (child: Expression) => number
+): number {
+  const lookback = LOOKBACK_FUNCTIONS[node.name];
+  if (lookback) {
+    const args = resolveArguments(node, lookback.params, source);
+
+    if (node.name === 'HIGHEST' || node.name === 'LOWEST') {
+      const sourceArg = args.get('source');
+      if (!sourceArg || isCondition(sourceArg.value)) {
+        addError(`${node.name} needs a numeric source such as HIGH at position ${node.start}`, node.start);
+        return 0;
+      }
+      const period = periodArgument(node, args.get('period'), addError);
+      if (period === null) {
+        if (!args.has('period')) {
+          addError(`${node.name} needs a period at position ${node.start}`, node.start);
+        }
+        return 0;
+      }
+      return visit(sourceArg.value) + period - 1;
+    }
+
+    const conditionArg = args.get('condition');
+    if (!conditionArg || !isCondition(conditionArg.value)) {
+      addError(`${node.name} needs a condition such as CLOSE > CLOSE[1] at position ${node.start}`, node.start);
+      return 0;
+    }
+    return visit(conditionArg.value);
+  }
+
+  const indicator = INDICATORS[node.name];
+  if (!indicator) {
+    check.unknownIndicators.add(node.name);
+    addError(`Unknown indicator '${node.name}' at position ${node.start}`, node.start);
+    return 0;
+  }
+
+  return indicatorWarmup(indicator, node, source, check);
+}
+
+// Throws RuleParseError for bad arguments; validateRule records it
+function indicatorWarmup(
+  indicator: IndicatorDefinition,
+  node: CallExpression | null,
+  source: string,
+  check: RuleCheck
+): number {
+  const params = resolveIndicatorParams(indicator, node, source);
+  check.indicators.add(formatIndicator(indicator, params));
+  return indicator.warmup(params);
+}
+
+function periodArgument(
+  node: CallExpression,
+  arg: CallArgument | undefined,
+  addError: (message: string, position: number) => void
+): number | null {
+  if (!arg) return null;
+
+  const value = evaluateConstant(arg.value);
+  if (value === null || !Number.isInteger(value) || value < 1) {
+    addError(`${node.name} period must be a positive whole number at position ${arg.value.start}`, arg.value.start);
+    return null;
+  }
+  return value;
+}
+
+// Split a run of operator characters such as ">=-" into ">=" and "-",
+// keeping unknown characters grouped so "&&" is reported once
+function splitOperators(run: string, offset: number): { text: string; position: number }[] {
+  const operators: { text: string; position: number }[] = [];
+  let i = 0;
+
+  while (i < run.length) {
+    const known = SUPPORTED_OPERATORS.find(operator => run.startsWith(operator, i));
+    if (known) {
+      operators.push({ text: known, position: offset + i });
+      i += known.length;
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < run.length && !SUPPORTED_OPERATORS.some(operator => run.startsWith(operator, end))) {
+      end++;
+    }
+    operators.push({ text: run.slice(i, end), position: offset + i });
+    i = end;
+  }
+
+  return operators;
+}
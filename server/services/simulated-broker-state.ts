@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+import type { Redis } from "ioredis";
+import type { BrokerOrder } from "./broker";
+
+export interface SimulatedOrder extends BrokerOrder {
+  // Bars starting before this were already checked, or closed before the order was working
+  checkFrom: number;
+  // Bracket, oto and oco legs point at the order they belong to
+  parentId?: string;
+  // Other exit of the same bracket or oco; canceled when this one fills
+  siblingId?: string;
+  // stop_limit orders become limit orders once the stop trades
+  triggered?: boolean;
+  // Best price since a trailing stop started working: highest for sells, lowest for buys
+  waterMark?: number;
+}
+
+export interface Holding {
+  qty: number;
+  avgEntryPrice: number;
+}
+
+// Everything the simulated account changes, in a JSON-safe shape
+export interface SimulatedBrokerState {
+  cash: number;
+  holdings: [string, Holding][];
+  orders: SimulatedOrder[];
+  // Equity at the last valuation of each UTC day
+  dailyEquity: [number, number][];
+}
+
+/**
+ * Where the simulated account lives between calls. `transaction` hands the
+ * saved state (null before the first save) to `work`, keeps every other
+ * transaction out until it settles, and saves the state it returns; state is
+ * not saved when `work` throws.
+ */
+export interface SimulatedStateStore {
+  transaction<T>(
+    work: (state: SimulatedBrokerState | null) => Promise<{ state: SimulatedBrokerState; result: T }>
+  ): Promise<T>;
+}
+
+// One process's account, as used by tests and backtests
+export class MemoryStateStore implements SimulatedStateStore {
+  private state: SimulatedBrokerState | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  transaction<T>(
+    work: (state: SimulatedBrokerState | null) => Promise<{ state: SimulatedBrokerState; result: T }>
+  ): Promise<T> {
+    const next = this.queue.then(async () => {
+      const { state, result } = await work(this.state);
+      this.state = state;
+      return result;
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+// Deletes the lock only while it is still ours, so an expired holder cannot release the next one
+const RELEASE_LOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+
+export interface RedisStateStoreOptions {
+  key?: string;
+  // A holder that dies keeps the lock at most this long
+  lockTtlMs?: number;
+  // How long a transaction waits for the lock before failing
+  lockWaitMs?: number;
+  retryMs?: number;
+}
+
+/**
+ * Keeps the account in Redis so the API server and the worker trade the
+ * same simulated account. Transactions take a lock key with a TTL around
+ * the read and the write.
+ */
+export class RedisStateStore implements SimulatedStateStore {
+  private readonly key: string;
+  private readonly lockKey: string;
+  private readonly lockTtlMs: number;
+  private readonly lockWaitMs: number;
+  private readonly retryMs: number;
+
+  constructor(
+    private readonly connect: () => Promise<Pick<Redis, "get" | "set" | "eval">>,
+    options: RedisStateStoreOptions = {}
+  ) {
+    this.key = options.key ?? "smart-alpaca:simulated-broker";
+    this.lockKey = `${this.key}:lock`;
+    this.lockTtlMs = options.lockTtlMs ?? 30_000;
+    this.lockWaitMs = options.lockWaitMs ?? 10_000;
+    this.retryMs = options.retryMs ?? 25;
+  }
+
+  async transaction<T>(
+    work: (state: SimulatedBrokerState | null) => Promise<{ state: SimulatedBrokerState; result: T }>
+  ): Promise<T> {
+    const redis = await this.connect();
+    const token = randomUUID();
+    const deadline = Date.now() + this.lockWaitMs;
+    while ((await redis.set(this.lockKey, token, "PX", this.lockTtlMs, "NX")) !== "OK") {
+      if (Date.now() > deadline) {
+        throw new Error(`Simulated broker state is locked: gave up after ${this.lockWaitMs}ms`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.retryMs));
+    }
+
+    try {
+      const saved = await redis.get(this.key);
+      const { state, result } = await work(saved ? JSON.parse(saved) : null);
+      await redis.set(this.key, JSON.stringify(state));
+      return result;
+    } finally {
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, this.lockKey, token);
+    }
+  }
+}
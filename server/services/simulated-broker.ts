@@ -0,0 +1,680 @@
+import { randomUUID } from "crypto";
+import type { AlpacaBar } from "./alpaca";
+import type { BarFetcher } from "./bar-store";
+import type {
+  Broker,
+  BrokerAccount,
+  BrokerClock,
+  BrokerMarketData,
+  BrokerOrder,
+  BrokerOrderRequest,
+  BrokerOrderStatus,
+  BrokerPortfolioHistoryPoint,
+  BrokerPosition,
+} from "./broker";
+import { DEFAULT_SIMULATED_SYMBOLS, type BrokerKind } from "./broker-config";
+import type { MarketBar } from "./evaluator";
+import { commissionFor, priceFill, resolveFillModel, type FillModel } from "./fill-model";
+import { orderRequestProblem } from "./order-types";
+import { seededRandom } from "./random";
+import {
+  MemoryStateStore,
+  type Holding,
+  type SimulatedBrokerState,
+  type SimulatedOrder,
+  type SimulatedStateStore,
+} from "./simulated-broker-state";
+import { bucketStart, timeframeMs } from "./timeframe";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// How many bars back the latest price is looked for, so sparse replays still quote
+const PRICE_LOOKBACK_BARS = 50;
+
+// Alpaca's short timeframe names, as used by getBars callers
+const TIMEFRAME_ALIASES: Record<string, string> = {
+  "1H": "1Hour",
+  "1D": "1Day",
+};
+
+const CLOSED_STATUSES = new Set(["filled", "canceled", "rejected"]);
+// When a stop and a target fall in the same bar its path is unknown, so stops
+// are assumed to trigger first, as in the backtester
+const STOP_TYPES = new Set(["stop", "stop_limit", "trailing_stop"]);
+
+function normalizeTimeframe(timeframe: string): string {
+  return TIMEFRAME_ALIASES[timeframe] ?? timeframe;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// FNV-1a, so every (seed, symbol, time) has its own random stream
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function randomFor(seed: number, key: string): () => number {
+  return seededRandom(hashString(`${seed}:${key}`));
+}
+
+/**
+ * Synthetic price of a symbol at a point in time: two cycles around a
+ * per-symbol base price plus per-minute noise. It is a pure function of
+ * time, so any window of any timeframe is generated identically.
+ */
+function syntheticPrice(seed: number, symbol: string, time: number): number {
+  const shape = randomFor(seed, symbol);
+  const base = 20 + shape() * 480;
+  const phase = shape() * 2 * Math.PI;
+  const cycles =
+    0.08 * Math.sin((2 * Math.PI * time) / (45 * DAY_MS) + phase) +
+    0.03 * Math.sin((2 * Math.PI * time) / (3 * DAY_MS) + 2 * phase);
+  const noise = (randomFor(seed, `${symbol}:${Math.floor(time / MINUTE_MS)}`)() - 0.5) * 0.004;
+  return roundCents(base * (1 + cycles + noise));
+}
+
+// Seeded bars for every bucket of the timeframe that starts within [start, end]
+export function generateBars(
+  seed: number,
+  symbol: string,
+  start: Date,
+  end: Date,
+  timeframe: string = "1Day"
+): MarketBar[] {
+  const step = timeframeMs(timeframe);
+  const bars: MarketBar[] = [];
+  for (let time = bucketStart(start, timeframe); time <= end.getTime(); time += step) {
+    if (time < start.getTime()) continue;
+    const open = syntheticPrice(seed, symbol, time);
+    const close = syntheticPrice(seed, symbol, time + step - MINUTE_MS);
+    const random = randomFor(seed, `${symbol}:${timeframe}:${time}`);
+    bars.push({
+      timestamp: new Date(time),
+      open,
+      high: roundCents(Math.max(open, close) * (1 + random() * 0.002)),
+      low: roundCents(Math.min(open, close) * (1 - random() * 0.002)),
+      close,
+      volume: Math.round((5_000 + random() * 20_000) * (step / MINUTE_MS)),
+    });
+  }
+  return bars;
+}
+
+export function generatedBars(seed: number): BarFetcher {
+  return async (symbol, start, end, timeframe) => generateBars(seed, symbol, start, end, timeframe);
+}
+
+export interface SimulatedBrokerOptions {
+  // Replayed or generated bars; orders fill and positions are marked against them
+  bars: BarFetcher;
+  initialCash?: number;
+  timeframe?: string;
+  symbols?: string[];
+  fillModel?: Partial<FillModel>;
+  // Wall clock unless given; tests and backtests pass a clock they advance
+  now?: () => Date;
+  // Where the account is kept; in memory of this instance unless given
+  store?: SimulatedStateStore;
+}
+
+/**
+ * In-process broker that fills orders against bars instead of a venue.
+ * Market orders fill on the close of the newest closed bar, as do limit and
+ * stop orders that close already crosses; the rest work against each later
+ * bar, filling at their price or at the open when the bar gaps through it.
+ * Bracket and oto legs start working once their entry fills, and the exits
+ * of a bracket or oco cancel each other. Given the same bars and clock
+ * every run produces the same fills. The market never closes.
+ *
+ * The account is loaded from the state store at the start of every call
+ * that reads or changes it and saved at the end, so instances in several
+ * processes sharing a store trade one account.
+ */
+export class SimulatedBroker implements Broker {
+  readonly name: BrokerKind = "simulated";
+
+  private readonly fetchBars: BarFetcher;
+  private readonly timeframe: string;
+  private readonly symbols: string[];
+  private readonly fillModel: FillModel;
+  private readonly now: () => Date;
+  private readonly initialCash: number;
+  private readonly store: SimulatedStateStore;
+
+  // Loaded from the store for the duration of one transaction
+  private cash = 0;
+  private holdings = new Map<string, Holding>();
+  private orders: SimulatedOrder[] = [];
+  // Equity at the last valuation of each UTC day
+  private dailyEquity = new Map<number, number>();
+
+  constructor(options: SimulatedBrokerOptions) {
+    this.fetchBars = options.bars;
+    this.timeframe = options.timeframe ?? "1Min";
+    this.symbols = options.symbols ?? DEFAULT_SIMULATED_SYMBOLS;
+    this.fillModel = resolveFillModel(options.fillModel);
+    this.now = options.now ?? (() => new Date());
+    this.initialCash = options.initialCash ?? 100_000;
+    this.store = options.store ?? new MemoryStateStore();
+    // Fails fast on an unsupported timeframe rather than on the first order
+    timeframeMs(this.timeframe);
+  }
+
+  // Runs `work` against the stored account and saves what it changed
+  private withState<T>(work: () => Promise<T>): Promise<T> {
+    return this.store.transaction(async (saved) => {
+      this.restore(saved);
+      const result = await work();
+      return { state: this.snapshot(), result };
+    });
+  }
+
+  private restore(saved: SimulatedBrokerState | null): void {
+    this.cash = saved?.cash ?? this.initialCash;
+    this.holdings = new Map((saved?.holdings ?? []).map(([symbol, holding]) => [symbol, { ...holding }]));
+    this.orders = (saved?.orders ?? []).map((order) => ({ ...order }));
+    this.dailyEquity = new Map(saved?.dailyEquity ?? []);
+  }
+
+  private snapshot(): SimulatedBrokerState {
+    return {
+      cash: this.cash,
+      holdings: Array.from(this.holdings.entries()).map(([symbol, holding]) => [symbol, { ...holding }]),
+      orders: this.orders.map((order) => ({ ...order })),
+      dailyEquity: Array.from(this.dailyEquity.entries()),
+    };
+  }
+
+  // Closed bars only, so nothing after the simulated "now" is ever visible
+  private async closedBars(symbol: string, start: Date, end: Date, timeframe: string): Promise<MarketBar[]> {
+    const now = this.now().getTime();
+    const step = timeframeMs(timeframe);
+    const until = new Date(Math.min(end.getTime(), now));
+    const bars = await this.fetchBars(symbol, start, until, timeframe);
+    return bars.filter((bar) => bar.timestamp.getTime() + step <= now);
+  }
+
+  private async latestBars(symbol: string, count: number, timeframe: string = this.timeframe): Promise<MarketBar[]> {
+    const now = this.now();
+    const start = new Date(now.getTime() - (count + PRICE_LOOKBACK_BARS) * timeframeMs(timeframe));
+    const bars = await this.closedBars(symbol, start, now, timeframe);
+    return bars.slice(-count);
+  }
+
+  private async latestBar(symbol: string): Promise<MarketBar> {
+    const [bar] = await this.latestBars(symbol, 1);
+    if (!bar) {
+      throw new Error(`No simulated bars for ${symbol} before ${this.now().toISOString()}`);
+    }
+    return bar;
+  }
+
+  // Applies a fill to cash and holdings; rejects what the account cannot cover
+  private fill(order: SimulatedOrder, referencePrice: number, bar: MarketBar, at: Date): void {
+    const fill = priceFill(this.fillModel, order.side, referencePrice, bar);
+    let price = roundCents(fill.price);
+    // Costs never push a limit order past its limit
+    if (order.limit_price !== undefined) {
+      price = order.side === "buy" ? Math.min(price, order.limit_price) : Math.max(price, order.limit_price);
+    }
+    const commission = commissionFor(this.fillModel, order.qty, price);
+    const holding = this.holdings.get(order.symbol) ?? { qty: 0, avgEntryPrice: 0 };
+
+    if (order.side === "buy") {
+      const cost = order.qty * price + commission;
+      if (cost > this.cash) {
+        this.settle(order, "rejected", at);
+        return;
+      }
+      this.cash -= cost;
+      const qty = holding.qty + order.qty;
+      this.holdings.set(order.symbol, {
+        qty,
+        avgEntryPrice: (holding.qty * holding.avgEntryPrice + order.qty * price) / qty,
+      });
+    } else {
+      if (order.qty > holding.qty) {
+        this.settle(order, "rejected", at);
+        return;
+      }
+      this.cash += order.qty * price - commission;
+      const qty = holding.qty - order.qty;
+      if (qty === 0) {
+        this.holdings.delete(order.symbol);
+      } else {
+        this.holdings.set(order.symbol, { qty, avgEntryPrice: holding.avgEntryPrice });
+      }
+    }
+
+    order.filled_at = at.toISOString();
+    order.filled_qty = order.qty;
+    order.filled_avg_price = price;
+    this.settle(order, "filled", at);
+  }
+
+  /**
+   * Closes an order and works out its legs: a filled entry releases its
+   * held exits from `at` on, a filled exit cancels its sibling, and an
+   * entry that never filled takes its exits with it.
+   */
+  private settle(order: SimulatedOrder, status: "filled" | "canceled" | "rejected", at: Date): void {
+    order.status = status;
+    for (const other of this.orders) {
+      if (CLOSED_STATUSES.has(other.status)) continue;
+      if (other.parentId === order.id && other.status === "held") {
+        if (status === "filled") {
+          other.status = "new";
+          other.checkFrom = at.getTime();
+        } else {
+          other.status = "canceled";
+        }
+      } else if (other.id === order.siblingId) {
+        other.status = "canceled";
+      }
+    }
+  }
+
+  private stopLevel(order: SimulatedOrder): number {
+    if (order.type !== "trailing_stop") return order.stop_price!;
+    const mark = order.waterMark!;
+    const direction = order.side === "sell" ? -1 : 1;
+    return order.trail_price !== undefined
+      ? mark + direction * order.trail_price
+      : mark * (1 + (direction * order.trail_percent!) / 100);
+  }
+
+  // Price the order trades at in this bar, or null when the bar never reaches it
+  private triggerPrice(order: SimulatedOrder, bar: MarketBar): number | null {
+    const buy = order.side === "buy";
+    if (order.type === "market") return bar.open;
+
+    if (order.type === "limit" || (order.type === "stop_limit" && order.triggered)) {
+      const limit = order.limit_price!;
+      if (buy) return bar.low <= limit ? Math.min(limit, bar.open) : null;
+      return bar.high >= limit ? Math.max(limit, bar.open) : null;
+    }
+
+    if (order.type === "trailing_stop" && order.waterMark === undefined) {
+      order.waterMark = bar.open;
+    }
+    const stop = this.stopLevel(order);
+    const reached = buy ? bar.high >= stop : bar.low <= stop;
+    if (!reached) {
+      if (order.type === "trailing_stop") {
+        // The trail follows this bar's extreme only from the next bar on
+        order.waterMark = buy ? Math.min(order.waterMark!, bar.low) : Math.max(order.waterMark!, bar.high);
+        order.stop_price = roundCents(this.stopLevel(order));
+      }
+      return null;
+    }
+
+    const triggeredAt = buy ? Math.max(stop, bar.open) : Math.min(stop, bar.open);
+    if (order.type !== "stop_limit") return triggeredAt;
+
+    order.triggered = true;
+    const limit = order.limit_price!;
+    if (buy ? triggeredAt <= limit : triggeredAt >= limit) return triggeredAt;
+    if (buy ? bar.low <= limit : bar.high >= limit) return limit;
+    return null;
+  }
+
+  // Whether the close of the newest bar already crosses the order's price
+  private marketableAt(order: SimulatedOrder, close: number): boolean {
+    const buy = order.side === "buy";
+    switch (order.type) {
+      case "market":
+        return true;
+      case "limit":
+        return buy ? close <= order.limit_price! : close >= order.limit_price!;
+      case "stop":
+        return buy ? close >= order.stop_price! : close <= order.stop_price!;
+      case "stop_limit":
+        if (buy ? close >= order.stop_price! : close <= order.stop_price!) {
+          order.triggered = true;
+          return buy ? close <= order.limit_price! : close >= order.limit_price!;
+        }
+        return false;
+      case "trailing_stop":
+        order.waterMark = close;
+        order.stop_price = roundCents(this.stopLevel(order));
+        return false;
+    }
+  }
+
+  // Works open orders against the bars that closed since each was last checked
+  private async matchRestingOrders(): Promise<void> {
+    const step = timeframeMs(this.timeframe);
+    const symbols = Array.from(new Set(this.orders.filter((order) => order.status === "new").map((order) => order.symbol)));
+    for (const symbol of symbols) {
+      const from = Math.min(
+        ...this.orders
+          .filter((order) => order.symbol === symbol && order.status === "new")
+          .map((order) => order.checkFrom)
+      );
+      const bars = await this.closedBars(symbol, new Date(from), this.now(), this.timeframe);
+      for (const bar of bars) {
+        const barStart = bar.timestamp.getTime();
+        const working = this.orders
+          .filter((order) => order.symbol === symbol && order.status === "new" && order.checkFrom <= barStart)
+          .sort((a, b) => Number(STOP_TYPES.has(b.type)) - Number(STOP_TYPES.has(a.type)));
+        for (const order of working) {
+          // An earlier fill in this bar may have canceled it
+          if (order.status !== "new") continue;
+          order.checkFrom = barStart + step;
+          const price = this.triggerPrice(order, bar);
+          if (price !== null) {
+            this.fill(order, price, bar, new Date(barStart + step));
+          }
+        }
+      }
+    }
+  }
+
+  private async markPositions(): Promise<BrokerPosition[]> {
+    const positions: BrokerPosition[] = [];
+    for (const [symbol, holding] of Array.from(this.holdings.entries())) {
+      const price = (await this.latestBar(symbol)).close;
+      const marketValue = holding.qty * price;
+      const costBasis = holding.qty * holding.avgEntryPrice;
+      positions.push({
+        symbol,
+        qty: holding.qty,
+        avg_entry_price: holding.avgEntryPrice,
+        current_price: price,
+        market_value: marketValue,
+        unrealized_pl: marketValue - costBasis,
+        unrealized_plpc: costBasis === 0 ? 0 : (marketValue - costBasis) / costBasis,
+      });
+    }
+    return positions;
+  }
+
+  getAccount(): Promise<BrokerAccount> {
+    return this.withState(() => this.account());
+  }
+
+  private async account(): Promise<BrokerAccount> {
+    await this.matchRestingOrders();
+    const positions = await this.markPositions();
+    const equity = this.cash + positions.reduce((sum, position) => sum + position.market_value, 0);
+    this.dailyEquity.set(bucketStart(this.now(), "1Day"), equity);
+    return {
+      id: "simulated",
+      status: "ACTIVE",
+      currency: "USD",
+      buying_power: this.cash,
+      cash: this.cash,
+      portfolio_value: equity,
+      daytrade_count: 0,
+    };
+  }
+
+  getPortfolioHistory(start: Date, end: Date): Promise<BrokerPortfolioHistoryPoint[]> {
+    return this.withState(async () => {
+      await this.account();
+      return Array.from(this.dailyEquity.entries())
+        .filter(([day]) => day >= bucketStart(start, "1Day") && day <= end.getTime())
+        .sort(([a], [b]) => a - b)
+        .map(([day, equity]) => ({
+          timestamp: new Date(day),
+          equity,
+          profit_loss: equity - this.initialCash,
+        }));
+    });
+  }
+
+  getPositions(): Promise<BrokerPosition[]> {
+    return this.withState(async () => {
+      await this.matchRestingOrders();
+      return this.markPositions();
+    });
+  }
+
+  async getPosition(symbol: string): Promise<BrokerPosition | null> {
+    const positions = await this.getPositions();
+    return positions.find((position) => position.symbol === symbol) ?? null;
+  }
+
+  closePosition(symbol: string): Promise<BrokerOrder> {
+    return this.withState(async () => {
+      await this.matchRestingOrders();
+      const holding = this.holdings.get(symbol);
+      if (!holding) {
+        throw new Error(`Failed to close position for ${symbol}: position does not exist`);
+      }
+      return this.submit({ symbol, qty: holding.qty, side: "sell", type: "market" });
+    });
+  }
+
+  private newOrder(
+    request: Pick<BrokerOrderRequest, "symbol" | "qty" | "side" | "type" | "limit_price" | "stop_price">,
+    fields: Partial<SimulatedOrder>
+  ): SimulatedOrder {
+    const order: SimulatedOrder = {
+      id: randomUUID(),
+      symbol: request.symbol,
+      qty: request.qty,
+      side: request.side,
+      type: request.type,
+      time_in_force: "gtc",
+      status: "new",
+      limit_price: request.limit_price,
+      stop_price: request.stop_price,
+      checkFrom: this.now().getTime(),
+      ...fields,
+    };
+    this.orders.push(order);
+    return order;
+  }
+
+  // Take-profit limit and stop-loss (stop or stop-limit) exits for the given side
+  private exitLegs(
+    request: BrokerOrderRequest,
+    side: "buy" | "sell",
+    fields: Partial<SimulatedOrder>
+  ): SimulatedOrder[] {
+    const legs: SimulatedOrder[] = [];
+    if (request.take_profit) {
+      legs.push(this.newOrder(
+        { symbol: request.symbol, qty: request.qty, side, type: "limit", limit_price: request.take_profit.limit_price },
+        fields
+      ));
+    }
+    if (request.stop_loss) {
+      const { stop_price, limit_price } = request.stop_loss;
+      legs.push(this.newOrder(
+        { symbol: request.symbol, qty: request.qty, side, type: limit_price ? "stop_limit" : "stop", stop_price, limit_price },
+        fields
+      ));
+    }
+    if (legs.length === 2) {
+      legs[0].siblingId = legs[1].id;
+      legs[1].siblingId = legs[0].id;
+    }
+    return legs;
+  }
+
+  placeOrder(orderRequest: BrokerOrderRequest): Promise<BrokerOrder> {
+    return this.withState(() => this.submit(orderRequest));
+  }
+
+  private async submit(orderRequest: BrokerOrderRequest): Promise<BrokerOrder> {
+    if (!(orderRequest.qty > 0)) {
+      throw new Error("Failed to place order: qty must be greater than 0");
+    }
+    const problem = orderRequestProblem(orderRequest);
+    if (problem) {
+      throw new Error(`Failed to place order: ${problem}`);
+    }
+    await this.matchRestingOrders();
+
+    const bar = await this.latestBar(orderRequest.symbol);
+    const now = this.now();
+    const orderClass = orderRequest.order_class ?? "simple";
+    const time_in_force = orderRequest.time_in_force || "gtc";
+
+    let order: SimulatedOrder;
+    let working: SimulatedOrder[];
+    if (orderClass === "oco") {
+      // The take-profit limit is the parent and the stop-loss its leg, as at Alpaca
+      const [takeProfit, stopLoss] = this.exitLegs(orderRequest, orderRequest.side, { time_in_force, order_class: "oco" });
+      stopLoss.parentId = takeProfit.id;
+      order = takeProfit;
+      working = [stopLoss, takeProfit];
+    } else {
+      order = this.newOrder(orderRequest, {
+        time_in_force,
+        order_class: orderClass,
+        trail_price: orderRequest.trail_price,
+        trail_percent: orderRequest.trail_percent,
+      });
+      const exitSide = orderRequest.side === "buy" ? "sell" : "buy";
+      this.exitLegs(orderRequest, exitSide, { time_in_force, status: "held", parentId: order.id });
+      working = [order];
+    }
+
+    for (const candidate of working) {
+      if (candidate.status === "new" && this.marketableAt(candidate, bar.close)) {
+        this.fill(candidate, bar.close, bar, now);
+      }
+    }
+    return this.toOrder(order);
+  }
+
+  private toOrder(order: SimulatedOrder): BrokerOrder {
+    const legs = this.orders.filter((leg) => leg.parentId === order.id);
+    return {
+      id: order.id,
+      symbol: order.symbol,
+      qty: order.qty,
+      side: order.side,
+      type: order.type,
+      time_in_force: order.time_in_force,
+      status: order.status,
+      order_class: order.order_class,
+      limit_price: order.limit_price,
+      stop_price: order.stop_price,
+      trail_price: order.trail_price,
+      trail_percent: order.trail_percent,
+      filled_at: order.filled_at,
+      filled_qty: order.filled_qty,
+      filled_avg_price: order.filled_avg_price,
+      ...(legs.length > 0 && { legs: legs.map((leg) => this.toOrder(leg)) }),
+    };
+  }
+
+  // Legs are listed under their parent, which counts as open while any leg is
+  getOrders(status: BrokerOrderStatus = "open"): Promise<BrokerOrder[]> {
+    return this.withState(async () => {
+      await this.matchRestingOrders();
+      return this.orders
+        .filter((order) => !order.parentId)
+        .filter((order) => {
+          if (status === "all") return true;
+          const group = [order, ...this.orders.filter((leg) => leg.parentId === order.id)];
+          const open = group.some((member) => !CLOSED_STATUSES.has(member.status));
+          return status === "open" ? open : !open;
+        })
+        .map((order) => this.toOrder(order));
+    });
+  }
+
+  getOrder(orderId: string): Promise<BrokerOrder> {
+    return this.withState(async () => {
+      await this.matchRestingOrders();
+      const order = this.orders.find((candidate) => candidate.id === orderId);
+      if (!order) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      return this.toOrder(order);
+    });
+  }
+
+  // Canceling any order of a bracket or oco cancels the open rest of it
+  cancelOrder(orderId: string): Promise<void> {
+    return this.withState(async () => {
+      await this.matchRestingOrders();
+      const order = this.orders.find((candidate) => candidate.id === orderId);
+      if (!order) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      if (CLOSED_STATUSES.has(order.status)) {
+        throw new Error(`Order ${orderId} is already ${order.status}`);
+      }
+      const rootId = order.parentId ?? order.id;
+      for (const member of this.orders) {
+        if ((member.id === rootId || member.parentId === rootId) && !CLOSED_STATUSES.has(member.status)) {
+          member.status = "canceled";
+        }
+      }
+    });
+  }
+
+  async getBars(symbol: string, timeframe: string, limit: number): Promise<AlpacaBar[]> {
+    const bars = await this.latestBars(symbol, limit, normalizeTimeframe(timeframe));
+    return bars.map((bar) => ({
+      t: bar.timestamp.toISOString(),
+      o: bar.open,
+      h: bar.high,
+      l: bar.low,
+      c: bar.close,
+      v: bar.volume,
+      symbol,
+    }));
+  }
+
+  async getHistoricalBars(symbol: string, start: Date, end: Date, timeframe: string = "1Day"): Promise<MarketBar[]> {
+    return this.closedBars(symbol, start, end, normalizeTimeframe(timeframe));
+  }
+
+  async getMarketData(symbols: string[]): Promise<BrokerMarketData[]> {
+    const data: BrokerMarketData[] = [];
+    for (const symbol of symbols) {
+      const bars = await this.latestBars(symbol, 2);
+      const bar = bars[bars.length - 1];
+      if (!bar) {
+        throw new Error(`No market data available for ${symbol}`);
+      }
+      const previous = bars[bars.length - 2] ?? bar;
+      const change = bar.close - previous.close;
+      data.push({
+        symbol,
+        price: bar.close,
+        volume: bar.volume,
+        change,
+        changePercent: (change / previous.close) * 100,
+        high: bar.high,
+        low: bar.low,
+        open: bar.open,
+        previousClose: previous.close,
+        timestamp: bar.timestamp,
+      });
+    }
+    return data;
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number> {
+    return (await this.latestBar(symbol)).close;
+  }
+
+  async getTradableAssets(): Promise<string[]> {
+    return [...this.symbols];
+  }
+
+  async getClock(): Promise<BrokerClock> {
+    const now = this.now();
+    return {
+      timestamp: now,
+      is_open: true,
+      next_open: now,
+      next_close: new Date(bucketStart(now, "1Day") + DAY_MS),
+    };
+  }
+}
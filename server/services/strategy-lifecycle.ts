@@ -0,0 +1,92 @@
+import type { BacktestRun, Position, Strategy } from "@shared/schema";
+import {
+  canApplyStrategyAction,
+  type StrategyAction,
+  type StrategyBacktestSummary,
+  type StrategyPnL,
+  type StrategyStatus,
+  type StrategySummary,
+} from "@shared/strategies";
+
+export class StrategyTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StrategyTransitionError";
+  }
+}
+
+/**
+ * Status a lifecycle action moves a strategy to. Activating arms the
+ * strategy for the execution loop; a paused strategy that still holds a
+ * position goes back to active instead, so it is not entered twice.
+ */
+export function nextStrategyStatus(
+  strategy: Pick<Strategy, "status">,
+  action: StrategyAction,
+  hasOpenPosition: boolean
+): StrategyStatus {
+  if (!canApplyStrategyAction(strategy.status, action)) {
+    throw new StrategyTransitionError(`Cannot ${action} a ${strategy.status} strategy`);
+  }
+  switch (action) {
+    case "activate":
+      return hasOpenPosition ? "active" : "staged";
+    case "pause":
+      return "paused";
+    case "retire":
+      return "retired";
+  }
+}
+
+function finiteOrNull(value: unknown): number | null {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+}
+
+export function backtestSummary(
+  strategy: Pick<Strategy, "backtestResults">,
+  latestRun?: Pick<BacktestRun, "id" | "source" | "metrics" | "createdAt">
+): StrategyBacktestSummary | null {
+  const metrics = (latestRun?.metrics ?? strategy.backtestResults) as Record<string, unknown> | null;
+  if (!metrics) return null;
+  return {
+    runId: latestRun?.id ?? null,
+    source: latestRun?.source ?? "ai_validation",
+    totalReturn: finiteOrNull(metrics.totalReturn),
+    sharpeRatio: finiteOrNull(metrics.sharpeRatio),
+    maxDrawdown: finiteOrNull(metrics.maxDrawdown),
+    winRate: finiteOrNull(metrics.winRate),
+    totalTrades: finiteOrNull(metrics.totalTrades),
+    createdAt: latestRun?.createdAt ?? null,
+  };
+}
+
+// Realized P&L of every position the strategy opened plus unrealized P&L of the open ones
+export function strategyPnL(positions: Position[]): StrategyPnL {
+  let realized = 0;
+  let unrealized = 0;
+  let openPositions = 0;
+  for (const position of positions) {
+    realized += finiteOrNull(position.realizedPnL) ?? 0;
+    if (position.isOpen) {
+      unrealized += finiteOrNull(position.unrealizedPnL) ?? 0;
+      openPositions++;
+    }
+  }
+  return { realized, unrealized, total: realized + unrealized, openPositions };
+}
+
+export function summarizeStrategies(
+  strategies: Strategy[],
+  latestRuns: Pick<BacktestRun, "id" | "strategyId" | "source" | "metrics" | "createdAt">[],
+  positions: Position[]
+): StrategySummary[] {
+  return strategies.map((strategy) => ({
+    ...strategy,
+    backtest: backtestSummary(
+      strategy,
+      latestRuns.find((run) => run.strategyId === strategy.id)
+    ),
+    pnl: strategyPnL(positions.filter((position) => position.strategyId === strategy.id)),
+  }));
+}
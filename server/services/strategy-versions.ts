@@ -0,0 +1,440 @@
+import type {
+  BacktestRun,
+  InsertStrategy,
+  InsertStrategyVersion,
+  Strategy,
+  StrategyVersion,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { formatRuleValidationErrors, validateRules } from "./rule-validator";
+import type { EvaluatedStrategy } from "./evaluator-context";
+import { DEFAULT_TIMEFRAME } from "./timeframe";
+
+export type StrategyVersionAuthorType = "ai" | "user";
+
+// Who made an edit: the prompt version for AI edits, the username for users
+export interface StrategyVersionAuthor {
+  type: StrategyVersionAuthorType;
+  name: string;
+}
+
+// Strategy fields captured by every version
+export const VERSIONED_FIELDS = [
+  "name",
+  "entryRules",
+  "exitRules",
+  "timeframe",
+  "riskParameters",
+] as const;
+
+export type VersionedField = (typeof VERSIONED_FIELDS)[number];
+
+// Any value a jsonb column accepts
+type JsonValue = InsertStrategyVersion["diff"];
+
+export interface StrategyDefinition {
+  name: string;
+  entryRules: string;
+  exitRules: string;
+  timeframe: string;
+  riskParameters: JsonValue | null;
+}
+
+// A stored version or strategy row, whose jsonb columns read back untyped
+type DefinitionSource = Pick<StrategyVersion, VersionedField>;
+
+export type StrategyVersionChange = {
+  field: VersionedField;
+  from: JsonValue | null;
+  to: JsonValue | null;
+};
+
+export interface StrategyVersionDiff {
+  from: { id: string; version: number };
+  to: { id: string; version: number };
+  changes: StrategyVersionChange[];
+}
+
+export interface CreateVersionOptions {
+  author: StrategyVersionAuthor;
+  reason: string;
+  // Version the edit starts from; the live version when omitted
+  baseVersion?: number;
+  backtestRunId?: string | null;
+  // Point live execution at the new version
+  pin?: boolean;
+}
+
+export interface ForkOptions {
+  author: StrategyVersionAuthor;
+  reason?: string;
+  name?: string;
+  symbol?: string;
+}
+
+// The subset of storage versioning needs, so it can run against memory in tests
+export interface StrategyVersionRepository {
+  getStrategy(id: string): Promise<Strategy | undefined>;
+  createStrategy(strategy: InsertStrategy): Promise<Strategy>;
+  updateStrategy(id: string, updates: Partial<Strategy>): Promise<Strategy>;
+  getStrategyVersions(strategyId: string): Promise<StrategyVersion[]>;
+  getStrategyVersion(strategyId: string, version: number): Promise<StrategyVersion | undefined>;
+  getStrategyVersionById(id: string): Promise<StrategyVersion | undefined>;
+  createStrategyVersion(version: InsertStrategyVersion): Promise<StrategyVersion>;
+  updateStrategyVersion(id: string, updates: Partial<StrategyVersion>): Promise<StrategyVersion>;
+  deleteStrategyVersion(id: string): Promise<void>;
+  getBacktestRun(id: string): Promise<BacktestRun | undefined>;
+}
+
+export class StrategyVersionError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = "StrategyVersionError";
+  }
+}
+
+export function definitionOf(source: DefinitionSource): StrategyDefinition {
+  return {
+    name: source.name,
+    entryRules: source.entryRules,
+    exitRules: source.exitRules,
+    timeframe: source.timeframe || DEFAULT_TIMEFRAME,
+    riskParameters: (source.riskParameters ?? null) as JsonValue | null,
+  };
+}
+
+// Key order must not count as a change in risk parameters
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function diffStrategyDefinitions(
+  from: DefinitionSource,
+  to: DefinitionSource
+): StrategyVersionChange[] {
+  const before = definitionOf(from);
+  const after = definitionOf(to);
+  return VERSIONED_FIELDS.filter(
+    (field) => canonical(before[field]) !== canonical(after[field])
+  ).map((field) => ({ field, from: before[field], to: after[field] }));
+}
+
+// Author recorded for versions created by the AI pipeline
+export function aiAuthor(strategy: Pick<Strategy, "aiMetadata">): StrategyVersionAuthor {
+  const metadata = strategy.aiMetadata as { promptVersion?: string } | null;
+  return { type: "ai", name: metadata?.promptVersion ?? "unknown" };
+}
+
+// What live execution evaluates: the strategy's symbol with a version's rules
+export function executionTarget(
+  strategy: Pick<Strategy, "id" | "symbol">,
+  version: StrategyVersion
+): EvaluatedStrategy {
+  return {
+    id: strategy.id,
+    symbol: strategy.symbol,
+    entryRules: version.entryRules,
+    exitRules: version.exitRules,
+    timeframe: version.timeframe,
+    versionId: version.id,
+  };
+}
+
+/**
+ * Strategy edits as numbered, immutable versions. Each version records its
+ * changes from the version it was based on, who made it and why, and the
+ * backtest run that justified it. Live execution reads the pinned version
+ * (strategies.versionId); pinning also mirrors its fields onto the strategy
+ * row so existing readers of the rules keep working.
+ */
+export class StrategyVersionService {
+  constructor(private repository: StrategyVersionRepository) {}
+
+  async listVersions(strategyId: string): Promise<StrategyVersion[]> {
+    await this.requireStrategy(strategyId);
+    return await this.repository.getStrategyVersions(strategyId);
+  }
+
+  async getVersion(strategyId: string, version: number): Promise<StrategyVersion> {
+    const row = await this.repository.getStrategyVersion(strategyId, version);
+    if (!row) {
+      throw new StrategyVersionError(`Version ${version} not found`, 404);
+    }
+    return row;
+  }
+
+  /**
+   * The pinned version, for readers that must not write: null for
+   * strategies from before versioning that were never activated or pinned.
+   */
+  async pinnedVersion(strategy: Pick<Strategy, "versionId">): Promise<StrategyVersion | null> {
+    if (!strategy.versionId) return null;
+    return (await this.repository.getStrategyVersionById(strategy.versionId)) ?? null;
+  }
+
+  /**
+   * The version live execution runs. Strategies from before versioning get
+   * their current rules recorded as version 1 on first use.
+   */
+  async liveVersion(strategy: Strategy): Promise<StrategyVersion> {
+    if (strategy.versionId) {
+      const pinned = await this.repository.getStrategyVersionById(strategy.versionId);
+      if (pinned) return pinned;
+    }
+
+    const [latest] = await this.repository.getStrategyVersions(strategy.id);
+    const version =
+      latest ??
+      (await this.repository.createStrategyVersion({
+        strategyId: strategy.id,
+        version: 1,
+        ...definitionOf(strategy),
+        authorType: strategy.correlationId ? "ai" : "user",
+        author: strategy.correlationId ? aiAuthor(strategy).name : "unknown",
+        reason: "Recorded existing rules",
+        diff: [],
+        parentVersionId: null,
+        backtestRunId: null,
+      }));
+    await this.pin(strategy.id, version);
+    return version;
+  }
+
+  // Version 1 of a strategy that was just created, pinned for execution
+  async createInitialVersion(
+    strategy: Strategy,
+    author: StrategyVersionAuthor,
+    reason: string,
+    parent: StrategyVersion | null = null
+  ): Promise<{ strategy: Strategy; version: StrategyVersion }> {
+    const definition = definitionOf(strategy);
+    const version = await this.repository.createStrategyVersion({
+      strategyId: strategy.id,
+      version: 1,
+      ...definition,
+      authorType: author.type,
+      author: author.name,
+      reason,
+      diff: parent ? diffStrategyDefinitions(parent, definition) : [],
+      parentVersionId: parent?.id ?? null,
+      backtestRunId: null,
+    });
+    return { strategy: await this.pin(strategy.id, version), version };
+  }
+
+  async createVersion(
+    strategyId: string,
+    changes: Partial<StrategyDefinition>,
+    options: CreateVersionOptions
+  ): Promise<{ strategy: Strategy; version: StrategyVersion }> {
+    const strategy = await this.requireStrategy(strategyId);
+    const base =
+      options.baseVersion !== undefined
+        ? await this.getVersion(strategyId, options.baseVersion)
+        : await this.liveVersion(strategy);
+
+    const definition = definitionOf(base);
+    for (const field of VERSIONED_FIELDS) {
+      if (changes[field] !== undefined) {
+        Object.assign(definition, { [field]: changes[field] });
+      }
+    }
+    const diff = diffStrategyDefinitions(base, definition);
+    if (diff.length === 0) {
+      throw new StrategyVersionError(`No changes from version ${base.version}`, 409);
+    }
+    this.assertValidRules(definition);
+    if (options.backtestRunId) {
+      await this.requireRun(strategyId, options.backtestRunId);
+    }
+
+    const version = await this.repository.createStrategyVersion({
+      strategyId,
+      version: await this.nextVersionNumber(strategyId),
+      ...definition,
+      authorType: options.author.type,
+      author: options.author.name,
+      reason: options.reason,
+      diff,
+      parentVersionId: base.id,
+      backtestRunId: options.backtestRunId ?? null,
+    });
+
+    return {
+      strategy: options.pin === false ? strategy : await this.pin(strategyId, version),
+      version,
+    };
+  }
+
+  // Only the reason and the linked backtest run can change after the fact
+  async updateVersion(
+    strategyId: string,
+    version: number,
+    updates: { reason?: string; backtestRunId?: string | null }
+  ): Promise<StrategyVersion> {
+    const row = await this.getVersion(strategyId, version);
+    if (updates.backtestRunId) {
+      await this.requireRun(strategyId, updates.backtestRunId);
+    }
+    return await this.repository.updateStrategyVersion(row.id, updates);
+  }
+
+  async deleteVersion(strategyId: string, version: number): Promise<void> {
+    const strategy = await this.requireStrategy(strategyId);
+    const row = await this.getVersion(strategyId, version);
+    if (strategy.versionId === row.id) {
+      throw new StrategyVersionError(
+        `Version ${version} is live; pin another version before deleting it`,
+        409
+      );
+    }
+    await this.repository.deleteStrategyVersion(row.id);
+  }
+
+  async pinVersion(strategyId: string, version: number): Promise<Strategy> {
+    await this.requireStrategy(strategyId);
+    return await this.pin(strategyId, await this.getVersion(strategyId, version));
+  }
+
+  /**
+   * Restore an older version by adding a copy of it as the newest version
+   * and pinning that, so the history never loses the versions in between.
+   */
+  async rollback(
+    strategyId: string,
+    version: number,
+    author: StrategyVersionAuthor,
+    reason?: string
+  ): Promise<{ strategy: Strategy; version: StrategyVersion }> {
+    const strategy = await this.requireStrategy(strategyId);
+    const target = await this.getVersion(strategyId, version);
+    const live = await this.liveVersion(strategy);
+    if (live.id === target.id) {
+      throw new StrategyVersionError(`Version ${version} is already live`, 409);
+    }
+
+    const restored = await this.repository.createStrategyVersion({
+      strategyId,
+      version: await this.nextVersionNumber(strategyId),
+      ...definitionOf(target),
+      authorType: author.type,
+      author: author.name,
+      reason: reason ?? `Rollback to version ${target.version}`,
+      // Changes against the version it replaces as live
+      diff: diffStrategyDefinitions(live, target),
+      parentVersionId: target.id,
+      // Same rules, so the target's backtest still describes them
+      backtestRunId: target.backtestRunId,
+    });
+    return { strategy: await this.pin(strategyId, restored), version: restored };
+  }
+
+  /**
+   * Copy a version into a new draft strategy whose version 1 points back at
+   * the source version. Drafts are not picked up by live execution.
+   */
+  async fork(
+    strategyId: string,
+    version: number,
+    options: ForkOptions
+  ): Promise<{ strategy: Strategy; version: StrategyVersion }> {
+    const source = await this.requireStrategy(strategyId);
+    const sourceVersion = await this.getVersion(strategyId, version);
+    const definition = definitionOf({
+      ...definitionOf(sourceVersion),
+      name: options.name ?? `${sourceVersion.name} (fork)`,
+    });
+
+    const forked = await this.repository.createStrategy({
+      ...definition,
+      symbol: options.symbol ?? source.symbol,
+      confidence: source.confidence,
+      status: "draft",
+      // Kept so the fork still leads back to the AI decisions behind it
+      correlationId: source.correlationId,
+      aiMetadata: source.aiMetadata as JsonValue,
+    });
+    return await this.createInitialVersion(
+      forked,
+      options.author,
+      options.reason ?? `Forked from ${source.name} version ${sourceVersion.version}`,
+      sourceVersion
+    );
+  }
+
+  // Changes from `against` (by default the nearest earlier version) to `version`
+  async diffVersions(
+    strategyId: string,
+    version: number,
+    against?: number
+  ): Promise<StrategyVersionDiff> {
+    const to = await this.getVersion(strategyId, version);
+    let from: StrategyVersion | undefined;
+    if (against !== undefined) {
+      from = await this.getVersion(strategyId, against);
+    } else {
+      const versions = await this.repository.getStrategyVersions(strategyId);
+      from = versions.find((row) => row.version < version);
+      if (!from) {
+        throw new StrategyVersionError(`Version ${version} has no earlier version`);
+      }
+    }
+    return {
+      from: { id: from.id, version: from.version },
+      to: { id: to.id, version: to.version },
+      changes: diffStrategyDefinitions(from, to),
+    };
+  }
+
+  private async pin(strategyId: string, version: StrategyVersion): Promise<Strategy> {
+    return await this.repository.updateStrategy(strategyId, {
+      ...definitionOf(version),
+      versionId: version.id,
+    });
+  }
+
+  private async nextVersionNumber(strategyId: string): Promise<number> {
+    const [latest] = await this.repository.getStrategyVersions(strategyId);
+    return (latest?.version ?? 0) + 1;
+  }
+
+  private async requireStrategy(strategyId: string): Promise<Strategy> {
+    const strategy = await this.repository.getStrategy(strategyId);
+    if (!strategy) {
+      throw new StrategyVersionError("Strategy not found", 404);
+    }
+    return strategy;
+  }
+
+  private async requireRun(strategyId: string, runId: string): Promise<BacktestRun> {
+    const run = await this.repository.getBacktestRun(runId);
+    if (!run) {
+      throw new StrategyVersionError("Backtest run not found", 404);
+    }
+    if (run.strategyId && run.strategyId !== strategyId) {
+      throw new StrategyVersionError("Backtest run belongs to another strategy");
+    }
+    return run;
+  }
+
+  private assertValidRules(definition: StrategyDefinition): void {
+    const validation = validateRules(definition.entryRules, definition.exitRules);
+    if (!validation.valid) {
+      throw new StrategyVersionError(
+        `Invalid rules:\n${formatRuleValidationErrors(validation)}`
+      );
+    }
+  }
+}
+
+export const strategyVersions = new StrategyVersionService(storage);
@@ -1,4 +1,4 @@
-import { getCurrentPrice, type HistoricalBar } from "./alpaca";
+import type { HistoricalBar } from "./alpaca";
 
 async function evaluateSimpleEntry(bar: HistoricalBar): Promise<boolean> {
   // Simple moving average crossover strategy
@@ -0,0 +1,112 @@
+import { BARS_PER_YEAR, TIMEFRAMES, type Timeframe } from "@shared/backtest";
+import type { MarketBar } from "./evaluator";
+
+export const DEFAULT_TIMEFRAME: Timeframe = "1Day";
+
+export const TIMEFRAME_MS: Record<string, number> = {
+  "1Min": 60 * 1000,
+  "5Min": 5 * 60 * 1000,
+  "15Min": 15 * 60 * 1000,
+  "1Hour": 60 * 60 * 1000,
+  "1Day": 24 * 60 * 60 * 1000,
+};
+
+// A bar counts as closed this long after its bucket ends, giving the data
+// feed time to publish the last trades of the bucket
+export const BAR_CLOSE_DELAY_MS = 5000;
+
+// Regular session is 6.5 of 24 hours, 5 of 7 days
+const INTRADAY_CALENDAR_FACTOR = (24 / 6.5) * (7 / 5);
+const DAILY_CALENDAR_FACTOR = 7 / 5;
+const LOOKBACK_PADDING_DAYS = 5;
+
+export function isTimeframe(value: unknown): value is Timeframe {
+  return (TIMEFRAMES as readonly unknown[]).includes(value);
+}
+
+export function timeframeMs(timeframe: string): number {
+  const ms = TIMEFRAME_MS[timeframe];
+  if (!ms) {
+    throw new Error(`Unsupported timeframe: ${timeframe}`);
+  }
+  return ms;
+}
+
+// Annualization factor for per-bar returns
+export function periodsPerYear(timeframe: string): number {
+  return isTimeframe(timeframe) ? BARS_PER_YEAR[timeframe] : BARS_PER_YEAR[DEFAULT_TIMEFRAME];
+}
+
+/**
+ * Start of the bucket a timestamp falls into. Buckets are aligned to UTC,
+ * so a daily bucket is the UTC day and closes after the US session ends.
+ */
+export function bucketStart(timestamp: Date | string, timeframe: string): number {
+  const ms = timeframeMs(timeframe);
+  return Math.floor(new Date(timestamp).getTime() / ms) * ms;
+}
+
+export function bucketEnd(timestamp: Date | string, timeframe: string): number {
+  return bucketStart(timestamp, timeframe) + timeframeMs(timeframe);
+}
+
+// Start of the newest bucket that has closed by `now`
+export function lastClosedBucketStart(
+  now: Date,
+  timeframe: string,
+  delayMs: number = BAR_CLOSE_DELAY_MS
+): number {
+  return bucketStart(new Date(now.getTime() - delayMs), timeframe) - timeframeMs(timeframe);
+}
+
+// Live bars are fetched at this timeframe and aggregated up to the strategy's
+export function sourceTimeframe(timeframe: string): Timeframe {
+  return timeframe === "1Day" ? "1Day" : "1Min";
+}
+
+// Fold a later bar of the same bucket into an aggregate
+export function mergeBar(aggregate: MarketBar, bar: MarketBar): MarketBar {
+  return {
+    timestamp: aggregate.timestamp,
+    open: aggregate.open,
+    high: Math.max(aggregate.high, bar.high),
+    low: Math.min(aggregate.low, bar.low),
+    close: bar.close,
+    volume: aggregate.volume + bar.volume,
+  };
+}
+
+/**
+ * Aggregate bars of a finer timeframe into `timeframe` buckets, each stamped
+ * with its bucket start. The last bucket may still be forming.
+ */
+export function aggregateBars(bars: MarketBar[], timeframe: string): MarketBar[] {
+  const ordered = [...bars].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const aggregated: MarketBar[] = [];
+  let currentBucket: number | null = null;
+  for (const bar of ordered) {
+    const bucket = bucketStart(bar.timestamp, timeframe);
+    if (bucket === currentBucket) {
+      aggregated[aggregated.length - 1] = mergeBar(aggregated[aggregated.length - 1], bar);
+    } else {
+      aggregated.push({ ...bar, timestamp: new Date(bucket) });
+      currentBucket = bucket;
+    }
+  }
+  return aggregated;
+}
+
+/**
+ * Calendar start date that should cover `bars` trading bars of the given
+ * timeframe, allowing for nights, weekends and holidays.
+ */
+export function lookbackStart(end: Date, timeframe: string, bars: number): Date {
+  const factor =
+    timeframe === "1Day" ? DAILY_CALENDAR_FACTOR : INTRADAY_CALENDAR_FACTOR;
+  const span =
+    bars * timeframeMs(timeframe) * factor +
+    LOOKBACK_PADDING_DAYS * TIMEFRAME_MS["1Day"];
+  return new Date(end.getTime() - span);
+}
@@ -1,8 +1,58 @@
 import { storage } from "../storage";
-import { alpacaService } from "./alpaca";
-import { strategyEvaluator, MarketBar } from "./evaluator";
+import type { Order, Strategy } from "@shared/schema";
+import { broker } from "./broker";
+import { MarketBar } from "./evaluator";
+import { evaluatorContexts, type EvaluatedStrategy } from "./evaluator-context";
 import { metricsCollector } from "./metrics";
-import { transactionService, type TradeExecutionData, type PositionUpdateData } from "./transaction";
+import { orderLifecycle } from "./order-lifecycle";
+import {
+  runBacktest,
+  runPortfolioBacktest,
+  type BacktestResult,
+  type BenchmarkBars,
+  type PortfolioBacktestResult,
+  type PortfolioBacktestStrategy,
+  type PositionSizing,
+} from "./backtest";
+import type { FillModel } from "./fill-model";
+import {
+  OPEN_ORDER_STATUSES,
+  type OrderClass,
+  type OrderType,
+  type TimeInForce,
+} from "./order-types";
+import {
+  DEFAULT_BACKTEST_DAYS,
+  ruleSourceToString,
+  type BacktestRequest,
+} from "@shared/backtest";
+import { barStore, type DatasetInfo } from "./bar-store";
+import { toBacktestRunRow, type BacktestRunLineage } from "./backtest-runs";
+import { DEFAULT_TIMEFRAME, lookbackStart, periodsPerYear } from "./timeframe";
+import {
+  runMonteCarlo,
+  type MonteCarloOptions,
+  type MonteCarloResult,
+} from "./monte-carlo";
+import {
+  DEFAULT_BENCHMARK_SYMBOL,
+  summarizePerformance,
+  toRiskMetricRow,
+  type PerformanceSummary,
+} from "./performance-metrics";
+import {
+  runParameterSweep,
+  type SweepRequest,
+  type SweepResult,
+} from "./optimization";
+import {
+  requiredBars,
+  runWalkForward,
+  type ValidatedStrategyInput,
+  type ValidationProfile,
+  type ValidationResult,
+} from "./walk-forward";
+import { validateRules } from "./rule-validator";
 import { v4 as uuidv4 } from "uuid";
 
 export interface MarketData {
@@ -17,47 +67,35 @@ export interface MarketData {
   previousClose: number;
 }
 
+export type {
+  BacktestResult,
+  BacktestTrade,
+  PortfolioBacktestResult,
+  PositionSizing,
+} from "./backtest";
+
 export interface OrderRequest {
   symbol: string;
   quantity: number;
   side: "buy" | "sell";
-  type: "market" | "limit";
+  type: OrderType;
+  // Limit price of limit and stop_limit orders
   price?: number;
+  stopPrice?: number;
+  // Trailing stops trail by a dollar amount or a percentage
+  trailPrice?: number;
+  trailPercent?: number;
+  timeInForce?: TimeInForce;
+  orderClass?: OrderClass;
+  takeProfit?: { limitPrice: number };
+  stopLoss?: { stopPrice: number; limitPrice?: number };
   correlationId?: string;
+  // Strategy whose rules placed the order; recorded on the position it opens
+  strategyId?: string;
   strategyName?: string;
   aiReasoning?: string;
 }
 
-export interface BacktestResult {
-  totalReturn: number;
-  sharpeRatio: number;
-  maxDrawdown: number;
-  winRate: number;
-  totalTrades: number;
-  profitableTrades: number;
-  averageReturn: number;
-}
-
-interface Position {
-  symbol: string;
-  quantity: number;
-  entryPrice: number;
-  entryDate: Date;
-  currentPrice?: number;
-  exitPrice?: number;
-  exitDate?: Date;
-  pnl?: number;
-}
-
-interface HistoricalBar {
-  timestamp: Date;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
-
 interface RiskParameters {
   riskPerTrade: number;
   stopLossPercent: number;
@@ -75,131 +113,8 @@ interface SystemHealthMetrics {
   [key: string]: any;
 }
 
-class PortfolioSimulation {
-  private initialCash: number;
-  private cash: number;
-  private positions: Position[] = [];
-  private closedPositions: Position[] = [];
-  private portfolioValues: number[] = [];
-  private dates: Date[] = [];
-
-  constructor(initialCash: number) {
-    this.initialCash = initialCash;
-    this.cash = initialCash;
-  }
-
-  enterPosition(symbol: string, quantity: number, price: number, date: Date) {
-    const cost = quantity * price;
-    if (this.cash >= cost) {
-      this.cash -= cost;
-      this.positions.push({
-        symbol,
-        quantity,
-        entryPrice: price,
-        entryDate: date,
-      });
-    }
-  }
-
-  exitPosition(symbol: string, price: number, date: Date) {
-    const positionIndex = this.positions.findIndex((p) => p.symbol === symbol);
-    if (positionIndex >= 0) {
-      const position = this.positions[positionIndex];
-      const proceeds = position.quantity * price;
-      const pnl = proceeds - position.quantity * position.entryPrice;
-
-      position.exitPrice = price;
-      position.exitDate = date;
-      position.pnl = pnl;
-
-      this.cash += proceeds;
-      this.closedPositions.push(position);
-      this.positions.splice(positionIndex, 1);
-    }
-  }
-
-  getPositions(): Position[] {
-    return this.positions;
-  }
-
-  getCash(): number {
-    return this.cash;
-  }
-
-  getPortfolioValue(currentPrices: { [symbol: string]: number } = {}): number {
-    let totalValue = this.cash;
-    for (const position of this.positions) {
-      const currentPrice =
-        currentPrices[position.symbol] || position.entryPrice;
-      totalValue += position.quantity * currentPrice;
-    }
-    return totalValue;
-  }
-
-  recordPortfolioValue(
-    date: Date,
-    currentPrices: { [symbol: string]: number } = {}
-  ) {
-    const value = this.getPortfolioValue(currentPrices);
-    this.portfolioValues.push(value);
-    this.dates.push(date);
-  }
-
-  calculatePerformanceMetrics(): BacktestResult {
-    const finalValue = this.getPortfolioValue();
-    const totalReturn = (finalValue - this.initialCash) / this.initialCash;
-
-    // Calculate returns for Sharpe ratio
-    const returns: number[] = [];
-    for (let i = 1; i < this.portfolioValues.length; i++) {
-      const dailyReturn =
-        (this.portfolioValues[i] - this.portfolioValues[i - 1]) /
-        this.portfolioValues[i - 1];
-      returns.push(dailyReturn);
-    }
-
-    // Sharpe ratio (annualized, assuming daily returns)
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const stdDev = Math.sqrt(
-      returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) /
-        returns.length
-    );
-    const sharpeRatio = stdDev > 0 ? (avgReturn / stdDev) * Math.sqrt(252) : 0;
-
-    // Max drawdown
-    let maxDrawdown = 0;
-    let peak = this.initialCash;
-    for (const value of this.portfolioValues) {
-      if (value > peak) peak = value;
-      const drawdown = (peak - value) / peak;
-      if (drawdown > maxDrawdown) maxDrawdown = drawdown;
-    }
-
-    // Win rate
-    const profitableTrades = this.closedPositions.filter(
-      (p) => (p.pnl || 0) > 0
-    ).length;
-    const totalTrades = this.closedPositions.length;
-    const winRate = totalTrades > 0 ? profitableTrades / totalTrades : 0;
-
-    // Average return per trade
-    const totalPnL = this.closedPositions.reduce(
-      (sum, p) => sum + (p.pnl || 0),
-      0
-    );
-    const averageReturn = totalTrades > 0 ? totalPnL / totalTrades : 0;
-
-    return {
-      totalReturn,
-      sharpeRatio,
-      maxDrawdown,
-      winRate,
-      totalTrades,
-      profitableTrades,
-      averageReturn,
-    };
-  }
-}
+// risk_metrics symbol for whole-portfolio rows
+export const PORTFOLIO_SYMBOL = "PORTFOLIO";
 
 export class TradingService {
   private totalTrades: number = 0;
@@ -207,7 +122,7 @@ export class TradingService {
 
   async getMarketData(symbols: string[]): Promise<MarketData[]> {
     try {
-      const alpacaData = await alpacaService.getMarketData(symbols);
+      const alpacaData = await broker.getMarketData(symbols);
 
       return alpacaData.map((data) => ({
         symbol: data.symbol,
@@ -225,7 +140,13 @@ export class TradingService {
     }
   }
 
-  public async executeOrder(order: OrderRequest): Promise<boolean> {
+  /**
+   * Place an order with the configured broker and start tracking it.
+   * Positions and trade executions are booked from its fills, which the
+   * order lifecycle records as the broker reports them; an order that is
+   * still working when this returns books nothing yet.
+   */
+  public async executeOrder(order: OrderRequest): Promise<Order> {
     const startTimer = metricsCollector.startPerformanceTimer('orderExecution');
     this.totalTrades++;
     const correlationId = order.correlationId || uuidv4();
@@ -236,87 +157,49 @@ export class TradingService {
     }
     
     try {
-      const expectedPrice = order.type === 'market' ? 
-        await this.getCurrentPrice(order.symbol) : 
-        order.price!;
+      const expectedPrice = order.type === 'limit' ? order.price! :
+        order.type === 'stop' || order.type === 'stop_limit' ? order.stopPrice! :
+        await this.getCurrentPrice(order.symbol);
 
-      // Execute order with Alpaca
-      const result = await alpacaService.placeOrder({
+      // Execute order with the configured broker
+      const result = await broker.placeOrder({
         symbol: order.symbol,
         qty: order.quantity,
         side: order.side,
         type: order.type,
+        ...(order.timeInForce && { time_in_force: order.timeInForce }),
         ...(order.price && { limit_price: order.price }),
+        ...(order.stopPrice && { stop_price: order.stopPrice }),
+        ...(order.trailPrice && { trail_price: order.trailPrice }),
+        ...(order.trailPercent && { trail_percent: order.trailPercent }),
+        ...(order.orderClass && { order_class: order.orderClass }),
+        ...(order.takeProfit && { take_profit: { limit_price: order.takeProfit.limitPrice } }),
+        ...(order.stopLoss && {
+          stop_loss: {
+            stop_price: order.stopLoss.stopPrice,
+            ...(order.stopLoss.limitPrice && { limit_price: order.stopLoss.limitPrice }),
+          },
+        }),
       });
-      
-      const endTime = startTimer();
-
-      if (result) {
-        this.successfulTrades++;
-        const executedPrice = result.filled_avg_price || expectedPrice;
-        const slippage = Math.abs((executedPrice - expectedPrice) / expectedPrice);
-
-        // Use transaction service for consistent database updates
-        const portfolioId = "default-portfolio"; // In production, get from user context
-        
-        // Get current position if it exists
-        const currentPositions = await storage.getOpenPositions(portfolioId);
-        const existingPosition = currentPositions.find(p => p.symbol === order.symbol);
-        
-        // Calculate new position data
-        const currentQuantity = existingPosition?.quantity || 0;
-        const currentAvgPrice = parseFloat(existingPosition?.averageEntryPrice || existingPosition?.entryPrice || "0");
-        const newQuantity = order.side === "buy" 
-          ? currentQuantity + order.quantity 
-          : currentQuantity - order.quantity;
-        
-        // Calculate new average price for buys
-        let newAvgPrice = executedPrice;
-        if (order.side === "buy" && existingPosition) {
-          const totalCost = (currentQuantity * currentAvgPrice) + (order.quantity * executedPrice);
-          newAvgPrice = totalCost / newQuantity;
-        } else if (order.side === "sell") {
-          newAvgPrice = currentAvgPrice; // Keep existing avg price for sells
-        }
-
-        const marketValue = newQuantity * executedPrice;
-        const unrealizedPnl = newQuantity * (executedPrice - newAvgPrice);
-
-        // Prepare transaction data
-        const tradeData: TradeExecutionData = {
-          symbol: order.symbol,
-          side: order.side,
-          quantity: order.quantity,
-          price: executedPrice,
-          portfolioId,
-          correlationId,
-          alpacaOrderId: result.id
-        };
 
-        const positionData: PositionUpdateData = {
-          positionId: existingPosition?.id,
-          symbol: order.symbol,
-          portfolioId,
-          quantity: newQuantity,
-          entryPrice: executedPrice,
-          averageEntryPrice: newAvgPrice,
-          marketValue,
-          unrealizedPnL: unrealizedPnl,
-          realizedPnL: order.side === "sell" ? (executedPrice - currentAvgPrice) * order.quantity : undefined
-        };
-
-        // Execute with full transaction consistency
-        await transactionService.executeTradeWithConsistency(tradeData, positionData);
+      const endTime = startTimer();
 
-        metricsCollector.updateTradingMetrics({
-          executionTime: endTime,
-          slippage,
-          successRate: (this.successfulTrades / this.totalTrades) * 100
-        });
+      const tracked = await orderLifecycle.recordSubmission(result, {
+        portfolioId: "default-portfolio", // In production, get from user context
+        correlationId,
+        strategyId: order.strategyId,
+        expectedPrice,
+      });
 
-        return true;
+      if (tracked.status !== "rejected") {
+        this.successfulTrades++;
       }
-      return false;
+      metricsCollector.updateTradingMetrics({
+        executionTime: endTime,
+        successRate: (this.successfulTrades / this.totalTrades) * 100
+      });
+
+      return tracked;
     } catch (error) {
       const endTime = startTimer();
       metricsCollector.updateTradingMetrics({
@@ -340,6 +223,42 @@ export class TradingService {
     }
   }
 
+  /**
+   * Sell what a strategy holds in its symbol at market. Its working orders,
+   * such as bracket legs, are cancelled first: they hold the shares and would
+   * sell them a second time if they filled later. Returns null when the
+   * strategy holds nothing.
+   */
+  async closeStrategyPosition(
+    strategy: Pick<Strategy, "id" | "name" | "symbol" | "correlationId">,
+    aiReasoning: string
+  ): Promise<Order | null> {
+    const positions = await storage.getPositionsByStrategyIds([strategy.id]);
+    const quantity = positions
+      .filter((position) => position.isOpen && position.symbol === strategy.symbol)
+      .reduce((sum, position) => sum + position.quantity, 0);
+    if (quantity < 1) return null;
+
+    const working = await storage.getOrders({
+      strategyId: strategy.id,
+      statuses: OPEN_ORDER_STATUSES,
+    });
+    for (const order of working) {
+      await broker.cancelOrder(order.brokerOrderId);
+    }
+
+    return this.executeOrder({
+      symbol: strategy.symbol,
+      quantity,
+      side: "sell",
+      type: "market",
+      correlationId: strategy.correlationId || undefined,
+      strategyId: strategy.id,
+      strategyName: strategy.name,
+      aiReasoning,
+    });
+  }
+
   private async getCurrentPrice(symbol: string): Promise<number> {
     const marketData = await this.getMarketData([symbol]);
     if (marketData.length === 0) {
@@ -348,27 +267,45 @@ export class TradingService {
     return marketData[0].price;
   }
 
+  /**
+   * Run a single-symbol backtest for the shared request contract. Every
+   * field is honoured: rules (DSL or structured), dates, timeframe, capital,
+   * sizing, risk parameters, fill model, benchmark and Monte Carlo options.
+   * The run is persisted to backtest_runs with its lineage.
+   */
   async backtestStrategy(
-    symbol: string,
-    entryRules: string,
-    exitRules: string,
-    startDate: Date,
-    endDate: Date
-  ): Promise<BacktestResult> {
+    request: BacktestRequest,
+    lineage: BacktestRunLineage = {}
+  ): Promise<
+    BacktestResult & {
+      runId: string;
+      dataset: DatasetInfo;
+      monteCarlo?: MonteCarloResult;
+    }
+  > {
+    const { symbol, timeframe } = request;
+    const entryRules = ruleSourceToString(request.entryRules);
+    const exitRules = ruleSourceToString(request.exitRules);
+    const endDate = request.endDate ? new Date(request.endDate) : new Date();
+    const startDate = request.startDate
+      ? new Date(request.startDate)
+      : new Date(endDate.getTime() - DEFAULT_BACKTEST_DAYS * 24 * 60 * 60 * 1000);
     try {
       await storage.createAuditLog({
         eventType: "BACKTEST_STARTED",
-        eventData: { symbol, entryRules, exitRules, startDate, endDate },
+        eventData: { symbol, entryRules, exitRules, startDate, endDate, timeframe },
         source: "trading_service",
         level: "info",
       });
 
-      // Fetch historical data from Alpaca
-      const historicalData = await alpacaService.getHistoricalBars(
+      // Served from the bar store; only missing ranges hit the broker. The
+      // bars before startDate warm up the indicators and are never traded.
+      const { warmupBars } = validateRules(entryRules, exitRules);
+      const { bars: historicalData, dataset } = await barStore.getBars(
         symbol,
-        startDate,
+        lookbackStart(startDate, timeframe, warmupBars),
         endDate,
-        "1Day"
+        timeframe
       );
 
       if (!historicalData || historicalData.length === 0) {
@@ -376,45 +313,251 @@ export class TradingService {
       }
 
       console.log(
-        `Running backtest for ${symbol} with ${historicalData.length} data points`
+        `Running backtest for ${symbol} with ${historicalData.length} ${timeframe} bars`
       );
 
-      // Create portfolio simulation
-      const portfolio = new PortfolioSimulation(100000); // Start with $100k
+      const result = runBacktest(historicalData, {
+        symbol,
+        entryRules,
+        exitRules,
+        initialCapital: request.initialCapital,
+        sizing: request.sizing,
+        riskParameters: request.riskParameters,
+        fillModel: request.fillModel,
+        warmupUntil: startDate,
+        periodsPerYear: periodsPerYear(timeframe),
+        benchmark: await this.loadBenchmark(
+          request.benchmark,
+          startDate,
+          endDate,
+          timeframe
+        ),
+      });
+      await storage.upsertRiskMetrics(toRiskMetricRow(symbol, "backtest", result));
+      const monteCarlo = request.monteCarlo
+        ? runMonteCarlo(result.trades, request.initialCapital, request.monteCarlo)
+        : undefined;
+      const run = await storage.createBacktestRun(
+        toBacktestRunRow({
+          source: "api",
+          symbol,
+          timeframe,
+          entryRules,
+          exitRules,
+          request,
+          result,
+          dataset,
+          lineage,
+        })
+      );
 
-      // Run backtest
-      for (const bar of historicalData) {
-        // Evaluate entry/exit conditions (simplified for now)
-        const shouldEnter = this.evaluateSimpleEntry(bar);
-        const shouldExit = this.evaluateSimpleExit(
-          bar,
-          portfolio.getPositions()
-        );
+      await storage.createAuditLog({
+        eventType: "BACKTEST_COMPLETED",
+        eventData: {
+          runId: run.id,
+          strategyId: lineage.strategyId,
+          symbol,
+          totalReturn: result.totalReturn,
+          totalTrades: result.totalTrades,
+          winRate: result.winRate,
+          executionCosts: result.executionCosts,
+          tailDrawdown: monteCarlo?.tailDrawdown,
+          datasetHash: dataset.hash,
+        },
+        source: "trading_service",
+        level: "info",
+      });
+
+      return monteCarlo
+        ? { ...result, runId: run.id, dataset, monteCarlo }
+        : { ...result, runId: run.id, dataset };
+    } catch (error: any) {
+      await storage.createAuditLog({
+        eventType: "BACKTEST_FAILED",
+        eventData: { symbol, error: error.message },
+        source: "trading_service",
+        level: "error",
+      });
+      throw error;
+    }
+  }
+
+  async validateStrategy(
+    strategy: ValidatedStrategyInput,
+    profile: ValidationProfile,
+    options: {
+      warmupBars?: number;
+      fillModel?: Partial<FillModel>;
+      monteCarlo?: MonteCarloOptions;
+    } = {}
+  ): Promise<ValidationResult & { dataset: DatasetInfo }> {
+    const { symbol } = strategy;
+    const timeframe = strategy.timeframe ?? DEFAULT_TIMEFRAME;
+    try {
+      const bars = requiredBars(profile) + (options.warmupBars ?? 0);
+      const endDate = new Date();
+      const startDate = lookbackStart(endDate, timeframe, bars);
 
-        if (shouldEnter && portfolio.getCash() > bar.close * 100) {
-          // Enter position (buy 100 shares)
-          portfolio.enterPosition(symbol, 100, bar.close, bar.timestamp);
-        } else if (shouldExit && portfolio.getPositions().length > 0) {
-          // Exit position
-          portfolio.exitPosition(symbol, bar.close, bar.timestamp);
+      const { bars: historicalData, dataset } = await barStore.getBars(
+        symbol,
+        startDate,
+        endDate,
+        timeframe
+      );
+      if (!historicalData || historicalData.length === 0) {
+        throw new Error(`No historical data available for ${symbol}`);
+      }
+
+      const result = runWalkForward(historicalData, strategy, profile, options);
+
+      await storage.createAuditLog({
+        eventType: "STRATEGY_VALIDATION_COMPLETED",
+        eventData: {
+          symbol,
+          timeframe,
+          profile: profile.name,
+          accepted: result.accepted,
+          failures: result.failures,
+          stability: result.stability,
+          tailDrawdown: result.monteCarlo.tailDrawdown,
+          datasetHash: dataset.hash,
+        },
+        source: "trading_service",
+        level: "info",
+      });
+
+      return { ...result, dataset };
+    } catch (error: any) {
+      await storage.createAuditLog({
+        eventType: "STRATEGY_VALIDATION_FAILED",
+        eventData: { symbol, profile: profile.name, error: error.message },
+        source: "trading_service",
+        level: "error",
+      });
+      throw error;
+    }
+  }
+
+  async backtestPortfolio(
+    strategies: PortfolioBacktestStrategy[],
+    startDate: Date,
+    endDate: Date,
+    options: {
+      initialCapital?: number;
+      sizing?: PositionSizing;
+      fillModel?: Partial<FillModel>;
+      benchmark?: string;
+      // Shared bar size of every strategy in the portfolio
+      timeframe?: string;
+    } = {}
+  ): Promise<PortfolioBacktestResult & { datasets: DatasetInfo[] }> {
+    const strategyIds = strategies.map((s) => s.id);
+    const timeframe = options.timeframe ?? DEFAULT_TIMEFRAME;
+    try {
+      await storage.createAuditLog({
+        eventType: "PORTFOLIO_BACKTEST_STARTED",
+        eventData: { strategyIds, startDate, endDate, ...options },
+        source: "trading_service",
+        level: "info",
+      });
+
+      const symbols = Array.from(new Set(strategies.map((s) => s.symbol)));
+      const barsBySymbol: Record<string, MarketBar[]> = {};
+      const datasets: DatasetInfo[] = [];
+      for (const symbol of symbols) {
+        const { bars: historicalData, dataset } = await barStore.getBars(
+          symbol,
+          startDate,
+          endDate,
+          timeframe
+        );
+        if (!historicalData || historicalData.length === 0) {
+          throw new Error(`No historical data available for ${symbol}`);
         }
+        barsBySymbol[symbol] = historicalData;
+        datasets.push(dataset);
       }
 
-      // Calculate performance metrics
-      const result = portfolio.calculatePerformanceMetrics();
+      console.log(
+        `Running portfolio backtest for ${strategies.length} strategies across ${symbols.length} symbols`
+      );
+
+      const result = runPortfolioBacktest(barsBySymbol, strategies, {
+        initialCapital: options.initialCapital,
+        sizing: options.sizing,
+        fillModel: options.fillModel,
+        periodsPerYear: periodsPerYear(timeframe),
+        benchmark: await this.loadBenchmark(options.benchmark, startDate, endDate, timeframe),
+      });
+      await storage.upsertRiskMetrics(
+        toRiskMetricRow(PORTFOLIO_SYMBOL, "backtest", result)
+      );
 
       await storage.createAuditLog({
-        eventType: "BACKTEST_COMPLETED",
-        eventData: { symbol, result },
+        eventType: "PORTFOLIO_BACKTEST_COMPLETED",
+        eventData: {
+          strategyIds,
+          totalReturn: result.totalReturn,
+          totalTrades: result.totalTrades,
+          maxDrawdown: result.maxDrawdown,
+          datasetHashes: datasets.map((d) => d.hash),
+        },
         source: "trading_service",
         level: "info",
       });
 
-      return result;
+      return { ...result, datasets };
     } catch (error: any) {
       await storage.createAuditLog({
-        eventType: "BACKTEST_FAILED",
-        eventData: { symbol, error: error.message },
+        eventType: "PORTFOLIO_BACKTEST_FAILED",
+        eventData: { strategyIds, error: error.message },
+        source: "trading_service",
+        level: "error",
+      });
+      throw error;
+    }
+  }
+
+  async optimizeStrategy(
+    request: SweepRequest,
+    startDate: Date,
+    endDate: Date
+  ): Promise<SweepResult & { dataset: DatasetInfo }> {
+    const { symbol, method } = request;
+    try {
+      const { bars: historicalData, dataset } = await barStore.getBars(
+        symbol,
+        startDate,
+        endDate,
+        request.timeframe ?? DEFAULT_TIMEFRAME
+      );
+      if (!historicalData || historicalData.length === 0) {
+        throw new Error(`No historical data available for ${symbol}`);
+      }
+
+      const result = runParameterSweep(historicalData, request);
+      const best = result.runs.find((run) => run.rank === 1);
+
+      await storage.createAuditLog({
+        eventType: "PARAMETER_SWEEP_COMPLETED",
+        eventData: {
+          symbol,
+          method,
+          runs: result.runs.length,
+          bestParams: best?.params,
+          bestMetrics: best?.metrics,
+          multipleTesting: result.multipleTesting,
+          datasetHash: dataset.hash,
+        },
+        source: "trading_service",
+        level: result.multipleTesting?.warning ? "warn" : "info",
+      });
+
+      return { ...result, dataset };
+    } catch (error: any) {
+      await storage.createAuditLog({
+        eventType: "PARAMETER_SWEEP_FAILED",
+        eventData: { symbol, method, error: error.message },
         source: "trading_service",
         level: "error",
       });
@@ -422,25 +565,84 @@ export class TradingService {
     }
   }
 
-  private evaluateSimpleEntry(bar: HistoricalBar): boolean {
-    // Simple entry rule: RSI < 30 (oversold)
-    // This is a placeholder - real implementation would parse entryRules
-    return Math.random() > 0.95; // 5% chance to enter (simplified)
+  // A missing benchmark should not fail the backtest, so errors leave it out
+  private async loadBenchmark(
+    symbol: string = DEFAULT_BENCHMARK_SYMBOL,
+    startDate: Date,
+    endDate: Date,
+    timeframe: string = "1Day"
+  ): Promise<BenchmarkBars | undefined> {
+    try {
+      const { bars } = await barStore.getBars(symbol, startDate, endDate, timeframe);
+      return bars.length > 0 ? { symbol, bars } : undefined;
+    } catch (error: any) {
+      console.warn(`Benchmark ${symbol} unavailable: ${error.message}`);
+      return undefined;
+    }
   }
 
-  private evaluateSimpleExit(
-    bar: HistoricalBar,
-    positions: Position[]
-  ): boolean {
-    // Simple exit rule: take profit or stop loss
-    // This is a placeholder - real implementation would parse exitRules
-    return positions.length > 0 && Math.random() > 0.9; // 10% chance to exit if in position
+  /**
+   * Recompute the live account's performance from the broker's daily equity
+   * history and the positions closed over the same window, and store it in
+   * risk_metrics under PORTFOLIO / live.
+   */
+  async refreshLiveRiskMetrics(
+    options: { days?: number; benchmark?: string } = {}
+  ): Promise<PerformanceSummary> {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - (options.days ?? 365) * DAY_MS);
+
+    const history = await broker.getPortfolioHistory(startDate, endDate);
+    const positions = await storage.getPositionsHeldSince(startDate);
+    const closed = positions.filter((position) => !position.isOpen && position.exitDate);
+    const trades = closed.map((position) => {
+      const cost = parseFloat(position.entryPrice) * position.quantity;
+      const pnl = parseFloat(position.realizedPnL || "0");
+      const entry = position.entryDate ?? position.exitDate!;
+      return {
+        pnl,
+        returnPercent: cost > 0 ? (pnl / cost) * 100 : 0,
+        // Calendar days, comparable with daily-bar backtests
+        barsHeld: (position.exitDate!.getTime() - entry.getTime()) / DAY_MS,
+      };
+    });
+
+    // Days on which any position was open
+    const held = positions.map((position) => ({
+      from: (position.entryDate ?? endDate).getTime(),
+      to: (position.exitDate ?? endDate).getTime(),
+    }));
+    const daysInMarket = history.filter((point) => {
+      const dayEnd = point.timestamp.getTime() + DAY_MS;
+      return held.some((h) => h.from < dayEnd && h.to >= point.timestamp.getTime());
+    }).length;
+
+    const summary = summarizePerformance(
+      history,
+      trades,
+      history.length > 0 ? daysInMarket / history.length : 0,
+      await this.loadBenchmark(options.benchmark, startDate, endDate)
+    );
+    await storage.upsertRiskMetrics(toRiskMetricRow(PORTFOLIO_SYMBOL, "live", summary));
+
+    await storage.createAuditLog({
+      eventType: "RISK_METRICS_UPDATED",
+      eventData: {
+        source: "live",
+        days: history.length,
+        closedTrades: trades.length,
+        benchmark: summary.benchmark?.symbol ?? null,
+      },
+      source: "trading_service",
+      level: "info",
+    });
+
+    return summary;
   }
 
   async evaluateStrategy(
-    symbol: string,
-    entryRules: string,
-    exitRules: string,
+    strategy: EvaluatedStrategy,
     marketData: MarketData
   ): Promise<{
     shouldEnter: boolean;
@@ -458,12 +660,12 @@ export class TradingService {
         volume: marketData.volume,
       };
 
-      // Evaluate rules using the StrategyEvaluator
-      const evaluation = strategyEvaluator.evaluateRules(
-        entryRules,
-        exitRules,
-        currentBar
-      );
+      // Each strategy/symbol pair has its own seeded evaluator history
+      const evaluation = await evaluatorContexts.evaluate(strategy, currentBar);
+
+      if (evaluation.errors.length > 0) {
+        console.warn("Strategy rules could not be parsed:", evaluation.errors);
+      }
 
       return {
         shouldEnter: evaluation.shouldEnter,
@@ -477,6 +679,37 @@ export class TradingService {
     }
   }
 
+  /**
+   * Evaluate a strategy on its own timeframe, once per closed bar. Returns
+   * null while the current bar is still forming.
+   */
+  async evaluateOnBarClose(
+    strategy: EvaluatedStrategy,
+    now: Date = new Date()
+  ): Promise<{
+    shouldEnter: boolean;
+    shouldExit: boolean;
+    confidence: number;
+  } | null> {
+    try {
+      const evaluation = await evaluatorContexts.evaluateOnBarClose(strategy, now);
+      if (!evaluation) return null;
+
+      if (evaluation.errors.length > 0) {
+        console.warn("Strategy rules could not be parsed:", evaluation.errors);
+      }
+
+      return {
+        shouldEnter: evaluation.shouldEnter,
+        shouldExit: evaluation.shouldExit,
+        confidence: evaluation.confidence,
+      };
+    } catch (error: any) {
+      console.error("Error evaluating strategy:", error);
+      return null;
+    }
+  }
+
   async getPortfolioMetrics(portfolioId: string) {
     const portfolio = await storage.getPortfolioById(portfolioId);
     const openPositions = await storage.getOpenPositions(portfolioId);
@@ -526,7 +759,7 @@ export class TradingService {
   }
 
   /**
-   * Calculate position size based on risk parameters using Alpaca account data
+   * Calculate position size based on risk parameters using the broker's account data
    */
   async calculatePositionSize(
     symbol: string,
@@ -542,7 +775,7 @@ export class TradingService {
       const currentPrice = marketData[0].price;
 
       // Get account information for available cash and portfolio value
-      const account = await alpacaService.getAccount();
+      const account = await broker.getAccount();
       const availableCash = account.cash;
       const portfolioValue = account.portfolio_value;
 
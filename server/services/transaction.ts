@@ -1,6 +1,6 @@
 import { db } from "../db";
 import { z } from "zod";
-import { eq } from "drizzle-orm";
+import { and, asc, eq } from "drizzle-orm";
 import { 
   users, 
   portfolios, 
@@ -11,6 +11,9 @@ import {
   auditLogs,
   tradeExecutions,
   riskMetrics,
+  orders,
+  type Order,
+  type Position,
   type InsertPosition,
   type InsertTrade,
   type InsertAuditLog,
@@ -18,6 +21,7 @@ import {
   type InsertRiskMetric
 } from "@shared/schema";
 import { v4 as uuidv4 } from "uuid";
+import { DuplicateFillError } from "./order-types";
 
 export interface TradeExecutionData {
   symbol: string;
@@ -27,6 +31,9 @@ export interface TradeExecutionData {
   portfolioId: string;
   correlationId: string;
   alpacaOrderId?: string;
+  // Broker fill time and a key unique to the fill, for fills read off an order
+  executedAt?: Date;
+  executionId?: string;
 }
 
 export interface PositionUpdateData {
@@ -39,6 +46,11 @@ export interface PositionUpdateData {
   marketValue: number;
   unrealizedPnL: number;
   realizedPnL?: number;
+  // Set when the trade takes the position to zero, closing it
+  exitPrice?: number;
+  // Set on new positions only
+  strategyId?: string;
+  correlationId?: string;
 }
 
 export interface RiskMetricData {
@@ -51,6 +63,9 @@ export interface RiskMetricData {
   var99: number;
 }
 
+// The handle db.transaction passes to its callback
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export class TransactionService {
   /**
    * Execute a trade with full consistency - updates positions, records trade, logs audit
@@ -61,60 +76,9 @@ export class TransactionService {
     riskData?: RiskMetricData
   ): Promise<{ trade: any; position: any; execution: any }> {
     return await db.transaction(async (tx) => {
-      // 1. Record the trade execution
-      const [execution] = await tx.insert(tradeExecutions).values({
-        symbol: tradeData.symbol,
-        side: tradeData.side,
-        quantity: tradeData.quantity,
-        price: tradeData.price.toString(),
-        executedAt: new Date(),
-        orderId: tradeData.alpacaOrderId || uuidv4(),
-        correlationId: tradeData.correlationId
-      }).returning();
+      const result = await this.writeTrade(tx, tradeData, positionData);
 
-      // 2. Update or create position
-      let position;
-      if (positionData.positionId) {
-        // Update existing position
-        [position] = await tx.update(positions)
-          .set({
-            quantity: positionData.quantity,
-            entryPrice: positionData.entryPrice.toString(),
-            averageEntryPrice: positionData.averageEntryPrice.toString(),
-            marketValue: positionData.marketValue.toString(),
-            unrealizedPnL: positionData.unrealizedPnL.toString(),
-            realizedPnL: positionData.realizedPnL?.toString()
-          })
-          .where(eq(positions.id, positionData.positionId))
-          .returning();
-      } else {
-        // Create new position
-        [position] = await tx.insert(positions).values({
-          portfolioId: positionData.portfolioId,
-          symbol: positionData.symbol,
-          quantity: positionData.quantity,
-          entryPrice: positionData.entryPrice.toString(),
-          averageEntryPrice: positionData.averageEntryPrice.toString(),
-          marketValue: positionData.marketValue.toString(),
-          unrealizedPnL: positionData.unrealizedPnL.toString(),
-          realizedPnL: (positionData.realizedPnL || 0).toString(),
-          isOpen: positionData.quantity > 0
-        }).returning();
-      }
-
-      // 3. Record trade in trades table
-      const [trade] = await tx.insert(trades).values({
-        portfolioId: tradeData.portfolioId,
-        symbol: tradeData.symbol,
-        side: tradeData.side,
-        quantity: tradeData.quantity,
-        price: tradeData.price.toString(),
-        executedAt: new Date(),
-        correlationId: tradeData.correlationId,
-        orderId: tradeData.alpacaOrderId
-      }).returning();
-
-      // 4. Update risk metrics if provided
+      // Update risk metrics if provided
       if (riskData) {
         await tx.insert(riskMetrics).values({
           symbol: tradeData.symbol,
@@ -125,24 +89,139 @@ export class TransactionService {
         });
       }
 
-      // 5. Create audit log
-      await tx.insert(auditLogs).values({
-        eventType: "TRADE_EXECUTED",
-        eventData: {
-          tradeId: trade.id,
-          positionId: position.id,
-          executionId: execution.id,
-          ...tradeData
-        },
-        source: "transaction_service",
-        level: "info",
-        correlationId: tradeData.correlationId
-      });
+      return result;
+    });
+  }
+
+  /**
+   * Book a broker fill: the execution, position and trade it produces and the
+   * order's new fill state are written together, so a fill is never booked
+   * twice or lost between polls. The position is worked out by `positionFor`
+   * from the open position as read under a lock on the portfolio, so fills
+   * of other orders on the same symbol cannot book over each other; null
+   * books the trade without touching positions.
+   */
+  async recordOrderFill(
+    order: Pick<Order, "id" | "filledQuantity">,
+    orderUpdates: Partial<Order>,
+    tradeData: TradeExecutionData,
+    positionFor: (open: Position | undefined) => PositionUpdateData | null
+  ): Promise<{ trade: any; position: any; execution: any }> {
+    return await db.transaction(async (tx) => {
+      // Another poller that booked the same fill first leaves nothing to update
+      const updated = await tx.update(orders)
+        .set({ ...orderUpdates, updatedAt: new Date() })
+        .where(and(eq(orders.id, order.id), eq(orders.filledQuantity, order.filledQuantity)))
+        .returning({ id: orders.id });
+      if (updated.length === 0) {
+        throw new DuplicateFillError(order.id);
+      }
 
-      return { trade, position, execution };
+      // Locking the portfolio rather than the position also covers fills that open one
+      await tx.select({ id: portfolios.id })
+        .from(portfolios)
+        .where(eq(portfolios.id, tradeData.portfolioId))
+        .for("update");
+      const [open] = await tx.select()
+        .from(positions)
+        .where(and(
+          eq(positions.portfolioId, tradeData.portfolioId),
+          eq(positions.symbol, tradeData.symbol),
+          eq(positions.isOpen, true)
+        ))
+        .orderBy(asc(positions.entryDate))
+        .limit(1);
+      return await this.writeTrade(tx, tradeData, positionFor(open));
     });
   }
 
+  private async writeTrade(
+    tx: Transaction,
+    tradeData: TradeExecutionData,
+    positionData: PositionUpdateData | null
+  ): Promise<{ trade: any; position: any; execution: any }> {
+    const executedAt = tradeData.executedAt ?? new Date();
+
+    // 1. Record the trade execution
+    const [execution] = await tx.insert(tradeExecutions).values({
+      symbol: tradeData.symbol,
+      side: tradeData.side,
+      quantity: tradeData.quantity,
+      price: tradeData.price.toString(),
+      executedAt,
+      orderId: tradeData.alpacaOrderId || uuidv4(),
+      executionId: tradeData.executionId,
+      correlationId: tradeData.correlationId
+    }).returning();
+
+    // 2. Update or create position
+    let position;
+    if (!positionData) {
+      position = null;
+    } else if (positionData.positionId) {
+      // Update existing position
+      [position] = await tx.update(positions)
+        .set({
+          quantity: positionData.quantity,
+          entryPrice: positionData.entryPrice.toString(),
+          averageEntryPrice: positionData.averageEntryPrice.toString(),
+          marketValue: positionData.marketValue.toString(),
+          unrealizedPnL: positionData.unrealizedPnL.toString(),
+          realizedPnL: positionData.realizedPnL?.toString(),
+          ...(positionData.exitPrice !== undefined && {
+            isOpen: false,
+            exitDate: executedAt,
+            exitPrice: positionData.exitPrice.toString()
+          })
+        })
+        .where(eq(positions.id, positionData.positionId))
+        .returning();
+    } else {
+      // Create new position
+      [position] = await tx.insert(positions).values({
+        portfolioId: positionData.portfolioId,
+        symbol: positionData.symbol,
+        quantity: positionData.quantity,
+        entryPrice: positionData.entryPrice.toString(),
+        averageEntryPrice: positionData.averageEntryPrice.toString(),
+        marketValue: positionData.marketValue.toString(),
+        unrealizedPnL: positionData.unrealizedPnL.toString(),
+        realizedPnL: (positionData.realizedPnL || 0).toString(),
+        isOpen: positionData.quantity > 0,
+        strategyId: positionData.strategyId,
+        correlationId: positionData.correlationId
+      }).returning();
+    }
+
+    // 3. Record trade in trades table
+    const [trade] = await tx.insert(trades).values({
+      portfolioId: tradeData.portfolioId,
+      symbol: tradeData.symbol,
+      side: tradeData.side,
+      quantity: tradeData.quantity,
+      price: tradeData.price.toString(),
+      executedAt,
+      correlationId: tradeData.correlationId,
+      orderId: tradeData.alpacaOrderId
+    }).returning();
+
+    // 4. Create audit log
+    await tx.insert(auditLogs).values({
+      eventType: "TRADE_EXECUTED",
+      eventData: {
+        tradeId: trade.id,
+        positionId: position?.id ?? null,
+        executionId: execution.id,
+        ...tradeData
+      },
+      source: "transaction_service",
+      level: "info",
+      correlationId: tradeData.correlationId
+    });
+
+    return { trade, position, execution };
+  }
+
   /**
    * Close position with full P&L calculation and audit logging
    */
@@ -0,0 +1,359 @@
+import {
+  runBacktest,
+  DEFAULT_INITIAL_CAPITAL,
+  type BacktestResult,
+  type RiskParameters,
+} from "./backtest";
+import type { MarketBar } from "./evaluator";
+import type { FillModel } from "./fill-model";
+import { DEFAULT_TIMEFRAME, periodsPerYear } from "./timeframe";
+import {
+  runMonteCarlo,
+  type MonteCarloOptions,
+  type MonteCarloResult,
+} from "./monte-carlo";
+
+export interface ValidationThresholds {
+  // Average out-of-sample total return per window
+  minOosReturn?: number;
+  // Win rate over every out-of-sample trade
+  minOosWinRate?: number;
+  // Average OOS return divided by average in-sample return
+  minOosIsRatio?: number;
+  // Variance of the OOS returns across windows
+  maxOosReturnVariance?: number;
+  // Out-of-sample trades across all windows
+  minTrades?: number;
+  // Fraction of OOS windows with a positive return
+  minProfitableWindows?: number;
+  // Monte Carlo drawdown of the 5th-percentile path over the full period
+  maxMonteCarloDrawdown?: number;
+}
+
+export interface ValidationProfile {
+  name: string;
+  description: string;
+  // 0 skips the in-sample runs, leaving plain backtests of the recent bars
+  inSampleBars: number;
+  outOfSampleBars: number;
+  windows: number;
+  thresholds: ValidationThresholds;
+}
+
+export const VALIDATION_PROFILES: Record<string, ValidationProfile> = {
+  quick: {
+    name: "quick",
+    description: "One backtest over roughly the last month of daily bars",
+    inSampleBars: 0,
+    outOfSampleBars: 21,
+    windows: 1,
+    thresholds: { minOosReturn: 0.02, minOosWinRate: 0.6 },
+  },
+  standard: {
+    name: "standard",
+    description: "Four rolling windows of 60 in-sample and 20 out-of-sample daily bars",
+    inSampleBars: 60,
+    outOfSampleBars: 20,
+    windows: 4,
+    thresholds: {
+      minOosReturn: 0.005,
+      minOosWinRate: 0.5,
+      minOosIsRatio: 0.5,
+      maxOosReturnVariance: 0.0025,
+      minTrades: 5,
+      minProfitableWindows: 0.5,
+      maxMonteCarloDrawdown: 0.25,
+    },
+  },
+  strict: {
+    name: "strict",
+    description: "Five rolling windows of 120 in-sample and 40 out-of-sample daily bars",
+    inSampleBars: 120,
+    outOfSampleBars: 40,
+    windows: 5,
+    thresholds: {
+      minOosReturn: 0.01,
+      minOosWinRate: 0.55,
+      minOosIsRatio: 0.7,
+      maxOosReturnVariance: 0.001,
+      minTrades: 10,
+      minProfitableWindows: 0.6,
+      maxMonteCarloDrawdown: 0.15,
+    },
+  },
+};
+
+export const DEFAULT_VALIDATION_PROFILE = "standard";
+
+export interface WindowSummary {
+  start: Date;
+  end: Date;
+  bars: number;
+  totalReturn: number;
+  winRate: number;
+  totalTrades: number;
+  profitableTrades: number;
+  sharpeRatio: number;
+  maxDrawdown: number;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSample: WindowSummary | null;
+  outOfSample: WindowSummary;
+}
+
+export interface StabilityMetrics {
+  averageIsReturn: number | null;
+  averageOosReturn: number;
+  // null when the in-sample average is not positive
+  oosIsReturnRatio: number | null;
+  oosReturnVariance: number;
+  oosWinRate: number;
+  oosTrades: number;
+  profitableWindows: number;
+}
+
+export interface ValidationResult {
+  profile: ValidationProfile;
+  accepted: boolean;
+  // One message per threshold the strategy missed
+  failures: string[];
+  windows: WalkForwardWindow[];
+  stability: StabilityMetrics;
+  // Backtest over every validated bar, stored with the staged strategy
+  fullPeriod: BacktestResult;
+  // Reshuffled full-period trades
+  monteCarlo: MonteCarloResult;
+}
+
+export interface ValidatedStrategyInput {
+  symbol: string;
+  entryRules: string;
+  exitRules: string;
+  // Bar size of `bars`; profile window lengths are counted in these bars
+  timeframe?: string;
+  riskParameters?: RiskParameters | null;
+}
+
+export function getValidationProfile(name: string): ValidationProfile {
+  const profile = VALIDATION_PROFILES[name];
+  if (!profile) {
+    throw new Error(
+      `Unknown validation profile '${name}'. Available: ${Object.keys(VALIDATION_PROFILES).join(", ")}`
+    );
+  }
+  return profile;
+}
+
+// Bars the profile trades over, not counting indicator warm-up
+export function requiredBars(profile: ValidationProfile): number {
+  return (
+    profile.inSampleBars + profile.outOfSampleBars * profile.windows
+  );
+}
+
+function summarize(bars: MarketBar[], result: BacktestResult): WindowSummary {
+  return {
+    start: new Date(bars[0].timestamp),
+    end: new Date(bars[bars.length - 1].timestamp),
+    bars: result.barsProcessed,
+    totalReturn: result.totalReturn,
+    winRate: result.winRate,
+    totalTrades: result.totalTrades,
+    profitableTrades: result.profitableTrades,
+    sharpeRatio: result.sharpeRatio,
+    maxDrawdown: result.maxDrawdown,
+  };
+}
+
+const mean = (values: number[]) =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Validate a strategy on rolling in-sample/out-of-sample windows. Windows
+ * step forward by the out-of-sample length so the OOS periods tile the most
+ * recent history without overlapping. Each backtest is warmed up on the
+ * bars before its window, so indicators are ready when trading starts.
+ */
+export function runWalkForward(
+  bars: MarketBar[],
+  strategy: ValidatedStrategyInput,
+  profile: ValidationProfile,
+  options: {
+    warmupBars?: number;
+    fillModel?: Partial<FillModel>;
+    monteCarlo?: MonteCarloOptions;
+  } = {}
+): ValidationResult {
+  const orderedBars = [...bars].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const warmupBars = options.warmupBars ?? 0;
+  const needed = requiredBars(profile);
+  if (orderedBars.length < needed) {
+    throw new Error(
+      `Validation profile '${profile.name}' needs ${needed} bars for ${strategy.symbol}, got ${orderedBars.length}`
+    );
+  }
+
+  // Backtest bars[from, to), warmed up on up to warmupBars earlier bars
+  const backtestRange = (from: number, to: number) => {
+    const window = orderedBars.slice(from, to);
+    const result = runBacktest(
+      orderedBars.slice(Math.max(0, from - warmupBars), to),
+      {
+        symbol: strategy.symbol,
+        entryRules: strategy.entryRules,
+        exitRules: strategy.exitRules,
+        riskParameters: strategy.riskParameters,
+        fillModel: options.fillModel,
+        warmupUntil: new Date(window[0].timestamp),
+        periodsPerYear: periodsPerYear(strategy.timeframe ?? DEFAULT_TIMEFRAME),
+      }
+    );
+    return { window, result };
+  };
+
+  const firstBar = orderedBars.length - needed;
+  const windows: WalkForwardWindow[] = [];
+  for (let i = 0; i < profile.windows; i++) {
+    const oosStart = firstBar + profile.inSampleBars + i * profile.outOfSampleBars;
+    const oos = backtestRange(oosStart, oosStart + profile.outOfSampleBars);
+    const inSample =
+      profile.inSampleBars > 0
+        ? backtestRange(oosStart - profile.inSampleBars, oosStart)
+        : null;
+
+    windows.push({
+      index: i,
+      inSample: inSample ? summarize(inSample.window, inSample.result) : null,
+      outOfSample: summarize(oos.window, oos.result),
+    });
+  }
+
+  const full = backtestRange(firstBar, orderedBars.length);
+  const stability = calculateStability(windows);
+  const monteCarlo = runMonteCarlo(
+    full.result.trades,
+    DEFAULT_INITIAL_CAPITAL,
+    options.monteCarlo
+  );
+  const failures = [
+    ...checkThresholds(stability, profile.thresholds),
+    ...checkMonteCarloThresholds(monteCarlo, profile.thresholds),
+  ];
+
+  return {
+    profile,
+    accepted: failures.length === 0,
+    failures,
+    windows,
+    stability,
+    fullPeriod: full.result,
+    monteCarlo,
+  };
+}
+
+export function calculateStability(windows: WalkForwardWindow[]): StabilityMetrics {
+  const oosReturns = windows.map((w) => w.outOfSample.totalReturn);
+  const isReturns = windows
+    .map((w) => w.inSample?.totalReturn)
+    .filter((r): r is number => r !== undefined);
+
+  const averageOosReturn = mean(oosReturns);
+  const averageIsReturn = isReturns.length > 0 ? mean(isReturns) : null;
+  const oosTrades = windows.reduce((sum, w) => sum + w.outOfSample.totalTrades, 0);
+  const oosProfitableTrades = windows.reduce(
+    (sum, w) => sum + w.outOfSample.profitableTrades,
+    0
+  );
+
+  return {
+    averageIsReturn,
+    averageOosReturn,
+    oosIsReturnRatio:
+      averageIsReturn !== null && averageIsReturn > 0
+        ? averageOosReturn / averageIsReturn
+        : null,
+    oosReturnVariance: mean(
+      oosReturns.map((r) => Math.pow(r - averageOosReturn, 2))
+    ),
+    oosWinRate: oosTrades > 0 ? oosProfitableTrades / oosTrades : 0,
+    oosTrades,
+    profitableWindows:
+      oosReturns.filter((r) => r > 0).length / oosReturns.length,
+  };
+}
+
+export function checkThresholds(
+  stability: StabilityMetrics,
+  thresholds: ValidationThresholds
+): string[] {
+  const failures: string[] = [];
+  const {
+    minOosReturn,
+    minOosWinRate,
+    minOosIsRatio,
+    maxOosReturnVariance,
+    minTrades,
+    minProfitableWindows,
+  } = thresholds;
+
+  if (minOosReturn !== undefined && stability.averageOosReturn < minOosReturn) {
+    failures.push(
+      `Average out-of-sample return ${stability.averageOosReturn.toFixed(4)} is below ${minOosReturn}`
+    );
+  }
+  if (minOosWinRate !== undefined && stability.oosWinRate < minOosWinRate) {
+    failures.push(
+      `Out-of-sample win rate ${stability.oosWinRate.toFixed(2)} is below ${minOosWinRate}`
+    );
+  }
+  if (minOosIsRatio !== undefined) {
+    if (stability.oosIsReturnRatio === null) {
+      failures.push("In-sample return is not positive, so the OOS/IS ratio is undefined");
+    } else if (stability.oosIsReturnRatio < minOosIsRatio) {
+      failures.push(
+        `OOS/IS return ratio ${stability.oosIsReturnRatio.toFixed(2)} is below ${minOosIsRatio}`
+      );
+    }
+  }
+  if (
+    maxOosReturnVariance !== undefined &&
+    stability.oosReturnVariance > maxOosReturnVariance
+  ) {
+    failures.push(
+      `Out-of-sample return variance ${stability.oosReturnVariance.toFixed(6)} exceeds ${maxOosReturnVariance}`
+    );
+  }
+  if (minTrades !== undefined && stability.oosTrades < minTrades) {
+    failures.push(`${stability.oosTrades} out-of-sample trades, need at least ${minTrades}`);
+  }
+  if (
+    minProfitableWindows !== undefined &&
+    stability.profitableWindows < minProfitableWindows
+  ) {
+    failures.push(
+      `${(stability.profitableWindows * 100).toFixed(0)}% of out-of-sample windows were profitable, need ${minProfitableWindows * 100}%`
+    );
+  }
+
+  return failures;
+}
+
+export function checkMonteCarloThresholds(
+  monteCarlo: MonteCarloResult,
+  thresholds: ValidationThresholds
+): string[] {
+  const { maxMonteCarloDrawdown } = thresholds;
+  if (
+    maxMonteCarloDrawdown !== undefined &&
+    monteCarlo.tailDrawdown > maxMonteCarloDrawdown
+  ) {
+    return [
+      `5th-percentile Monte Carlo drawdown ${(monteCarlo.tailDrawdown * 100).toFixed(1)}% exceeds ${maxMonteCarloDrawdown * 100}%`,
+    ];
+  }
+  return [];
+}
@@ -146,6 +146,22 @@ export class WebSocketManager {
     });
   }
 
+  public broadcastPriceUpdate(priceData: any) {
+    this.broadcast({
+      type: 'price_update',
+      data: priceData,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  public broadcastOrderUpdate(orderData: any) {
+    this.broadcast({
+      type: 'order_update',
+      data: orderData,
+      timestamp: new Date().toISOString()
+    });
+  }
+
   public broadcastAIPipelineUpdate(stage: string, status: string, data: any, correlationId?: string) {
     this.broadcastSystemEvent({
       event: `AI_PIPELINE_${stage.toUpperCase()}_${status.toUpperCase()}`,
@@ -8,6 +8,15 @@ import {
   auditLogs,
   systemHealth,
   userSettings,
+  optimizationJobs,
+  optimizationRuns,
+  marketBars,
+  marketBarRanges,
+  riskMetrics,
+  backtestRuns,
+  strategyVersions,
+  orders,
+  reconciliationRuns,
   type User,
   type InsertUser,
   type Portfolio,
@@ -26,9 +35,46 @@ import {
   type InsertSystemHealth,
   type UserSettings,
   type InsertUserSettings,
+  type OptimizationJob,
+  type InsertOptimizationJob,
+  type OptimizationRun,
+  type InsertOptimizationRun,
+  type MarketBarRow,
+  type InsertMarketBar,
+  type MarketBarRange,
+  type InsertMarketBarRange,
+  type RiskMetric,
+  type InsertRiskMetric,
+  type BacktestRun,
+  type InsertBacktestRun,
+  type StrategyVersion,
+  type InsertStrategyVersion,
+  type Order,
+  type InsertOrder,
+  type ReconciliationRun,
+  type InsertReconciliationRun,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, desc, and, or, sql, gte, lte, asc, inArray, getTableColumns } from "drizzle-orm";
+
+export interface BacktestRunFilter {
+  strategyId?: string;
+  correlationId?: string;
+  symbol?: string;
+  limit?: number;
+}
+
+export interface OrderFilter {
+  statuses?: string[];
+  symbol?: string;
+  strategyId?: string;
+  // Legs of this order only
+  parentOrderId?: string;
+  limit?: number;
+}
+
+// Listing rows leave out the equity curve and trades
+export type BacktestRunSummary = Omit<BacktestRun, "equityCurve" | "trades">;
 
 export interface IStorage {
   // Users
@@ -44,6 +90,11 @@ export interface IStorage {
 
   // Positions
   getOpenPositions(portfolioId: string): Promise<Position[]>;
+  // Open positions plus those closed since the given time
+  getPositionsHeldSince(since: Date): Promise<Position[]>;
+  // Open positions of every portfolio
+  getAllOpenPositions(): Promise<Position[]>;
+  getPositionsByStrategyIds(strategyIds: string[]): Promise<Position[]>;
   getPosition(id: string): Promise<Position | undefined>;
   createPosition(position: InsertPosition): Promise<Position>;
   updatePosition(id: string, updates: Partial<Position>): Promise<Position>;
@@ -63,10 +114,69 @@ export interface IStorage {
   createStrategy(strategy: InsertStrategy): Promise<Strategy>;
   updateStrategy(id: string, updates: Partial<Strategy>): Promise<Strategy>;
 
+  // Strategy versions
+  getStrategyVersions(strategyId: string): Promise<StrategyVersion[]>;
+  getStrategyVersion(
+    strategyId: string,
+    version: number
+  ): Promise<StrategyVersion | undefined>;
+  getStrategyVersionById(id: string): Promise<StrategyVersion | undefined>;
+  createStrategyVersion(version: InsertStrategyVersion): Promise<StrategyVersion>;
+  updateStrategyVersion(
+    id: string,
+    updates: Partial<StrategyVersion>
+  ): Promise<StrategyVersion>;
+  deleteStrategyVersion(id: string): Promise<void>;
+
+  // Orders
+  getOrders(filter?: OrderFilter): Promise<Order[]>;
+  getOrder(id: string): Promise<Order | undefined>;
+  getOrderByBrokerId(broker: string, brokerOrderId: string): Promise<Order | undefined>;
+  createOrder(order: InsertOrder): Promise<Order>;
+  updateOrder(id: string, updates: Partial<Order>): Promise<Order>;
+
+  // Reconciliation
+  getReconciliationRuns(limit?: number): Promise<ReconciliationRun[]>;
+  createReconciliationRun(run: InsertReconciliationRun): Promise<ReconciliationRun>;
+
   // AI Decisions
   getAiDecisions(correlationId: string): Promise<AiDecision[]>;
   createAiDecision(decision: InsertAiDecision): Promise<AiDecision>;
 
+  // Optimization
+  getOptimizationJobs(limit?: number): Promise<OptimizationJob[]>;
+  getOptimizationJob(id: string): Promise<OptimizationJob | undefined>;
+  createOptimizationJob(job: InsertOptimizationJob): Promise<OptimizationJob>;
+  updateOptimizationJob(
+    id: string,
+    updates: Partial<OptimizationJob>
+  ): Promise<OptimizationJob>;
+  getOptimizationRuns(jobId: string): Promise<OptimizationRun[]>;
+  createOptimizationRuns(runs: InsertOptimizationRun[]): Promise<OptimizationRun[]>;
+
+  // Backtest runs
+  getBacktestRuns(filter?: BacktestRunFilter): Promise<BacktestRunSummary[]>;
+  getBacktestRun(id: string): Promise<BacktestRun | undefined>;
+  getBacktestRunsByIds(ids: string[]): Promise<BacktestRun[]>;
+  // Newest run of each strategy
+  getLatestBacktestRuns(strategyIds: string[]): Promise<BacktestRunSummary[]>;
+  createBacktestRun(run: InsertBacktestRun): Promise<BacktestRun>;
+
+  // Market bars
+  getMarketBars(
+    symbol: string,
+    timeframe: string,
+    start: Date,
+    end: Date
+  ): Promise<MarketBarRow[]>;
+  upsertMarketBars(bars: InsertMarketBar[]): Promise<number>;
+  getMarketBarRanges(symbol: string, timeframe: string): Promise<MarketBarRange[]>;
+  createMarketBarRange(range: InsertMarketBarRange): Promise<MarketBarRange>;
+
+  // Risk metrics
+  getRiskMetrics(source?: string): Promise<RiskMetric[]>;
+  upsertRiskMetrics(metrics: InsertRiskMetric): Promise<RiskMetric>;
+
   // Audit Logs
   getAuditLogs(limit?: number): Promise<AuditLog[]>;
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
@@ -148,6 +258,30 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  async getPositionsHeldSince(since: Date): Promise<Position[]> {
+    return await db
+      .select()
+      .from(positions)
+      .where(or(eq(positions.isOpen, true), gte(positions.exitDate, since)))
+      .orderBy(asc(positions.entryDate));
+  }
+
+  async getAllOpenPositions(): Promise<Position[]> {
+    return await db
+      .select()
+      .from(positions)
+      .where(eq(positions.isOpen, true))
+      .orderBy(asc(positions.entryDate));
+  }
+
+  async getPositionsByStrategyIds(strategyIds: string[]): Promise<Position[]> {
+    if (strategyIds.length === 0) return [];
+    return await db
+      .select()
+      .from(positions)
+      .where(inArray(positions.strategyId, strategyIds));
+  }
+
   async getPosition(id: string): Promise<Position | undefined> {
     const [position] = await db
       .select()
@@ -247,6 +381,122 @@ export class DatabaseStorage implements IStorage {
     return strategy;
   }
 
+  async getStrategyVersions(strategyId: string): Promise<StrategyVersion[]> {
+    return await db
+      .select()
+      .from(strategyVersions)
+      .where(eq(strategyVersions.strategyId, strategyId))
+      .orderBy(desc(strategyVersions.version));
+  }
+
+  async getStrategyVersion(
+    strategyId: string,
+    version: number
+  ): Promise<StrategyVersion | undefined> {
+    const [row] = await db
+      .select()
+      .from(strategyVersions)
+      .where(
+        and(
+          eq(strategyVersions.strategyId, strategyId),
+          eq(strategyVersions.version, version)
+        )
+      );
+    return row || undefined;
+  }
+
+  async getStrategyVersionById(id: string): Promise<StrategyVersion | undefined> {
+    const [row] = await db
+      .select()
+      .from(strategyVersions)
+      .where(eq(strategyVersions.id, id));
+    return row || undefined;
+  }
+
+  async createStrategyVersion(
+    insertVersion: InsertStrategyVersion
+  ): Promise<StrategyVersion> {
+    const [row] = await db
+      .insert(strategyVersions)
+      .values(insertVersion)
+      .returning();
+    return row;
+  }
+
+  async updateStrategyVersion(
+    id: string,
+    updates: Partial<StrategyVersion>
+  ): Promise<StrategyVersion> {
+    const [row] = await db
+      .update(strategyVersions)
+      .set(updates)
+      .where(eq(strategyVersions.id, id))
+      .returning();
+    return row;
+  }
+
+  async deleteStrategyVersion(id: string): Promise<void> {
+    await db.delete(strategyVersions).where(eq(strategyVersions.id, id));
+  }
+
+  async getOrders(filter: OrderFilter = {}): Promise<Order[]> {
+    const conditions = [];
+    if (filter.statuses) conditions.push(inArray(orders.status, filter.statuses));
+    if (filter.symbol) conditions.push(eq(orders.symbol, filter.symbol));
+    if (filter.strategyId) conditions.push(eq(orders.strategyId, filter.strategyId));
+    if (filter.parentOrderId) conditions.push(eq(orders.parentOrderId, filter.parentOrderId));
+
+    return await db
+      .select()
+      .from(orders)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(orders.submittedAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getOrder(id: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+    return order || undefined;
+  }
+
+  async getOrderByBrokerId(
+    broker: string,
+    brokerOrderId: string
+  ): Promise<Order | undefined> {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.broker, broker), eq(orders.brokerOrderId, brokerOrderId)));
+    return order || undefined;
+  }
+
+  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+    const [order] = await db.insert(orders).values(insertOrder).returning();
+    return order;
+  }
+
+  async updateOrder(id: string, updates: Partial<Order>): Promise<Order> {
+    const [order] = await db
+      .update(orders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  async getReconciliationRuns(limit: number = 20): Promise<ReconciliationRun[]> {
+    return await db
+      .select()
+      .from(reconciliationRuns)
+      .orderBy(desc(reconciliationRuns.startedAt))
+      .limit(limit);
+  }
+
+  async createReconciliationRun(run: InsertReconciliationRun): Promise<ReconciliationRun> {
+    const [created] = await db.insert(reconciliationRuns).values(run).returning();
+    return created;
+  }
+
   async getAiDecisions(correlationId: string): Promise<AiDecision[]> {
     return await db
       .select()
@@ -265,6 +515,214 @@ export class DatabaseStorage implements IStorage {
     return decision;
   }
 
+  async getOptimizationJobs(limit = 50): Promise<OptimizationJob[]> {
+    return await db
+      .select()
+      .from(optimizationJobs)
+      .orderBy(desc(optimizationJobs.createdAt))
+      .limit(limit);
+  }
+
+  async getOptimizationJob(id: string): Promise<OptimizationJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(optimizationJobs)
+      .where(eq(optimizationJobs.id, id));
+    return job || undefined;
+  }
+
+  async createOptimizationJob(
+    insertJob: InsertOptimizationJob
+  ): Promise<OptimizationJob> {
+    const [job] = await db
+      .insert(optimizationJobs)
+      .values(insertJob)
+      .returning();
+    return job;
+  }
+
+  async updateOptimizationJob(
+    id: string,
+    updates: Partial<OptimizationJob>
+  ): Promise<OptimizationJob> {
+    const [job] = await db
+      .update(optimizationJobs)
+      .set(updates)
+      .where(eq(optimizationJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getOptimizationRuns(jobId: string): Promise<OptimizationRun[]> {
+    // Unranked runs (invalid rules) sort last
+    return await db
+      .select()
+      .from(optimizationRuns)
+      .where(eq(optimizationRuns.jobId, jobId))
+      .orderBy(sql`${optimizationRuns.rank} ASC NULLS LAST`);
+  }
+
+  async createOptimizationRuns(
+    insertRuns: InsertOptimizationRun[]
+  ): Promise<OptimizationRun[]> {
+    if (insertRuns.length === 0) return [];
+    return await db.insert(optimizationRuns).values(insertRuns).returning();
+  }
+
+  async getBacktestRuns(
+    filter: BacktestRunFilter = {}
+  ): Promise<BacktestRunSummary[]> {
+    const conditions = [];
+    if (filter.strategyId) conditions.push(eq(backtestRuns.strategyId, filter.strategyId));
+    if (filter.correlationId) conditions.push(eq(backtestRuns.correlationId, filter.correlationId));
+    if (filter.symbol) conditions.push(eq(backtestRuns.symbol, filter.symbol));
+
+    const { equityCurve: _equityCurve, trades: _trades, ...columns } =
+      getTableColumns(backtestRuns);
+    return await db
+      .select(columns)
+      .from(backtestRuns)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(backtestRuns.createdAt))
+      .limit(filter.limit ?? 50);
+  }
+
+  async getBacktestRun(id: string): Promise<BacktestRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(backtestRuns)
+      .where(eq(backtestRuns.id, id));
+    return run || undefined;
+  }
+
+  async getBacktestRunsByIds(ids: string[]): Promise<BacktestRun[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select()
+      .from(backtestRuns)
+      .where(inArray(backtestRuns.id, ids));
+  }
+
+  async getLatestBacktestRuns(
+    strategyIds: string[]
+  ): Promise<BacktestRunSummary[]> {
+    if (strategyIds.length === 0) return [];
+    const { equityCurve: _equityCurve, trades: _trades, ...columns } =
+      getTableColumns(backtestRuns);
+    return await db
+      .selectDistinctOn([backtestRuns.strategyId], columns)
+      .from(backtestRuns)
+      .where(inArray(backtestRuns.strategyId, strategyIds))
+      .orderBy(backtestRuns.strategyId, desc(backtestRuns.createdAt));
+  }
+
+  async createBacktestRun(insertRun: InsertBacktestRun): Promise<BacktestRun> {
+    const [run] = await db.insert(backtestRuns).values(insertRun).returning();
+    return run;
+  }
+
+  async getMarketBars(
+    symbol: string,
+    timeframe: string,
+    start: Date,
+    end: Date
+  ): Promise<MarketBarRow[]> {
+    return await db
+      .select()
+      .from(marketBars)
+      .where(
+        and(
+          eq(marketBars.symbol, symbol),
+          eq(marketBars.timeframe, timeframe),
+          gte(marketBars.timestamp, start),
+          lte(marketBars.timestamp, end)
+        )
+      )
+      .orderBy(asc(marketBars.timestamp));
+  }
+
+  async upsertMarketBars(bars: InsertMarketBar[]): Promise<number> {
+    // Chunked to stay under the driver's bind parameter limit
+    const chunkSize = 1000;
+    for (let i = 0; i < bars.length; i += chunkSize) {
+      await db
+        .insert(marketBars)
+        .values(bars.slice(i, i + chunkSize))
+        .onConflictDoUpdate({
+          target: [marketBars.symbol, marketBars.timeframe, marketBars.timestamp],
+          set: {
+            open: sql`excluded.open`,
+            high: sql`excluded.high`,
+            low: sql`excluded.low`,
+            close: sql`excluded.close`,
+            volume: sql`excluded.volume`,
+            source: sql`excluded.source`,
+          },
+        });
+    }
+    return bars.length;
+  }
+
+  async getMarketBarRanges(
+    symbol: string,
+    timeframe: string
+  ): Promise<MarketBarRange[]> {
+    return await db
+      .select()
+      .from(marketBarRanges)
+      .where(
+        and(
+          eq(marketBarRanges.symbol, symbol),
+          eq(marketBarRanges.timeframe, timeframe)
+        )
+      )
+      .orderBy(asc(marketBarRanges.start));
+  }
+
+  async createMarketBarRange(
+    insertRange: InsertMarketBarRange
+  ): Promise<MarketBarRange> {
+    const [range] = await db
+      .insert(marketBarRanges)
+      .values(insertRange)
+      .returning();
+    return range;
+  }
+
+  async getRiskMetrics(source?: string): Promise<RiskMetric[]> {
+    const query = db
+      .select()
+      .from(riskMetrics)
+      .orderBy(desc(riskMetrics.updatedAt));
+    if (source) {
+      return await query.where(eq(riskMetrics.source, source));
+    }
+    return await query;
+  }
+
+  // One row per symbol and source; the latest run replaces the previous one
+  async upsertRiskMetrics(insertMetrics: InsertRiskMetric): Promise<RiskMetric> {
+    const source = insertMetrics.source ?? "live";
+    const match = and(
+      eq(riskMetrics.symbol, insertMetrics.symbol),
+      eq(riskMetrics.source, source)
+    );
+    const [existing] = await db.select().from(riskMetrics).where(match).limit(1);
+    if (existing) {
+      const [updated] = await db
+        .update(riskMetrics)
+        .set({ ...insertMetrics, updatedAt: sql`NOW()` })
+        .where(eq(riskMetrics.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db
+      .insert(riskMetrics)
+      .values({ ...insertMetrics, source })
+      .returning();
+    return created;
+  }
+
   async getAuditLogs(limit = 100): Promise<AuditLog[]> {
     return await db
       .select()
@@ -1,11 +1,26 @@
 import "dotenv/config";
 import { Worker, Job } from 'bullmq';
-import { tradingQueue, QUEUE_NAMES, QueueManager, redisClient } from './lib/queue';
+import { tradingQueue, QUEUE_NAMES, QueueManager, redisClient, BotStateManager } from './lib/queue';
 import { storage } from './storage';
 import { tradingService } from './services/trading';
-import { alpacaService } from './services/alpaca';
-import { analyzeMarket, selectAssets, generateTradingStrategy } from './services/gemini';
+import { bracketFromRiskParameters } from './services/order-types';
+import { orderLifecycle } from './services/order-lifecycle';
+import { riskParameterQuantity } from './services/backtest';
+import { riskParametersSchema } from '@shared/backtest';
+import { broker } from './services/broker';
+import { analyzeMarket, selectAssets, generateTradingStrategy, repairStrategyRules, STRATEGY_PROMPT_VERSION } from './services/gemini';
+import { validateRules, formatRuleValidationErrors } from './services/rule-validator';
+import { evaluatorContexts } from './services/evaluator-context';
+import { getValidationProfile, DEFAULT_VALIDATION_PROFILE } from './services/walk-forward';
 import { wsManager } from './services/websocket';
+import { toBacktestRunRow, strategyLineage } from './services/backtest-runs';
+import { strategyVersions, aiAuthor, executionTarget } from './services/strategy-versions';
+import { DEFAULT_TIMEFRAME, isTimeframe } from './services/timeframe';
+import { MarketStream, marketStreamConfig, MARKET_STREAM_CHANNEL, type RelayedStreamEvent } from './services/market-stream';
+import type { StrategyEvaluation } from './services/evaluator';
+import { OPEN_ORDER_STATUSES } from './services/order-types';
+import { ReconciliationService, reconciliationConfig } from './services/reconciliation';
+import type { Strategy, StrategyVersion } from '@shared/schema';
 import { v4 as uuidv4 } from 'uuid';
 
 // Redis Pub/Sub channel for system events
@@ -28,6 +43,15 @@ async function publishSystemEvent(eventType: string, correlationId: string, data
   }
 }
 
+// Reconciles against this process's broker, the one orders are placed and polled with.
+// Drift alerts go to the server, whose health monitor serves them.
+const reconciliation = new ReconciliationService(storage, broker, reconciliationConfig(), (alert) =>
+  publishSystemEvent('RECONCILIATION_DRIFT', `reconcile_${alert.timestamp.getTime()}`, alert)
+);
+
+// How many times a strategy with unparseable rules is sent back to Gemini
+const MAX_RULE_REPAIR_ATTEMPTS = 2;
+
 // Worker instance
 let worker: Worker;
 
@@ -46,7 +70,7 @@ const jobProcessors = {
       let tradableSymbols = symbols;
       if (!tradableSymbols || tradableSymbols.length === 0) {
         console.log(`[${correlationId}] Fetching dynamic list of tradable assets`);
-        tradableSymbols = await alpacaService.getTradableAssets();
+        tradableSymbols = await broker.getTradableAssets();
 
         // Limit to top 100 assets for performance
         tradableSymbols = tradableSymbols.slice(0, 100);
@@ -109,7 +133,7 @@ const jobProcessors = {
       wsManager?.broadcastAIPipelineUpdate('asset_selection', 'started', {}, correlationId);
 
       // Get dynamic list of tradable assets
-      const availableAssets = await alpacaService.getTradableAssets();
+      const availableAssets = await broker.getTradableAssets();
       // Limit to top 100 for performance
       const limitedAssets = availableAssets.slice(0, 100);
 
@@ -170,7 +194,12 @@ const jobProcessors = {
       for (const asset of selectedAssets.slice(0, 1)) { // Generate strategy for top asset
         const marketData = await tradingService.getMarketData([asset.symbol]);
         const strategy = await generateTradingStrategy(asset.symbol, marketData[0]);
-        strategies.push(strategy);
+        strategies.push({
+          ...strategy,
+          // The model may omit or invent a bar size; fall back to daily bars
+          timeframe: isTimeframe(strategy.timeframe) ? strategy.timeframe : DEFAULT_TIMEFRAME,
+          promptVersion: STRATEGY_PROMPT_VERSION
+        });
       }
 
       await storage.createAiDecision({
@@ -214,41 +243,96 @@ const jobProcessors = {
     const { correlationId, strategies } = job.data;
 
     try {
-      console.log(`[${correlationId}] Starting strategy validation`);
+      const validationProfile = getValidationProfile(
+        job.data.validationProfile || process.env.VALIDATION_PROFILE || DEFAULT_VALIDATION_PROFILE
+      );
+      console.log(`[${correlationId}] Starting strategy validation with the '${validationProfile.name}' profile`);
 
-      wsManager?.broadcastAIPipelineUpdate('validation', 'started', {}, correlationId);
+      wsManager?.broadcastAIPipelineUpdate('validation', 'started', { validationProfile: validationProfile.name }, correlationId);
 
       const validatedStrategies = [];
+      const rejectedStrategies = [];
+
+      for (const original of strategies) {
+        // Lint the rules before spending a backtest on them; unparseable rules never fire
+        let strategy = original;
+        let ruleValidation = validateRules(strategy.entryRules, strategy.exitRules);
+        let repairAttempts = 0;
+
+        while (!ruleValidation.valid && repairAttempts < MAX_RULE_REPAIR_ATTEMPTS) {
+          repairAttempts++;
+          const validationErrors = formatRuleValidationErrors(ruleValidation);
+          console.log(`[${correlationId}] Rules for ${strategy.symbol} failed validation, requesting repair (attempt ${repairAttempts}):\n${validationErrors}`);
+
+          try {
+            const repaired = await repairStrategyRules(strategy, validationErrors);
+            strategy = { ...strategy, entryRules: repaired.entryRules, exitRules: repaired.exitRules };
+          } catch (error: any) {
+            console.error(`[${correlationId}] Rule repair failed for ${strategy.symbol}:`, error);
+            break;
+          }
+          ruleValidation = validateRules(strategy.entryRules, strategy.exitRules);
+        }
 
-      for (const strategy of strategies) {
-        // Run backtest
-        const backtestResult = await tradingService.backtestStrategy(
-          strategy.symbol,
-          strategy.entryRules,
-          strategy.exitRules,
-          new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
-          new Date()
-        );
+        if (!ruleValidation.valid) {
+          rejectedStrategies.push({
+            name: strategy.name,
+            symbol: strategy.symbol,
+            entryRules: strategy.entryRules,
+            exitRules: strategy.exitRules,
+            rejectionReason: 'invalid_rules',
+            ruleValidation,
+            repairAttempts
+          });
+          continue;
+        }
+
+        // Backtest on rolling in-sample/out-of-sample windows, warmed up for the rules' indicators
+        const validation = await tradingService.validateStrategy(strategy, validationProfile, {
+          warmupBars: ruleValidation.warmupBars
+        });
+        const walkForward = {
+          accepted: validation.accepted,
+          failures: validation.failures,
+          windows: validation.windows,
+          stability: validation.stability,
+          monteCarlo: validation.monteCarlo,
+          dataset: validation.dataset
+        };
 
-        // Validate performance (simplified criteria)
-        if (backtestResult.totalReturn > 0.02 && backtestResult.winRate > 0.6) {
-          validatedStrategies.push({
-            ...strategy,
-            backtestResult,
-            validated: true
+        if (!validation.accepted) {
+          rejectedStrategies.push({
+            name: strategy.name,
+            symbol: strategy.symbol,
+            entryRules: strategy.entryRules,
+            exitRules: strategy.exitRules,
+            rejectionReason: 'performance',
+            walkForward,
+            repairAttempts
           });
+          continue;
         }
+
+        validatedStrategies.push({
+          ...strategy,
+          backtestResult: validation.fullPeriod,
+          validationProfile: validationProfile.name,
+          walkForward,
+          ruleValidation,
+          repairAttempts,
+          validated: true
+        });
       }
 
       await storage.createAiDecision({
         correlationId,
         stage: 'validation',
-        input: { strategies },
-        output: { validatedStrategies },
+        input: { strategies, validationProfile: validationProfile.name },
+        output: { validationProfile, validatedStrategies, rejectedStrategies },
         status: 'success'
       });
 
-      wsManager?.broadcastAIPipelineUpdate('validation', 'completed', { validatedStrategies }, correlationId);
+      wsManager?.broadcastAIPipelineUpdate('validation', 'completed', { validatedStrategies, rejectedStrategies }, correlationId);
 
       // Publish to Redis
       await publishSystemEvent('STRATEGY_VALIDATION_COMPLETE', correlationId, { validatedStrategies });
@@ -286,21 +370,63 @@ const jobProcessors = {
       wsManager?.broadcastAIPipelineUpdate('staging', 'started', {}, correlationId);
 
       const stagedStrategies = [];
+      const rejectedStrategies = [];
 
       for (const strategy of validatedStrategies) {
+        // Live entries are sized from these, so out-of-range values are never staged
+        const riskParameters = riskParametersSchema.safeParse(strategy.riskParameters ?? {});
+        if (!riskParameters.success) {
+          const reason = riskParameters.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+          console.warn(`[${correlationId}] Not staging ${strategy.name}: invalid risk parameters (${reason})`);
+          rejectedStrategies.push({
+            name: strategy.name,
+            symbol: strategy.symbol,
+            riskParameters: strategy.riskParameters,
+            rejectionReason: 'invalid_risk_parameters',
+            errors: reason
+          });
+          continue;
+        }
+
         // Store strategy in database
-        const dbStrategy = await storage.createStrategy({
+        const created = await storage.createStrategy({
           name: strategy.name,
           symbol: strategy.symbol,
           entryRules: strategy.entryRules,
           exitRules: strategy.exitRules,
-          riskParameters: strategy.riskParameters,
+          timeframe: strategy.timeframe ?? DEFAULT_TIMEFRAME,
+          riskParameters: riskParameters.data,
           backtestResults: strategy.backtestResult,
           confidence: strategy.confidence?.toString() || '0.8',
           status: 'staged',
           correlationId,
           aiMetadata: strategy
         });
+        // Version 1 is what live execution runs until the strategy is edited
+        const { strategy: dbStrategy, version } = await strategyVersions.createInitialVersion(
+          created,
+          aiAuthor(created),
+          'Generated by the AI pipeline'
+        );
+
+        // Full-period validation backtest, kept as the strategy's first run
+        if (strategy.backtestResult) {
+          const run = await storage.createBacktestRun(toBacktestRunRow({
+            source: 'ai_validation',
+            symbol: strategy.symbol,
+            timeframe: strategy.timeframe ?? DEFAULT_TIMEFRAME,
+            entryRules: strategy.entryRules,
+            exitRules: strategy.exitRules,
+            request: {
+              validationProfile: strategy.validationProfile,
+              riskParameters: riskParameters.data
+            },
+            result: strategy.backtestResult,
+            dataset: strategy.walkForward?.dataset,
+            lineage: strategyLineage(dbStrategy)
+          }));
+          await storage.updateStrategyVersion(version.id, { backtestRunId: run.id });
+        }
 
         stagedStrategies.push(dbStrategy);
       }
@@ -309,7 +435,7 @@ const jobProcessors = {
         correlationId,
         stage: 'staging',
         input: { validatedStrategies },
-        output: { stagedStrategies: stagedStrategies.map(s => s.id) },
+        output: { stagedStrategies: stagedStrategies.map(s => s.id), rejectedStrategies },
         status: 'success'
       });
 
@@ -372,58 +498,320 @@ const jobProcessors = {
       wsManager?.broadcastAIPipelineUpdate('execution', 'failed', { error: error.message }, correlationId);
       throw error;
     }
+  },
+
+  [QUEUE_NAMES.OPTIMIZATION]: async (job: Job) => {
+    const { correlationId, optimizationJobId, request, startDate, endDate } = job.data;
+
+    try {
+      console.log(`[${correlationId}] Starting ${request.method} parameter sweep for ${request.symbol}`);
+      await storage.updateOptimizationJob(optimizationJobId, { status: 'running' });
+      wsManager?.broadcastAIPipelineUpdate('optimization', 'started', { optimizationJobId }, correlationId);
+
+      const result = await tradingService.optimizeStrategy(request, new Date(startDate), new Date(endDate));
+
+      // Every run is stored, not just the winners, so the search can be audited
+      await storage.createOptimizationRuns(result.runs.map(run => ({
+        jobId: optimizationJobId,
+        params: run.params,
+        entryRules: run.entryRules,
+        exitRules: run.exitRules,
+        metrics: run.metrics,
+        rank: run.rank,
+        error: run.error
+      })));
+
+      const summary = {
+        objective: result.objective,
+        barsProcessed: result.barsProcessed,
+        totalRuns: result.runs.length,
+        heatmap: result.heatmap,
+        multipleTesting: result.multipleTesting,
+        dataset: result.dataset
+      };
+      await storage.updateOptimizationJob(optimizationJobId, {
+        status: 'completed',
+        summary,
+        completedAt: new Date()
+      });
+
+      wsManager?.broadcastAIPipelineUpdate('optimization', 'completed', {
+        optimizationJobId,
+        totalRuns: result.runs.length,
+        warning: result.multipleTesting?.warning ?? null
+      }, correlationId);
+
+      await publishSystemEvent('PARAMETER_SWEEP_COMPLETED', correlationId, {
+        optimizationJobId,
+        totalRuns: result.runs.length,
+        deflatedSharpe: result.multipleTesting?.deflatedSharpe ?? null
+      });
+
+      console.log(`[${correlationId}] Parameter sweep completed with ${result.runs.length} runs`);
+
+      return { optimizationJobId, totalRuns: result.runs.length };
+    } catch (error: any) {
+      console.error(`[${correlationId}] Parameter sweep failed:`, error);
+      await storage.updateOptimizationJob(optimizationJobId, {
+        status: 'failed',
+        errorMessage: error.message,
+        completedAt: new Date()
+      });
+      wsManager?.broadcastAIPipelineUpdate('optimization', 'failed', { error: error.message }, correlationId);
+      throw error;
+    }
+  },
+
+  [QUEUE_NAMES.RECONCILIATION]: async (job: Job) => {
+    const { correlationId } = job.data;
+    const run = await reconciliation.run('manual');
+    console.log(`[${correlationId}] Reconciliation ${run.status}: ${run.issueCount} issues, ${run.healedCount} healed`);
+    return { reconciliationRunId: run.id, status: run.status };
   }
 };
 
-// Execute staged trades
+// Place the entry a strategy's evaluation calls for. Returns whether an order was placed.
+async function enterOnEvaluation(
+  strategy: Strategy,
+  version: StrategyVersion,
+  evaluation: Pick<StrategyEvaluation, 'shouldEnter' | 'confidence'>,
+  correlationId: string
+): Promise<boolean> {
+  if (!evaluation.shouldEnter || evaluation.confidence <= 0.7) return false;
+
+  const riskParameters = riskParametersSchema.safeParse(version.riskParameters ?? {});
+  if (!riskParameters.success) {
+    console.warn(`[${correlationId}] Not entering ${strategy.symbol}: version ${version.version} has invalid risk parameters`);
+    return false;
+  }
+
+  // Size from the version's maxPositionSize percent, within what the account can pay for
+  const [referencePrice, account] = await Promise.all([broker.getCurrentPrice(strategy.symbol), broker.getAccount()]);
+  const quantity = riskParameterQuantity(riskParameters.data, account.portfolio_value, referencePrice, account.buying_power);
+  if (quantity < 1) {
+    console.warn(`[${correlationId}] Not entering ${strategy.symbol}: ${quantity} shares at ${referencePrice} within buying power ${account.buying_power}`);
+    return false;
+  }
+
+  // Execute trade; the version's stop-loss and take-profit ride along as a bracket
+  const orderRequest = {
+    symbol: strategy.symbol,
+    quantity,
+    side: 'buy' as const,
+    type: 'market' as const,
+    correlationId: strategy.correlationId || undefined,
+    strategyId: strategy.id,
+    strategyName: strategy.name,
+    aiReasoning: `AI confidence: ${evaluation.confidence} (strategy version ${version.version})`,
+    ...bracketFromRiskParameters('buy', referencePrice, riskParameters.data)
+  };
+
+  // Positions and the trade broadcast follow from the fills the order lifecycle books
+  const order = await tradingService.executeOrder(orderRequest);
+  if (order.status === 'rejected') {
+    console.warn(`[${correlationId}] Order for ${strategy.symbol} was rejected by the broker`);
+    return false;
+  }
+
+  // Update strategy status
+  await storage.updateStrategy(strategy.id, { status: 'active' });
+
+  console.log(`[${correlationId}] Placed order ${order.id} for ${strategy.symbol} on strategy version ${version.version}`);
+  return true;
+}
+
+// Sell an active strategy's position when its exit rules fire. Returns whether an order was placed.
+async function exitOnEvaluation(
+  strategy: Strategy,
+  version: StrategyVersion,
+  evaluation: Pick<StrategyEvaluation, 'shouldExit'>,
+  correlationId: string
+): Promise<boolean> {
+  if (!evaluation.shouldExit) return false;
+
+  const order = await tradingService.closeStrategyPosition(
+    strategy,
+    `Exit rules met (strategy version ${version.version})`
+  );
+  if (!order) return false;
+  if (order.status === 'rejected') {
+    console.warn(`[${correlationId}] Exit order for ${strategy.symbol} was rejected by the broker`);
+    return false;
+  }
+
+  // Closed out; activating the strategy again stages it for a new entry
+  await storage.updateStrategy(strategy.id, { status: 'completed' });
+
+  console.log(`[${correlationId}] Placed exit order ${order.id} for ${strategy.symbol} on strategy version ${version.version}`);
+  return true;
+}
+
+// Staged strategies enter and active ones exit on their evaluation
+function actOnEvaluation(
+  strategy: Strategy,
+  version: StrategyVersion,
+  evaluation: Pick<StrategyEvaluation, 'shouldEnter' | 'shouldExit' | 'confidence'>,
+  correlationId: string
+): Promise<boolean> {
+  return strategy.status === 'active'
+    ? exitOnEvaluation(strategy, version, evaluation, correlationId)
+    : enterOnEvaluation(strategy, version, evaluation, correlationId);
+}
+
+// Staged and active strategies as of the last execution tick, which streamed bars are evaluated for
+let streamedStrategies: { strategy: Strategy; version: StrategyVersion }[] = [];
+
+// Enter staged strategies and exit active ones whose rules fire
 async function executeStagedTrades(correlationId: string) {
   try {
     const stagedStrategies = await storage.getStrategies('staged');
+    const activeStrategies = await storage.getStrategies('active');
+
+    // Free evaluator history for strategies that left staged/active
+    const evicted = evaluatorContexts.retainStrategies(
+      [...stagedStrategies, ...activeStrategies].map(s => s.id)
+    );
+    if (evicted > 0) {
+      console.log(`[${correlationId}] Evicted ${evicted} evaluator contexts`);
+    }
 
-    for (const strategy of stagedStrategies) {
-      const marketData = await tradingService.getMarketData([strategy.symbol]);
-      const evaluation = await tradingService.evaluateStrategy(
-        strategy.symbol,
-        strategy.entryRules,
-        strategy.exitRules,
-        marketData[0]
-      );
+    const targets: typeof streamedStrategies = [];
+    for (const strategy of [...stagedStrategies, ...activeStrategies]) {
+      // Execution runs the pinned version's rules, on closed bars of its timeframe only
+      const version = await strategyVersions.liveVersion(strategy);
+      const evaluation = await tradingService.evaluateOnBarClose(executionTarget(strategy, version));
+      if (evaluation && (await actOnEvaluation(strategy, version, evaluation, correlationId))) continue;
+      targets.push({ strategy, version });
+    }
+    streamedStrategies = targets;
+  } catch (error) {
+    console.error(`[${correlationId}] Error executing staged trades:`, error);
+  }
+}
 
-      if (evaluation.shouldEnter && evaluation.confidence > 0.7) {
-        // Execute trade
-        const orderRequest = {
-          symbol: strategy.symbol,
-          quantity: 100, // This should come from risk parameters
-          side: 'buy' as const,
-          type: 'market' as const,
-          correlationId: strategy.correlationId || undefined,
-          strategyName: strategy.name,
-          aiReasoning: `AI confidence: ${evaluation.confidence}`
-        };
+// Checks for closed bars this often; each strategy is evaluated once per bar of its timeframe
+const EXECUTION_TICK_MS = parseInt(process.env.EXECUTION_TICK_MS || '15000');
+let executionLoop: NodeJS.Timeout | null = null;
+let executionTickRunning = false;
 
-        const orderResult = await tradingService.executeOrder(orderRequest);
-        
-        // For now, use fallback price since executeOrder returns boolean
-        const executedPrice = await alpacaService.getCurrentPrice(strategy.symbol);
+function startExecutionLoop() {
+  executionLoop = setInterval(async () => {
+    // A slow tick (seeding, catching up after downtime) must not overlap the next
+    if (executionTickRunning) return;
+    executionTickRunning = true;
+    try {
+      await refreshStreamedSymbols();
+      if ((await BotStateManager.getBotState()) === 'running') {
+        await executeStagedTrades(`tick_${Date.now()}`);
+      }
+    } catch (error) {
+      console.error('Execution loop tick failed:', error);
+    } finally {
+      executionTickRunning = false;
+    }
+  }, EXECUTION_TICK_MS);
+}
 
-        // Update strategy status
-        await storage.updateStrategy(strategy.id, { status: 'active' });
+// Open orders are checked with the broker this often, whether or not the bot is running
+const ORDER_POLL_MS = parseInt(process.env.ORDER_POLL_MS || '5000');
+// While trade updates stream in, polling only backs up updates that failed to apply
+const ORDER_POLL_STREAMING_MS = parseInt(process.env.ORDER_POLL_STREAMING_MS || '60000');
+let orderPoller: NodeJS.Timeout | null = null;
+let orderPollRunning = false;
+let lastOrderPoll = 0;
+
+async function pollOrders() {
+  if (orderPollRunning) return;
+  orderPollRunning = true;
+  lastOrderPoll = Date.now();
+  try {
+    const summary = await orderLifecycle.pollOpenOrders();
+    if (summary.updated > 0 || summary.failed > 0) {
+      console.log(`Order poll: ${summary.updated} of ${summary.checked} open orders updated, ${summary.failed} failed`);
+    }
+  } catch (error) {
+    console.error('Order poll failed:', error);
+  } finally {
+    orderPollRunning = false;
+  }
+}
 
-        wsManager?.broadcastTradeExecution({
-          strategy: strategy.name,
-          symbol: strategy.symbol,
-          side: 'buy',
-          quantity: 100,
-          price: executedPrice,
-          correlationId: strategy.correlationId
-        });
+function startOrderPoller() {
+  orderPoller = setInterval(async () => {
+    if (marketStream.isConnected('trade_updates') && Date.now() - lastOrderPoll < ORDER_POLL_STREAMING_MS) return;
+    await pollOrders();
+  }, ORDER_POLL_MS);
+}
 
-        console.log(`[${correlationId}] Executed trade for ${strategy.symbol}`);
+// Streamed prices are relayed to the server at most this often per symbol
+const PRICE_RELAY_MS = parseInt(process.env.PRICE_RELAY_MS || '1000');
+const priceRelayedAt = new Map<string, number>();
+
+// The server pushes relayed stream events to dashboard clients
+async function relayStreamEvent(event: RelayedStreamEvent) {
+  try {
+    await redisClient.publish(MARKET_STREAM_CHANNEL, JSON.stringify(event));
+  } catch (error) {
+    console.error(`Failed to relay streamed ${event.type} update:`, error);
+  }
+}
+
+// Trade updates drive the order lifecycle and streamed bars the strategy evaluator;
+// the order poller and the execution loop cover whatever the stream misses
+const marketStream = new MarketStream(marketStreamConfig(), {
+  async onTradeUpdate(brokerOrder) {
+    const order = await orderLifecycle.handleOrderUpdate(brokerOrder);
+    if (order) {
+      await relayStreamEvent({ type: 'order', data: order });
+    }
+  },
+
+  async onBar(symbol, bar) {
+    const candidates = streamedStrategies.filter(({ strategy }) => strategy.symbol === symbol);
+    if (candidates.length === 0 || (await BotStateManager.getBotState()) !== 'running') return;
+
+    const correlationId = `stream_${Date.now()}`;
+    for (const { strategy, version } of candidates) {
+      const evaluation = await evaluatorContexts.ingestStreamedBar(executionTarget(strategy, version), bar);
+      if (evaluation && (await actOnEvaluation(strategy, version, evaluation, correlationId))) {
+        streamedStrategies = streamedStrategies.filter((target) => target.strategy.id !== strategy.id);
       }
     }
-  } catch (error) {
-    console.error(`[${correlationId}] Error executing staged trades:`, error);
+  },
+
+  async onPrice(update) {
+    const last = priceRelayedAt.get(update.symbol) ?? 0;
+    if (Date.now() - last < PRICE_RELAY_MS) return;
+    priceRelayedAt.set(update.symbol, Date.now());
+    await relayStreamEvent({ type: 'price', data: update });
+  },
+
+  async onConnected(stream) {
+    // Catch up on whatever happened while the stream was down
+    if (stream === 'trade_updates') {
+      await pollOrders();
+    } else {
+      evaluatorContexts.discardFormingBars();
+    }
   }
+});
+
+// Stream the symbols of staged and active strategies, held positions and open orders
+async function refreshStreamedSymbols() {
+  if (!marketStream.getStatus().enabled) return;
+
+  const [staged, active, positions, openOrders] = await Promise.all([
+    storage.getStrategies('staged'),
+    storage.getStrategies('active'),
+    storage.getPositionsHeldSince(new Date()),
+    storage.getOrders({ statuses: OPEN_ORDER_STATUSES, limit: 500 })
+  ]);
+  marketStream.setSymbols([
+    ...staged.map((strategy) => strategy.symbol),
+    ...active.map((strategy) => strategy.symbol),
+    ...positions.filter((position) => position.isOpen).map((position) => position.symbol),
+    ...openOrders.map((order) => order.symbol)
+  ]);
 }
 
 // Initialize worker
@@ -459,6 +847,12 @@ export async function initializeWorker() {
     console.log(`Job ${job.id} started: ${job.name}`);
   });
 
+  startExecutionLoop();
+  startOrderPoller();
+  marketStream.start();
+  reconciliation.start();
+  refreshStreamedSymbols().catch((error) => console.error('Failed to set streamed symbols:', error));
+
   console.log('BullMQ worker initialized and ready to process jobs');
 }
 
@@ -466,6 +860,19 @@ export async function initializeWorker() {
 export async function shutdownWorker() {
   console.log('Shutting down worker...');
 
+  if (executionLoop) {
+    clearInterval(executionLoop);
+    executionLoop = null;
+  }
+
+  if (orderPoller) {
+    clearInterval(orderPoller);
+    orderPoller = null;
+  }
+
+  marketStream.stop();
+  reconciliation.stop();
+
   if (worker) {
     await worker.close();
   }
@@ -487,7 +894,8 @@ export async function getWorkerHealth() {
     return {
       status: 'healthy',
       isRunning,
-      queueStats: stats
+      queueStats: stats,
+      marketStream: marketStream.getStatus()
     };
   } catch (error: any) {
     return {
@@ -0,0 +1,116 @@
+import { z } from "zod";
+
+// Backtest request contract shared by the API (POST /api/backtest/run) and the
+// client. The server parses requests with backtestRequestSchema and hands the
+// parsed BacktestRequest to the engine as is.
+
+export const TIMEFRAMES = ["1Min", "5Min", "15Min", "1Hour", "1Day"] as const;
+export type Timeframe = (typeof TIMEFRAMES)[number];
+
+// Bars in a year of regular US sessions, used to annualize per-bar returns.
+// A 9:30-16:00 session spans seven hourly bars.
+export const BARS_PER_YEAR: Record<Timeframe, number> = {
+  "1Min": 252 * 390,
+  "5Min": 252 * 78,
+  "15Min": 252 * 26,
+  "1Hour": 252 * 7,
+  "1Day": 252,
+};
+
+export const timeframeSchema = z.enum(TIMEFRAMES);
+
+export const symbolSchema = z
+  .string()
+  .min(1)
+  .max(10)
+  .regex(/^[A-Z]+$/, "Symbol must be uppercase letters only");
+
+// A rule in the strategy DSL, or a list of DSL conditions joined by one operator
+export const ruleSourceSchema = z.union([
+  z.string().min(1, "Rule is required").max(2000),
+  z.object({
+    conditions: z.array(z.string().min(1).max(500)).min(1, "At least one condition required").max(20),
+    combine: z.enum(["AND", "OR"]).optional().default("AND"),
+    // Informational only; the engine reads indicators from the conditions
+    indicators: z.array(z.string()).optional(),
+  }),
+]);
+
+// Omitted fields keep the frictionless defaults
+export const fillModelSchema = z.object({
+  commissionPerShare: z.number().min(0).optional(),
+  commissionPercent: z.number().min(0).max(0.1).optional(),
+  slippage: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("fixed"), percent: z.number().min(0).max(0.1) }),
+    z.object({ type: z.literal("volatility"), rangeFraction: z.number().min(0).max(1) }),
+  ]).optional(),
+  spreadPercent: z.number().min(0).max(0.1).optional(),
+  fillAt: z.enum(["close", "next_open"]).optional(),
+  maxVolumePercent: z.number().positive().max(1).nullable().optional(),
+});
+
+export const positionSizingSchema = z.discriminatedUnion("method", [
+  z.object({ method: z.literal("fixed_quantity"), quantity: z.number().int().positive() }),
+  z.object({ method: z.literal("percent_of_equity"), percent: z.number().positive().max(1) }),
+  z.object({ method: z.literal("equal_weight") }),
+  // Each strategy's riskParameters.maxPositionSize percent of equity
+  z.object({ method: z.literal("risk_parameters") }),
+]);
+
+// Percentages (5 = 5%): maxPositionSize of equity, the rest of the entry price
+export const riskParametersSchema = z.object({
+  maxPositionSize: z.number().positive().max(100).optional(),
+  stopLoss: z.number().positive().max(100).optional(),
+  takeProfit: z.number().positive().max(1000).optional(),
+  trailingStop: z.number().positive().max(100).optional(),
+});
+
+// Monte Carlo resampling of a backtest's closed trades
+export const monteCarloOptionsSchema = z.object({
+  simulations: z.number().int().positive().max(10000).optional(),
+  method: z.enum(["shuffle", "bootstrap"]).optional(),
+  seed: z.number().int().optional(),
+});
+
+export const DEFAULT_BACKTEST_DAYS = 30;
+
+export const backtestRequestSchema = z.object({
+  symbol: symbolSchema,
+  // Links the persisted run to a stored strategy and its AI lineage
+  strategyId: z.string().optional(),
+  entryRules: ruleSourceSchema,
+  exitRules: ruleSourceSchema,
+  // Defaults to the last DEFAULT_BACKTEST_DAYS days
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  timeframe: timeframeSchema.optional().default("1Day"),
+  initialCapital: z.number().positive().optional().default(100000),
+  sizing: positionSizingSchema.optional().default({ method: "fixed_quantity", quantity: 100 }),
+  riskParameters: riskParametersSchema.optional(),
+  fillModel: fillModelSchema.optional(),
+  // Defaults to BENCHMARK_SYMBOL (SPY) on the server
+  benchmark: symbolSchema.optional(),
+  monteCarlo: monteCarloOptionsSchema.optional(),
+}).refine((data) => {
+  if (data.startDate && data.endDate) {
+    return new Date(data.startDate) < new Date(data.endDate);
+  }
+  return true;
+}, {
+  message: "Start date must be before end date",
+});
+
+export type RuleSource = z.input<typeof ruleSourceSchema>;
+export type PositionSizing = z.infer<typeof positionSizingSchema>;
+// What clients send; optional fields may be left out
+export type BacktestRequestInput = z.input<typeof backtestRequestSchema>;
+// What the engine receives, with defaults filled in
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>;
+
+// Structured conditions are parenthesized so OR inside one cannot leak out
+export function ruleSourceToString(source: RuleSource): string {
+  if (typeof source === "string") return source;
+  const conditions = source.conditions.map((condition) => condition.trim());
+  if (conditions.length === 1) return conditions[0];
+  return conditions.map((condition) => `(${condition})`).join(` ${source.combine ?? "AND"} `);
+}
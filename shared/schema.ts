@@ -9,6 +9,8 @@ import {
   boolean,
   jsonb,
   uuid,
+  bigint,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -89,13 +91,16 @@ export const strategies = pgTable("strategies", {
   symbol: text("symbol").notNull(),
   entryRules: text("entry_rules").notNull(),
   exitRules: text("exit_rules").notNull(),
+  timeframe: text("timeframe").notNull().default("1Day"), // bar size the rules are evaluated on
   riskParameters: jsonb("risk_parameters"),
   backtestResults: jsonb("backtest_results"),
   confidence: decimal("confidence", { precision: 5, scale: 2 }),
-  status: text("status").default("staged"), // 'staged', 'active', 'completed', 'failed'
+  status: text("status").default("staged"), // STRATEGY_STATUSES in shared/strategies.ts
   createdAt: timestamp("created_at").defaultNow(),
   correlationId: text("correlation_id"),
   aiMetadata: jsonb("ai_metadata"),
+  // strategy_versions row live execution runs; the rule columns above mirror it
+  versionId: varchar("version_id"),
 });
 
 export const aiDecisions = pgTable("ai_decisions", {
@@ -184,9 +189,216 @@ export const riskMetrics = pgTable("risk_metrics", {
   profitFactor: decimal("profit_factor", { precision: 15, scale: 6 }),
   averageReturn: decimal("average_return", { precision: 15, scale: 6 }),
   totalReturn: decimal("total_return", { precision: 15, scale: 6 }),
+  // "backtest" or "live"; one row per symbol and source
+  source: text("source").notNull().default("live"),
+  benchmark: text("benchmark"),
+  informationRatio: decimal("information_ratio", { precision: 15, scale: 6 }),
+  trackingError: decimal("tracking_error", { precision: 15, scale: 6 }),
+  upCapture: decimal("up_capture", { precision: 15, scale: 6 }),
+  downCapture: decimal("down_capture", { precision: 15, scale: 6 }),
+  sortinoRatio: decimal("sortino_ratio", { precision: 15, scale: 6 }),
+  calmarRatio: decimal("calmar_ratio", { precision: 15, scale: 6 }),
+  expectancy: decimal("expectancy", { precision: 15, scale: 6 }),
+  averageHoldingPeriod: decimal("average_holding_period", { precision: 15, scale: 6 }),
+  exposureTime: decimal("exposure_time", { precision: 15, scale: 6 }),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Historical bars cached for backtesting, one row per symbol/timeframe/bar
+export const marketBars = pgTable(
+  "market_bars",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    symbol: text("symbol").notNull(),
+    timeframe: text("timeframe").notNull(), // '1Min', '5Min', '15Min', '1Hour', '1Day'
+    timestamp: timestamp("timestamp").notNull(),
+    open: decimal("open", { precision: 15, scale: 6 }).notNull(),
+    high: decimal("high", { precision: 15, scale: 6 }).notNull(),
+    low: decimal("low", { precision: 15, scale: 6 }).notNull(),
+    close: decimal("close", { precision: 15, scale: 6 }).notNull(),
+    volume: bigint("volume", { mode: "number" }).notNull(),
+    source: text("source").notNull(), // 'alpaca', 'simulated', 'csv'
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("market_bars_symbol_timeframe_timestamp_idx").on(
+      table.symbol,
+      table.timeframe,
+      table.timestamp
+    ),
+  ]
+);
+
+// Date ranges already loaded into market_bars, including ranges with no bars
+// (weekends, holidays), so backfills only request what is missing
+export const marketBarRanges = pgTable("market_bar_ranges", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  symbol: text("symbol").notNull(),
+  timeframe: text("timeframe").notNull(),
+  start: timestamp("start").notNull(),
+  end: timestamp("end").notNull(),
+  source: text("source").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const optimizationJobs = pgTable("optimization_jobs", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  strategyId: varchar("strategy_id").references(() => strategies.id),
+  symbol: text("symbol").notNull(),
+  entryTemplate: text("entry_template").notNull(),
+  exitTemplate: text("exit_template").notNull(),
+  request: jsonb("request").notNull(), // full sweep request incl. parameter ranges
+  status: text("status").notNull().default("queued"), // 'queued', 'running', 'completed', 'failed'
+  summary: jsonb("summary"), // heatmap and multiple-testing report
+  errorMessage: text("error_message"),
+  correlationId: text("correlation_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const optimizationRuns = pgTable("optimization_runs", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id")
+    .references(() => optimizationJobs.id)
+    .notNull(),
+  params: jsonb("params").notNull(),
+  entryRules: text("entry_rules").notNull(),
+  exitRules: text("exit_rules").notNull(),
+  metrics: jsonb("metrics"),
+  rank: integer("rank"), // 1 = best; null when the rules did not validate
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One persisted backtest: inputs, the data it ran on, engine version and results.
+// Runs for a strategy over time show how rule revisions and prompt versions moved
+// its performance.
+export const backtestRuns = pgTable("backtest_runs", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  strategyId: varchar("strategy_id").references(() => strategies.id),
+  correlationId: text("correlation_id"), // AI pipeline run that produced the strategy
+  source: text("source").notNull(), // 'api', 'ai_validation'
+  symbol: text("symbol").notNull(),
+  timeframe: text("timeframe").notNull(),
+  entryRules: text("entry_rules").notNull(),
+  exitRules: text("exit_rules").notNull(),
+  request: jsonb("request").notNull(), // capital, sizing, risk, fill model, dates
+  datasetHash: text("dataset_hash"),
+  dataset: jsonb("dataset"),
+  engineVersion: text("engine_version").notNull(),
+  promptVersion: text("prompt_version"),
+  strategyVersionId: varchar("strategy_version_id"),
+  metrics: jsonb("metrics").notNull(),
+  equityCurve: jsonb("equity_curve").notNull(),
+  trades: jsonb("trades").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every edit of a strategy's rules, numbered per strategy. Versions are
+// immutable apart from their reason and linked backtest run; a rollback adds
+// a new version copying an older one.
+export const strategyVersions = pgTable(
+  "strategy_versions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    strategyId: varchar("strategy_id")
+      .notNull()
+      .references(() => strategies.id),
+    version: integer("version").notNull(),
+    name: text("name").notNull(),
+    entryRules: text("entry_rules").notNull(),
+    exitRules: text("exit_rules").notNull(),
+    timeframe: text("timeframe").notNull(),
+    riskParameters: jsonb("risk_parameters"),
+    authorType: text("author_type").notNull(), // 'ai', 'user'
+    author: text("author").notNull(), // prompt version for AI, username for users
+    reason: text("reason"),
+    diff: jsonb("diff").notNull(), // field changes from the parent version
+    parentVersionId: varchar("parent_version_id"), // previous, rollback target or fork source
+    backtestRunId: varchar("backtest_run_id").references(() => backtestRuns.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("strategy_versions_strategy_version_idx").on(
+      table.strategyId,
+      table.version
+    ),
+  ]
+);
+
+// Orders as submitted to the broker and tracked until they close. Bracket,
+// oto and oco legs are rows of their own pointing at their parent. Positions
+// and trade executions are written from the fills recorded here, never from
+// the submission itself.
+export const orders = pgTable(
+  "orders",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    brokerOrderId: text("broker_order_id").notNull(),
+    broker: text("broker").notNull(), // 'alpaca', 'simulated'
+    parentOrderId: varchar("parent_order_id"),
+    portfolioId: varchar("portfolio_id").references(() => portfolios.id),
+    strategyId: varchar("strategy_id").references(() => strategies.id),
+    symbol: text("symbol").notNull(),
+    side: text("side").notNull(), // 'buy' | 'sell'
+    type: text("type").notNull(), // 'market', 'limit', 'stop', 'stop_limit', 'trailing_stop'
+    orderClass: text("order_class").notNull().default("simple"),
+    timeInForce: text("time_in_force"),
+    quantity: integer("quantity").notNull(),
+    limitPrice: decimal("limit_price", { precision: 15, scale: 6 }),
+    stopPrice: decimal("stop_price", { precision: 15, scale: 6 }),
+    trailPrice: decimal("trail_price", { precision: 15, scale: 6 }),
+    trailPercent: decimal("trail_percent", { precision: 15, scale: 6 }),
+    // Price the order was expected to fill at, for slippage
+    expectedPrice: decimal("expected_price", { precision: 15, scale: 6 }),
+    status: text("status").notNull().default("new"), // 'new', 'partially_filled', 'filled', 'canceled', 'rejected', 'expired'
+    brokerStatus: text("broker_status"), // raw status last reported by the broker
+    filledQuantity: integer("filled_quantity").notNull().default(0),
+    filledAvgPrice: decimal("filled_avg_price", { precision: 15, scale: 6 }),
+    correlationId: text("correlation_id"),
+    submittedAt: timestamp("submitted_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+    closedAt: timestamp("closed_at"),
+  },
+  (table) => [
+    uniqueIndex("orders_broker_order_idx").on(table.broker, table.brokerOrderId),
+  ]
+);
+
+// One pass of diffing the broker's positions and cash against the local tables
+export const reconciliationRuns = pgTable("reconciliation_runs", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  trigger: text("trigger").notNull(), // 'schedule' | 'manual'
+  status: text("status").notNull(), // 'clean', 'healed', 'drift', 'failed'
+  broker: text("broker").notNull(),
+  issueCount: integer("issue_count").notNull().default(0),
+  healedCount: integer("healed_count").notNull().default(0),
+  // ReconciliationIssue[], see server/services/reconciliation.ts
+  issues: jsonb("issues").notNull(),
+  brokerCash: decimal("broker_cash", { precision: 15, scale: 2 }),
+  localCash: decimal("local_cash", { precision: 15, scale: 2 }),
+  error: text("error"),
+  correlationId: text("correlation_id"),
+  startedAt: timestamp("started_at").notNull(),
+  completedAt: timestamp("completed_at").defaultNow(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   portfolios: many(portfolios),
@@ -253,6 +465,55 @@ export const insertSystemHealthSchema = createInsertSchema(systemHealth).omit({
   lastCheck: true,
 });
 
+export const insertMarketBarSchema = createInsertSchema(marketBars).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMarketBarRangeSchema = createInsertSchema(
+  marketBarRanges
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOptimizationJobSchema = createInsertSchema(
+  optimizationJobs
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOptimizationRunSchema = createInsertSchema(
+  optimizationRuns
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBacktestRunSchema = createInsertSchema(backtestRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertStrategyVersionSchema = createInsertSchema(
+  strategyVersions
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOrderSchema = createInsertSchema(orders).omit({
+  id: true,
+  submittedAt: true,
+  updatedAt: true,
+});
+
+export const insertReconciliationRunSchema = createInsertSchema(reconciliationRuns).omit({
+  id: true,
+  completedAt: true,
+});
+
 export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
   id: true,
   createdAt: true,
@@ -282,6 +543,22 @@ export type TradeExecution = typeof tradeExecutions.$inferSelect;
 export type InsertTradeExecution = typeof tradeExecutions.$inferInsert;
 export type RiskMetric = typeof riskMetrics.$inferSelect;
 export type InsertRiskMetric = typeof riskMetrics.$inferInsert;
+export type MarketBarRow = typeof marketBars.$inferSelect;
+export type InsertMarketBar = z.infer<typeof insertMarketBarSchema>;
+export type MarketBarRange = typeof marketBarRanges.$inferSelect;
+export type InsertMarketBarRange = z.infer<typeof insertMarketBarRangeSchema>;
+export type OptimizationJob = typeof optimizationJobs.$inferSelect;
+export type InsertOptimizationJob = z.infer<typeof insertOptimizationJobSchema>;
+export type OptimizationRun = typeof optimizationRuns.$inferSelect;
+export type InsertOptimizationRun = z.infer<typeof insertOptimizationRunSchema>;
+export type BacktestRun = typeof backtestRuns.$inferSelect;
+export type InsertBacktestRun = z.infer<typeof insertBacktestRunSchema>;
+export type StrategyVersion = typeof strategyVersions.$inferSelect;
+export type InsertStrategyVersion = z.infer<typeof insertStrategyVersionSchema>;
+export type Order = typeof orders.$inferSelect;
+export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
+export type InsertReconciliationRun = z.infer<typeof insertReconciliationRunSchema>;
 
 // API Response Types
 export interface PortfolioStatus {
@@ -0,0 +1,73 @@
+import { z } from "zod";
+import type { AiDecision, BacktestRun, Strategy, StrategyVersion } from "./schema";
+
+// Strategy lifecycle shared by the API (/api/strategies) and the client.
+// Only staged strategies are entered by the execution loop; active ones hold
+// a position it opened.
+
+export const STRATEGY_STATUSES = [
+  "draft",
+  "staged",
+  "active",
+  "paused",
+  "retired",
+  "completed",
+  "failed",
+] as const;
+export type StrategyStatus = (typeof STRATEGY_STATUSES)[number];
+
+export const STRATEGY_ACTIONS = ["activate", "pause", "retire"] as const;
+export type StrategyAction = (typeof STRATEGY_ACTIONS)[number];
+
+export const strategyActionSchema = z.object({
+  action: z.enum(STRATEGY_ACTIONS),
+});
+
+// Statuses each action may be applied to
+export const STRATEGY_ACTION_SOURCES: Record<StrategyAction, readonly StrategyStatus[]> = {
+  activate: ["draft", "paused", "completed", "failed"],
+  pause: ["staged", "active"],
+  retire: ["draft", "staged", "active", "paused", "completed", "failed"],
+};
+
+export function canApplyStrategyAction(status: string | null, action: StrategyAction): boolean {
+  return (STRATEGY_ACTION_SOURCES[action] as readonly string[]).includes(status ?? "staged");
+}
+
+// Headline metrics of the newest backtest run, or of the AI validation
+// backtest for strategies staged before runs were stored
+export interface StrategyBacktestSummary {
+  runId: string | null;
+  source: string;
+  totalReturn: number | null;
+  sharpeRatio: number | null;
+  maxDrawdown: number | null;
+  winRate: number | null;
+  totalTrades: number | null;
+  createdAt: Date | string | null;
+}
+
+// P&L of the positions the strategy opened
+export interface StrategyPnL {
+  realized: number;
+  unrealized: number;
+  total: number;
+  openPositions: number;
+}
+
+// GET /api/strategies/summary
+export type StrategySummary = Strategy & {
+  backtest: StrategyBacktestSummary | null;
+  pnl: StrategyPnL;
+};
+
+// GET /api/strategies/:id
+export interface StrategyDetail {
+  strategy: StrategySummary;
+  // Null until a strategy from before versioning is activated or pinned
+  liveVersion: StrategyVersion | null;
+  versions: StrategyVersion[];
+  // The AI pipeline run that produced the strategy, oldest stage first
+  decisions: AiDecision[];
+  backtestRuns: Omit<BacktestRun, "equityCurve" | "trades">[];
+}
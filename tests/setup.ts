@@ -29,6 +29,19 @@ export const testUtils = {
     volume: 1000,
     ...overrides,
   }),
+  // One daily bar per close from 2024-01-01, ranging a dollar either side
+  createPriceSeries: (closes: number[]) => {
+    const start = new Date("2024-01-01T00:00:00Z").getTime();
+    return closes.map((close, i) =>
+      testUtils.createMockBar({
+        open: close,
+        high: close + 1,
+        low: close - 1,
+        close,
+        timestamp: new Date(start + i * 1000 * 60 * 60 * 24),
+      })
+    );
+  },
   createMockMarketData: (overrides = {}) => ({
     symbol: "AAPL",
     price: 150.0,
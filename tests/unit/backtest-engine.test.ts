@@ -0,0 +1,349 @@
+import { runBacktest, runPortfolioBacktest, checkRiskExit, riskParameterQuantity } from '../../server/services/backtest.js';
+import { riskParametersSchema } from '../../shared/backtest.js';
+import { testUtils } from '../setup.js';
+
+describe('runBacktest', () => {
+  // Oscillates between 90 and 110 so price rules fire several times
+  const oscillatingBars = testUtils.createPriceSeries(
+    Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 3) * 10)
+  );
+
+  it('should enter and exit on the strategy rules', () => {
+    const result = runBacktest(oscillatingBars, {
+      symbol: 'AAPL',
+      entryRules: 'PRICE < 95',
+      exitRules: 'PRICE > 105',
+    });
+
+    expect(result.totalTrades).toBeGreaterThan(0);
+    expect(result.barsProcessed).toBe(oscillatingBars.length);
+    for (const trade of result.trades) {
+      expect(trade.entryPrice).toBeLessThan(95);
+      expect(trade.entryRule).toBe('PRICE < 95');
+      if (trade.exitReason === 'rule') {
+        expect(trade.exitPrice).toBeGreaterThan(105);
+        expect(trade.exitRule).toBe('PRICE > 105');
+      }
+      expect(trade.exitTime.getTime()).toBeGreaterThan(trade.entryTime.getTime());
+      expect(trade.pnl).toBeCloseTo((trade.exitPrice - trade.entryPrice) * trade.quantity);
+    }
+    console.log('Rule-driven entries and exits verified');
+  });
+
+  it('should fire crossover rules once per cross', () => {
+    const result = runBacktest(oscillatingBars, {
+      symbol: 'AAPL',
+      entryRules: 'PRICE CROSSES_ABOVE 100',
+      exitRules: 'PRICE CROSSES_BELOW 100',
+    });
+
+    expect(result.totalTrades).toBeGreaterThan(1);
+    for (const trade of result.trades) {
+      expect(trade.entryRule).toBe('PRICE CROSSES_ABOVE 100');
+      expect(trade.entryPrice).toBeGreaterThan(100);
+      if (trade.exitReason === 'rule') {
+        expect(trade.exitPrice).toBeLessThan(100);
+      }
+    }
+    console.log('Crossover rules in backtest verified');
+  });
+
+  it('should produce identical results for the same bars and rules', () => {
+    const options = { symbol: 'AAPL', entryRules: 'PRICE < 95', exitRules: 'PRICE > 105' };
+    const first = runBacktest(oscillatingBars, options);
+    const second = runBacktest([...oscillatingBars].reverse(), options);
+
+    expect(second).toEqual(first);
+    console.log('Backtest determinism verified');
+  });
+
+  it('should not trade when entry rules never match', () => {
+    const result = runBacktest(oscillatingBars, {
+      symbol: 'AAPL',
+      entryRules: 'PRICE < 10',
+      exitRules: 'PRICE > 105',
+    });
+
+    expect(result.totalTrades).toBe(0);
+    expect(result.totalReturn).toBe(0);
+    expect(result.equityCurve).toHaveLength(oscillatingBars.length);
+    console.log('No-signal backtest verified');
+  });
+
+  it('should close open positions at the end of the data', () => {
+    const risingBars = testUtils.createPriceSeries(Array.from({ length: 10 }, (_, i) => 100 + i));
+    const result = runBacktest(risingBars, {
+      symbol: 'AAPL',
+      entryRules: 'PRICE > 0',
+      exitRules: 'PRICE < 0',
+      quantity: 10,
+    });
+
+    expect(result.totalTrades).toBe(1);
+    expect(result.trades[0].exitReason).toBe('end_of_data');
+    expect(result.trades[0].pnl).toBeCloseTo(90);
+    expect(result.totalReturn).toBeCloseTo(90 / 100000);
+    console.log('End-of-data position close verified');
+  });
+});
+
+describe('runPortfolioBacktest', () => {
+  const aaplBars = testUtils.createPriceSeries(Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 3) * 10));
+  const msftBars = testUtils.createPriceSeries(Array.from({ length: 60 }, (_, i) => 200 + Math.cos(i / 4) * 20));
+  const barsBySymbol = { AAPL: aaplBars, MSFT: msftBars };
+
+  const strategies = [
+    { id: 'aapl-mean-reversion', symbol: 'AAPL', entryRules: 'PRICE < 95', exitRules: 'PRICE > 105' },
+    { id: 'msft-mean-reversion', symbol: 'MSFT', entryRules: 'PRICE < 190', exitRules: 'PRICE > 210' }
+  ];
+
+  it('should share one cash balance across strategies', () => {
+    const result = runPortfolioBacktest(barsBySymbol, strategies, { initialCapital: 10000 });
+
+    expect(result.barsProcessed).toBe(60);
+    expect(result.exposureCurve).toHaveLength(60);
+    for (const point of result.exposureCurve) {
+      expect(point.cash).toBeGreaterThanOrEqual(0);
+      expect(point.exposure).toBeLessThanOrEqual(1);
+    }
+    expect(result.strategies.map(s => s.strategyId)).toEqual(['aapl-mean-reversion', 'msft-mean-reversion']);
+    expect(result.strategies.every(s => s.totalTrades > 0)).toBe(true);
+    console.log('Shared portfolio cash verified');
+  });
+
+  it('should attribute the total return to each strategy', () => {
+    const result = runPortfolioBacktest(barsBySymbol, strategies, { initialCapital: 10000 });
+
+    const contribution = result.strategies.reduce((sum, s) => sum + s.contribution, 0);
+    expect(contribution).toBeCloseTo(result.totalReturn);
+    for (const summary of result.strategies) {
+      const trades = result.trades.filter(t => t.strategyId === summary.strategyId);
+      expect(summary.totalTrades).toBe(trades.length);
+      expect(trades.every(t => t.symbol === summary.symbol)).toBe(true);
+    }
+    console.log('Strategy contribution verified');
+  });
+
+  it('should limit entries to the cash left by earlier strategies', () => {
+    const result = runPortfolioBacktest(
+      { AAPL: testUtils.createPriceSeries([100, 100, 100]) },
+      [
+        { id: 'first', symbol: 'AAPL', entryRules: 'PRICE > 0', exitRules: 'PRICE < 0' },
+        { id: 'second', symbol: 'AAPL', entryRules: 'PRICE > 0', exitRules: 'PRICE < 0' }
+      ],
+      { initialCapital: 10000, sizing: { method: 'percent_of_equity', percent: 0.7 } }
+    );
+
+    // Both strategies hold separate AAPL positions; the second gets what cash remains
+    expect(result.trades.map(t => [t.strategyId, t.quantity])).toEqual([
+      ['first', 70],
+      ['second', 30]
+    ]);
+    expect(result.exposureCurve[0]).toMatchObject({ cash: 0, openPositions: 2, exposure: 1 });
+    console.log('Cash-limited sizing verified');
+  });
+
+  it('should size positions from each strategy\'s risk parameters', () => {
+    const result = runPortfolioBacktest(
+      { AAPL: testUtils.createPriceSeries([100, 100]), MSFT: testUtils.createPriceSeries([200, 200]) },
+      [
+        { id: 'small', symbol: 'AAPL', entryRules: 'PRICE > 0', exitRules: 'PRICE < 0', riskParameters: { maxPositionSize: 5 } },
+        { id: 'default', symbol: 'MSFT', entryRules: 'PRICE > 0', exitRules: 'PRICE < 0' }
+      ],
+      { initialCapital: 100000, sizing: { method: 'risk_parameters' } }
+    );
+
+    expect(result.trades.map(t => t.quantity)).toEqual([50, 50]);
+    console.log('Risk-parameter sizing verified');
+  });
+
+  it('should read maxPositionSize as a percent of equity, capped at the buying power', () => {
+    // 10 means 10% of equity, not ten times it
+    expect(riskParameterQuantity({ maxPositionSize: 10 }, 100000, 100)).toBe(100);
+    expect(riskParameterQuantity({ maxPositionSize: 10 }, 100000, 100, 200000)).toBe(100);
+    expect(riskParameterQuantity(null, 100000, 150, 3000)).toBe(20);
+    expect(riskParameterQuantity(null, 100000, 150, 100)).toBe(0);
+
+    // Staging rejects sizes beyond the whole account
+    expect(riskParametersSchema.safeParse({ maxPositionSize: 10 }).success).toBe(true);
+    expect(riskParametersSchema.safeParse({ maxPositionSize: 1000 }).success).toBe(false);
+    expect(riskParametersSchema.safeParse({ maxPositionSize: 0 }).success).toBe(false);
+    console.log('Percent position sizing verified');
+  });
+
+  it('should report the correlation between strategy returns', () => {
+    const result = runPortfolioBacktest(
+      barsBySymbol,
+      [
+        strategies[0],
+        { ...strategies[0], id: 'aapl-copy' },
+        { id: 'idle', symbol: 'MSFT', entryRules: 'PRICE < 0', exitRules: 'PRICE > 0' }
+      ],
+      { initialCapital: 100000 }
+    );
+
+    expect(result.correlation.strategyIds).toEqual(['aapl-mean-reversion', 'aapl-copy', 'idle']);
+    expect(result.correlation.matrix[0][1]).toBeCloseTo(1);
+    expect(result.correlation.matrix[0][2]).toBeNull();
+    console.log('Strategy correlation verified');
+  });
+});
+
+describe('Backtest fill model', () => {
+  const risingBars = testUtils.createPriceSeries(Array.from({ length: 10 }, (_, i) => 100 + i));
+  const holdRules = { symbol: 'AAPL', entryRules: 'PRICE > 0', exitRules: 'PRICE < 0' };
+
+  it('should charge commission, spread and slippage on every fill', () => {
+    const result = runBacktest(risingBars, {
+      ...holdRules,
+      quantity: 10,
+      fillModel: {
+        commissionPerShare: 0.01,
+        spreadPercent: 0.002,
+        slippage: { type: 'fixed', percent: 0.001 }
+      }
+    });
+
+    const [trade] = result.trades;
+    // Buys pay half the spread plus slippage above the close, sells receive it below
+    expect(trade.entryPrice).toBeCloseTo(100.2);
+    expect(trade.exitPrice).toBeCloseTo(108.782);
+    expect(trade.commission).toBeCloseTo(0.2);
+    expect(trade.pnl).toBeCloseTo(10 * (108.782 - 100.2) - 0.2);
+    expect(result.executionCosts).toMatchObject({ fills: 2, partialFills: 0 });
+    expect(result.executionCosts.averageSlippage).toBeCloseTo(0.002);
+    expect(result.fillModel).toMatchObject({ commissionPerShare: 0.01, fillAt: 'close', maxVolumePercent: null });
+    console.log('Trading cost model verified');
+  });
+
+  it('should default to frictionless fills at the close', () => {
+    const result = runBacktest(risingBars, { ...holdRules, quantity: 10 });
+
+    expect(result.trades[0]).toMatchObject({ entryPrice: 100, exitPrice: 109, commission: 0 });
+    expect(result.executionCosts).toMatchObject({ commission: 0, slippage: 0, spread: 0, averageSlippage: 0 });
+    console.log('Default fill model verified');
+  });
+
+  it('should fill signals on the next bar open', () => {
+    const bars = risingBars.map(bar => ({ ...bar, open: bar.close - 0.5 }));
+    const result = runBacktest(bars, {
+      symbol: 'AAPL',
+      entryRules: 'PRICE > 102',
+      exitRules: 'PRICE > 106',
+      quantity: 10,
+      fillModel: { fillAt: 'next_open' }
+    });
+
+    const [trade] = result.trades;
+    // Entry signalled on the 103 close, filled at the next open
+    expect(trade.entryTime).toEqual(bars[4].timestamp);
+    expect(trade.entryPrice).toBe(103.5);
+    expect(trade.exitTime).toEqual(bars[8].timestamp);
+    expect(trade.exitPrice).toBe(107.5);
+    console.log('Next-bar-open fills verified');
+  });
+
+  it('should split orders that exceed the bar volume limit', () => {
+    const flatBars = testUtils.createPriceSeries(Array.from({ length: 6 }, () => 100));
+    const result = runBacktest(flatBars, {
+      ...holdRules,
+      quantity: 25,
+      fillModel: { maxVolumePercent: 0.01 }
+    });
+
+    // 1% of 1000 shares per bar: 10 + 10 + 5
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].quantity).toBe(25);
+    expect(result.executionCosts).toMatchObject({ fills: 4, partialFills: 2 });
+    expect(result.equityCurve[0].equity).toBe(100000);
+    console.log('Volume-limited partial fills verified');
+  });
+
+  it('should scale volatility slippage with the bar range', () => {
+    const wideBars = risingBars.map(bar => ({ ...bar, high: bar.close + 5, low: bar.close - 5 }));
+    const result = runBacktest(wideBars, {
+      ...holdRules,
+      quantity: 10,
+      fillModel: { slippage: { type: 'volatility', rangeFraction: 0.05 } }
+    });
+
+    // 5% of a 10-point range
+    expect(result.trades[0].entryPrice).toBeCloseTo(100.5);
+    expect(result.executionCosts.slippage).toBeCloseTo(10);
+    console.log('Volatility slippage verified');
+  });
+});
+
+describe('Backtest risk exits', () => {
+  const bar = (open: number, high: number, low: number, close: number) =>
+    testUtils.createMockBar({ open, high, low, close });
+  const position = { entryPrice: 100, highWater: 110 };
+
+  it('should trigger stops and targets inside the bar range', () => {
+    expect(checkRiskExit(position, bar(100, 101, 94, 96), { stopLoss: 5 })).toEqual({ reason: 'stop_loss', price: 95 });
+    const target = checkRiskExit(position, bar(100, 111, 99, 108), { takeProfit: 10 });
+    expect(target?.reason).toBe('take_profit');
+    expect(target?.price).toBeCloseTo(110);
+    expect(checkRiskExit(position, bar(100, 104, 96, 101), { stopLoss: 5, takeProfit: 10 })).toBeNull();
+    console.log('Intrabar stop and target checks verified');
+  });
+
+  it('should fill gaps through a level at the open', () => {
+    expect(checkRiskExit(position, bar(90, 92, 88, 91), { stopLoss: 5 })).toEqual({ reason: 'stop_loss', price: 90 });
+    expect(checkRiskExit(position, bar(115, 116, 113, 114), { takeProfit: 10 })).toEqual({ reason: 'take_profit', price: 115 });
+    console.log('Gap fills verified');
+  });
+
+  it('should assume the stop hits first when both levels are in range', () => {
+    const result = checkRiskExit(position, bar(100, 112, 94, 105), { stopLoss: 5, takeProfit: 10 });
+
+    expect(result).toEqual({ reason: 'stop_loss', price: 95 });
+    console.log('Same-bar resolution verified');
+  });
+
+  it('should use the tighter of the fixed and trailing stops', () => {
+    // Trailing level 110 * 0.95 = 104.5 sits above the fixed stop at 95
+    expect(checkRiskExit(position, bar(106, 107, 104, 105), { stopLoss: 5, trailingStop: 5 })).toEqual({
+      reason: 'trailing_stop',
+      price: 104.5
+    });
+    console.log('Trailing stop precedence verified');
+  });
+
+  it('should exit trades on risk parameters and break exits down by reason', () => {
+    const bars = testUtils.createPriceSeries([100, 102, 104, 106, 108, 110, 105, 100, 101]);
+    const result = runBacktest(bars, {
+      symbol: 'AAPL',
+      entryRules: 'PRICE > 0',
+      exitRules: 'PRICE < 0',
+      quantity: 10,
+      riskParameters: { stopLoss: 3, trailingStop: 4, takeProfit: 20 }
+    });
+
+    // High-water mark 111 trails to 106.56; the bar opens below it at 105
+    expect(result.trades.map(t => [t.exitReason, t.exitPrice])).toEqual([
+      ['trailing_stop', 105],
+      ['stop_loss', 100],
+      ['end_of_data', 101]
+    ]);
+    expect(result.exitBreakdown.trailing_stop).toEqual({ trades: 1, pnl: 50, winRate: 1 });
+    expect(result.exitBreakdown.stop_loss).toEqual({ trades: 1, pnl: -50, winRate: 0 });
+    expect(result.exitBreakdown.take_profit.trades).toBe(0);
+    const breakdownPnl = Object.values(result.exitBreakdown).reduce((sum, b) => sum + b.pnl, 0);
+    expect(breakdownPnl).toBeCloseTo(result.trades.reduce((sum, t) => sum + t.pnl, 0));
+    console.log('Risk-parameter exits in backtest verified');
+  });
+
+  it('should leave exits to the rules without risk parameters', () => {
+    const result = runBacktest(testUtils.createPriceSeries([100, 90, 80, 120]), {
+      symbol: 'AAPL',
+      entryRules: 'PRICE > 0',
+      exitRules: 'PRICE < 0',
+      quantity: 10
+    });
+
+    expect(result.trades.map(t => t.exitReason)).toEqual(['end_of_data']);
+    expect(result.exitBreakdown.end_of_data).toEqual({ trades: 1, pnl: 200, winRate: 1 });
+    console.log('Rule-only exits verified');
+  });
+});
@@ -0,0 +1,76 @@
+import { backtestRequestSchema, ruleSourceToString, BARS_PER_YEAR } from '../../shared/backtest.js';
+import { runBacktest } from '../../server/services/backtest.js';
+import { testUtils } from '../setup.js';
+
+describe('backtestRequestSchema', () => {
+  it('should fill defaults for omitted fields', () => {
+    const request = backtestRequestSchema.parse({
+      symbol: 'AAPL',
+      entryRules: 'RSI(14) < 30',
+      exitRules: 'RSI(14) > 70',
+    });
+
+    expect(request.timeframe).toBe('1Day');
+    expect(request.initialCapital).toBe(100000);
+    expect(request.sizing).toEqual({ method: 'fixed_quantity', quantity: 100 });
+    expect(request.startDate).toBeUndefined();
+
+    console.log('Backtest request defaults verified');
+  });
+
+  it('should reject unknown timeframes and inverted date ranges', () => {
+    const base = { symbol: 'AAPL', entryRules: 'PRICE > 1', exitRules: 'PRICE < 1' };
+
+    expect(backtestRequestSchema.safeParse({ ...base, timeframe: '2Hour' }).success).toBe(false);
+    expect(
+      backtestRequestSchema.safeParse({
+        ...base,
+        startDate: '2024-02-01T00:00:00.000Z',
+        endDate: '2024-01-01T00:00:00.000Z',
+      }).success
+    ).toBe(false);
+
+    console.log('Backtest request validation verified');
+  });
+
+  it('should combine structured conditions with their operator', () => {
+    expect(ruleSourceToString('RSI(14) < 30')).toBe('RSI(14) < 30');
+    expect(ruleSourceToString({ conditions: ['RSI(14) < 30'] })).toBe('RSI(14) < 30');
+    expect(
+      ruleSourceToString({ conditions: ['RSI(14) < 30', 'PRICE > SMA(50) OR VOLUME > 1000'], combine: 'AND' })
+    ).toBe('(RSI(14) < 30) AND (PRICE > SMA(50) OR VOLUME > 1000)');
+
+    console.log('Structured rule conversion verified');
+  });
+});
+
+describe('runBacktest request options', () => {
+  const bars = testUtils.createPriceSeries(
+    Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 3) * 10)
+  );
+  const rules = { symbol: 'AAPL', entryRules: 'PRICE < 95', exitRules: 'PRICE > 105' };
+
+  it('should size entries from the sizing option', () => {
+    const result = runBacktest(bars, {
+      ...rules,
+      initialCapital: 50000,
+      sizing: { method: 'percent_of_equity', percent: 0.5 },
+    });
+
+    expect(result.trades.length).toBeGreaterThan(0);
+    const first = result.trades[0];
+    expect(first.quantity).toBe(Math.floor(25000 / first.entryPrice));
+
+    console.log('Backtest sizing option verified');
+  });
+
+  it('should annualize with the timeframe bar count', () => {
+    const daily = runBacktest(bars, rules);
+    const hourly = runBacktest(bars, { ...rules, periodsPerYear: BARS_PER_YEAR['1Hour'] });
+
+    expect(daily.sharpeRatio).not.toBe(0);
+    expect(hourly.sharpeRatio / daily.sharpeRatio).toBeCloseTo(Math.sqrt(7), 6);
+
+    console.log('Backtest annualization by timeframe verified');
+  });
+});
@@ -0,0 +1,116 @@
+import { runBacktest, BACKTEST_ENGINE_VERSION } from '../../server/services/backtest.js';
+import { toBacktestRunRow, compareBacktestRuns, strategyLineage } from '../../server/services/backtest-runs.js';
+import { testUtils } from '../setup.js';
+
+const bars = testUtils.createPriceSeries(Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 3) * 10));
+
+function storedRun(id: string, entryRules: string, overrides: Record<string, unknown> = {}): any {
+  const row = toBacktestRunRow({
+    source: 'api',
+    symbol: 'AAPL',
+    timeframe: '1Day',
+    entryRules,
+    exitRules: 'PRICE > 105',
+    request: { initialCapital: 100000 },
+    result: runBacktest(bars, { symbol: 'AAPL', entryRules, exitRules: 'PRICE > 105' }),
+    dataset: {
+      symbol: 'AAPL',
+      timeframe: '1Day',
+      start: bars[0].timestamp,
+      end: bars[bars.length - 1].timestamp,
+      bars: bars.length,
+      hash: 'abc',
+      sources: ['alpaca'],
+    },
+  });
+  return { ...row, id, createdAt: new Date(), ...overrides };
+}
+
+describe('toBacktestRunRow', () => {
+  it('should split metrics from the equity curve and trades', () => {
+    const result = runBacktest(bars, { symbol: 'AAPL', entryRules: 'PRICE < 95', exitRules: 'PRICE > 105' });
+    const row = toBacktestRunRow({
+      source: 'api',
+      symbol: 'AAPL',
+      timeframe: '1Day',
+      entryRules: 'PRICE < 95',
+      exitRules: 'PRICE > 105',
+      request: {},
+      result: { ...result, dataset: { hash: 'abc' } } as any,
+      lineage: { strategyId: 's1', correlationId: 'c1', promptVersion: '1' },
+    });
+
+    const metrics = row.metrics as Record<string, unknown>;
+    expect(metrics.totalReturn).toBe(result.totalReturn);
+    expect(metrics.trades).toBeUndefined();
+    expect(metrics.equityCurve).toBeUndefined();
+    expect(metrics.dataset).toBeUndefined();
+    expect(row.trades).toBe(result.trades);
+    expect(row.engineVersion).toBe(BACKTEST_ENGINE_VERSION);
+    expect(row.strategyId).toBe('s1');
+    expect(row.correlationId).toBe('c1');
+    expect(row.datasetHash).toBeNull();
+
+    console.log('Backtest run row mapping verified');
+  });
+
+  it('should take lineage from a stored strategy', () => {
+    const strategy = {
+      id: 's1',
+      versionId: 'v2',
+      correlationId: 'c1',
+      entryRules: 'PRICE < 95',
+      exitRules: 'PRICE > 105',
+      timeframe: '1Day',
+      aiMetadata: { promptVersion: '3' },
+    } as any;
+
+    expect(strategyLineage(strategy)).toEqual({
+      strategyId: 's1',
+      strategyVersionId: 'v2',
+      correlationId: 'c1',
+      promptVersion: '3',
+    });
+    expect(
+      strategyLineage(strategy, { entryRules: 'PRICE < 90', exitRules: 'PRICE > 105', timeframe: '1Day' })
+        .strategyVersionId
+    ).toBeNull();
+
+    console.log('Strategy lineage verified');
+  });
+});
+
+describe('compareBacktestRuns', () => {
+  it('should report deltas and changes against the first run', () => {
+    const baseline = storedRun('run-1', 'PRICE < 95');
+    const revised = storedRun('run-2', 'PRICE < 92', { promptVersion: '2' });
+    const rerun = storedRun('run-3', 'PRICE < 95', { datasetHash: 'def' });
+
+    const comparison = compareBacktestRuns([baseline, revised, rerun]);
+
+    expect(comparison.baselineId).toBe('run-1');
+    expect(comparison.runs.map((run) => run.id)).toEqual(['run-1', 'run-2', 'run-3']);
+    expect(comparison.runs[0].deltas.totalReturn).toBe(0);
+    expect(comparison.runs[1].deltas.totalReturn).toBeCloseTo(
+      comparison.runs[1].metrics.totalReturn! - comparison.runs[0].metrics.totalReturn!,
+      12
+    );
+    expect(comparison.runs[1].changes).toEqual({ rules: true, dataset: false, engine: false, prompt: true });
+    expect(comparison.runs[2].changes).toEqual({ rules: false, dataset: true, engine: false, prompt: false });
+
+    console.log('Backtest run comparison verified');
+  });
+
+  it('should leave deltas null when a metric is missing', () => {
+    const baseline = storedRun('run-1', 'PRICE < 95');
+    const noLosses = storedRun('run-2', 'PRICE < 95');
+    noLosses.metrics = { ...noLosses.metrics, profitFactor: null };
+
+    const comparison = compareBacktestRuns([baseline, noLosses]);
+
+    expect(comparison.runs[1].metrics.profitFactor).toBeNull();
+    expect(comparison.runs[1].deltas.profitFactor).toBeNull();
+
+    console.log('Backtest run comparison with missing metrics verified');
+  });
+});
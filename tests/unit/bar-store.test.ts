@@ -0,0 +1,102 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  BarStore,
+  BarImportError,
+  missingRanges,
+  mergeRanges,
+  parseBarCsv,
+  datasetHash
+} from '../../server/services/bar-store.js';
+import { runBacktest } from '../../server/services/backtest.js';
+import type { MarketBar } from '../../server/services/evaluator.js';
+import { testUtils } from '../setup.js';
+import { MemoryStorage } from '../utils/memory-storage.js';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const day = (n: number) => new Date(Date.UTC(2024, 0, 1) + n * DAY_MS);
+const fixture = readFileSync(join(process.cwd(), 'tests/fixtures/bars/AAPL-1Day.csv'), 'utf8');
+
+function dailyBars(from: number, to: number): MarketBar[] {
+  return Array.from({ length: to - from + 1 }, (_, i) =>
+    testUtils.createMockBar({ timestamp: day(from + i), close: 100 + from + i })
+  );
+}
+
+describe('Bar store', () => {
+  it('should find the gaps between covered ranges', () => {
+    const covered = [{ start: day(5), end: day(10) }, { start: day(8), end: day(12) }, { start: day(20), end: day(25) }];
+
+    expect(mergeRanges(covered)).toEqual([{ start: day(5), end: day(12) }, { start: day(20), end: day(25) }]);
+    expect(missingRanges(covered, day(0), day(30))).toEqual([
+      { start: day(0), end: day(5) },
+      { start: day(12), end: day(20) },
+      { start: day(25), end: day(30) }
+    ]);
+    expect(missingRanges(covered, day(6), day(11))).toEqual([]);
+    expect(missingRanges([], day(1), day(2))).toEqual([{ start: day(1), end: day(2) }]);
+    console.log('Missing range detection verified');
+  });
+
+  it('should only fetch ranges it has not stored yet', async () => {
+    const repository = new MemoryStorage();
+    const fetchBars = jest.fn(async (_symbol: string, start: Date, end: Date) =>
+      dailyBars(0, 40).filter((bar) => bar.timestamp >= start && bar.timestamp <= end)
+    );
+    const store = new BarStore(repository, fetchBars);
+
+    const first = await store.getBars('AAPL', day(0), day(20));
+    const second = await store.getBars('AAPL', day(10), day(30));
+
+    expect(first.bars).toHaveLength(21);
+    expect(second.bars).toHaveLength(21);
+    expect(fetchBars).toHaveBeenCalledTimes(2);
+    expect(fetchBars.mock.calls[1][1]).toEqual(day(20));
+    expect(fetchBars.mock.calls[1][2]).toEqual(day(30));
+
+    // Fully covered now: no more fetches, same bars, same hash
+    const again = await store.getBars('AAPL', day(10), day(30));
+    expect(fetchBars).toHaveBeenCalledTimes(2);
+    expect(again.dataset.hash).toBe(second.dataset.hash);
+    expect(again.dataset).toMatchObject({ symbol: 'AAPL', timeframe: '1Day', bars: 21, sources: ['alpaca'] });
+    console.log('Incremental backfill verified');
+  });
+
+  it('should change the dataset hash when any bar changes', () => {
+    const bars = dailyBars(0, 5);
+    const edited = bars.map((bar, i) => (i === 3 ? { ...bar, close: bar.close + 0.01 } : bar));
+
+    expect(datasetHash(bars)).toBe(datasetHash(dailyBars(0, 5)));
+    expect(datasetHash(edited)).not.toBe(datasetHash(bars));
+    console.log('Dataset hash verified');
+  });
+
+  it('should parse CSV files with full or one-letter column names', () => {
+    const bars = parseBarCsv(fixture);
+    const short = parseBarCsv('t,o,h,l,c,v\n2024-01-03,2,3,1,2.5,10\n2024-01-02,1,2,0.5,1.5,20\n');
+
+    expect(bars).toHaveLength(60);
+    expect(bars[0]).toEqual({ timestamp: new Date('2024-01-02T05:00:00Z'), open: 99.6, high: 101, low: 98.6, close: 100, volume: 1000000 });
+    expect(short.map((bar) => bar.close)).toEqual([1.5, 2.5]);
+    expect(() => parseBarCsv('timestamp,open,high,low,close\n')).toThrow("no 'volume' column");
+    expect(() => parseBarCsv('t,o,h,l,c,v\nnot-a-date,1,1,1,1,1\n')).toThrow('Line 2: invalid timestamp');
+    expect(() => parseBarCsv('t,o,h,l,c,v\n2024-01-02,1,1,abc,1,1\n')).toThrow(BarImportError);
+    console.log('CSV bar parsing verified');
+  });
+
+  it('should backtest offline from imported CSV bars', async () => {
+    const repository = new MemoryStorage();
+    const store = new BarStore(repository, null);
+
+    const imported = await store.importCsv('AAPL', '1Day', fixture);
+    const { bars, dataset } = await store.getBars('AAPL', new Date('2024-01-01'), new Date('2024-12-31'));
+    const result = runBacktest(bars, { symbol: 'AAPL', entryRules: 'PRICE < SMA(10)', exitRules: 'PRICE > SMA(10) * 1.02' });
+
+    expect(dataset.hash).toBe(imported.hash);
+    expect(dataset.sources).toEqual(['csv']);
+    expect(result.barsProcessed).toBe(60);
+    expect(result.totalTrades).toBeGreaterThan(0);
+    await expect(store.importCsv('AAPL', '2Day', fixture)).rejects.toThrow("Unknown timeframe '2Day'");
+    console.log('Offline CSV backtest verified');
+  });
+});
@@ -0,0 +1,235 @@
+import { EvaluatorContextManager } from '../../server/services/evaluator-context.js';
+import { broker } from '../../server/services/broker.js';
+import { testUtils } from '../setup.js';
+
+jest.mock('../../server/services/broker.js', () => ({
+  broker: {
+    getHistoricalBars: jest.fn(),
+  },
+}));
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function dailyBars(closes: number[], endDaysAgo = 1) {
+  const start = Date.now() - (closes.length + endDaysAgo - 1) * DAY_MS;
+  return closes.map((close, i) =>
+    testUtils.createMockBar({ close, timestamp: new Date(start + i * DAY_MS) })
+  );
+}
+
+describe('EvaluatorContextManager', () => {
+  let manager: EvaluatorContextManager;
+  const getHistoricalBars = broker.getHistoricalBars as jest.Mock;
+
+  beforeEach(() => {
+    manager = new EvaluatorContextManager();
+    getHistoricalBars.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should seed each context from historical bars so indicators are ready', async () => {
+    getHistoricalBars.mockResolvedValue(dailyBars(Array(30).fill(100)));
+
+    const evaluation = await manager.evaluate(
+      { id: 's1', symbol: 'AAPL', entryRules: 'PRICE > SMA(20)', exitRules: 'PRICE < SMA(20)' },
+      testUtils.createMockBar({ close: 110, timestamp: new Date() })
+    );
+
+    expect(getHistoricalBars).toHaveBeenCalledWith('AAPL', expect.any(Date), expect.any(Date), '1Day');
+    expect(evaluation.shouldEnter).toBe(true);
+    console.log('Context seeding verified');
+  });
+
+  it('should keep separate histories per strategy and symbol', async () => {
+    getHistoricalBars.mockImplementation(async (symbol: string) =>
+      dailyBars(Array(30).fill(symbol === 'AAPL' ? 100 : 500))
+    );
+
+    const rules = { entryRules: 'PRICE > SMA(20)', exitRules: 'PRICE < SMA(20)' };
+    const aapl = await manager.evaluate(
+      { id: 's1', symbol: 'AAPL', ...rules },
+      testUtils.createMockBar({ close: 200, timestamp: new Date() })
+    );
+    const tsla = await manager.evaluate(
+      { id: 's2', symbol: 'TSLA', ...rules },
+      testUtils.createMockBar({ close: 200, timestamp: new Date() })
+    );
+
+    // A shared history would blend both price levels into one SMA
+    expect(aapl.shouldEnter).toBe(true);
+    expect(tsla.shouldExit).toBe(true);
+    expect(manager.getContextCount()).toBe(2);
+    console.log('Per-strategy context isolation verified');
+  });
+
+  it('should replace the forming bar instead of appending repeated snapshots', async () => {
+    getHistoricalBars.mockResolvedValue(dailyBars(Array(30).fill(100), 0));
+    const strategy = { id: 's1', symbol: 'AAPL', entryRules: 'PRICE > 0', exitRules: 'PRICE < 0' };
+
+    await manager.evaluate(strategy, testUtils.createMockBar({ close: 101, timestamp: new Date() }));
+    await manager.evaluate(strategy, testUtils.createMockBar({ close: 102, timestamp: new Date() }));
+
+    const context = await manager.getContext(strategy);
+    expect(context.evaluator.getHistorySize()).toBe(30);
+    expect(context.evaluator.getLastBar()?.close).toBe(102);
+    expect(getHistoricalBars).toHaveBeenCalledTimes(1);
+    console.log('Forming bar replacement verified');
+  });
+
+  it('should aggregate minute bars and evaluate only when a bar closes', async () => {
+    const now = new Date('2024-03-04T14:40:10Z');
+    // Seeding cuts the history at the current time
+    jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    const seedStart = new Date('2024-03-04T12:00:00Z').getTime();
+    // Closed 5Min bars up to 14:25, plus the forming 14:40 bar which must be dropped
+    const seed = Array.from({ length: 30 }, (_, i) =>
+      testUtils.createMockBar({ close: 100, timestamp: new Date(seedStart + i * 5 * 60 * 1000) })
+    ).concat(testUtils.createMockBar({ close: 100, timestamp: new Date('2024-03-04T14:40:00Z') }));
+    getHistoricalBars.mockResolvedValueOnce(seed);
+    const strategy = {
+      id: 's1', symbol: 'AAPL', timeframe: '5Min', entryRules: 'PRICE > 105', exitRules: 'PRICE < 0',
+    };
+
+    const context = await manager.getContext(strategy);
+    expect(context.evaluator.getHistorySize()).toBe(30);
+
+    const minutes = (start: string, closes: number[]) =>
+      closes.map((close, i) =>
+        testUtils.createMockBar({ open: close, high: close, low: close, close, volume: 10,
+          timestamp: new Date(new Date(start).getTime() + i * 60 * 1000) })
+      );
+
+    // Half of the 14:30 bucket: nothing has closed yet
+    const early = await manager.ingestBars(strategy, minutes('2024-03-04T14:30:00Z', [101, 102]), new Date('2024-03-04T14:32:00Z'));
+    expect(early).toBeNull();
+
+    // The rest of the 14:30 bucket and part of 14:35 close the 14:30 bar
+    const closed = await manager.ingestBars(
+      strategy,
+      minutes('2024-03-04T14:32:00Z', [110, 108, 106, 107]),
+      new Date('2024-03-04T14:36:00Z')
+    );
+    expect(closed?.shouldEnter).toBe(true);
+    const lastBar = context.evaluator.getLastBar();
+    expect(lastBar).toMatchObject({ open: 101, high: 110, low: 101, close: 106, volume: 50 });
+    expect(context.formingBar?.close).toBe(107);
+
+    // Bars already folded into a closed bar are ignored
+    expect(
+      await manager.ingestBars(strategy, minutes('2024-03-04T14:30:00Z', [1]), new Date('2024-03-04T14:37:00Z'))
+    ).toBeNull();
+    expect(context.evaluator.getLastBar()?.close).toBe(106);
+    console.log('Bar close aggregation verified');
+  });
+
+  it('should fetch source bars once per closed bucket', async () => {
+    const seedStart = new Date('2024-03-04T12:00:00Z').getTime();
+    getHistoricalBars.mockResolvedValueOnce(
+      Array.from({ length: 30 }, (_, i) =>
+        testUtils.createMockBar({ close: 100, timestamp: new Date(seedStart + i * 5 * 60 * 1000) })
+      )
+    );
+    const strategy = { id: 's1', symbol: 'AAPL', timeframe: '5Min', entryRules: 'PRICE > 0', exitRules: 'PRICE < 0' };
+    await manager.getContext(strategy);
+
+    getHistoricalBars.mockResolvedValue([
+      testUtils.createMockBar({ close: 101, timestamp: new Date('2024-03-04T14:30:00Z') }),
+      testUtils.createMockBar({ close: 102, timestamp: new Date('2024-03-04T14:34:00Z') }),
+    ]);
+    const first = await manager.evaluateOnBarClose(strategy, new Date('2024-03-04T14:35:10Z'));
+    const again = await manager.evaluateOnBarClose(strategy, new Date('2024-03-04T14:36:00Z'));
+
+    expect(first?.shouldEnter).toBe(true);
+    expect(again).toBeNull();
+    expect(getHistoricalBars).toHaveBeenLastCalledWith(
+      'AAPL',
+      new Date('2024-03-04T14:30:00Z'),
+      new Date('2024-03-04T14:35:00Z'),
+      '1Min'
+    );
+    expect(getHistoricalBars).toHaveBeenCalledTimes(2);
+    console.log('Bar close polling verified');
+  });
+
+  it('should close buckets from streamed minute bars only when it saw every minute', async () => {
+    const seedStart = new Date('2024-03-04T12:00:00Z').getTime();
+    getHistoricalBars.mockResolvedValueOnce(
+      Array.from({ length: 30 }, (_, i) =>
+        testUtils.createMockBar({ close: 100, timestamp: new Date(seedStart + i * 5 * 60 * 1000) })
+      )
+    );
+    const strategy = { id: 's1', symbol: 'AAPL', timeframe: '5Min', entryRules: 'PRICE > 105', exitRules: 'PRICE < 0' };
+    const context = await manager.getContext(strategy);
+    const minute = (time: string, close: number) =>
+      testUtils.createMockBar({ open: close, high: close, low: close, close, volume: 10, timestamp: new Date(`2024-03-04T${time}Z`) });
+    const closeOf = (time: string) => new Date(new Date(`2024-03-04T${time}Z`).getTime() + 60 * 1000);
+
+    // Joining mid-bucket leaves the bucket to polling
+    expect(await manager.ingestStreamedBar(strategy, minute('14:31:00', 101), closeOf('14:31:00'))).toBeNull();
+    expect(context.formingBar).toBeNull();
+
+    const closes: Record<string, number> = { '14:30:00': 101, '14:31:00': 104, '14:32:00': 108, '14:33:00': 107, '14:34:00': 106 };
+    const evaluations = [];
+    for (const [time, close] of Object.entries(closes)) {
+      evaluations.push(await manager.ingestStreamedBar(strategy, minute(time, close), closeOf(time)));
+    }
+    expect(evaluations.slice(0, 4)).toEqual([null, null, null, null]);
+    expect(evaluations[4]?.shouldEnter).toBe(true);
+    expect(context.evaluator.getLastBar()).toMatchObject({ open: 101, high: 108, close: 106, volume: 50 });
+
+    // Polling finds the bucket closed and fetches nothing
+    expect(await manager.evaluateOnBarClose(strategy, new Date('2024-03-04T14:35:10Z'))).toBeNull();
+    expect(getHistoricalBars).toHaveBeenCalledTimes(1);
+
+    // After a reconnect the partial bucket is dropped and rebuilt from the broker
+    await manager.ingestStreamedBar(strategy, minute('14:35:00', 90), closeOf('14:35:00'));
+    manager.discardFormingBars();
+    expect(await manager.ingestStreamedBar(strategy, minute('14:37:00', 90), closeOf('14:37:00'))).toBeNull();
+    getHistoricalBars.mockResolvedValueOnce([minute('14:35:00', 99), minute('14:39:00', 98)]);
+    const polled = await manager.evaluateOnBarClose(strategy, new Date('2024-03-04T14:40:10Z'));
+    expect(polled?.shouldEnter).toBe(false);
+    expect(context.evaluator.getLastBar()).toMatchObject({ open: 99, close: 98, volume: 20 });
+    console.log('Streamed bar ingestion verified');
+  });
+
+  it('should re-seed a context when the strategy runs a different version', async () => {
+    getHistoricalBars.mockResolvedValue(dailyBars(Array(30).fill(100)));
+    const bar = testUtils.createMockBar({ close: 100, timestamp: new Date() });
+    const v1 = { id: 's1', symbol: 'AAPL', entryRules: 'PRICE > SMA(20)', exitRules: 'PRICE < SMA(20)', versionId: 'v1' };
+    const v2 = { ...v1, entryRules: 'PRICE > SMA(150)', exitRules: 'PRICE < SMA(150)', versionId: 'v2' };
+
+    await manager.evaluate(v1, bar);
+    await manager.evaluate(v1, bar);
+    expect(getHistoricalBars).toHaveBeenCalledTimes(1);
+
+    await manager.evaluate(v2, bar);
+    const context = await manager.getContext(v2);
+    expect(getHistoricalBars).toHaveBeenCalledTimes(2);
+    expect(context.versionId).toBe('v2');
+    // SMA(150) needs a longer warm-up than the first version's seed
+    const [[, v1From], [, v2From]] = getHistoricalBars.mock.calls;
+    expect(v2From.getTime()).toBeLessThan(v1From.getTime());
+    // Streamed bars for the old version are not fed to the new context
+    expect(await manager.ingestStreamedBar(v1, bar)).toBeNull();
+    expect(manager.getContextCount()).toBe(1);
+    console.log('Version-aware contexts verified');
+  });
+
+  it('should evict contexts for strategies that are no longer staged or active', async () => {
+    getHistoricalBars.mockResolvedValue(dailyBars(Array(5).fill(100)));
+    const bar = testUtils.createMockBar({ close: 100, timestamp: new Date() });
+    const rules = { entryRules: 'PRICE > 0', exitRules: 'PRICE < 0' };
+
+    await manager.evaluate({ id: 's1', symbol: 'AAPL', ...rules }, bar);
+    await manager.evaluate({ id: 's2', symbol: 'MSFT', ...rules }, bar);
+    await manager.evaluate({ id: 's3', symbol: 'TSLA', ...rules }, bar);
+
+    expect(manager.retainStrategies(['s1', 's3'])).toBe(1);
+    expect(manager.evictStrategy('s3')).toBe(1);
+    expect(manager.getContextCount()).toBe(1);
+    console.log('Context eviction verified');
+  });
+});
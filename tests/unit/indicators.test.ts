@@ -0,0 +1,95 @@
+import {
+  INDICATORS,
+  resolveIndicatorParams,
+  formatIndicator,
+  describeRuleFunctions
+} from '../../server/services/indicators.js';
+import { parseRule, RuleParseError, type CallExpression } from '../../server/services/rule-parser.js';
+import { StrategyEvaluator } from '../../server/services/evaluator.js';
+import { validateRules } from '../../server/services/rule-validator.js';
+import { testUtils } from '../setup.js';
+
+function createBars(count: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const close = 100 + Math.sin(i / 3) * 10 + i * 0.1;
+    return testUtils.createMockBar({ close, high: close + 1, low: close - 1, volume: 1000 + i * 10 });
+  });
+}
+
+function callNode(source: string): CallExpression {
+  const rule = parseRule(`${source} > 0`);
+  if (rule.kind !== 'comparison' || rule.left.kind !== 'call') throw new Error('expected a call');
+  return rule.left;
+}
+
+describe('Indicator registry', () => {
+  it('should produce the first value exactly when the declared warm-up is reached', () => {
+    for (const indicator of Object.values(INDICATORS)) {
+      const params = resolveIndicatorParams(indicator, null, '');
+      const warmup = indicator.warmup(params);
+
+      const before = indicator.calculate(createBars(warmup - 1), params);
+      const at = indicator.calculate(createBars(warmup), params);
+
+      expect({ name: indicator.name, value: before[before.length - 1] ?? null }).toEqual({ name: indicator.name, value: null });
+      expect({ name: indicator.name, ready: typeof at[at.length - 1] === 'number' }).toEqual({ name: indicator.name, ready: true });
+    }
+    console.log('Indicator warm-up lengths verified');
+  });
+
+  it('should resolve positional and named parameters with defaults', () => {
+    const macd = INDICATORS.MACD;
+    const params = resolveIndicatorParams(macd, callNode('MACD(5, signal=4)'), 'MACD(5, signal=4) > 0');
+
+    expect(params).toEqual({ fast: 5, slow: 26, signal: 4 });
+    expect(formatIndicator(macd, params)).toBe('MACD(5, 26, 4)');
+    expect(resolveIndicatorParams(INDICATORS.BB_UPPER, callNode('BB_UPPER(20, stdDev=1.5)'), '')).toEqual({
+      period: 20,
+      stddev: 1.5
+    });
+    console.log('Parameter resolution verified');
+  });
+
+  it('should reject invalid parameters', () => {
+    expect(() => resolveIndicatorParams(INDICATORS.ATR, callNode('ATR(2.5)'), '')).toThrow(RuleParseError);
+    expect(() => resolveIndicatorParams(INDICATORS.ATR, callNode('ATR(length=5)'), '')).toThrow("Unknown parameter 'length'");
+    expect(() => resolveIndicatorParams(INDICATORS.OBV, callNode('OBV(5)'), '')).toThrow(RuleParseError);
+    console.log('Parameter validation verified');
+  });
+
+  it('should describe every indicator for prompts', () => {
+    const description = describeRuleFunctions();
+
+    for (const name of Object.keys(INDICATORS)) {
+      expect(description).toContain(`${name}(`);
+    }
+    expect(description).toContain('MACD(fast=12, slow=26, signal=9)');
+    console.log('Prompt description verified');
+  });
+
+  it('should evaluate the new indicators in rules', () => {
+    const evaluator = new StrategyEvaluator();
+    const bars = createBars(60);
+    bars.slice(0, -1).forEach(bar => evaluator.addBar(bar));
+
+    const evaluation = evaluator.evaluateRules(
+      'ATR(14) > 0 AND STOCH_K >= 0 AND ADX(14) > 0 AND VWAP(10) > 0 AND OBV != 0 AND CCI(20) != 0 AND WILLIAMS_R <= 0',
+      'MACD(fast=5, slow=10, signal=3) > 1000 OR PRICE > BB_UPPER(20, stdDev=10)',
+      bars[bars.length - 1]
+    );
+
+    expect(evaluation.errors).toEqual([]);
+    expect(evaluation.shouldEnter).toBe(true);
+    expect(evaluation.shouldExit).toBe(false);
+    console.log('New indicator evaluation verified');
+  });
+
+  it('should use the registry warm-up in the rule validator', () => {
+    const result = validateRules('ADX(20) > 25 AND STOCH_D(14, 5) < 20', 'MACD(5, 35, 9) < 0');
+
+    expect(result.valid).toBe(true);
+    expect(result.indicators).toEqual(['ADX(20)', 'STOCH_D(14, 5)', 'MACD(5, 35, 9)']);
+    expect(result.warmupBars).toBe(43);
+    console.log('Validator warm-up from registry verified');
+  });
+});
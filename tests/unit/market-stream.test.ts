@@ -0,0 +1,175 @@
+/**
+ * @jest-environment node
+ */
+import { MarketStream, marketStreamConfig, type MarketStreamConfig } from '../../server/services/market-stream.js';
+import { CircuitBreaker, CircuitBreakerState } from '../../server/services/circuit-breaker.js';
+import { LastPriceCache, type PriceUpdate } from '../../server/services/price-cache.js';
+import { AlpacaStreamStub } from '../utils/alpaca-stream-server.js';
+
+function testBreaker(failureThreshold = 5) {
+  return new CircuitBreaker({
+    name: 'test-stream',
+    failureThreshold,
+    successThreshold: 1,
+    timeoutMs: 2000,
+    resetTimeoutMs: 60000,
+    monitoringPeriodMs: 60000,
+  });
+}
+
+async function until(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the stream');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('MarketStream', () => {
+  let stub: AlpacaStreamStub;
+  let stream: MarketStream | undefined;
+
+  function config(overrides: Partial<MarketStreamConfig> = {}): MarketStreamConfig {
+    return {
+      enabled: true,
+      key: 'key',
+      secret: 'secret',
+      tradeUpdatesUrl: stub.tradeUpdatesUrl,
+      marketDataUrl: stub.marketDataUrl,
+      reconnectBaseMs: 20,
+      reconnectMaxMs: 100,
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    stub = await AlpacaStreamStub.start();
+  });
+
+  afterEach(async () => {
+    stream?.stop();
+    stream = undefined;
+    await stub.close();
+  });
+
+  it('should subscribe held symbols and push quotes, bars and trade updates to their handlers', async () => {
+    const cache = new LastPriceCache();
+    const prices: PriceUpdate[] = [];
+    const bars: [string, number][] = [];
+    const updates: [string, unknown][] = [];
+    stream = new MarketStream(
+      config(),
+      {
+        onPrice: (update) => prices.push(update),
+        onBar: (symbol, bar) => bars.push([symbol, bar.close]),
+        onTradeUpdate: (order, event) => updates.push([event, order]),
+      },
+      { cache, breaker: testBreaker() }
+    );
+    stream.setSymbols(['aapl', 'MSFT']);
+    stream.start();
+    await until(() => stub.subscriptions.bars.size === 2 && stream!.isConnected('trade_updates'));
+    expect(Array.from(stub.subscriptions.quotes)).toEqual(['AAPL', 'MSFT']);
+
+    stub.sendMarketData([
+      { T: 'q', S: 'AAPL', bp: 189.9, ap: 190.1, t: '2024-03-01T15:30:00.5Z' },
+      { T: 'b', S: 'MSFT', o: 410, h: 411, l: 409.5, c: 410.5, v: 1200, t: '2024-03-01T15:29:00Z' },
+    ]);
+    stub.sendTradeUpdate('fill', {
+      id: 'b1', symbol: 'AAPL', qty: '10', side: 'buy', type: 'market', time_in_force: 'day',
+      status: 'filled', filled_qty: '10', filled_avg_price: '190.05',
+    });
+    await until(() => prices.length === 2 && updates.length === 1);
+
+    expect(cache.get('AAPL', 60_000, new Date('2024-03-01T15:30:10Z'))).toBeCloseTo(190);
+    expect(cache.get('MSFT', 60_000, new Date('2024-03-01T15:30:10Z'))).toBe(410.5);
+    expect(bars).toEqual([['MSFT', 410.5]]);
+    expect(updates[0]).toEqual(['fill', expect.objectContaining({ id: 'b1', qty: 10, filled_avg_price: 190.05 })]);
+
+    // Only the difference is unsubscribed
+    stream.setSymbols(['AAPL']);
+    await until(() => stub.subscriptions.bars.size === 1);
+    expect(Array.from(stub.subscriptions.bars)).toEqual(['AAPL']);
+
+    console.log('Streamed quotes, bars and trade updates verified');
+  });
+
+  it('should reconnect with backoff and subscribe again after the connection drops', async () => {
+    const connected: string[] = [];
+    stream = new MarketStream(
+      config(),
+      { onConnected: (name) => connected.push(name) },
+      { cache: new LastPriceCache(), breaker: testBreaker() }
+    );
+    stream.setSymbols(['SPY']);
+    stream.start();
+    await until(() => connected.length === 2);
+
+    stub.subscriptions.bars.clear();
+    stub.dropConnections();
+    await until(() => connected.length === 4 && stub.subscriptions.bars.has('SPY'));
+
+    const status = stream.getStatus();
+    expect(status.marketData).toMatchObject({ connected: true, reconnects: 1, lastError: null });
+    expect(status.tradeUpdates).toMatchObject({ connected: true, reconnects: 1 });
+    expect(stub.connections).toEqual({ '/stream': 2, '/v2/iex': 2 });
+
+    console.log('Stream reconnection verified');
+  });
+
+  it('should stop reconnecting once failed attempts open the circuit breaker', async () => {
+    const breaker = testBreaker(2);
+    stub.acceptKey = 'other-key';
+    stream = new MarketStream(config(), {}, { cache: new LastPriceCache(), breaker });
+    stream.start();
+
+    await until(() => breaker.getStats().state === CircuitBreakerState.OPEN);
+    const attempts = stub.connections['/stream'] + stub.connections['/v2/iex'];
+    expect(attempts).toBe(2);
+
+    // Attempts while the breaker is open never reach the endpoint
+    await until(() => stream!.getStatus().tradeUpdates.lastError?.includes('is OPEN') ?? false);
+    expect(stub.connections['/stream'] + stub.connections['/v2/iex']).toBe(attempts);
+    expect(stream.isConnected('market_data')).toBe(false);
+
+    console.log('Stream circuit breaker verified');
+  });
+});
+
+describe('LastPriceCache', () => {
+  it('should keep the newest price and expire old ones', () => {
+    const cache = new LastPriceCache();
+    const at = (time: string) => new Date(`2024-03-01T${time}Z`);
+
+    expect(cache.record({ symbol: 'AAPL', price: 190, timestamp: at('15:30:00'), source: 'quote' })).toBe(true);
+    expect(cache.record({ symbol: 'AAPL', price: 185, timestamp: at('15:29:00'), source: 'bar' })).toBe(false);
+    expect(cache.get('AAPL', 60_000, at('15:30:30'))).toBe(190);
+    expect(cache.get('AAPL', 60_000, at('15:31:30'))).toBeUndefined();
+    expect(cache.get('MSFT')).toBeUndefined();
+
+    console.log('Last price cache verified');
+  });
+});
+
+describe('marketStreamConfig', () => {
+  it('should stream only for the Alpaca broker, on the endpoints of its account', () => {
+    const credentials = { ALPACA_API_KEY: 'key', ALPACA_SECRET_KEY: 'secret' };
+
+    expect(marketStreamConfig({}).enabled).toBe(false);
+    expect(marketStreamConfig({ ...credentials, BROKER: 'simulated' }).enabled).toBe(false);
+    expect(marketStreamConfig({ ...credentials, MARKET_STREAM: 'off' }).enabled).toBe(false);
+    expect(marketStreamConfig(credentials)).toMatchObject({
+      enabled: true,
+      tradeUpdatesUrl: 'wss://paper-api.alpaca.markets/stream',
+      marketDataUrl: 'wss://stream.data.alpaca.markets/v2/iex',
+    });
+    expect(
+      marketStreamConfig({ ...credentials, ALPACA_BASE_URL: 'https://api.alpaca.markets/', ALPACA_DATA_FEED: 'sip' })
+    ).toMatchObject({
+      tradeUpdatesUrl: 'wss://api.alpaca.markets/stream',
+      marketDataUrl: 'wss://stream.data.alpaca.markets/v2/sip',
+    });
+
+    console.log('Stream configuration verified');
+  });
+});
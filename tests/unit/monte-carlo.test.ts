@@ -0,0 +1,76 @@
+import {
+  runMonteCarlo,
+  pathMetrics,
+  percentile
+} from '../../server/services/monte-carlo.js';
+import { checkMonteCarloThresholds } from '../../server/services/walk-forward.js';
+
+const trades = [500, -200, 300, -400, -100, 800, -300, 200, -150, 600].map((pnl) => ({ pnl }));
+
+describe('Monte Carlo analysis', () => {
+  it('should measure drawdown and losing streaks on closed-trade equity', () => {
+    const path = pathMetrics([1000, -500, -500, 2000, -100], 10000);
+
+    expect(path.finalEquity).toBe(11900);
+    // Peak 11000 -> trough 10000
+    expect(path.maxDrawdown).toBeCloseTo(1000 / 11000, 10);
+    expect(path.longestLosingStreak).toBe(2);
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([0, 10], 25)).toBe(2.5);
+
+    console.log('Monte Carlo path metrics verified');
+  });
+
+  it('should keep final equity fixed when shuffling trade order', () => {
+    const result = runMonteCarlo(trades, 10000, { simulations: 500, seed: 3 });
+
+    expect(result.simulations).toBe(500);
+    expect(result.trades).toBe(10);
+    expect(result.finalEquity.min).toBe(11250);
+    expect(result.finalEquity.max).toBe(11250);
+    expect(result.probabilityOfLoss).toBe(0);
+    // Reordering exposes worse paths than the observed one
+    expect(result.maxDrawdown.max).toBeGreaterThan(result.observed.maxDrawdown);
+    expect(result.longestLosingStreak.max).toBeGreaterThanOrEqual(result.observed.longestLosingStreak);
+    expect(result.tailDrawdown).toBe(result.maxDrawdown.percentiles.p95);
+
+    const bands = Object.values(result.maxDrawdown.percentiles);
+    expect(bands).toEqual([...bands].sort((a, b) => a - b));
+    expect(result.maxDrawdown.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(500);
+
+    console.log('Shuffle resampling verified');
+  });
+
+  it('should vary final equity when bootstrapping and repeat with the same seed', () => {
+    const result = runMonteCarlo(trades, 10000, { method: 'bootstrap', simulations: 500, seed: 3 });
+
+    expect(result.finalEquity.max).toBeGreaterThan(result.finalEquity.min);
+    expect(result.finalEquity.percentiles.p5).toBeLessThan(result.finalEquity.percentiles.p95);
+    expect(result.probabilityOfLoss).toBeGreaterThan(0);
+    expect(runMonteCarlo(trades, 10000, { method: 'bootstrap', simulations: 500, seed: 3 })).toEqual(result);
+
+    console.log('Bootstrap resampling verified');
+  });
+
+  it('should handle a backtest with no trades', () => {
+    const result = runMonteCarlo([], 10000, { simulations: 10 });
+
+    expect(result.finalEquity.percentiles.p50).toBe(10000);
+    expect(result.tailDrawdown).toBe(0);
+    expect(result.longestLosingStreak.max).toBe(0);
+
+    console.log('Empty Monte Carlo input verified');
+  });
+
+  it('should reject strategies on the 5th-percentile drawdown', () => {
+    const result = runMonteCarlo(trades, 10000, { simulations: 500, seed: 3 });
+
+    expect(checkMonteCarloThresholds(result, {})).toEqual([]);
+    expect(checkMonteCarloThresholds(result, { maxMonteCarloDrawdown: 0.5 })).toEqual([]);
+    const failures = checkMonteCarloThresholds(result, { maxMonteCarloDrawdown: 0.01 });
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toContain('5th-percentile Monte Carlo drawdown');
+
+    console.log('Monte Carlo validation threshold verified');
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  runParameterSweep,
+  generateCombinations,
+  renderTemplate,
+  expandRange,
+  deflatedSharpe,
+  normalCdf,
+  inverseNormalCdf,
+  SweepConfigurationError,
+  MAX_SWEEP_RUNS,
+  type SweepRequest
+} from '../../server/services/optimization.js';
+import { runBacktest } from '../../server/services/backtest.js';
+import { testUtils } from '../setup.js';
+
+const bars = testUtils.createPriceSeries(Array.from({ length: 120 }, (_, i) => 100 + Math.sin(i / 4) * 8 + i * 0.05));
+
+const request: SweepRequest = {
+  symbol: 'AAPL',
+  entryTemplate: 'PRICE < SMA({period})',
+  exitTemplate: 'PRICE > SMA({period}) * {target}',
+  parameters: {
+    period: { min: 5, max: 15, step: 5 },
+    target: { values: [1.01, 1.02] }
+  },
+  method: 'grid'
+};
+
+describe('Parameter sweep', () => {
+  it('should expand ranges and render templates', () => {
+    expect(expandRange({ min: 0.1, max: 0.5, step: 0.1 })).toEqual([0.1, 0.2, 0.3, 0.4, 0.5]);
+    expect(expandRange({ values: [3, 1, 3, 2] })).toEqual([1, 2, 3]);
+    expect(renderTemplate('RSI({period}) < {level}', { period: 14, level: 30 })).toBe('RSI(14) < 30');
+    expect(() => renderTemplate('RSI({period}) < 30', {})).toThrow(SweepConfigurationError);
+
+    console.log('Parameter range expansion verified');
+  });
+
+  it('should reject templates and ranges that do not match', () => {
+    expect(() => generateCombinations({ ...request, parameters: { period: { values: [10] } } }))
+      .toThrow('No parameter range for placeholder {target}');
+    expect(() => generateCombinations({
+      ...request,
+      parameters: { ...request.parameters, unused: { values: [1] } }
+    })).toThrow("Parameter 'unused' is not used in either template");
+    expect(() => generateCombinations({
+      ...request,
+      parameters: { period: { min: 1, max: MAX_SWEEP_RUNS + 1, step: 1 }, target: { values: [1.01] } }
+    })).toThrow('use random search');
+
+    console.log('Sweep configuration errors verified');
+  });
+
+  it('should sample distinct, repeatable combinations for random search', () => {
+    const random = { ...request, method: 'random' as const, samples: 4, seed: 7 };
+    const first = generateCombinations(random);
+    const keys = first.map((params) => JSON.stringify(params));
+
+    expect(first).toHaveLength(4);
+    expect(new Set(keys).size).toBe(4);
+    expect(generateCombinations(random)).toEqual(first);
+    // Never more samples than grid points
+    expect(generateCombinations({ ...random, samples: 100 })).toHaveLength(6);
+
+    console.log('Random search sampling verified');
+  });
+
+  it('should rank every grid run and trade each one over the same bars', () => {
+    const result = runParameterSweep(bars, request);
+
+    expect(result.runs).toHaveLength(6);
+    expect(result.runs.map((run) => run.rank)).toEqual([1, 2, 3, 4, 5, 6]);
+    for (let i = 1; i < result.runs.length; i++) {
+      expect(result.runs[i - 1].metrics!.sharpeRatio).toBeGreaterThanOrEqual(result.runs[i].metrics!.sharpeRatio);
+    }
+
+    // SMA(15) sets the warm-up for every run, so a shorter period matches a plain backtest from there
+    const run = result.runs.find((r) => r.params.period === 5 && r.params.target === 1.02)!;
+    expect(run.entryRules).toBe('PRICE < SMA(5)');
+    expect(result.barsProcessed).toBe(bars.length - 15);
+    const direct = runBacktest(bars, {
+      symbol: 'AAPL',
+      entryRules: run.entryRules,
+      exitRules: run.exitRules,
+      warmupUntil: new Date(bars[15].timestamp)
+    });
+    expect(run.metrics!.totalReturn).toBeCloseTo(direct.totalReturn, 10);
+
+    console.log('Grid sweep ranking verified');
+  });
+
+  it('should keep runs with invalid rules unranked', () => {
+    const result = runParameterSweep(bars, {
+      ...request,
+      parameters: { period: { values: [0, 10] }, target: { values: [1.02] } }
+    });
+
+    const invalid = result.runs[result.runs.length - 1];
+    expect(invalid.params.period).toBe(0);
+    expect(invalid.rank).toBeNull();
+    expect(invalid.metrics).toBeNull();
+    expect(invalid.error).toContain('rule');
+    expect(result.runs[0].rank).toBe(1);
+
+    console.log('Invalid sweep runs verified');
+  });
+
+  it('should average the objective into a stability heatmap', () => {
+    const result = runParameterSweep(bars, request);
+    const heatmap = result.heatmap!;
+
+    expect(heatmap.x).toBe('period');
+    expect(heatmap.y).toBe('target');
+    expect(heatmap.xValues).toEqual([5, 10, 15]);
+    expect(heatmap.yValues).toEqual([1.01, 1.02]);
+    const cell = result.runs.find((r) => r.params.period === 10 && r.params.target === 1.01)!;
+    expect(heatmap.cells[0][1]).toBeCloseTo(cell.metrics!.sharpeRatio, 10);
+
+    // One axis collapses the other parameter into its mean
+    const single = runParameterSweep(bars, { ...request, heatmap: { x: 'target' } });
+    const mean = result.runs
+      .filter((r) => r.params.target === 1.02)
+      .reduce((sum, r) => sum + r.metrics!.sharpeRatio, 0) / 3;
+    expect(single.heatmap!.y).toBeNull();
+    expect(single.heatmap!.cells[0][1]).toBeCloseTo(mean, 10);
+
+    console.log('Stability heatmap verified');
+  });
+});
+
+describe('Deflated Sharpe ratio', () => {
+  it('should invert the normal CDF', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    [0.01, 0.3, 0.5, 0.9, 0.999].forEach((p) => {
+      expect(normalCdf(inverseNormalCdf(p))).toBeCloseTo(p, 4);
+    });
+
+    console.log('Normal distribution helpers verified');
+  });
+
+  it('should raise the bar as more trials are run', () => {
+    // Steady positive returns with a little noise: per-bar Sharpe around 0.2
+    const returns = Array.from({ length: 250 }, (_, i) => 0.001 + (i % 2 === 0 ? 0.005 : -0.005));
+    const single = deflatedSharpe([0.2], returns);
+    const spread = Array.from({ length: 200 }, (_, i) => -0.2 + (i / 199) * 0.4);
+    const many = deflatedSharpe(spread, returns);
+
+    expect(single.expectedMaxSharpe).toBe(0);
+    expect(single.deflatedSharpe).toBeGreaterThan(0.95);
+    expect(single.warning).toBeNull();
+    expect(many.trials).toBe(200);
+    expect(many.expectedMaxSharpe).toBeGreaterThan(single.bestSharpe);
+    expect(many.deflatedSharpe).toBeLessThan(0.95);
+    expect(many.warning).toContain('After 200 trials');
+
+    console.log('Multiple-testing correction verified');
+  });
+});
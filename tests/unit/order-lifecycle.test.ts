@@ -0,0 +1,210 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  OrderLifecycleService,
+  OrderTransitionError,
+  fillIncrement,
+  nextOrderStatus,
+  orderStatusFromBroker,
+  positionAfterFill,
+  type FillRecorder
+} from '../../server/services/order-lifecycle.js';
+import { SimulatedBroker } from '../../server/services/simulated-broker.js';
+import { DuplicateFillError } from '../../server/services/order-types.js';
+import { parseBarCsv } from '../../server/services/bar-store.js';
+import type { BrokerOrder } from '../../server/services/broker.js';
+import { MemoryStorage } from '../utils/memory-storage.js';
+
+jest.mock('../../server/services/broker.js', () => ({ broker: {} }));
+jest.mock('../../server/services/transaction.js', () => ({ transactionService: {} }));
+jest.mock('../../server/services/websocket.js', () => ({ wsManager: undefined }));
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const fixture = parseBarCsv(readFileSync(join(process.cwd(), 'tests/fixtures/bars/AAPL-1Day.csv'), 'utf8'));
+const context = { portfolioId: 'default-portfolio', correlationId: 'corr-1', strategyId: 's1' };
+
+// A broker whose order states the test scripts one poll at a time
+function scriptedBroker() {
+  const states = new Map<string, BrokerOrder>();
+  return {
+    states,
+    broker: {
+      name: 'alpaca' as const,
+      async getOrder(orderId: string) {
+        return states.get(orderId)!;
+      }
+    }
+  };
+}
+
+function brokerOrder(overrides: Partial<BrokerOrder> = {}): BrokerOrder {
+  return {
+    id: 'b1',
+    symbol: 'AAPL',
+    qty: 100,
+    side: 'buy',
+    type: 'market',
+    time_in_force: 'day',
+    status: 'accepted',
+    ...overrides
+  };
+}
+
+describe('order state machine', () => {
+  it('should fold broker statuses into the lifecycle and refuse to reopen closed orders', () => {
+    expect(orderStatusFromBroker({ status: 'pending_new' })).toBe('new');
+    expect(orderStatusFromBroker({ status: 'pending_cancel', filled_qty: 30 })).toBe('partially_filled');
+    expect(orderStatusFromBroker({ status: 'replaced' })).toBe('canceled');
+    expect(nextOrderStatus('partially_filled', 'filled')).toBe('filled');
+    expect(() => nextOrderStatus('filled', 'canceled')).toThrow(OrderTransitionError);
+    expect(() => nextOrderStatus('partially_filled', 'new')).toThrow('Cannot move a partially_filled order to new');
+
+    console.log('Order state machine verified');
+  });
+
+  it('should price each fill increment from cumulative broker fills', () => {
+    const increment = fillIncrement(
+      { filledQuantity: 40, filledAvgPrice: '100' },
+      { filled_qty: 100, filled_avg_price: 101 }
+    );
+    expect(increment).toEqual({ quantity: 60, price: 101.666667 });
+    expect(fillIncrement({ filledQuantity: 100, filledAvgPrice: '101' }, { filled_qty: 100, filled_avg_price: 101 })).toBeNull();
+
+    const held = { id: 'p1', quantity: 100, entryPrice: '100', averageEntryPrice: '101', realizedPnL: '0' };
+    expect(positionAfterFill(held, 'sell', { quantity: 40, price: 111 })).toMatchObject({
+      quantity: 60,
+      averageEntryPrice: 101,
+      realizedPnL: 400
+    });
+    expect(positionAfterFill(held, 'sell', { quantity: 100, price: 99 })).toMatchObject({ quantity: 0, exitPrice: 99 });
+    // Only what is held is sold against its cost basis
+    expect(positionAfterFill(held, 'sell', { quantity: 150, price: 111 })).toMatchObject({
+      quantity: 0,
+      realizedPnL: 1000,
+      exitPrice: 111
+    });
+    expect(positionAfterFill(undefined, 'sell', { quantity: 10, price: 111 })).toBeNull();
+
+    console.log('Fill increments verified');
+  });
+});
+
+describe('OrderLifecycleService', () => {
+  it('should book positions only as the broker reports fills', async () => {
+    const store = new MemoryStorage();
+    const { broker, states } = scriptedBroker();
+    const lifecycle = new OrderLifecycleService(store, store, broker);
+
+    const order = await lifecycle.recordSubmission(brokerOrder(), { ...context, expectedPrice: 100 });
+    expect(order.status).toBe('new');
+    expect(store.executions).toHaveLength(0);
+    expect(store.positions).toHaveLength(0);
+
+    states.set('b1', brokerOrder({ status: 'partially_filled', filled_qty: 40, filled_avg_price: 100 }));
+    expect(await lifecycle.pollOpenOrders()).toEqual({ checked: 1, updated: 1, failed: 0 });
+    expect(store.positions[0]).toMatchObject({ quantity: 40, isOpen: true });
+
+    states.set('b1', brokerOrder({ status: 'filled', filled_qty: 100, filled_avg_price: 101 }));
+    await lifecycle.pollOpenOrders();
+    expect(store.orders.get(order.id)).toMatchObject({ status: 'filled', filledQuantity: 100, filledAvgPrice: '101' });
+    expect(store.executions.map((fill) => [fill.quantity, fill.price, fill.executionId])).toEqual([
+      [40, 100, 'b1:40'],
+      [60, 101.666667, 'b1:100']
+    ]);
+    expect(store.positions).toHaveLength(1);
+    expect(store.positions[0].quantity).toBe(100);
+    expect(parseFloat(store.positions[0].averageEntryPrice!)).toBeCloseTo(101);
+
+    // Closed orders are no longer polled
+    expect(await lifecycle.pollOpenOrders()).toEqual({ checked: 0, updated: 0, failed: 0 });
+
+    console.log('Partial fill booking verified');
+  });
+
+  it('should track bracket legs and book the exit that fills', async () => {
+    let now = new Date(fixture[5].timestamp.getTime() + DAY_MS);
+    const broker = new SimulatedBroker({
+      bars: async (symbol, start, end) => fixture.filter((bar) => bar.timestamp >= start && bar.timestamp <= end),
+      timeframe: '1Day',
+      initialCash: 10_000,
+      now: () => now
+    });
+    const store = new MemoryStorage();
+    const lifecycle = new OrderLifecycleService(store, store, broker);
+
+    const placed = await broker.placeOrder({
+      symbol: 'AAPL', qty: 10, side: 'buy', type: 'market', order_class: 'bracket',
+      take_profit: { limit_price: 109.2 }, stop_loss: { stop_price: 105 }
+    });
+    const entry = await lifecycle.recordSubmission(placed, context);
+    expect(entry).toMatchObject({ status: 'filled', orderClass: 'bracket', filledQuantity: 10 });
+    const legs = await store.getOrders({ parentOrderId: entry.id });
+    expect(legs.map((leg) => [leg.type, leg.status])).toEqual([['limit', 'new'], ['stop', 'new']]);
+
+    now = new Date(fixture[6].timestamp.getTime() + DAY_MS);
+    expect(await lifecycle.pollOpenOrders()).toMatchObject({ checked: 2, updated: 2, failed: 0 });
+    const [takeProfit, stopLoss] = await store.getOrders({ parentOrderId: entry.id });
+    expect(takeProfit).toMatchObject({ status: 'filled', filledAvgPrice: '109.2' });
+    expect(stopLoss.status).toBe('canceled');
+    expect(store.positions[0]).toMatchObject({ quantity: 0, isOpen: false, exitPrice: '109.2' });
+    expect(parseFloat(store.positions[0].realizedPnL!)).toBeCloseTo(10 * (109.2 - 107.84));
+
+    console.log('Bracket leg tracking verified');
+  });
+
+  it('should book a fill seen by the stream and the poller at once only once, quietly', async () => {
+    const store = new MemoryStorage();
+    const { broker, states } = scriptedBroker();
+    // Holds both fills until both updates have read the unfilled order
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    let duplicates = 0;
+    const fills: FillRecorder = {
+      async recordOrderFill(...args) {
+        await gate;
+        return store.recordOrderFill(...args).catch((error) => {
+          if (error instanceof DuplicateFillError) duplicates++;
+          throw error;
+        });
+      }
+    };
+    const lifecycle = new OrderLifecycleService(store, fills, broker);
+    await lifecycle.recordSubmission(brokerOrder(), context);
+
+    const filled = brokerOrder({ status: 'filled', filled_qty: 100, filled_avg_price: 101 });
+    states.set('b1', filled);
+    const both = Promise.all([lifecycle.handleOrderUpdate(filled), lifecycle.pollOpenOrders()]);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    release();
+    const [streamed, polled] = await both;
+
+    expect(duplicates).toBe(1);
+    expect(streamed).toMatchObject({ status: 'filled', filledQuantity: 100 });
+    expect(polled.failed).toBe(0);
+    expect(store.executions).toHaveLength(1);
+    expect(store.positions).toEqual([expect.objectContaining({ quantity: 100 })]);
+    expect(store.auditLogs.map((log) => log.eventType)).not.toContain('ORDER_SYNC_FAILED');
+
+    console.log('Duplicate fill handling verified');
+  });
+
+  it('should flag sells with nothing held instead of booking a position', async () => {
+    const store = new MemoryStorage();
+    const { broker } = scriptedBroker();
+    const lifecycle = new OrderLifecycleService(store, store, broker);
+
+    await lifecycle.recordSubmission(
+      brokerOrder({ side: 'sell', qty: 10, status: 'filled', filled_qty: 10, filled_avg_price: 120 }),
+      context
+    );
+
+    expect(store.executions).toHaveLength(1);
+    expect(store.positions).toEqual([]);
+    expect(store.auditLogs.find((log) => log.eventType === 'UNMATCHED_SELL_FILL')).toMatchObject({
+      level: 'error',
+      eventData: expect.objectContaining({ symbol: 'AAPL', unmatchedQuantity: 10 })
+    });
+
+    console.log('Unmatched sell flagging verified');
+  });
+});
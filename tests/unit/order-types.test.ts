@@ -0,0 +1,50 @@
+import { bracketFromRiskParameters, orderRequestProblem } from '../../server/services/order-types.js';
+
+describe('orderRequestProblem', () => {
+  it('should require the price fields of each order type', () => {
+    expect(orderRequestProblem({ side: 'buy', type: 'market' })).toBeNull();
+    expect(orderRequestProblem({ side: 'buy', type: 'limit' })).toBe('limit orders need a limit_price');
+    expect(orderRequestProblem({ side: 'sell', type: 'stop_limit', stop_price: 95 })).toBe('stop_limit orders need a limit_price');
+    expect(orderRequestProblem({ side: 'sell', type: 'trailing_stop', trail_price: 2, trail_percent: 1 }))
+      .toBe('trailing_stop orders need exactly one of trail_price and trail_percent');
+    expect(orderRequestProblem({ side: 'sell', type: 'trailing_stop', trail_percent: 1 })).toBeNull();
+
+    console.log('Order type price fields verified');
+  });
+
+  it('should require the legs of each order class on the right side of the entry', () => {
+    const takeProfit = { limit_price: 110 };
+    const stopLoss = { stop_price: 95 };
+
+    expect(orderRequestProblem({ side: 'buy', type: 'market', order_class: 'bracket', take_profit: takeProfit, stop_loss: stopLoss })).toBeNull();
+    expect(orderRequestProblem({ side: 'buy', type: 'market', order_class: 'bracket', take_profit: takeProfit }))
+      .toBe('bracket orders need both take_profit and stop_loss');
+    expect(orderRequestProblem({ side: 'buy', type: 'stop', stop_price: 101, order_class: 'oto', stop_loss: stopLoss }))
+      .toBe('oto entries must be market or limit orders');
+    expect(orderRequestProblem({ side: 'sell', type: 'limit', limit_price: 110, order_class: 'oco', take_profit: takeProfit, stop_loss: stopLoss })).toBeNull();
+    expect(orderRequestProblem({ side: 'sell', type: 'market', order_class: 'bracket', take_profit: takeProfit, stop_loss: stopLoss }))
+      .toBe('take_profit must be on the profitable side of stop_loss');
+    expect(orderRequestProblem({ side: 'buy', type: 'market', stop_loss: stopLoss }))
+      .toBe('take_profit and stop_loss need a bracket, oco or oto order_class');
+
+    console.log('Order class legs verified');
+  });
+});
+
+describe('bracketFromRiskParameters', () => {
+  it('should turn stop-loss and take-profit percentages into exits around the entry', () => {
+    expect(bracketFromRiskParameters('buy', 200, { stopLoss: 2.5, takeProfit: 10, trailingStop: 3 })).toEqual({
+      orderClass: 'bracket',
+      takeProfit: { limitPrice: 220 },
+      stopLoss: { stopPrice: 195 }
+    });
+    expect(bracketFromRiskParameters('sell', 50, { stopLoss: 4 })).toEqual({
+      orderClass: 'oto',
+      stopLoss: { stopPrice: 52 }
+    });
+    expect(bracketFromRiskParameters('buy', 50, { maxPositionSize: 10 })).toEqual({});
+    expect(bracketFromRiskParameters('buy', 50, null)).toEqual({});
+
+    console.log('Risk parameter brackets verified');
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  calculateBenchmarkMetrics,
+  calculateReturnMetrics,
+  calculateTradeStatistics,
+  summarizePerformance,
+  toRiskMetricRow
+} from '../../server/services/performance-metrics.js';
+import { runBacktest } from '../../server/services/backtest.js';
+import { testUtils } from '../setup.js';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const day = (n: number) => new Date(Date.UTC(2024, 0, 1) + n * DAY_MS);
+
+const benchmarkCloses = [100, 102, 101, 104, 103, 106, 105, 108];
+const benchmarkBars = benchmarkCloses.map((close, i) =>
+  testUtils.createMockBar({ timestamp: day(i), open: close, high: close, low: close, close })
+);
+
+// Equity that moves `leverage` times the benchmark's return each day
+function leveredCurve(leverage: number) {
+  let equity = 10000;
+  return benchmarkCloses.map((close, i) => {
+    if (i > 0) equity *= 1 + leverage * (close / benchmarkCloses[i - 1] - 1);
+    return { timestamp: day(i), equity };
+  });
+}
+
+describe('Benchmark metrics', () => {
+  it('should match the benchmark exactly when tracking it', () => {
+    const metrics = calculateBenchmarkMetrics(leveredCurve(1), benchmarkBars, 'SPY')!;
+
+    expect(metrics.symbol).toBe('SPY');
+    expect(metrics.periods).toBe(7);
+    expect(metrics.benchmarkReturn).toBeCloseTo(0.08, 10);
+    expect(metrics.beta).toBeCloseTo(1, 10);
+    expect(metrics.alpha).toBeCloseTo(0, 10);
+    expect(metrics.trackingError).toBeCloseTo(0, 10);
+    expect(metrics.upCapture).toBeCloseTo(1, 10);
+    expect(metrics.downCapture).toBeCloseTo(1, 10);
+
+    console.log('Benchmark tracking metrics verified');
+  });
+
+  it('should measure beta and capture of a levered strategy', () => {
+    const metrics = calculateBenchmarkMetrics(leveredCurve(2), benchmarkBars, 'SPY')!;
+
+    expect(metrics.beta).toBeCloseTo(2, 10);
+    expect(metrics.alpha).toBeCloseTo(0, 10);
+    expect(metrics.upCapture).toBeCloseTo(2, 10);
+    expect(metrics.downCapture).toBeCloseTo(2, 10);
+    expect(metrics.trackingError).toBeGreaterThan(0);
+    // Active return is the benchmark's own return, which is positive here
+    expect(metrics.informationRatio).toBeGreaterThan(0);
+
+    console.log('Levered benchmark metrics verified');
+  });
+
+  it('should only use timestamps present in both series', () => {
+    const curve = leveredCurve(1);
+    const gappy = benchmarkBars.filter((_, i) => i !== 3);
+
+    const metrics = calculateBenchmarkMetrics(curve, gappy, 'SPY')!;
+    expect(metrics.periods).toBe(6);
+    expect(metrics.beta).toBeCloseTo(1, 10);
+    expect(calculateBenchmarkMetrics(curve.slice(0, 2), benchmarkBars, 'SPY')).toBeNull();
+    expect(calculateBenchmarkMetrics(curve, [], 'SPY')).toBeNull();
+
+    console.log('Benchmark alignment verified');
+  });
+});
+
+describe('Return and trade statistics', () => {
+  it('should compute Sortino and Calmar ratios', () => {
+    const returns = [0.02, -0.01, 0.03, -0.02];
+    const metrics = calculateReturnMetrics(returns, 0.1, 0.05, 4);
+
+    // Downside deviation: sqrt((0.01^2 + 0.02^2) / 4)
+    const downside = Math.sqrt((0.0001 + 0.0004) / 4);
+    expect(metrics.sortinoRatio).toBeCloseTo((0.005 / downside) * 2, 10);
+    // Four returns at four periods per year is one year, so annualized return is 10%
+    expect(metrics.calmarRatio).toBeCloseTo(0.1 / 0.05, 10);
+    expect(calculateReturnMetrics([0.01, 0.02], 0.03, 0).calmarRatio).toBe(0);
+    expect(calculateReturnMetrics([0.01, 0.02], 0.03, 0).sortinoRatio).toBe(0);
+
+    console.log('Sortino and Calmar ratios verified');
+  });
+
+  it('should compute profit factor, expectancy and holding period', () => {
+    const stats = calculateTradeStatistics([
+      { pnl: 300, returnPercent: 3, barsHeld: 4 },
+      { pnl: -100, returnPercent: -1, barsHeld: 2 },
+      { pnl: 200, returnPercent: 2, barsHeld: 6 },
+      { pnl: -200, returnPercent: -2, barsHeld: 8 }
+    ]);
+
+    expect(stats.profitFactor).toBeCloseTo(500 / 300, 10);
+    expect(stats.expectancy).toBeCloseTo(0.005, 10);
+    expect(stats.averageHoldingPeriod).toBe(5);
+    expect(calculateTradeStatistics([{ pnl: 50, returnPercent: 1, barsHeld: 1 }]).profitFactor).toBeNull();
+    expect(calculateTradeStatistics([])).toEqual({ profitFactor: null, expectancy: 0, averageHoldingPeriod: 0 });
+
+    console.log('Trade statistics verified');
+  });
+});
+
+describe('Persisted performance', () => {
+  it('should report benchmark and exposure metrics from a backtest', () => {
+    const closes = Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 3) * 6);
+    const bars = closes.map((close, i) =>
+      testUtils.createMockBar({ timestamp: day(i), open: close, high: close + 1, low: close - 1, close })
+    );
+    const spy = closes.map((_, i) =>
+      testUtils.createMockBar({ timestamp: day(i), close: 400 + i + (i % 3) })
+    );
+
+    const result = runBacktest(bars, {
+      symbol: 'AAPL',
+      entryRules: 'PRICE < SMA(5)',
+      exitRules: 'PRICE > SMA(5)',
+      benchmark: { symbol: 'SPY', bars: spy }
+    });
+
+    expect(result.totalTrades).toBeGreaterThan(0);
+    expect(result.benchmark!.symbol).toBe('SPY');
+    expect(result.benchmark!.periods).toBe(59);
+    expect(result.exposureTime).toBeGreaterThan(0);
+    expect(result.exposureTime).toBeLessThan(1);
+    expect(result.averageHoldingPeriod).toBeGreaterThan(0);
+    expect(runBacktest(bars, { symbol: 'AAPL', entryRules: 'PRICE < SMA(5)', exitRules: 'PRICE > SMA(5)' }).benchmark).toBeNull();
+
+    const row = toRiskMetricRow('AAPL', 'backtest', result);
+    expect(row).toMatchObject({ symbol: 'AAPL', source: 'backtest', benchmark: 'SPY' });
+    expect(Number(row.beta)).toBeCloseTo(result.benchmark!.beta!, 6);
+    expect(Number(row.exposureTime)).toBeCloseTo(result.exposureTime, 6);
+
+    console.log('Backtest performance metrics verified');
+  });
+
+  it('should summarize a live equity history', () => {
+    const curve = leveredCurve(1);
+    const summary = summarizePerformance(
+      curve,
+      [{ pnl: 400, returnPercent: 4, barsHeld: 3 }],
+      0.5,
+      { symbol: 'SPY', bars: benchmarkBars }
+    );
+
+    expect(summary.totalReturn).toBeCloseTo(0.08, 10);
+    // Largest dip is 102 -> 101
+    expect(summary.maxDrawdown).toBeCloseTo(1 / 102, 10);
+    expect(summary.winRate).toBe(1);
+    expect(summary.benchmark!.beta).toBeCloseTo(1, 10);
+
+    // Undefined ratios are stored as NULL rather than 'Infinity' or 'NaN'
+    const row = toRiskMetricRow('PORTFOLIO', 'live', summary);
+    expect(row.profitFactor).toBeNull();
+    expect(row.informationRatio).toBeNull();
+    expect(row.exposureTime).toBe('0.5');
+
+    console.log('Live performance summary verified');
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  ReconciliationService,
+  diffPositions,
+  reconciliationConfig,
+  type ReconciliationConfig
+} from '../../server/services/reconciliation.js';
+import type { AlertEvent } from '../../server/services/health-monitor.js';
+import type { BrokerPosition } from '../../server/services/broker.js';
+import type { Order, Portfolio, Position } from '../../shared/schema.js';
+import { MemoryStorage } from '../utils/memory-storage.js';
+
+function position(overrides: Partial<Position>): Position {
+  return {
+    id: 'p1',
+    portfolioId: 'default-portfolio',
+    symbol: 'AAPL',
+    quantity: 10,
+    entryPrice: '190.0000',
+    averageEntryPrice: '190.0000',
+    currentPrice: '192.0000',
+    marketValue: null,
+    unrealizedPnL: null,
+    isOpen: true,
+    entryDate: new Date('2024-03-01T15:00:00Z'),
+    exitDate: null,
+    exitPrice: null,
+    realizedPnL: null,
+    strategyId: null,
+    correlationId: null,
+    ...overrides
+  };
+}
+
+function held(symbol: string, qty: number, avgEntryPrice: number): BrokerPosition {
+  return {
+    symbol,
+    qty,
+    avg_entry_price: avgEntryPrice,
+    current_price: avgEntryPrice,
+    market_value: qty * avgEntryPrice,
+    unrealized_pl: 0,
+    unrealized_plpc: 0
+  };
+}
+
+function createStore(positions: Position[], cashBalance = '50000.00') {
+  const store = new MemoryStorage();
+  store.portfolios.set('default-portfolio', { id: 'default-portfolio', cashBalance } as Portfolio);
+  store.positions.push(...positions);
+  return store;
+}
+
+const config: ReconciliationConfig = {
+  intervalMs: 0,
+  portfolioId: 'default-portfolio',
+  autoHeal: ['price_drift', 'cash_drift'],
+  priceTolerance: 0.005,
+  cashTolerance: 1
+};
+
+function scriptedBroker(positions: BrokerPosition[], cash = 50000) {
+  return {
+    name: 'simulated' as const,
+    getPositions: jest.fn(async () => positions),
+    getAccount: jest.fn(async () => ({
+      id: 'acct', status: 'ACTIVE', currency: 'USD', buying_power: cash, cash, portfolio_value: cash, daytrade_count: 0
+    }))
+  };
+}
+
+describe('diffPositions', () => {
+  it('should classify missing, orphaned and drifted symbols, summing rows of a symbol', () => {
+    const issues = diffPositions(
+      [held('AAPL', 15, 190), held('MSFT', 5, 410), held('NVDA', 2, 880), held('SPY', 4, 500)],
+      [
+        position({ id: 'a1', symbol: 'AAPL', quantity: 10 }),
+        position({ id: 'a2', symbol: 'AAPL', quantity: 5, averageEntryPrice: null, entryPrice: '190.0000' }),
+        position({ id: 'm1', symbol: 'MSFT', quantity: 3, averageEntryPrice: '410.0000' }),
+        position({ id: 's1', symbol: 'SPY', quantity: 4, averageEntryPrice: '520.0000' }),
+        position({ id: 't1', symbol: 'TSLA', quantity: 7 })
+      ],
+      0.005
+    );
+
+    expect(issues.map(({ kind, symbol, broker, local, positionIds }) => ({ kind, symbol, broker, local, positionIds }))).toEqual([
+      { kind: 'qty_drift', symbol: 'MSFT', broker: 5, local: 3, positionIds: ['m1'] },
+      { kind: 'missing', symbol: 'NVDA', broker: 2, local: 0, positionIds: [] },
+      { kind: 'price_drift', symbol: 'SPY', broker: 500, local: 520, positionIds: ['s1'] },
+      { kind: 'orphan', symbol: 'TSLA', broker: 0, local: 7, positionIds: ['t1'] }
+    ]);
+    // Within tolerance is not drift
+    expect(diffPositions([held('SPY', 4, 500)], [position({ symbol: 'SPY', quantity: 4, averageEntryPrice: '502.0000' })], 0.005)).toEqual([]);
+
+    console.log('Position diff classification verified');
+  });
+});
+
+describe('ReconciliationService', () => {
+  it('should heal only the configured kinds and record everything else as drift', async () => {
+    const store = createStore(
+      [
+        position({ id: 's1', symbol: 'SPY', quantity: 4, averageEntryPrice: '520.0000' }),
+        position({ id: 't1', symbol: 'TSLA', quantity: 7 })
+      ],
+      '49000.00'
+    );
+    const alerts: AlertEvent[] = [];
+    const service = new ReconciliationService(
+      store,
+      scriptedBroker([held('SPY', 4, 500), held('NVDA', 2, 880)], 48250.1),
+      config,
+      (alert) => alerts.push(alert)
+    );
+
+    const run = await service.run('manual');
+
+    expect(run).toMatchObject({ status: 'drift', issueCount: 4, healedCount: 2, brokerCash: '48250.10', localCash: '49000.00' });
+    expect(store.positions.find((row) => row.id === 's1')!.averageEntryPrice).toBe('500');
+    expect(store.portfolios.get('default-portfolio')!.cashBalance).toBe('48250.10');
+    // Not configured for auto-heal
+    expect(store.positions.find((row) => row.id === 't1')!.isOpen).toBe(true);
+    expect(store.positions).toHaveLength(2);
+
+    expect(store.auditLogs.map((log) => `${log.eventType}:${log.level}`).sort()).toEqual([
+      'RECONCILIATION_HEALED:info',
+      'RECONCILIATION_HEALED:info',
+      'RECONCILIATION_MISMATCH:error',
+      'RECONCILIATION_MISMATCH:error'
+    ]);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ serviceName: 'reconciliation', alertType: 'reconciliation_drift', severity: 'critical' });
+
+    // The same drift again does not alert twice
+    await service.run('schedule');
+    expect(alerts).toHaveLength(1);
+
+    console.log('Selective auto-heal verified');
+  });
+
+  it('should book missing positions and close orphans, but leave symbols with open orders alone', async () => {
+    const store = createStore([
+      position({ id: 't1', symbol: 'TSLA', quantity: 7, currentPrice: '175.5000' }),
+      position({ id: 'm1', symbol: 'MSFT', quantity: 3 })
+    ]);
+    store.orders.set('o1', { id: 'o1', symbol: 'MSFT', status: 'partially_filled' } as Order);
+    const service = new ReconciliationService(
+      store,
+      scriptedBroker([held('NVDA', 2, 880), held('AMD', 1.5, 160), held('MSFT', 5, 410)]),
+      { ...config, autoHeal: ['missing', 'orphan', 'qty_drift'] }
+    );
+
+    const run = await service.run('manual');
+    const issues = run.issues as { kind: string; symbol: string; healed: boolean; skipped?: string }[];
+
+    expect(issues.map(({ kind, symbol, healed, skipped }) => ({ kind, symbol, healed, skipped }))).toEqual([
+      { kind: 'missing', symbol: 'NVDA', healed: true, skipped: undefined },
+      { kind: 'missing', symbol: 'AMD', healed: false, skipped: 'Fractional quantities cannot be booked' },
+      { kind: 'qty_drift', symbol: 'MSFT', healed: false, skipped: 'MSFT has open orders' },
+      { kind: 'orphan', symbol: 'TSLA', healed: true, skipped: undefined }
+    ]);
+    expect(store.positions.find((row) => row.symbol === 'NVDA')).toMatchObject({ quantity: 2, averageEntryPrice: '880', isOpen: true });
+    expect(store.positions.find((row) => row.id === 't1')).toMatchObject({ isOpen: false, exitPrice: '175.5000' });
+    expect(store.positions.find((row) => row.id === 'm1')!.quantity).toBe(3);
+
+    // Healed issues are gone on the next run
+    const next = await service.run('schedule');
+    expect((next.issues as { symbol: string }[]).map((issue) => issue.symbol)).toEqual(['AMD', 'MSFT']);
+
+    console.log('Missing and orphan healing verified');
+  });
+
+  it('should record a failed run when the broker cannot be reached and share runs in progress', async () => {
+    const store = createStore([]);
+    const broker = scriptedBroker([]);
+    broker.getPositions.mockRejectedValueOnce(new Error('Alpaca API error: 503'));
+    const service = new ReconciliationService(store, broker, config);
+
+    const failed = await service.run('schedule');
+    expect(failed).toMatchObject({ status: 'failed', error: 'Alpaca API error: 503', issues: [] });
+    expect(store.auditLogs.map((log) => log.eventType)).toEqual(['RECONCILIATION_FAILED']);
+
+    const [first, second] = await Promise.all([service.run('manual'), service.run('manual')]);
+    expect(first).toBe(second);
+    expect(first.status).toBe('clean');
+    expect(broker.getPositions).toHaveBeenCalledTimes(2);
+
+    console.log('Failed and concurrent runs verified');
+  });
+});
+
+describe('reconciliationConfig', () => {
+  it('should read auto-heal kinds and reject unknown ones', () => {
+    expect(reconciliationConfig({})).toEqual({
+      intervalMs: 300000,
+      portfolioId: 'default-portfolio',
+      autoHeal: ['price_drift'],
+      priceTolerance: 0.005,
+      cashTolerance: 1
+    });
+    expect(reconciliationConfig({ RECONCILIATION_AUTO_HEAL: 'none' }).autoHeal).toEqual([]);
+    expect(reconciliationConfig({ RECONCILIATION_AUTO_HEAL: ' missing, orphan ' }).autoHeal).toEqual(['missing', 'orphan']);
+    expect(() => reconciliationConfig({ RECONCILIATION_AUTO_HEAL: 'everything' })).toThrow('Unknown RECONCILIATION_AUTO_HEAL kind "everything"');
+
+    console.log('Reconciliation configuration verified');
+  });
+});
@@ -0,0 +1,143 @@
+import { parseRule, tokenize, RuleParseError } from '../../server/services/rule-parser.js';
+
+function parseError(source: string): RuleParseError {
+  try {
+    parseRule(source);
+  } catch (error) {
+    if (error instanceof RuleParseError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${source}" to fail parsing`);
+}
+
+describe('Rule parser', () => {
+  describe('Tokenizer', () => {
+    it('should tokenize numbers, identifiers and operators with positions', () => {
+      const tokens = tokenize('rsi(14) >= 30.5');
+
+      expect(tokens.map(t => t.value)).toEqual(['RSI', '(', '14', ')', '>=', '30.5', '']);
+      expect(tokens[4]).toMatchObject({ type: 'operator', start: 8, end: 10 });
+      console.log('Tokenizer verified');
+    });
+
+    it('should reject unknown characters', () => {
+      const error = parseError('PRICE > 100 $');
+
+      expect(error.position).toBe(12);
+      console.log('Unknown character rejection verified');
+    });
+  });
+
+  describe('Parsing', () => {
+    it('should parse a simple comparison', () => {
+      const ast = parseRule('RSI(14) < 30');
+
+      expect(ast).toMatchObject({
+        kind: 'comparison',
+        operator: '<',
+        left: { kind: 'call', name: 'RSI', args: [{ name: null, value: { kind: 'number', value: 14 } }] },
+        right: { kind: 'number', value: 30 }
+      });
+      console.log('Simple comparison parsing verified');
+    });
+
+    it('should give AND precedence over OR', () => {
+      const ast = parseRule('PRICE > 10 OR PRICE < 5 AND VOLUME > 100');
+
+      expect(ast.kind).toBe('logical');
+      if (ast.kind !== 'logical') return;
+      expect(ast.operator).toBe('OR');
+      expect(ast.operands[1]).toMatchObject({ kind: 'logical', operator: 'AND' });
+      console.log('Logical precedence verified');
+    });
+
+    it('should honour parentheses and NOT', () => {
+      const ast = parseRule('NOT (PRICE > 10 OR PRICE < 5) AND VOLUME > 100');
+
+      expect(ast).toMatchObject({
+        kind: 'logical',
+        operator: 'AND',
+        operands: [{ kind: 'not', operand: { kind: 'logical', operator: 'OR' } }, { kind: 'comparison' }]
+      });
+      console.log('Grouping and NOT verified');
+    });
+
+    it('should parse arithmetic with standard precedence', () => {
+      const ast = parseRule('PRICE > SMA(20) * 1.02 + 1');
+
+      expect(ast).toMatchObject({
+        kind: 'comparison',
+        right: {
+          kind: 'arithmetic',
+          operator: '+',
+          left: { kind: 'arithmetic', operator: '*', left: { kind: 'call', name: 'SMA' } },
+          right: { kind: 'number', value: 1 }
+        }
+      });
+      console.log('Arithmetic precedence verified');
+    });
+
+    it('should parse named indicator parameters', () => {
+      const ast = parseRule('EMA(period=12) > EMA(PERIOD = 26)');
+
+      expect(ast).toMatchObject({
+        left: { kind: 'call', args: [{ name: 'period', value: { value: 12 } }] },
+        right: { kind: 'call', args: [{ name: 'period', value: { value: 26 } }] }
+      });
+      console.log('Named parameters verified');
+    });
+
+    it('should parse crossover operators and bar offsets', () => {
+      const ast = parseRule('SMA(20) crosses_above SMA(50) AND CLOSE[1] < CLOSE[2]');
+
+      expect(ast).toMatchObject({
+        operands: [
+          { kind: 'comparison', operator: 'CROSSES_ABOVE' },
+          { left: { kind: 'offset', bars: 1, operand: { kind: 'identifier', name: 'CLOSE' } } }
+        ]
+      });
+      expect(parseError('CLOSE[1.5] > 1').position).toBe(6);
+      console.log('Crossover and offset parsing verified');
+    });
+
+    it('should record source spans for each node', () => {
+      const source = 'RSI(14) < 30 AND (PRICE > 100)';
+      const ast = parseRule(source);
+
+      if (ast.kind !== 'logical') throw new Error('expected logical node');
+      expect(source.slice(ast.operands[0].start, ast.operands[0].end)).toBe('RSI(14) < 30');
+      expect(source.slice(ast.operands[1].start, ast.operands[1].end)).toBe('(PRICE > 100)');
+      console.log('Source spans verified');
+    });
+  });
+
+  describe('Parse errors', () => {
+    it('should report the position of an unexpected token', () => {
+      const error = parseError('RSI(14) < AND 30');
+
+      expect(error.position).toBe(10);
+      expect(error.message).toContain('position 10');
+      console.log('Unexpected token position verified');
+    });
+
+    it('should report unbalanced parentheses', () => {
+      const error = parseError('(PRICE > 100 AND VOLUME > 5');
+
+      expect(error.message).toContain("Expected ')'");
+      expect(error.position).toBe(27);
+      console.log('Unbalanced parenthesis error verified');
+    });
+
+    it('should reject bare values where a condition is required', () => {
+      expect(parseError('INVALID_RULE').position).toBe(0);
+      expect(parseError('PRICE > 10 AND SMA(20)').position).toBe(15);
+      console.log('Missing comparison error verified');
+    });
+
+    it('should reject chained comparisons and empty rules', () => {
+      expect(parseError('10 < PRICE < 20').position).toBe(11);
+      expect(parseError('   ').message).toContain('empty');
+      console.log('Chained comparison and empty rule errors verified');
+    });
+  });
+});
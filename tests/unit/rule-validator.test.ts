@@ -0,0 +1,69 @@
+import { validateRules, formatRuleValidationErrors } from '../../server/services/rule-validator.js';
+
+describe('Rule validator', () => {
+  it('should accept valid rules and report indicators and warm-up', () => {
+    const result = validateRules('RSI(14) < 30 AND PRICE > SMA(period=50)', 'RSI(14) > 70 OR MACD < 0');
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.indicators).toEqual(['RSI(14)', 'SMA(50)', 'MACD(12, 26, 9)']);
+    expect(result.warmupBars).toBe(50);
+    console.log('Valid rule check verified');
+  });
+
+  it('should list unknown indicators with their positions', () => {
+    const result = validateRules('STOCH(14) < 20 AND PRICE > KELTNER', 'RSI(14) > 70');
+
+    expect(result.valid).toBe(false);
+    expect(result.unknownIndicators).toEqual(['STOCH', 'KELTNER']);
+    expect(result.errors.map(e => e.position)).toEqual([0, 27]);
+    console.log('Unknown indicator check verified');
+  });
+
+  it('should list every unsupported operator', () => {
+    const result = validateRules('RSI(14) < 30 && VOLUME > 1000', 'PRICE % 2 == 0');
+
+    expect(result.valid).toBe(false);
+    expect(result.unsupportedOperators).toEqual(['&&', '%']);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ ruleType: 'entry', position: 13 }),
+      expect.objectContaining({ ruleType: 'exit', position: 6 })
+    ]);
+    console.log('Unsupported operator check verified');
+  });
+
+  it('should report parse errors and bad indicator arguments', () => {
+    const result = validateRules('RSI(14) <', 'SMA(0) > PRICE');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatchObject({ ruleType: 'entry', position: 9 });
+    expect(result.errors[1]).toMatchObject({ ruleType: 'exit', position: 4 });
+    expect(formatRuleValidationErrors(result)).toContain('exit rule: SMA period must be a whole number of at least 1');
+    console.log('Parse and argument errors verified');
+  });
+
+  it('should include lookbacks, offsets and crossovers in the warm-up', () => {
+    const result = validateRules('SMA(20)[5] CROSSES_ABOVE HIGHEST(SMA(10), 30)', 'BARS_SINCE(RSI(14) < 30) < 3');
+
+    expect(result.valid).toBe(true);
+    // HIGHEST(SMA(10), 30) needs 10 + 30 - 1 bars, plus one for the cross
+    expect(result.warmupBars).toBe(40);
+    console.log('Lookback warm-up verified');
+  });
+
+  it('should reject lookback functions with the wrong argument kinds', () => {
+    const result = validateRules('BARS_SINCE(CLOSE) < 3', 'HIGHEST(CLOSE > 1, 5) > 2');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => e.ruleType)).toEqual(['entry', 'exit']);
+    console.log('Lookback argument checks verified');
+  });
+
+  it('should allow negative numbers after comparison operators', () => {
+    const result = validateRules('MACD >-0.5', 'MACD < -1');
+
+    expect(result.valid).toBe(true);
+    expect(result.warmupBars).toBe(34);
+    console.log('Negative number handling verified');
+  });
+});
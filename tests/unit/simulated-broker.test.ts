@@ -0,0 +1,218 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SimulatedBroker, generateBars, generatedBars } from '../../server/services/simulated-broker.js';
+import { RedisStateStore } from '../../server/services/simulated-broker-state.js';
+import { brokerConfig } from '../../server/services/broker-config.js';
+import { parseBarCsv } from '../../server/services/bar-store.js';
+import type { MarketBar } from '../../server/services/evaluator.js';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const fixture = parseBarCsv(readFileSync(join(process.cwd(), 'tests/fixtures/bars/AAPL-1Day.csv'), 'utf8'));
+
+// Replays the fixture, with a clock the test moves to the close of a given bar
+function replayBroker(startBar: number, store?: RedisStateStore) {
+  let now = new Date(fixture[startBar].timestamp.getTime() + DAY_MS);
+  const broker = new SimulatedBroker({
+    bars: async (symbol, start, end) =>
+      fixture.filter((bar: MarketBar) => bar.timestamp >= start && bar.timestamp <= end),
+    timeframe: '1Day',
+    initialCash: 10_000,
+    now: () => now,
+    store,
+  });
+  const closeOf = (bar: MarketBar) => {
+    now = new Date(bar.timestamp.getTime() + DAY_MS);
+  };
+  return { broker, closeOf };
+}
+
+describe('generateBars', () => {
+  it('should generate the same bars for a seed whatever the window', () => {
+    const start = new Date(Date.UTC(2024, 0, 1));
+    const end = new Date(Date.UTC(2024, 0, 31));
+    const month = generateBars(7, 'AAPL', start, end, '1Day');
+    const lateMonth = generateBars(7, 'AAPL', new Date(Date.UTC(2024, 0, 20)), end, '1Day');
+
+    expect(month).toHaveLength(31);
+    expect(month.slice(19)).toEqual(lateMonth);
+    expect(generateBars(8, 'AAPL', start, end, '1Day')).not.toEqual(month);
+    for (const bar of month) {
+      expect(bar.high).toBeGreaterThanOrEqual(Math.max(bar.open, bar.close));
+      expect(bar.low).toBeLessThanOrEqual(Math.min(bar.open, bar.close));
+    }
+
+    console.log('Seeded bar generation verified');
+  });
+});
+
+describe('SimulatedBroker', () => {
+  it('should fill market orders on the last closed bar and track cash and positions', async () => {
+    const { broker } = replayBroker(5);
+    const bar = fixture[5];
+
+    const order = await broker.placeOrder({ symbol: 'AAPL', qty: 10, side: 'buy', type: 'market' });
+    expect(order).toMatchObject({ status: 'filled', filled_qty: 10, filled_avg_price: bar.close });
+
+    const account = await broker.getAccount();
+    expect(account.cash).toBeCloseTo(10_000 - 10 * bar.close);
+    expect(account.portfolio_value).toBeCloseTo(10_000);
+    expect(await broker.getPosition('AAPL')).toMatchObject({ qty: 10, avg_entry_price: bar.close });
+
+    const rejected = await broker.placeOrder({ symbol: 'AAPL', qty: 1000, side: 'buy', type: 'market' });
+    expect(rejected.status).toBe('rejected');
+
+    console.log('Simulated market fills verified');
+  });
+
+  it('should rest limit orders until a later bar trades through the limit', async () => {
+    const { broker, closeOf } = replayBroker(5);
+    const later = fixture.slice(6);
+    const target = Math.min(...later.map((bar) => bar.low));
+    const fillBar = later.find((bar) => bar.low <= target)!;
+
+    const order = await broker.placeOrder({ symbol: 'AAPL', qty: 5, side: 'buy', type: 'limit', limit_price: target });
+    expect(order.status).toBe('new');
+    expect(await broker.getOrders()).toHaveLength(1);
+
+    closeOf(fixture[fixture.indexOf(fillBar) - 1]);
+    expect(await broker.getOrders()).toHaveLength(1);
+
+    closeOf(fillBar);
+    const [filled] = await broker.getOrders('closed');
+    expect(filled).toMatchObject({ id: order.id, status: 'filled', filled_avg_price: Math.min(target, fillBar.open) });
+    expect(await broker.getOrders()).toHaveLength(0);
+
+    const resting = await broker.placeOrder({ symbol: 'AAPL', qty: 1, side: 'sell', type: 'limit', limit_price: 10_000 });
+    await broker.cancelOrder(resting.id);
+    await expect(broker.cancelOrder(resting.id)).rejects.toThrow('already canceled');
+
+    console.log('Simulated limit orders verified');
+  });
+
+  it('should release bracket exits on entry and let the first exit cancel the other', async () => {
+    const { broker, closeOf } = replayBroker(5);
+    const bracket = {
+      symbol: 'AAPL', qty: 10, side: 'buy' as const, type: 'market' as const, order_class: 'bracket' as const,
+      take_profit: { limit_price: 109.2 }
+    };
+
+    const entry = await broker.placeOrder({ ...bracket, stop_loss: { stop_price: 105 } });
+    expect(entry.status).toBe('filled');
+    expect(entry.legs?.map((leg) => [leg.type, leg.status])).toEqual([['limit', 'new'], ['stop', 'new']]);
+
+    closeOf(fixture[6]);
+    const [closed] = await broker.getOrders('closed');
+    expect(closed.legs?.map((leg) => [leg.status, leg.filled_avg_price])).toEqual([['filled', 109.2], ['canceled', undefined]]);
+    expect((await broker.getAccount()).cash).toBeCloseTo(10_000 + 10 * (109.2 - 107.84));
+
+    // Bar 7 reaches both exits; the stop is assumed to trade first
+    const second = await broker.placeOrder({ ...bracket, stop_loss: { stop_price: 107 } });
+    closeOf(fixture[7]);
+    const [, settled] = await broker.getOrders('closed');
+    expect(settled.id).toBe(second.id);
+    expect(settled.legs?.map((leg) => leg.status)).toEqual(['canceled', 'filled']);
+    expect(settled.legs?.[1].filled_avg_price).toBe(107);
+
+    console.log('Simulated bracket orders verified');
+  });
+
+  it('should trigger stops at their price and trail stops behind the high', async () => {
+    const { broker, closeOf } = replayBroker(5);
+
+    const stopEntry = await broker.placeOrder({ symbol: 'AAPL', qty: 10, side: 'buy', type: 'stop', stop_price: 109 });
+    expect(stopEntry.status).toBe('new');
+    const trailing = await broker.placeOrder({ symbol: 'AAPL', qty: 10, side: 'sell', type: 'trailing_stop', trail_percent: 2 });
+    expect(trailing.stop_price).toBe(105.68);
+
+    closeOf(fixture[6]);
+    let orders = await broker.getOrders('all');
+    expect(orders[0]).toMatchObject({ status: 'filled', filled_avg_price: 109 });
+    // The stop follows bar 6's high of 109.28
+    expect(orders[1]).toMatchObject({ status: 'new', stop_price: 107.09 });
+
+    closeOf(fixture[7]);
+    orders = await broker.getOrders('all');
+    expect(orders[1]).toMatchObject({ status: 'filled', filled_avg_price: 107.09 });
+    expect(await broker.getPositions()).toEqual([]);
+
+    console.log('Simulated stop and trailing stop orders verified');
+  });
+
+  it('should never expose bars that have not closed yet', async () => {
+    const now = new Date(Date.UTC(2024, 2, 1, 15, 30));
+    const broker = new SimulatedBroker({ bars: generatedBars(1), now: () => now });
+
+    const bars = await broker.getHistoricalBars('SPY', new Date(now.getTime() - 10 * DAY_MS), new Date(now.getTime() + DAY_MS));
+    expect(bars[bars.length - 1].timestamp.getTime()).toBe(Date.UTC(2024, 1, 29));
+    expect(await broker.getCurrentPrice('SPY')).toBe(
+      generateBars(1, 'SPY', new Date(Date.UTC(2024, 2, 1, 15, 29)), now, '1Min')[0].close
+    );
+
+    console.log('Simulated clock verified');
+  });
+});
+
+// Just the get, set NX and compare-and-delete the state store uses
+function fakeRedis() {
+  const values = new Map<string, string>();
+  return {
+    values,
+    async get(key: string) {
+      return values.get(key) ?? null;
+    },
+    async set(key: string, value: string, ...options: unknown[]) {
+      if (options.includes('NX') && values.has(key)) return null;
+      values.set(key, value);
+      return 'OK';
+    },
+    async eval(_script: string, _keys: number, key: string, token: string) {
+      if (values.get(key) !== token) return 0;
+      values.delete(key);
+      return 1;
+    }
+  };
+}
+
+describe('RedisStateStore', () => {
+  it('should let brokers in separate processes trade one account', async () => {
+    const redis = fakeRedis();
+    const store = () => new RedisStateStore(async () => redis as any, { retryMs: 1 });
+    const server = replayBroker(5, store()).broker;
+    const worker = replayBroker(5, store()).broker;
+
+    const placed = await server.placeOrder({ symbol: 'AAPL', qty: 10, side: 'buy', type: 'limit', limit_price: 1 });
+    expect(await worker.getOrder(placed.id)).toMatchObject({ id: placed.id, status: 'new' });
+
+    // Concurrent orders from both sides are each booked once
+    await Promise.all([
+      server.placeOrder({ symbol: 'AAPL', qty: 5, side: 'buy', type: 'market' }),
+      worker.placeOrder({ symbol: 'AAPL', qty: 5, side: 'buy', type: 'market' })
+    ]);
+    expect(await server.getPosition('AAPL')).toMatchObject({ qty: 10, avg_entry_price: fixture[5].close });
+    expect((await worker.getAccount()).cash).toBeCloseTo(10_000 - 10 * fixture[5].close);
+
+    await worker.cancelOrder(placed.id);
+    expect((await server.getOrders('open'))).toEqual([]);
+    expect(redis.values.has('smart-alpaca:simulated-broker:lock')).toBe(false);
+
+    console.log('Shared simulated account verified');
+  });
+});
+
+describe('brokerConfig', () => {
+  it('should pick the broker from BROKER, simulating only when asked to', () => {
+    expect(brokerConfig({}).kind).toBe('alpaca');
+    expect(brokerConfig({ ALPACA_API_KEY: 'key', ALPACA_SECRET_KEY: 'secret' }).kind).toBe('alpaca');
+    expect(() => brokerConfig({ NODE_ENV: 'production' })).toThrow('Alpaca credentials not configured');
+    expect(brokerConfig({ NODE_ENV: 'production', ALPACA_API_KEY: 'key', ALPACA_SECRET_KEY: 'secret' }).kind).toBe('alpaca');
+    expect(brokerConfig({ NODE_ENV: 'production', BROKER: 'simulated' }).kind).toBe('simulated');
+    expect(brokerConfig({ BROKER: 'simulated', ALPACA_API_KEY: 'key', ALPACA_SECRET_KEY: 'secret' }).kind).toBe('simulated');
+    expect(brokerConfig({ BROKER_SIM_SYMBOLS: 'aapl, msft', BROKER_SIM_SEED: '9' }).simulated).toMatchObject({
+      seed: 9,
+      symbols: ['AAPL', 'MSFT']
+    });
+    expect(() => brokerConfig({ BROKER: 'ibkr' })).toThrow('Unknown BROKER');
+
+    console.log('Broker selection verified');
+  });
+});
@@ -130,6 +130,89 @@ describe('StrategyEvaluator', () => {
       expect(typeof evaluation.shouldEnter).toBe('boolean');
       console.log('Complex rule evaluation verified');
     });
+
+    it('should evaluate OR, NOT, grouping and arithmetic', () => {
+      for (let i = 0; i < 20; i++) {
+        evaluator.addBar(testUtils.createMockBar({ close: 100 }));
+      }
+
+      const currentBar = testUtils.createMockBar({ close: 103, volume: 1000 });
+      const evaluation = evaluator.evaluateRules(
+        '(PRICE > SMA(20) * 1.02 OR VOLUME > 1000000) AND NOT VOLUME < 500',
+        'PRICE < SMA(period=20) - 5',
+        currentBar
+      );
+
+      expect(evaluation.shouldEnter).toBe(true);
+      expect(evaluation.shouldExit).toBe(false);
+      expect(evaluation.triggers.entry).toEqual([
+        '(PRICE > SMA(20) * 1.02 OR VOLUME > 1000000)',
+        'NOT VOLUME < 500'
+      ]);
+      expect(evaluation.errors).toEqual([]);
+      console.log('Boolean and arithmetic rule evaluation verified');
+    });
+
+    it('should report parse errors with their position', () => {
+      const currentBar = testUtils.createMockBar({ close: 100 });
+      const evaluation = evaluator.evaluateRules('RSI(14) < 30 AND', 'FOO(3) > 1', currentBar);
+
+      expect(evaluation.shouldEnter).toBe(false);
+      expect(evaluation.errors).toEqual([
+        expect.objectContaining({ ruleType: 'entry', position: 16 }),
+        expect.objectContaining({ ruleType: 'exit', position: 0, message: expect.stringContaining("Unknown indicator 'FOO'") })
+      ]);
+      console.log('Rule parse error reporting verified');
+    });
+  });
+
+  describe('Crossover and Lookback Rules', () => {
+    const feed = (closes: number[]) => {
+      closes.forEach(close => evaluator.addBar(testUtils.createMockBar({ close, high: close + 1, low: close - 1 })));
+    };
+
+    it('should detect crossovers only on the crossing bar', () => {
+      feed([10, 10, 10, 10]);
+
+      const crossing = evaluator.evaluateRules('PRICE CROSSES_ABOVE SMA(3)', 'PRICE CROSSES_BELOW SMA(3)',
+        testUtils.createMockBar({ close: 13 }));
+      expect(crossing.shouldEnter).toBe(true);
+
+      const after = evaluator.evaluateRules('PRICE CROSSES_ABOVE SMA(3)', 'PRICE CROSSES_BELOW SMA(3)',
+        testUtils.createMockBar({ close: 14 }));
+      expect(after.shouldEnter).toBe(false);
+      console.log('Crossover detection verified');
+    });
+
+    it('should evaluate HIGHEST, LOWEST and bar offsets', () => {
+      feed([5, 9, 7, 6]);
+
+      const evaluation = evaluator.evaluateRules(
+        'HIGHEST(HIGH, 4) == 10 AND LOWEST(CLOSE, period=3) == 6 AND CLOSE[2] == 7',
+        'CLOSE > HIGHEST(CLOSE, 3)[1]',
+        testUtils.createMockBar({ close: 8, high: 8, low: 7 })
+      );
+
+      expect(evaluation.errors).toEqual([]);
+      expect(evaluation.shouldEnter).toBe(true);
+      // 8 is not above the highest close of the three prior bars (9)
+      expect(evaluation.shouldExit).toBe(false);
+      console.log('HIGHEST/LOWEST and offsets verified');
+    });
+
+    it('should count bars since a condition and streaks', () => {
+      feed([20, 40, 35, 36, 37]);
+
+      const evaluation = evaluator.evaluateRules(
+        'STREAK(CLOSE > CLOSE[1]) >= 3',
+        'BARS_SINCE(CLOSE CROSSES_ABOVE 30) <= 3',
+        testUtils.createMockBar({ close: 38 })
+      );
+
+      expect(evaluation.shouldEnter).toBe(true);
+      expect(evaluation.shouldExit).toBe(false);
+      console.log('BARS_SINCE and STREAK verified');
+    });
   });
 
   describe('Indicator Calculations', () => {
@@ -185,6 +268,30 @@ describe('StrategyEvaluator', () => {
       console.log('Insufficient data handling verified');
     });
 
+    it('should not let NOT turn a warming-up indicator into a signal', () => {
+      for (let i = 1; i <= 5; i++) {
+        evaluator.addBar(testUtils.createMockBar({ close: 100 }));
+      }
+      const currentBar = testUtils.createMockBar({ close: 100 });
+
+      const negated = evaluator.evaluateRules('NOT RSI(14) > 70', 'NOT (SMA(50) > 0)', currentBar);
+      expect(negated.shouldEnter).toBe(false);
+      expect(negated.shouldExit).toBe(false);
+
+      // A known operand still decides OR and AND
+      const mixed = evaluator.evaluateRules('NOT RSI(14) > 70 OR PRICE > 0', 'NOT SMA(50) > 0 AND PRICE < 0', currentBar);
+      expect(mixed.shouldEnter).toBe(true);
+      expect(mixed.shouldExit).toBe(false);
+      expect(evaluator.evaluateRules('NOT (SMA(50) > 0 AND PRICE < 0)', '', currentBar).shouldEnter).toBe(true);
+
+      // Once warmed up, NOT negates as usual
+      for (let i = 0; i < 50; i++) {
+        evaluator.addBar(testUtils.createMockBar({ close: 100 }));
+      }
+      expect(evaluator.evaluateRules('NOT SMA(50) > 100', '', currentBar).shouldEnter).toBe(true);
+      console.log('Warm-up handling of NOT verified');
+    });
+
     it('should handle empty rule strings', () => {
       const currentBar = testUtils.createMockBar({ close: 100 });
       const evaluation = evaluator.evaluateRules('', '', currentBar);
@@ -0,0 +1,78 @@
+import {
+  nextStrategyStatus,
+  summarizeStrategies,
+  StrategyTransitionError
+} from '../../server/services/strategy-lifecycle.js';
+import { canApplyStrategyAction } from '../../shared/strategies.js';
+
+function strategy(id: string, overrides: Record<string, unknown> = {}): any {
+  return {
+    id,
+    name: `Strategy ${id}`,
+    symbol: 'AAPL',
+    status: 'staged',
+    backtestResults: null,
+    ...overrides
+  };
+}
+
+function position(strategyId: string, overrides: Record<string, unknown> = {}): any {
+  return {
+    id: `p-${Math.random()}`,
+    strategyId,
+    symbol: 'AAPL',
+    isOpen: false,
+    unrealizedPnL: '0',
+    realizedPnL: '0',
+    ...overrides
+  };
+}
+
+describe('strategy lifecycle', () => {
+  it('should move strategies through activate, pause and retire', () => {
+    expect(nextStrategyStatus({ status: 'draft' }, 'activate', false)).toBe('staged');
+    expect(nextStrategyStatus({ status: 'staged' }, 'pause', false)).toBe('paused');
+    expect(nextStrategyStatus({ status: 'paused' }, 'activate', true)).toBe('active');
+    expect(nextStrategyStatus({ status: 'active' }, 'retire', true)).toBe('retired');
+
+    console.log('Strategy lifecycle transitions verified');
+  });
+
+  it('should reject actions that do not apply to the current status', () => {
+    expect(() => nextStrategyStatus({ status: 'retired' }, 'activate', false)).toThrow(StrategyTransitionError);
+    expect(() => nextStrategyStatus({ status: 'draft' }, 'pause', false)).toThrow('Cannot pause a draft strategy');
+    expect(canApplyStrategyAction('retired', 'retire')).toBe(false);
+    // Rows without a status are staged by default
+    expect(canApplyStrategyAction(null, 'pause')).toBe(true);
+
+    console.log('Strategy lifecycle guards verified');
+  });
+});
+
+describe('summarizeStrategies', () => {
+  it('should attach the newest run and live P&L of each strategy', () => {
+    const strategies = [
+      strategy('s1', { backtestResults: { totalReturn: 0.05, sharpeRatio: 0.8, totalTrades: 3 } }),
+      strategy('s2', { backtestResults: { totalReturn: 0.01 } }),
+      strategy('s3')
+    ];
+    const runs = [
+      { id: 'run-2', strategyId: 's2', source: 'api', metrics: { totalReturn: 0.12, sharpeRatio: 1.4 }, createdAt: new Date() }
+    ];
+    const positions = [
+      position('s1', { realizedPnL: '150.5' }),
+      position('s1', { isOpen: true, unrealizedPnL: '-20.25', realizedPnL: '0' }),
+      position('other', { realizedPnL: '999' })
+    ];
+
+    const [first, second, third] = summarizeStrategies(strategies, runs, positions);
+
+    expect(first.backtest).toMatchObject({ runId: null, source: 'ai_validation', totalReturn: 0.05, winRate: null });
+    expect(first.pnl).toEqual({ realized: 150.5, unrealized: -20.25, total: 130.25, openPositions: 1 });
+    expect(second.backtest).toMatchObject({ runId: 'run-2', source: 'api', totalReturn: 0.12, sharpeRatio: 1.4 });
+    expect(second.pnl.total).toBe(0);
+    expect(third.backtest).toBeNull();
+
+    console.log('Strategy summaries verified');
+  });
+});
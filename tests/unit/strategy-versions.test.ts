@@ -0,0 +1,170 @@
+import {
+  StrategyVersionService,
+  StrategyVersionError,
+  diffStrategyDefinitions,
+  executionTarget,
+  type StrategyVersionRepository
+} from '../../server/services/strategy-versions.js';
+import type { BacktestRun, InsertStrategy } from '../../shared/schema.js';
+import { MemoryStorage } from '../utils/memory-storage.js';
+
+const user = { type: 'user' as const, name: 'alice' };
+
+async function createStrategy(repository: StrategyVersionRepository, overrides: Partial<InsertStrategy> = {}) {
+  return repository.createStrategy({
+    name: 'RSI reversal',
+    symbol: 'AAPL',
+    entryRules: 'RSI(14) < 30',
+    exitRules: 'RSI(14) > 70',
+    timeframe: '1Day',
+    riskParameters: { stopLoss: 5, takeProfit: 10 },
+    correlationId: 'corr-1',
+    aiMetadata: { promptVersion: '2' },
+    ...overrides
+  });
+}
+
+describe('diffStrategyDefinitions', () => {
+  it('should list changed fields and ignore risk parameter key order', () => {
+    const base = {
+      name: 'RSI reversal',
+      entryRules: 'RSI(14) < 30',
+      exitRules: 'RSI(14) > 70',
+      timeframe: '1Day',
+      riskParameters: { stopLoss: 5, takeProfit: 10 }
+    };
+
+    const changes = diffStrategyDefinitions(base, {
+      ...base,
+      entryRules: 'RSI(14) < 25',
+      riskParameters: { takeProfit: 10, stopLoss: 5 }
+    });
+
+    expect(changes).toEqual([{ field: 'entryRules', from: 'RSI(14) < 30', to: 'RSI(14) < 25' }]);
+
+    console.log('Strategy definition diff verified');
+  });
+});
+
+describe('StrategyVersionService', () => {
+  it('should record legacy rules as version 1 and pin it', async () => {
+    const repository = new MemoryStorage();
+    const service = new StrategyVersionService(repository);
+    const strategy = await createStrategy(repository);
+
+    // Readers see the legacy strategy as unpinned and leave it that way
+    expect(await service.pinnedVersion(strategy)).toBeNull();
+    expect(await service.listVersions(strategy.id)).toEqual([]);
+
+    const live = await service.liveVersion(strategy);
+
+    expect(live.version).toBe(1);
+    expect(live.authorType).toBe('ai');
+    expect(live.author).toBe('2');
+    expect(repository.strategies.get(strategy.id)!.versionId).toBe(live.id);
+    expect(executionTarget(strategy, live)).toEqual({
+      id: strategy.id,
+      symbol: 'AAPL',
+      entryRules: 'RSI(14) < 30',
+      exitRules: 'RSI(14) > 70',
+      timeframe: '1Day',
+      versionId: live.id
+    });
+    expect(await service.pinnedVersion(repository.strategies.get(strategy.id)!)).toEqual(live);
+
+    console.log('Legacy strategy versioning verified');
+  });
+
+  it('should create versions with a diff, author, reason and linked run', async () => {
+    const repository = new MemoryStorage();
+    const service = new StrategyVersionService(repository);
+    const strategy = await createStrategy(repository);
+    repository.backtestRuns.set('run-1', { id: 'run-1', strategyId: strategy.id } as BacktestRun);
+
+    const { version } = await service.createVersion(
+      strategy.id,
+      { entryRules: 'RSI(14) < 25', timeframe: '1Hour' },
+      { author: user, reason: 'Fewer false entries', backtestRunId: 'run-1' }
+    );
+
+    expect(version.version).toBe(2);
+    expect(version.author).toBe('alice');
+    expect(version.authorType).toBe('user');
+    expect(version.reason).toBe('Fewer false entries');
+    expect(version.backtestRunId).toBe('run-1');
+    expect((version.diff as any[]).map((change) => change.field)).toEqual(['entryRules', 'timeframe']);
+    expect(repository.strategies.get(strategy.id)).toMatchObject({
+      versionId: version.id,
+      entryRules: 'RSI(14) < 25',
+      timeframe: '1Hour'
+    });
+
+    console.log('Strategy version creation verified');
+  });
+
+  it('should reject invalid rules, unchanged edits and foreign runs', async () => {
+    const repository = new MemoryStorage();
+    const service = new StrategyVersionService(repository);
+    const strategy = await createStrategy(repository);
+    repository.backtestRuns.set('run-other', { id: 'run-other', strategyId: 'someone-else' } as BacktestRun);
+
+    await expect(
+      service.createVersion(strategy.id, { entryRules: 'RSI(14) <' }, { author: user, reason: 'typo' })
+    ).rejects.toMatchObject({ status: 400 });
+    await expect(
+      service.createVersion(strategy.id, { entryRules: 'RSI(14) < 30' }, { author: user, reason: 'same' })
+    ).rejects.toMatchObject({ status: 409 });
+    await expect(
+      service.createVersion(
+        strategy.id,
+        { entryRules: 'RSI(14) < 25' },
+        { author: user, reason: 'run', backtestRunId: 'run-other' }
+      )
+    ).rejects.toBeInstanceOf(StrategyVersionError);
+    await expect(service.listVersions('missing')).rejects.toMatchObject({ status: 404 });
+
+    console.log('Strategy version validation verified');
+  });
+
+  it('should roll back by adding a copy of the target as the live version', async () => {
+    const repository = new MemoryStorage();
+    const service = new StrategyVersionService(repository);
+    const strategy = await createStrategy(repository);
+    await service.createVersion(strategy.id, { entryRules: 'RSI(14) < 25' }, { author: user, reason: 'tighter' });
+
+    const { version: restored } = await service.rollback(strategy.id, 1, user);
+
+    expect(restored.version).toBe(3);
+    expect(restored.entryRules).toBe('RSI(14) < 30');
+    expect(restored.reason).toBe('Rollback to version 1');
+    expect(restored.diff).toEqual([{ field: 'entryRules', from: 'RSI(14) < 25', to: 'RSI(14) < 30' }]);
+    expect(repository.strategies.get(strategy.id)!.versionId).toBe(restored.id);
+    await expect(service.rollback(strategy.id, 3, user)).rejects.toMatchObject({ status: 409 });
+    await expect(service.deleteVersion(strategy.id, 3)).rejects.toMatchObject({ status: 409 });
+
+    await service.deleteVersion(strategy.id, 2);
+    expect((await service.listVersions(strategy.id)).map((row) => row.version)).toEqual([3, 1]);
+
+    console.log('Strategy version rollback verified');
+  });
+
+  it('should fork a version into a draft strategy linked to its source', async () => {
+    const repository = new MemoryStorage();
+    const service = new StrategyVersionService(repository);
+    const strategy = await createStrategy(repository);
+    const source = await service.liveVersion(strategy);
+
+    const { strategy: fork, version } = await service.fork(strategy.id, 1, { author: user, symbol: 'MSFT' });
+
+    expect(fork.id).not.toBe(strategy.id);
+    expect(fork.status).toBe('draft');
+    expect(fork.symbol).toBe('MSFT');
+    expect(fork.correlationId).toBe('corr-1');
+    expect(fork.versionId).toBe(version.id);
+    expect(version.version).toBe(1);
+    expect(version.parentVersionId).toBe(source.id);
+    expect(version.diff).toEqual([{ field: 'name', from: 'RSI reversal', to: 'RSI reversal (fork)' }]);
+
+    console.log('Strategy fork verified');
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  aggregateBars,
+  bucketStart,
+  lastClosedBucketStart,
+  lookbackStart,
+  periodsPerYear,
+  sourceTimeframe,
+} from '../../server/services/timeframe.js';
+import { testUtils } from '../setup.js';
+
+const MINUTE_MS = 60 * 1000;
+
+function minuteBars(start: string, closes: number[]) {
+  const startMs = new Date(start).getTime();
+  return closes.map((close, i) =>
+    testUtils.createMockBar({
+      open: close - 0.5,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 100,
+      timestamp: new Date(startMs + i * MINUTE_MS),
+    })
+  );
+}
+
+describe('timeframe helpers', () => {
+  it('should aggregate minute bars into OHLCV buckets', () => {
+    const bars = minuteBars('2024-03-04T14:30:00Z', [100, 103, 99, 101, 102, 104, 105]);
+
+    const aggregated = aggregateBars(bars, '5Min');
+
+    expect(aggregated).toHaveLength(2);
+    expect(aggregated[0]).toEqual({
+      timestamp: new Date('2024-03-04T14:30:00Z'),
+      open: 99.5,
+      high: 104,
+      low: 98,
+      close: 102,
+      volume: 500,
+    });
+    expect(aggregated[1].timestamp).toEqual(new Date('2024-03-04T14:35:00Z'));
+    expect(aggregated[1].close).toBe(105);
+    expect(aggregated[1].volume).toBe(200);
+
+    console.log('Bar aggregation verified');
+  });
+
+  it('should aggregate unordered input by timestamp', () => {
+    const bars = minuteBars('2024-03-04T14:00:00Z', [100, 110, 105]).reverse();
+
+    const [hour] = aggregateBars(bars, '1Hour');
+
+    expect(hour.open).toBe(99.5);
+    expect(hour.close).toBe(105);
+
+    console.log('Unordered bar aggregation verified');
+  });
+
+  it('should report the newest closed bucket after the close delay', () => {
+    const justAfterClose = new Date('2024-03-04T14:35:02Z');
+    const settled = new Date('2024-03-04T14:35:06Z');
+
+    expect(lastClosedBucketStart(justAfterClose, '5Min')).toBe(new Date('2024-03-04T14:25:00Z').getTime());
+    expect(lastClosedBucketStart(settled, '5Min')).toBe(new Date('2024-03-04T14:30:00Z').getTime());
+    expect(bucketStart(new Date('2024-03-04T21:00:00Z'), '1Day')).toBe(new Date('2024-03-04T00:00:00Z').getTime());
+
+    console.log('Bar close detection verified');
+  });
+
+  it('should pick source timeframes, annualization and lookbacks per timeframe', () => {
+    const end = new Date('2024-03-04T00:00:00Z');
+
+    expect(sourceTimeframe('15Min')).toBe('1Min');
+    expect(sourceTimeframe('1Day')).toBe('1Day');
+    expect(periodsPerYear('1Hour')).toBe(252 * 7);
+    expect(periodsPerYear('unknown')).toBe(252);
+    expect(lookbackStart(end, '5Min', 100).getTime()).toBeGreaterThan(lookbackStart(end, '1Day', 100).getTime());
+
+    console.log('Timeframe settings verified');
+  });
+});
@@ -1,19 +1,45 @@
 import { TradingService } from "../../server/services/trading.js";
-import { alpacaService } from "../../server/services/alpaca.js";
+import { broker } from "../../server/services/broker.js";
+import { orderLifecycle } from "../../server/services/order-lifecycle.js";
+import { storage } from "../../server/storage.js";
+import { barStore } from "../../server/services/bar-store.js";
 import { testUtils } from "../setup.js";
 
 // Mock the external services
-jest.mock("../../server/services/alpaca.js", () => ({
-  alpacaService: {
+jest.mock("../../server/services/broker.js", () => ({
+  broker: {
     getMarketData: jest.fn(),
     getAccount: jest.fn(),
     placeOrder: jest.fn(),
+    cancelOrder: jest.fn(),
   },
 }));
 
-jest.mock("../../server/services/evaluator.js", () => ({
-  strategyEvaluator: {
-    evaluateRules: jest.fn(),
+jest.mock("../../server/services/order-lifecycle.js", () => ({
+  orderLifecycle: {
+    recordSubmission: jest.fn(),
+  },
+}));
+
+jest.mock("../../server/storage.js", () => ({
+  storage: {
+    createAuditLog: jest.fn(),
+    upsertRiskMetrics: jest.fn(),
+    createBacktestRun: jest.fn(),
+    getPositionsByStrategyIds: jest.fn(),
+    getOrders: jest.fn(),
+  },
+}));
+
+jest.mock("../../server/services/bar-store.js", () => ({
+  barStore: {
+    getBars: jest.fn(),
+  },
+}));
+
+jest.mock("../../server/services/evaluator-context.js", () => ({
+  evaluatorContexts: {
+    evaluate: jest.fn(),
   },
 }));
 
@@ -31,12 +57,12 @@ describe("TradingService", () => {
       const mockMarketData = [
         testUtils.createMockMarketData({ symbol: "AAPL", price: 150.0 }),
       ];
-      (alpacaService.getMarketData as jest.Mock).mockResolvedValue(
+      (broker.getMarketData as jest.Mock).mockResolvedValue(
         mockMarketData
       );
 
       // Mock account data
-      (alpacaService.getAccount as jest.Mock).mockResolvedValue({
+      (broker.getAccount as jest.Mock).mockResolvedValue({
         portfolio_value: 100000.0,
         cash: 50000.0,
       });
@@ -60,12 +86,12 @@ describe("TradingService", () => {
       const mockMarketData = [
         testUtils.createMockMarketData({ symbol: "AAPL", price: 150.0 }),
       ];
-      (alpacaService.getMarketData as jest.Mock).mockResolvedValue(
+      (broker.getMarketData as jest.Mock).mockResolvedValue(
         mockMarketData
       );
 
       // Mock account data
-      (alpacaService.getAccount as jest.Mock).mockResolvedValue({
+      (broker.getAccount as jest.Mock).mockResolvedValue({
         portfolio_value: 100000.0,
         cash: 50000.0,
       });
@@ -89,12 +115,12 @@ describe("TradingService", () => {
       const mockMarketData = [
         testUtils.createMockMarketData({ symbol: "AAPL", price: 150.0 }),
       ];
-      (alpacaService.getMarketData as jest.Mock).mockResolvedValue(
+      (broker.getMarketData as jest.Mock).mockResolvedValue(
         mockMarketData
       );
 
       // Mock account data
-      (alpacaService.getAccount as jest.Mock).mockResolvedValue({
+      (broker.getAccount as jest.Mock).mockResolvedValue({
         portfolio_value: 100000.0,
         cash: 50000.0,
       });
@@ -119,12 +145,12 @@ describe("TradingService", () => {
       const mockMarketData = [
         testUtils.createMockMarketData({ symbol: "AAPL", price: 150.0 }),
       ];
-      (alpacaService.getMarketData as jest.Mock).mockResolvedValue(
+      (broker.getMarketData as jest.Mock).mockResolvedValue(
         mockMarketData
       );
 
       // Mock account with limited cash
-      (alpacaService.getAccount as jest.Mock).mockResolvedValue({
+      (broker.getAccount as jest.Mock).mockResolvedValue({
         portfolio_value: 100000.0,
         cash: 1000.0, // Only $1000 available
       });
@@ -149,12 +175,12 @@ describe("TradingService", () => {
       const mockMarketData = [
         testUtils.createMockMarketData({ symbol: "AAPL", price: 10000.0 }),
       ];
-      (alpacaService.getMarketData as jest.Mock).mockResolvedValue(
+      (broker.getMarketData as jest.Mock).mockResolvedValue(
         mockMarketData
       );
 
       // Mock account data
-      (alpacaService.getAccount as jest.Mock).mockResolvedValue({
+      (broker.getAccount as jest.Mock).mockResolvedValue({
         portfolio_value: 100000.0,
         cash: 50000.0,
       });
@@ -179,12 +205,12 @@ describe("TradingService", () => {
       const mockMarketData = [
         testUtils.createMockMarketData({ symbol: "AAPL", price: 150.0 }),
       ];
-      (alpacaService.getMarketData as jest.Mock).mockResolvedValue(
+      (broker.getMarketData as jest.Mock).mockResolvedValue(
         mockMarketData
       );
 
       // Mock account data
-      (alpacaService.getAccount as jest.Mock).mockResolvedValue({
+      (broker.getAccount as jest.Mock).mockResolvedValue({
         portfolio_value: 100000.0,
         cash: 50000.0,
       });
@@ -208,12 +234,12 @@ describe("TradingService", () => {
       const mockMarketData = [
         testUtils.createMockMarketData({ symbol: "AAPL", price: 150.0 }),
       ];
-      (alpacaService.getMarketData as jest.Mock).mockResolvedValue(
+      (broker.getMarketData as jest.Mock).mockResolvedValue(
         mockMarketData
       );
 
       // Mock account data
-      (alpacaService.getAccount as jest.Mock).mockResolvedValue({
+      (broker.getAccount as jest.Mock).mockResolvedValue({
         portfolio_value: 100000.0,
         cash: 50000.0,
       });
@@ -236,18 +262,18 @@ describe("TradingService", () => {
       const mockMarketData = [
         testUtils.createMockMarketData({ symbol: "AAPL", price: 150.0 }),
       ];
-      (alpacaService.getMarketData as jest.Mock).mockResolvedValue(
+      (broker.getMarketData as jest.Mock).mockResolvedValue(
         mockMarketData
       );
 
       // Mock account data
-      (alpacaService.getAccount as jest.Mock).mockResolvedValue({
+      (broker.getAccount as jest.Mock).mockResolvedValue({
         portfolio_value: "100000.00",
         cash: "50000.00",
       });
 
       // Mock order placement
-      (alpacaService.placeOrder as jest.Mock).mockResolvedValue({
+      (broker.placeOrder as jest.Mock).mockResolvedValue({
         id: "test-order-id",
         symbol: "AAPL",
         qty: 50,
@@ -269,15 +295,23 @@ describe("TradingService", () => {
         aiReasoning: "Test AI reasoning",
       };
 
+      // Fills are booked by the order lifecycle, not from the placement response
+      const tracked = { id: "order-1", status: "filled", filledQuantity: 50 };
+      (orderLifecycle.recordSubmission as jest.Mock).mockResolvedValue(tracked);
+
       const result = await tradingService.executeOrder(orderRequest);
 
-      expect(result).toBe(true);
-      expect(alpacaService.placeOrder).toHaveBeenCalledWith({
+      expect(result).toBe(tracked);
+      expect(broker.placeOrder).toHaveBeenCalledWith({
         symbol: orderRequest.symbol,
         qty: orderRequest.quantity,
         side: orderRequest.side,
         type: orderRequest.type,
       });
+      expect(orderLifecycle.recordSubmission).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "test-order-id" }),
+        expect.objectContaining({ correlationId: "test-correlation-id", expectedPrice: 150 })
+      );
       console.log("Order execution with calculated quantity verified");
     });
 
@@ -286,18 +320,18 @@ describe("TradingService", () => {
       const mockMarketData = [
         testUtils.createMockMarketData({ symbol: "AAPL", price: 150.0 }),
       ];
-      (alpacaService.getMarketData as jest.Mock).mockResolvedValue(
+      (broker.getMarketData as jest.Mock).mockResolvedValue(
         mockMarketData
       );
 
       // Mock account data
-      (alpacaService.getAccount as jest.Mock).mockResolvedValue({
+      (broker.getAccount as jest.Mock).mockResolvedValue({
         portfolio_value: "100000.00",
         cash: "50000.00",
       });
 
       // Mock order placement failure
-      (alpacaService.placeOrder as jest.Mock).mockRejectedValue(
+      (broker.placeOrder as jest.Mock).mockRejectedValue(
         new Error("Order placement failed")
       );
 
@@ -313,12 +347,18 @@ describe("TradingService", () => {
       await expect(tradingService.executeOrder(orderRequest)).rejects.toThrow(
         "Order placement failed"
       );
+      expect(storage.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: "ORDER_EXECUTION_FAILED",
+          correlationId: "test-correlation-id",
+        })
+      );
       console.log("Order execution error handling verified");
     });
 
     it("should validate quantity before order execution", async () => {
       // Override the placeOrder mock for this test to not interfere
-      (alpacaService.placeOrder as jest.Mock).mockResolvedValueOnce({
+      (broker.placeOrder as jest.Mock).mockResolvedValueOnce({
         id: "test-order-id",
         status: "filled",
         filled_avg_price: "150.00",
@@ -330,12 +370,12 @@ describe("TradingService", () => {
       const mockMarketData = [
         testUtils.createMockMarketData({ symbol: "AAPL", price: 150.0 }),
       ];
-      (alpacaService.getMarketData as jest.Mock).mockResolvedValue(
+      (broker.getMarketData as jest.Mock).mockResolvedValue(
         mockMarketData
       );
 
       // Mock account data (needed for quantity calculation)
-      (alpacaService.getAccount as jest.Mock).mockResolvedValue({
+      (broker.getAccount as jest.Mock).mockResolvedValue({
         portfolio_value: "100000.00",
         cash: "50000.00",
       });
@@ -355,6 +395,95 @@ describe("TradingService", () => {
     });
   });
 
+  describe("Strategy Exits", () => {
+    const strategy = { id: "strategy-1", name: "RSI reversal", symbol: "AAPL", correlationId: "corr-1" };
+
+    it("should cancel working legs and sell what the strategy holds", async () => {
+      (storage.getPositionsByStrategyIds as jest.Mock).mockResolvedValue([
+        { symbol: "AAPL", quantity: 30, isOpen: true },
+        { symbol: "AAPL", quantity: 20, isOpen: true },
+        { symbol: "AAPL", quantity: 40, isOpen: false },
+      ]);
+      (storage.getOrders as jest.Mock).mockResolvedValue([
+        { brokerOrderId: "take-profit" },
+        { brokerOrderId: "stop-loss" },
+      ]);
+      (broker.getMarketData as jest.Mock).mockResolvedValue([
+        testUtils.createMockMarketData({ symbol: "AAPL", price: 150.0 }),
+      ]);
+      (broker.placeOrder as jest.Mock).mockResolvedValue({ id: "exit-order" });
+      const tracked = { id: "order-2", status: "new" };
+      (orderLifecycle.recordSubmission as jest.Mock).mockResolvedValue(tracked);
+
+      const order = await tradingService.closeStrategyPosition(strategy, "Exit rules met");
+
+      expect(order).toBe(tracked);
+      expect(storage.getOrders).toHaveBeenCalledWith(
+        expect.objectContaining({ strategyId: "strategy-1" })
+      );
+      expect((broker.cancelOrder as jest.Mock).mock.calls).toEqual([["take-profit"], ["stop-loss"]]);
+      expect(broker.placeOrder).toHaveBeenCalledWith({
+        symbol: "AAPL",
+        qty: 50,
+        side: "sell",
+        type: "market",
+      });
+      expect(orderLifecycle.recordSubmission).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ strategyId: "strategy-1", correlationId: "corr-1" })
+      );
+      console.log("Strategy exit verified");
+    });
+
+    it("should place nothing when the strategy holds no position", async () => {
+      (storage.getPositionsByStrategyIds as jest.Mock).mockResolvedValue([
+        { symbol: "AAPL", quantity: 40, isOpen: false },
+      ]);
+
+      expect(await tradingService.closeStrategyPosition(strategy, "Exit rules met")).toBeNull();
+      expect(broker.cancelOrder).not.toHaveBeenCalled();
+      expect(broker.placeOrder).not.toHaveBeenCalled();
+      console.log("Flat strategy exit verified");
+    });
+  });
+
+  describe("Backtesting", () => {
+    it("should warm up the indicators on bars before the start date without trading them", async () => {
+      const bars = testUtils.createPriceSeries(
+        Array.from({ length: 80 }, (_, i) => 100 + i)
+      );
+      const startDate = bars[60].timestamp;
+      (barStore.getBars as jest.Mock).mockImplementation(
+        async (symbol: string, start: Date, end: Date) => ({
+          bars: bars.filter((bar) => bar.timestamp >= start && bar.timestamp <= end),
+          dataset: { symbol, timeframe: "1Day", bars: bars.length, hash: "hash", sources: ["alpaca"] },
+        })
+      );
+      (storage.createBacktestRun as jest.Mock).mockResolvedValue({ id: "run-1" });
+
+      const result = await tradingService.backtestStrategy({
+        symbol: "AAPL",
+        entryRules: "PRICE > SMA(50)",
+        exitRules: "PRICE < SMA(50)",
+        startDate: startDate.toISOString(),
+        endDate: bars[79].timestamp.toISOString(),
+        timeframe: "1Day",
+        initialCapital: 100000,
+        sizing: { method: "fixed_quantity", quantity: 10 },
+      });
+
+      // SMA(50) is ready on the first traded bar, but nothing before it trades
+      const [, firstStart] = (barStore.getBars as jest.Mock).mock.calls[0];
+      expect(firstStart.getTime()).toBeLessThan(bars[10].timestamp.getTime());
+      expect(result.barsProcessed).toBe(20);
+      expect(result.trades.length).toBeGreaterThan(0);
+      expect(new Date(result.trades[0].entryTime).getTime()).toBeGreaterThanOrEqual(
+        startDate.getTime()
+      );
+      console.log("Backtest warm-up verified");
+    });
+  });
+
   describe("Strategy Evaluation", () => {
     it("should evaluate strategy rules correctly", async () => {
       // Mock market data
@@ -364,9 +493,12 @@ describe("TradingService", () => {
       });
 
       const evaluation = await tradingService.evaluateStrategy(
-        "AAPL",
-        "RSI(14) < 30",
-        "RSI(14) > 70",
+        {
+          id: "strategy-1",
+          symbol: "AAPL",
+          entryRules: "RSI(14) < 30",
+          exitRules: "RSI(14) > 70",
+        },
         mockMarketData
       );
 
@@ -388,9 +520,12 @@ describe("TradingService", () => {
 
       // Force an error in evaluation
       const evaluation = await tradingService.evaluateStrategy(
-        "AAPL",
-        "INVALID_RULE",
-        "ANOTHER_INVALID",
+        {
+          id: "strategy-1",
+          symbol: "AAPL",
+          entryRules: "INVALID_RULE",
+          exitRules: "ANOTHER_INVALID",
+        },
         mockMarketData
       );
 
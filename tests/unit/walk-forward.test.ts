@@ -0,0 +1,123 @@
+import {
+  runWalkForward,
+  checkThresholds,
+  calculateStability,
+  getValidationProfile,
+  requiredBars,
+  VALIDATION_PROFILES,
+  type ValidationProfile,
+  type WalkForwardWindow
+} from '../../server/services/walk-forward.js';
+import { runBacktest } from '../../server/services/backtest.js';
+import { testUtils } from '../setup.js';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const strategy = { symbol: 'AAPL', entryRules: 'PRICE < SMA(10)', exitRules: 'PRICE > SMA(10) * 1.02' };
+const bars = testUtils.createPriceSeries(Array.from({ length: 150 }, (_, i) => 100 + Math.sin(i / 4) * 8 + i * 0.05));
+
+const profile: ValidationProfile = {
+  name: 'test',
+  description: 'Three windows of 40 in-sample and 20 out-of-sample bars',
+  inSampleBars: 40,
+  outOfSampleBars: 20,
+  windows: 3,
+  thresholds: { minTrades: 1 }
+};
+
+function window(isReturn: number | null, oosReturn: number, trades = 2, wins = 1): WalkForwardWindow {
+  const summary = (totalReturn: number) => ({
+    start: new Date(),
+    end: new Date(),
+    bars: 20,
+    totalReturn,
+    winRate: wins / trades,
+    totalTrades: trades,
+    profitableTrades: wins,
+    sharpeRatio: 0,
+    maxDrawdown: 0
+  });
+  return { index: 0, inSample: isReturn === null ? null : summary(isReturn), outOfSample: summary(oosReturn) };
+}
+
+describe('Walk-forward validation', () => {
+  it('should tile the most recent bars with rolling in-sample/out-of-sample windows', () => {
+    const result = runWalkForward(bars, strategy, profile, { warmupBars: 10 });
+
+    expect(requiredBars(profile)).toBe(100);
+    expect(result.windows).toHaveLength(3);
+    result.windows.forEach((w, i) => {
+      expect(w.inSample?.bars).toBe(40);
+      expect(w.outOfSample.bars).toBe(20);
+      // Each OOS window starts right after its in-sample window
+      expect(w.outOfSample.start.getTime() - w.inSample!.end.getTime()).toBe(DAY_MS);
+      if (i > 0) {
+        expect(w.outOfSample.start.getTime() - result.windows[i - 1].outOfSample.end.getTime()).toBe(DAY_MS);
+      }
+    });
+    expect(result.windows[2].outOfSample.end).toEqual(bars[bars.length - 1].timestamp);
+    expect(result.fullPeriod.barsProcessed).toBe(100);
+    console.log('Walk-forward window layout verified');
+  });
+
+  it('should warm indicators up on bars before each window', () => {
+    const result = runWalkForward(bars, strategy, { ...profile, windows: 1, inSampleBars: 0 }, { warmupBars: 10 });
+    const direct = runBacktest(bars.slice(-30), { ...strategy, warmupUntil: bars[bars.length - 20].timestamp });
+
+    expect(result.windows[0].outOfSample.totalReturn).toBe(direct.totalReturn);
+    expect(result.windows[0].outOfSample.totalTrades).toBe(direct.totalTrades);
+    console.log('Per-window warm-up verified');
+  });
+
+  it('should resample the full-period trades and reject on tail drawdown', () => {
+    const result = runWalkForward(bars, strategy, profile, { warmupBars: 10, monteCarlo: { simulations: 200 } });
+    const strictDrawdown = runWalkForward(bars, strategy, {
+      ...profile,
+      thresholds: { maxMonteCarloDrawdown: result.monteCarlo.tailDrawdown / 2 }
+    }, { warmupBars: 10, monteCarlo: { simulations: 200 } });
+
+    expect(result.monteCarlo.trades).toBe(result.fullPeriod.totalTrades);
+    expect(result.monteCarlo.simulations).toBe(200);
+    expect(strictDrawdown.accepted).toBe(false);
+    expect(strictDrawdown.failures[0]).toContain('Monte Carlo drawdown');
+    console.log('Walk-forward Monte Carlo check verified');
+  });
+
+  it('should refuse to validate on too little history', () => {
+    expect(() => runWalkForward(bars.slice(0, 50), strategy, profile)).toThrow('needs 100 bars');
+    console.log('Insufficient history check verified');
+  });
+
+  it('should compute stability metrics across windows', () => {
+    const stability = calculateStability([window(0.04, 0.02, 4, 3), window(0.02, -0.01, 2, 0), window(0.06, 0.05, 2, 2)]);
+
+    expect(stability.averageIsReturn).toBeCloseTo(0.04);
+    expect(stability.averageOosReturn).toBeCloseTo(0.02);
+    expect(stability.oosIsReturnRatio).toBeCloseTo(0.5);
+    expect(stability.oosReturnVariance).toBeCloseTo(0.0006);
+    expect(stability.oosTrades).toBe(8);
+    expect(stability.oosWinRate).toBeCloseTo(5 / 8);
+    expect(stability.profitableWindows).toBeCloseTo(2 / 3);
+    console.log('Stability metrics verified');
+  });
+
+  it('should report every threshold a strategy misses', () => {
+    const stability = calculateStability([window(-0.01, 0.03, 1, 1), window(-0.02, -0.05, 1, 0)]);
+    const failures = checkThresholds(stability, VALIDATION_PROFILES.standard.thresholds);
+
+    expect(stability.oosIsReturnRatio).toBeNull();
+    expect(failures).toEqual([
+      expect.stringContaining('Average out-of-sample return'),
+      expect.stringContaining('OOS/IS ratio is undefined'),
+      expect.stringContaining('2 out-of-sample trades, need at least 5')
+    ]);
+    expect(checkThresholds(stability, {})).toEqual([]);
+    console.log('Threshold failures verified');
+  });
+
+  it('should look up profiles by name', () => {
+    expect(getValidationProfile('strict').windows).toBe(5);
+    expect(() => getValidationProfile('reckless')).toThrow("Unknown validation profile 'reckless'");
+    console.log('Validation profile lookup verified');
+  });
+});
@@ -0,0 +1,126 @@
+import { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+
+// Paths of Alpaca's trading stream and its IEX market data stream
+const TRADE_UPDATES_PATH = '/stream';
+const MARKET_DATA_PATH = '/v2/iex';
+
+/**
+ * Local stand-in for Alpaca's streams, speaking their protocols: the trading
+ * stream authorizes and listens to trade_updates over binary frames, and the
+ * market data stream greets, authenticates and subscribes with arrays of
+ * messages.
+ */
+export class AlpacaStreamStub {
+  readonly received: { path: string; message: any }[] = [];
+  readonly connections: Record<string, number> = { [TRADE_UPDATES_PATH]: 0, [MARKET_DATA_PATH]: 0 };
+  // Subscribed market data symbols, by channel
+  readonly subscriptions = { quotes: new Set<string>(), bars: new Set<string>() };
+  acceptKey = 'key';
+  private clients = new Map<WebSocket, string>();
+
+  private constructor(private readonly server: WebSocketServer) {
+    server.on('connection', (socket, request) => {
+      const path = request.url ?? '';
+      this.connections[path] = (this.connections[path] ?? 0) + 1;
+      this.clients.set(socket, path);
+      socket.on('close', () => this.clients.delete(socket));
+      socket.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        this.received.push({ path, message });
+        if (path === TRADE_UPDATES_PATH) {
+          this.handleTrading(socket, message);
+        } else {
+          this.handleMarketData(socket, message);
+        }
+      });
+      if (path === MARKET_DATA_PATH) {
+        socket.send(JSON.stringify([{ T: 'success', msg: 'connected' }]));
+      }
+    });
+  }
+
+  static async start(): Promise<AlpacaStreamStub> {
+    const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise((resolve) => server.once('listening', resolve));
+    return new AlpacaStreamStub(server);
+  }
+
+  get tradeUpdatesUrl(): string {
+    return `${this.baseUrl}${TRADE_UPDATES_PATH}`;
+  }
+
+  get marketDataUrl(): string {
+    return `${this.baseUrl}${MARKET_DATA_PATH}`;
+  }
+
+  sendTradeUpdate(event: string, order: Record<string, unknown>) {
+    this.sendTo(TRADE_UPDATES_PATH, Buffer.from(JSON.stringify({ stream: 'trade_updates', data: { event, order } })));
+  }
+
+  sendMarketData(messages: Record<string, unknown>[]) {
+    this.sendTo(MARKET_DATA_PATH, JSON.stringify(messages));
+  }
+
+  // Drops every client as a network failure would
+  dropConnections() {
+    for (const socket of Array.from(this.clients.keys())) {
+      socket.terminate();
+    }
+  }
+
+  async close() {
+    this.dropConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private get baseUrl(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  private sendTo(path: string, payload: string | Buffer) {
+    for (const [socket, socketPath] of Array.from(this.clients.entries())) {
+      if (socketPath === path && socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      }
+    }
+  }
+
+  private handleTrading(socket: WebSocket, message: any) {
+    if (message.action === 'auth') {
+      const status = message.key === this.acceptKey ? 'authorized' : 'unauthorized';
+      socket.send(Buffer.from(JSON.stringify({ stream: 'authorization', data: { action: 'authenticate', status } })));
+    } else if (message.action === 'listen') {
+      socket.send(Buffer.from(JSON.stringify({ stream: 'listening', data: { streams: message.data.streams } })));
+    }
+  }
+
+  private handleMarketData(socket: WebSocket, message: any) {
+    if (message.action === 'auth') {
+      socket.send(
+        JSON.stringify([
+          message.key === this.acceptKey
+            ? { T: 'success', msg: 'authenticated' }
+            : { T: 'error', code: 402, msg: 'auth failed' },
+        ])
+      );
+      return;
+    }
+    for (const channel of ['quotes', 'bars'] as const) {
+      for (const symbol of message[channel] ?? []) {
+        if (message.action === 'subscribe') this.subscriptions[channel].add(symbol);
+        if (message.action === 'unsubscribe') this.subscriptions[channel].delete(symbol);
+      }
+    }
+    socket.send(
+      JSON.stringify([
+        {
+          T: 'subscription',
+          trades: [],
+          quotes: Array.from(this.subscriptions.quotes),
+          bars: Array.from(this.subscriptions.bars),
+        },
+      ])
+    );
+  }
+}
@@ -0,0 +1,242 @@
+import type { BarRepository } from '../../server/services/bar-store.js';
+import type { StrategyVersionRepository } from '../../server/services/strategy-versions.js';
+import type { FillRecorder, OrderRepository } from '../../server/services/order-lifecycle.js';
+import type { ReconciliationRepository } from '../../server/services/reconciliation.js';
+import { DuplicateFillError } from '../../server/services/order-types.js';
+import type { OrderFilter } from '../../server/storage.js';
+import type {
+  AuditLog,
+  BacktestRun,
+  InsertAuditLog,
+  InsertMarketBar,
+  InsertMarketBarRange,
+  InsertOrder,
+  InsertPosition,
+  InsertReconciliationRun,
+  InsertStrategy,
+  InsertStrategyVersion,
+  MarketBarRange,
+  MarketBarRow,
+  Order,
+  Portfolio,
+  Position,
+  ReconciliationRun,
+  Strategy,
+  StrategyVersion
+} from '../../shared/schema.js';
+
+/**
+ * Same contract as DatabaseStorage and the transaction service, kept in
+ * memory. The tables are public so tests can seed rows and inspect writes.
+ */
+export class MemoryStorage
+  implements BarRepository, StrategyVersionRepository, OrderRepository, ReconciliationRepository, FillRecorder
+{
+  readonly marketBars = new Map<string, MarketBarRow>();
+  readonly marketBarRanges: MarketBarRange[] = [];
+  readonly strategies = new Map<string, Strategy>();
+  readonly strategyVersions = new Map<string, StrategyVersion>();
+  readonly backtestRuns = new Map<string, BacktestRun>();
+  readonly portfolios = new Map<string, Portfolio>();
+  readonly orders = new Map<string, Order>();
+  readonly positions: Position[] = [];
+  readonly executions: { quantity: number; price: number; executionId?: string }[] = [];
+  readonly reconciliationRuns: ReconciliationRun[] = [];
+  readonly auditLogs: AuditLog[] = [];
+  private nextId = 1;
+
+  async getMarketBars(symbol: string, timeframe: string, start: Date, end: Date) {
+    return Array.from(this.marketBars.values())
+      .filter((row) => row.symbol === symbol && row.timeframe === timeframe &&
+        row.timestamp >= start && row.timestamp <= end)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async upsertMarketBars(bars: InsertMarketBar[]) {
+    for (const bar of bars) {
+      const key = `${bar.symbol}|${bar.timeframe}|${bar.timestamp.toISOString()}`;
+      this.marketBars.set(key, { id: key, createdAt: new Date(), ...bar });
+    }
+    return bars.length;
+  }
+
+  async getMarketBarRanges(symbol: string, timeframe: string) {
+    return this.marketBarRanges.filter((range) => range.symbol === symbol && range.timeframe === timeframe);
+  }
+
+  async createMarketBarRange(range: InsertMarketBarRange) {
+    const created = { id: String(this.marketBarRanges.length), createdAt: new Date(), ...range };
+    this.marketBarRanges.push(created);
+    return created;
+  }
+
+  async getStrategy(id: string) {
+    return this.strategies.get(id);
+  }
+
+  async createStrategy(insert: InsertStrategy) {
+    const strategy = {
+      backtestResults: null,
+      confidence: null,
+      status: 'staged',
+      correlationId: null,
+      aiMetadata: null,
+      versionId: null,
+      riskParameters: null,
+      timeframe: '1Day',
+      ...insert,
+      id: `s${this.nextId++}`,
+      createdAt: new Date()
+    } as Strategy;
+    this.strategies.set(strategy.id, strategy);
+    return strategy;
+  }
+
+  async updateStrategy(id: string, updates: Partial<Strategy>) {
+    const strategy = { ...this.strategies.get(id)!, ...updates };
+    this.strategies.set(id, strategy);
+    return strategy;
+  }
+
+  async getStrategyVersions(strategyId: string) {
+    return Array.from(this.strategyVersions.values())
+      .filter((row) => row.strategyId === strategyId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getStrategyVersion(strategyId: string, version: number) {
+    return Array.from(this.strategyVersions.values()).find(
+      (row) => row.strategyId === strategyId && row.version === version
+    );
+  }
+
+  async getStrategyVersionById(id: string) {
+    return this.strategyVersions.get(id);
+  }
+
+  async createStrategyVersion(insert: InsertStrategyVersion) {
+    const row = { reason: null, ...insert, id: `v${this.nextId++}`, createdAt: new Date() } as StrategyVersion;
+    this.strategyVersions.set(row.id, row);
+    return row;
+  }
+
+  async updateStrategyVersion(id: string, updates: Partial<StrategyVersion>) {
+    const row = { ...this.strategyVersions.get(id)!, ...updates };
+    this.strategyVersions.set(id, row);
+    return row;
+  }
+
+  async deleteStrategyVersion(id: string) {
+    this.strategyVersions.delete(id);
+  }
+
+  async getBacktestRun(id: string) {
+    return this.backtestRuns.get(id);
+  }
+
+  async getPortfolioById(id: string) {
+    return this.portfolios.get(id);
+  }
+
+  async updatePortfolio(id: string, updates: Partial<Portfolio>) {
+    return Object.assign(this.portfolios.get(id)!, updates);
+  }
+
+  async getOrders(filter: OrderFilter = {}) {
+    return Array.from(this.orders.values()).filter(
+      (order) =>
+        (!filter.statuses || filter.statuses.includes(order.status)) &&
+        (!filter.parentOrderId || order.parentOrderId === filter.parentOrderId)
+    );
+  }
+
+  async getOrder(id: string) {
+    return this.orders.get(id);
+  }
+
+  async getOrderByBrokerId(broker: string, brokerOrderId: string) {
+    return Array.from(this.orders.values()).find(
+      (order) => order.broker === broker && order.brokerOrderId === brokerOrderId
+    );
+  }
+
+  async createOrder(insert: InsertOrder) {
+    const order = { filledAvgPrice: null, brokerStatus: null, closedAt: null, ...insert, id: `o${this.nextId++}` } as Order;
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  async updateOrder(id: string, updates: Partial<Order>) {
+    const order = { ...this.orders.get(id)!, ...updates };
+    this.orders.set(id, order);
+    return order;
+  }
+
+  async getAllOpenPositions() {
+    return this.positions.filter((row) => row.isOpen);
+  }
+
+  async createPosition(insert: InsertPosition) {
+    const row = {
+      averageEntryPrice: null,
+      currentPrice: null,
+      marketValue: null,
+      unrealizedPnL: null,
+      isOpen: true,
+      entryDate: new Date(),
+      exitDate: null,
+      exitPrice: null,
+      realizedPnL: null,
+      strategyId: null,
+      correlationId: null,
+      ...insert,
+      id: `p${this.nextId++}`
+    } as Position;
+    this.positions.push(row);
+    return row;
+  }
+
+  async updatePosition(id: string, updates: Partial<Position>) {
+    return Object.assign(this.positions.find((row) => row.id === id)!, updates);
+  }
+
+  async createReconciliationRun(insert: InsertReconciliationRun) {
+    const run = { ...insert, id: `run${this.nextId++}`, completedAt: new Date() } as ReconciliationRun;
+    this.reconciliationRuns.push(run);
+    return run;
+  }
+
+  async createAuditLog(log: InsertAuditLog) {
+    this.auditLogs.push(log as AuditLog);
+    return log as AuditLog;
+  }
+
+  async recordOrderFill(...[order, updates, trade, positionFor]: Parameters<FillRecorder['recordOrderFill']>) {
+    if (this.orders.get(order.id)!.filledQuantity !== order.filledQuantity) {
+      throw new DuplicateFillError(order.id);
+    }
+    this.orders.set(order.id, { ...this.orders.get(order.id)!, ...updates });
+    this.executions.push(trade);
+    const open = this.positions.find(
+      (position) => position.portfolioId === trade.portfolioId && position.symbol === trade.symbol && position.isOpen
+    );
+    const position = positionFor(open);
+    if (!position) return;
+    const row = {
+      portfolioId: position.portfolioId,
+      symbol: position.symbol,
+      quantity: position.quantity,
+      entryPrice: position.entryPrice.toString(),
+      averageEntryPrice: position.averageEntryPrice.toString(),
+      realizedPnL: (position.realizedPnL ?? 0).toString(),
+      isOpen: position.exitPrice === undefined,
+      exitPrice: position.exitPrice?.toString() ?? null
+    };
+    const existing = this.positions.find((p) => p.id === position.positionId);
+    if (existing) {
+      Object.assign(existing, row);
+    } else {
+      this.positions.push({ ...row, id: `p${this.nextId++}` } as Position);
+    }
+  }
+}